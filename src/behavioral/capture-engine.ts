@@ -1,4 +1,248 @@
-// Placeholder for BehavioralCaptureEngine implementation
-// Will be implemented in task 2.1
+import {
+  BehavioralCaptureEngine,
+  BehavioralAction,
+  BehavioralMetrics,
+  BehavioralPattern,
+  ContextSnapshot
+} from '../interfaces/behavioral';
+import { KeystrokeTimingAnalyzer, KeystrokeEvent, KeyHashingConfig } from './keystroke-analyzer';
+import { BehavioralMetricsEngine, MetricsStorageConfig } from './metrics-engine';
+import { BehavioralStore } from './storage';
+import { BehavioralSequenceTracker, SequenceConfig, ActionSequence } from './sequence-tracker';
+import { BehavioralPatternAnalyzer, PatternMiningConfig } from './pattern-analyzer';
 
-export {};
\ No newline at end of file
+/**
+ * Behavioral capture engine
+ * Implements requirements 3.1, 3.2 and 6.1
+ */
+
+export type PatternCallback = (pattern: BehavioralPattern) => void;
+
+/**
+ * Capture engine that wires keystroke timing analysis, metrics calculation
+ * and sequence tracking together behind the BehavioralCaptureEngine interface
+ */
+export class BehavioralCaptureEngineImpl implements BehavioralCaptureEngine {
+  private readonly userId: string;
+  private keystrokeAnalyzer: KeystrokeTimingAnalyzer;
+  private metricsEngine: BehavioralMetricsEngine;
+  private sequenceTracker: BehavioralSequenceTracker;
+  private patternAnalyzer: BehavioralPatternAnalyzer;
+  private store: BehavioralStore | null;
+  private patternCallbacks: PatternCallback[] = [];
+  private pendingActions: BehavioralAction[] = [];
+  private patternFrequencies: Map<string, number> = new Map();
+  private lastMetrics: BehavioralMetrics;
+  private lastSequenceId: string | null = null;
+  private completedSequences: number = 0;
+  private sessionStartTimestamp: number | null = null;
+  private capturing: boolean = false;
+  private readonly maxPendingActions: number = 1000;
+
+  constructor(
+    userId: string,
+    sequenceConfig: Partial<SequenceConfig> = {},
+    miningConfig: Partial<PatternMiningConfig> = {},
+    storageConfig: Partial<MetricsStorageConfig> = {},
+    keyHashingConfig: Partial<KeyHashingConfig> = {}
+  ) {
+    this.userId = userId;
+    this.store = storageConfig.store || null;
+    this.keystrokeAnalyzer = new KeystrokeTimingAnalyzer(keyHashingConfig);
+    this.metricsEngine = new BehavioralMetricsEngine(userId, storageConfig);
+    this.patternAnalyzer = new BehavioralPatternAnalyzer(miningConfig);
+    this.sequenceTracker = new BehavioralSequenceTracker(sequenceConfig, this.patternAnalyzer);
+    this.lastMetrics = this.getDefaultMetrics();
+  }
+
+  /**
+   * Starts capturing behavioral data in a fresh metrics session
+   */
+  startCapture(): void {
+    if (this.capturing) return;
+
+    this.capturing = true;
+    this.sessionStartTimestamp = null;
+    this.metricsEngine.startNewSession();
+  }
+
+  /**
+   * Stops capturing; already recorded data remains available
+   */
+  stopCapture(): void {
+    this.capturing = false;
+  }
+
+  /**
+   * Whether the engine currently accepts events
+   */
+  isCapturing(): boolean {
+    return this.capturing;
+  }
+
+  /**
+   * Records a raw keystroke event. The key is hashed by the keystroke
+   * analyzer before the resulting action reaches any other component.
+   */
+  captureKeystroke(event: KeystrokeEvent): void {
+    if (!this.capturing) return;
+
+    this.keystrokeAnalyzer.processKeystroke(event);
+    const actions = this.keystrokeAnalyzer.toBehavioralActions();
+    const action = actions[actions.length - 1];
+
+    if (action) {
+      this.recordAction(action);
+    }
+  }
+
+  /**
+   * Records a non-keystroke action (file switch, code edit, mouse activity...)
+   */
+  captureAction(action: BehavioralAction): void {
+    if (!this.capturing) return;
+    this.recordAction(action);
+  }
+
+  /**
+   * Calculates metrics for the actions captured since the previous call.
+   * Returns the last known metrics when nothing new has been captured.
+   */
+  getBehavioralMetrics(): BehavioralMetrics {
+    if (this.pendingActions.length > 0) {
+      this.lastMetrics = this.metricsEngine.calculateMetrics(this.pendingActions);
+      this.pendingActions = [];
+    }
+
+    return { ...this.lastMetrics, pausePatterns: [...this.lastMetrics.pausePatterns] };
+  }
+
+  /**
+   * Registers a callback invoked for every pattern found in a completed sequence
+   */
+  onPatternDetected(callback: PatternCallback): void {
+    this.patternCallbacks.push(callback);
+  }
+
+  /**
+   * Gets the underlying metrics engine for history and fatigue queries
+   */
+  getMetricsEngine(): BehavioralMetricsEngine {
+    return this.metricsEngine;
+  }
+
+  /**
+   * Gets the underlying sequence tracker for sequence and focus queries
+   */
+  getSequenceTracker(): BehavioralSequenceTracker {
+    return this.sequenceTracker;
+  }
+
+  /**
+   * Gets the underlying pattern analyzer for mined n-gram statistics
+   */
+  getPatternAnalyzer(): BehavioralPatternAnalyzer {
+    return this.patternAnalyzer;
+  }
+
+  /**
+   * Clears all captured data for privacy
+   */
+  clearData(): void {
+    this.keystrokeAnalyzer.clearData();
+    this.metricsEngine.clearAllData();
+    this.sequenceTracker.clearData();
+    this.patternAnalyzer.clearData();
+    this.pendingActions = [];
+    this.patternFrequencies.clear();
+    this.lastMetrics = this.getDefaultMetrics();
+    this.lastSequenceId = null;
+    this.completedSequences = 0;
+    this.sessionStartTimestamp = null;
+  }
+
+  private recordAction(action: BehavioralAction): void {
+    if (this.sessionStartTimestamp === null) {
+      this.sessionStartTimestamp = action.timestamp;
+    }
+
+    this.pendingActions.push(action);
+
+    // Bound memory when metrics are not read regularly
+    if (this.pendingActions.length > this.maxPendingActions) {
+      this.pendingActions.shift();
+    }
+
+    this.sequenceTracker.recordAction(action);
+    this.checkCompletedSequence();
+  }
+
+  private checkCompletedSequence(): void {
+    const [latest] = this.sequenceTracker.getRecentSequences(1);
+    if (!latest || latest.id === this.lastSequenceId) return;
+
+    this.lastSequenceId = latest.id;
+    this.completedSequences++;
+    this.store?.appendSequence(this.userId, latest);
+    this.emitPatterns(latest);
+  }
+
+  private emitPatterns(sequence: ActionSequence): void {
+    const context = this.createContextSnapshot(sequence);
+    // The tracker already fed the sequence to the shared pattern analyzer
+    const minedPatterns = this.patternAnalyzer.getPatternsInSequence(sequence);
+    const minedIds = new Set(minedPatterns.map(pattern => pattern.id));
+
+    sequence.patterns.filter(patternName => !minedIds.has(patternName)).forEach(patternName => {
+      const frequency = (this.patternFrequencies.get(patternName) || 0) + 1;
+      this.patternFrequencies.set(patternName, frequency);
+
+      const pattern: BehavioralPattern = {
+        id: `${this.userId}:${patternName}`,
+        userId: this.userId,
+        timestamp: sequence.endTime,
+        sequence: [...sequence.actions],
+        context: { ...context },
+        frequency,
+        confidence: frequency / this.completedSequences
+      };
+
+      this.notifyPattern(pattern);
+    });
+
+    // Report mined action patterns that recur in this sequence
+    this.patternAnalyzer
+      .toBehavioralPatterns(this.userId, minedPatterns)
+      .forEach(pattern => this.notifyPattern(pattern));
+  }
+
+  private notifyPattern(pattern: BehavioralPattern): void {
+    this.patternCallbacks.forEach(callback => {
+      try {
+        callback(pattern);
+      } catch (error) {
+        // A failing listener must not stop capture or other listeners
+        console.warn('Error in pattern detection callback:', error);
+      }
+    });
+  }
+
+  private createContextSnapshot(sequence: ActionSequence): ContextSnapshot {
+    return {
+      fileType: sequence.context.fileType,
+      projectContext: sequence.context.projectContext,
+      timeOfDay: sequence.startTime.getHours(),
+      sessionDuration: Math.max(0, sequence.endTime.getTime() - (this.sessionStartTimestamp ?? sequence.startTime.getTime()))
+    };
+  }
+
+  private getDefaultMetrics(): BehavioralMetrics {
+    return {
+      typingSpeed: 0,
+      pausePatterns: [0, 0, 0],
+      decisionTime: 0,
+      contextSwitches: 0,
+      fatigueLevel: 0
+    };
+  }
+}
@@ -3,4 +3,5 @@ export * from './capture-engine';
 export * from './pattern-analyzer';
 export * from './keystroke-analyzer';
 export * from './metrics-engine';
-export * from './sequence-tracker';
\ No newline at end of file
+export * from './sequence-tracker';
+export * from './storage';
\ No newline at end of file
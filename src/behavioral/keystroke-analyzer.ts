@@ -1,3 +1,4 @@
+import * as crypto from 'crypto';
 import { BehavioralAction, ActionType } from '../interfaces/behavioral';
 
 /**
@@ -28,6 +29,48 @@ export interface KeystrokeMetrics {
   decisionTime: number;
   rhythmConsistency: number;
   fatigueIndicators: number;
+  dwellTime: number; // mean ms a key is held down
+  flightTime: number; // mean ms from releasing a key to pressing the next; negative with rollover
+}
+
+export interface DigraphStatistics {
+  digraph: string; // hashed keys joined by '>'
+  count: number;
+  meanLatency: number; // ms between the two keydowns
+  stdDevLatency: number;
+}
+
+interface KeyPress {
+  key: string;
+  downTime: number;
+  upTime: number | null;
+}
+
+export type KeyClass = 'letter' | 'digit' | 'whitespace' | 'punctuation' | 'navigation' | 'modifier' | 'other';
+
+export interface KeyHashingConfig {
+  mode: 'hmac' | 'class'; // class mode keeps only the coarse key class
+  secret: string; // HMAC secret; generated locally when empty
+}
+
+const NAVIGATION_KEYS = new Set([
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Home', 'End', 'PageUp', 'PageDown'
+]);
+const MODIFIER_KEYS = new Set(['Shift', 'Control', 'Alt', 'Meta', 'AltGraph', 'CapsLock', 'Fn']);
+const WHITESPACE_KEYS = new Set([' ', 'Spacebar', 'Enter', 'Tab']);
+
+/**
+ * Collapses a key into a coarse class that keeps timing analysis useful
+ * without revealing which key was pressed
+ */
+export function classifyKey(key: string): KeyClass {
+  if (MODIFIER_KEYS.has(key)) return 'modifier';
+  if (NAVIGATION_KEYS.has(key)) return 'navigation';
+  if (WHITESPACE_KEYS.has(key) || /^\s$/.test(key)) return 'whitespace';
+  if (key.length !== 1) return 'other';
+  if (/\p{L}/u.test(key)) return 'letter';
+  if (/\p{N}/u.test(key)) return 'digit';
+  return 'punctuation';
 }
 
 /**
@@ -37,10 +80,19 @@ export interface KeystrokeMetrics {
 export class KeystrokeTimingAnalyzer {
   private keyEvents: KeystrokeEvent[] = [];
   private timingBuffer: number[] = [];
+  private lastKeydownTimestamp: number | null = null;
+  private hashingConfig: KeyHashingConfig;
   private readonly bufferSize: number = 100;
   private readonly pauseThreshold: number = 1000; // ms
   private readonly burstThreshold: number = 100; // ms
 
+  constructor(hashingConfig: Partial<KeyHashingConfig> = {}) {
+    this.hashingConfig = {
+      mode: hashingConfig.mode || 'hmac',
+      secret: hashingConfig.secret || this.generateSecret()
+    };
+  }
+
   /**
    * Processes a keystroke event and extracts timing information
    * Uses privacy-preserving hashing for key identification
@@ -59,15 +111,19 @@ export class KeystrokeTimingAnalyzer {
       this.keyEvents.shift();
     }
 
-    // Update timing buffer for pattern analysis
-    if (this.keyEvents.length > 1) {
-      const interval = event.timestamp - this.keyEvents[this.keyEvents.length - 2].timestamp;
+    // Intervals are measured between key presses only; counting releases
+    // as well would halve every interval
+    if (event.type !== 'keydown') return;
+
+    if (this.lastKeydownTimestamp !== null) {
+      const interval = event.timestamp - this.lastKeydownTimestamp;
       this.timingBuffer.push(interval);
       
       if (this.timingBuffer.length > this.bufferSize) {
         this.timingBuffer.shift();
       }
     }
+    this.lastKeydownTimestamp = event.timestamp;
   }
 
   /**
@@ -102,18 +158,77 @@ export class KeystrokeTimingAnalyzer {
       pausePatterns: this.analyzePausePatterns(),
       decisionTime: this.calculateDecisionTime(),
       rhythmConsistency: this.calculateRhythmConsistency(pattern),
-      fatigueIndicators: this.detectFatigueIndicators(pattern)
+      fatigueIndicators: this.detectFatigueIndicators(pattern),
+      dwellTime: this.calculateMeanOrZero(this.getDwellTimes()),
+      flightTime: this.calculateMeanOrZero(this.getFlightTimes())
     };
   }
 
+  /**
+   * Gets the hold time of every released key press (keydown to keyup of
+   * the same key)
+   */
+  getDwellTimes(): number[] {
+    return this.pairKeyPresses()
+      .filter(press => press.upTime !== null)
+      .map(press => press.upTime! - press.downTime);
+  }
+
+  /**
+   * Gets the time from releasing each key to pressing the next one
+   */
+  getFlightTimes(): number[] {
+    const presses = this.pairKeyPresses();
+    const flights: number[] = [];
+
+    for (let i = 1; i < presses.length; i++) {
+      const previousUp = presses[i - 1].upTime;
+      if (previousUp !== null) {
+        flights.push(presses[i].downTime - previousUp);
+      }
+    }
+
+    return flights;
+  }
+
+  /**
+   * Gets keydown-to-keydown latency statistics for each pair of
+   * consecutive keys, most frequent first
+   */
+  getDigraphStatistics(): DigraphStatistics[] {
+    const presses = this.pairKeyPresses();
+    const latencies = new Map<string, number[]>();
+
+    for (let i = 1; i < presses.length; i++) {
+      const digraph = `${presses[i - 1].key}>${presses[i].key}`;
+      const values = latencies.get(digraph) || [];
+      values.push(presses[i].downTime - presses[i - 1].downTime);
+      latencies.set(digraph, values);
+    }
+
+    return Array.from(latencies.entries())
+      .map(([digraph, values]) => {
+        const meanLatency = this.calculateMean(values);
+        return {
+          digraph,
+          count: values.length,
+          meanLatency,
+          stdDevLatency: Math.sqrt(this.calculateVariance(values, meanLatency))
+        };
+      })
+      .sort((a, b) => b.count - a.count || a.digraph.localeCompare(b.digraph));
+  }
+
   /**
    * Converts keystroke data to behavioral actions
    */
   toBehavioralActions(): BehavioralAction[] {
-    return this.keyEvents.map(event => ({
+    const durations = this.getEventDwellTimes();
+
+    return this.keyEvents.map((event, index) => ({
       type: ActionType.KEYSTROKE,
       timestamp: event.timestamp,
-      duration: 0, // Keystroke duration is typically negligible
+      duration: durations.get(index) || 0, // Dwell time once the key is released
       metadata: {
         hashedKey: event.key,
         modifiers: {
@@ -132,21 +247,90 @@ export class KeystrokeTimingAnalyzer {
   clearData(): void {
     this.keyEvents = [];
     this.timingBuffer = [];
+    this.lastKeydownTimestamp = null;
+  }
+
+  /**
+   * Replaces the HMAC secret. Hashes produced before the rotation cannot be
+   * linked to hashes produced after it.
+   */
+  rotateSecret(secret?: string): void {
+    this.hashingConfig.secret = secret || this.generateSecret();
+  }
+
+  /**
+   * Gets the key hashing mode
+   */
+  getHashingMode(): KeyHashingConfig['mode'] {
+    return this.hashingConfig.mode;
   }
 
   /**
    * Privacy-preserving key hashing
-   * Uses simple hash to identify key patterns without storing actual keys
+   * Keys are identified by a keyed HMAC, so a lookup table built from the
+   * keyboard cannot reverse them without the local secret. In class mode
+   * only the coarse key class is kept.
    */
   private hashKey(key: string): string {
-    // Simple hash for privacy - doesn't store actual key content
-    let hash = 0;
-    for (let i = 0; i < key.length; i++) {
-      const char = key.charCodeAt(i);
-      hash = ((hash << 5) - hash) + char;
-      hash = hash & hash; // Convert to 32-bit integer
+    if (this.hashingConfig.mode === 'class') {
+      return `class_${classifyKey(key)}`;
     }
-    return `key_${Math.abs(hash)}`;
+
+    const digest = crypto.createHmac('sha256', this.hashingConfig.secret).update(key).digest('hex');
+    // 48 bits keep collisions negligible for a keyboard-sized alphabet
+    return `key_${parseInt(digest.slice(0, 12), 16)}`;
+  }
+
+  private pairKeyPresses(): KeyPress[] {
+    return this.matchKeyEvents().presses;
+  }
+
+  /**
+   * Dwell time keyed by event index; both the press and the release of a
+   * key carry the same duration
+   */
+  private getEventDwellTimes(): Map<number, number> {
+    const durations = new Map<number, number>();
+    this.matchKeyEvents().pairs.forEach(([downIndex, upIndex]) => {
+      const dwell = this.keyEvents[upIndex].timestamp - this.keyEvents[downIndex].timestamp;
+      durations.set(downIndex, dwell);
+      durations.set(upIndex, dwell);
+    });
+    return durations;
+  }
+
+  private matchKeyEvents(): { presses: KeyPress[]; pairs: Array<[number, number]> } {
+    const presses: KeyPress[] = [];
+    const pairs: Array<[number, number]> = [];
+    // Auto-repeat sends several keydowns per press; the first one opens it
+    const open = new Map<string, { press: KeyPress; index: number }>();
+
+    this.keyEvents.forEach((event, index) => {
+      if (event.type === 'keydown') {
+        const press: KeyPress = { key: event.key, downTime: event.timestamp, upTime: null };
+        presses.push(press);
+        if (!open.has(event.key)) {
+          open.set(event.key, { press, index });
+        }
+      } else {
+        const pending = open.get(event.key);
+        if (pending) {
+          pending.press.upTime = event.timestamp;
+          pairs.push([pending.index, index]);
+          open.delete(event.key);
+        }
+      }
+    });
+
+    return { presses, pairs };
+  }
+
+  private calculateMeanOrZero(values: number[]): number {
+    return values.length > 0 ? this.calculateMean(values) : 0;
+  }
+
+  private generateSecret(): string {
+    return crypto.randomBytes(32).toString('hex');
   }
 
   private calculateMean(values: number[]): number {
@@ -180,11 +364,12 @@ export class KeystrokeTimingAnalyzer {
   }
 
   private calculateTypingSpeed(): number {
-    if (this.keyEvents.length < 2) return 0;
+    const keydowns = this.keyEvents.filter(event => event.type === 'keydown');
+    if (keydowns.length < 2) return 0;
     
-    const timeSpan = this.keyEvents[this.keyEvents.length - 1].timestamp - this.keyEvents[0].timestamp;
+    const timeSpan = keydowns[keydowns.length - 1].timestamp - keydowns[0].timestamp;
     const minutes = timeSpan / (1000 * 60);
-    const keystrokes = this.keyEvents.length;
+    const keystrokes = keydowns.length;
     
     // Approximate WPM (assuming 5 characters per word)
     return minutes > 0 ? (keystrokes / 5) / minutes : 0;
@@ -1,5 +1,6 @@
 import { BehavioralAction, BehavioralMetrics, ActionType } from '../interfaces/behavioral';
 import { KeystrokeTimingAnalyzer, KeystrokeMetrics } from './keystroke-analyzer';
+import { BehavioralStore, getRetentionCutoff } from './storage';
 
 /**
  * Behavioral metrics calculation engine
@@ -20,6 +21,11 @@ export interface FatigueIndicators {
   overallFatigueScore: number;
 }
 
+export interface MetricsStorageConfig {
+  store: BehavioralStore | null;
+  dataRetentionPeriod: number; // days; 0 keeps data until cleared
+}
+
 export interface PatternStorage {
   userId: string;
   patterns: Map<string, TemporalMetrics[]>;
@@ -33,19 +39,27 @@ export interface PatternStorage {
 export class BehavioralMetricsEngine {
   private keystrokeAnalyzer: KeystrokeTimingAnalyzer;
   private patternStorage: PatternStorage;
+  private storageConfig: MetricsStorageConfig;
   private metricsHistory: TemporalMetrics[] = [];
   private readonly maxHistorySize: number = 1000;
   private readonly sessionTimeoutMs: number = 30 * 60 * 1000; // 30 minutes
   private readonly fatigueWindowSize: number = 10; // Number of metrics to analyze for fatigue
 
-  constructor(userId: string) {
+  constructor(userId: string, storageConfig: Partial<MetricsStorageConfig> = {}) {
     this.keystrokeAnalyzer = new KeystrokeTimingAnalyzer();
+    this.storageConfig = {
+      store: storageConfig.store || null,
+      dataRetentionPeriod: storageConfig.dataRetentionPeriod || 0
+    };
     this.patternStorage = {
       userId,
       patterns: new Map(),
       currentSession: this.generateSessionId(),
       sessionStartTime: new Date()
     };
+
+    this.loadStoredHistory();
+    this.saveCurrentSession();
   }
 
   /**
@@ -149,6 +163,7 @@ export class BehavioralMetricsEngine {
 
     const patternHistory = this.patternStorage.patterns.get(pattern)!;
     patternHistory.push(temporalMetrics);
+    this.storageConfig.store?.appendMetrics(this.patternStorage.userId, temporalMetrics, pattern);
 
     // Maintain storage size limits
     if (patternHistory.length > this.maxHistorySize) {
@@ -157,9 +172,14 @@ export class BehavioralMetricsEngine {
   }
 
   /**
-   * Retrieves patterns within a time range
+   * Retrieves patterns within a time range. With a store attached the query
+   * covers the full persisted history, not only the in-memory window.
    */
   getPatternsByTimeRange(pattern: string, startTime: Date, endTime: Date): TemporalMetrics[] {
+    if (this.storageConfig.store) {
+      return this.storageConfig.store.getMetrics(this.patternStorage.userId, { pattern, startTime, endTime });
+    }
+
     const patternHistory = this.patternStorage.patterns.get(pattern) || [];
     
     return patternHistory.filter(metrics => 
@@ -190,9 +210,49 @@ export class BehavioralMetricsEngine {
    * Starts a new session
    */
   startNewSession(): void {
+    this.storageConfig.store?.saveSession(this.patternStorage.userId, {
+      sessionId: this.patternStorage.currentSession,
+      startTime: this.patternStorage.sessionStartTime,
+      endTime: new Date()
+    });
+
     this.patternStorage.currentSession = this.generateSessionId();
     this.patternStorage.sessionStartTime = new Date();
     this.keystrokeAnalyzer.clearData();
+
+    this.saveCurrentSession();
+    this.pruneExpiredData();
+  }
+
+  /**
+   * Removes data older than the configured retention period from memory
+   * and from the attached store. Returns the number of removed records.
+   */
+  pruneExpiredData(now: Date = new Date()): number {
+    const cutoff = getRetentionCutoff(this.storageConfig.dataRetentionPeriod, now);
+    if (!cutoff) return 0;
+
+    const historySize = this.metricsHistory.length;
+    this.metricsHistory = this.metricsHistory.filter(metrics => metrics.timestamp >= cutoff);
+    let removed = historySize - this.metricsHistory.length;
+
+    this.patternStorage.patterns.forEach((history, pattern) => {
+      const kept = history.filter(metrics => metrics.timestamp >= cutoff);
+      removed += history.length - kept.length;
+
+      if (kept.length > 0) {
+        this.patternStorage.patterns.set(pattern, kept);
+      } else {
+        this.patternStorage.patterns.delete(pattern);
+      }
+    });
+
+    if (this.storageConfig.store) {
+      // The store also holds records beyond the in-memory window
+      removed = this.storageConfig.store.prune(cutoff, this.patternStorage.userId);
+    }
+
+    return removed;
   }
 
   /**
@@ -212,7 +272,11 @@ export class BehavioralMetricsEngine {
     this.metricsHistory = [];
     this.patternStorage.patterns.clear();
     this.keystrokeAnalyzer.clearData();
-    this.startNewSession();
+    this.storageConfig.store?.deleteUser(this.patternStorage.userId);
+
+    this.patternStorage.currentSession = this.generateSessionId();
+    this.patternStorage.sessionStartTime = new Date();
+    this.saveCurrentSession();
   }
 
   /**
@@ -258,6 +322,7 @@ export class BehavioralMetricsEngine {
     };
 
     this.metricsHistory.push(temporalMetrics);
+    this.storageConfig.store?.appendMetrics(this.patternStorage.userId, temporalMetrics);
 
     // Maintain history size
     if (this.metricsHistory.length > this.maxHistorySize) {
@@ -270,6 +335,26 @@ export class BehavioralMetricsEngine {
     }
   }
 
+  private loadStoredHistory(): void {
+    const store = this.storageConfig.store;
+    if (!store) return;
+
+    this.pruneExpiredData();
+
+    const userId = this.patternStorage.userId;
+    this.metricsHistory = store.getMetrics(userId, { limit: this.maxHistorySize });
+    store.getPatternNames(userId).forEach(pattern => {
+      this.patternStorage.patterns.set(pattern, store.getMetrics(userId, { pattern, limit: this.maxHistorySize }));
+    });
+  }
+
+  private saveCurrentSession(): void {
+    this.storageConfig.store?.saveSession(this.patternStorage.userId, {
+      sessionId: this.patternStorage.currentSession,
+      startTime: this.patternStorage.sessionStartTime
+    });
+  }
+
   private countContextSwitches(actions: BehavioralAction[]): number {
     return actions.filter(action => action.type === ActionType.CONTEXT_SWITCH).length;
   }
@@ -1,4 +1,262 @@
-// Placeholder for behavioral pattern analysis
-// Will be implemented in task 2.2
+import { BehavioralAction, BehavioralPattern, ContextSnapshot } from '../interfaces/behavioral';
+import { ActionSequence } from './sequence-tracker';
 
-export {};
\ No newline at end of file
+/**
+ * Frequent action pattern mining over recorded action sequences
+ * Implements requirements 3.2 and 3.3
+ */
+
+export interface PatternMiningConfig {
+  minSupport: number; // minimum number of sequences containing a pattern
+  minLength: number; // shortest reported pattern
+  maxLength: number; // longest mined pattern
+  maxPatterns: number; // maximum number of reported patterns
+  collapseRepeats: boolean; // treat runs of the same action type as one step
+}
+
+export interface MinedPattern {
+  id: string;
+  items: string[];
+  support: number; // sequences containing the pattern
+  frequency: number; // total occurrences across all sequences
+  confidence: number; // P(last item | preceding items)
+  lastSeen: Date;
+  example: BehavioralAction[];
+  context: ContextSnapshot;
+}
+
+interface PatternStatistics {
+  items: string[];
+  support: number;
+  frequency: number;
+  lastSeen: Date;
+  example: BehavioralAction[];
+  context: ContextSnapshot;
+}
+
+interface SequenceStep {
+  item: string;
+  actions: BehavioralAction[];
+}
+
+/**
+ * Mines frequent contiguous action sub-sequences (n-grams) across action
+ * sequences. Counts are maintained incrementally so the analyzer can be fed
+ * one completed sequence at a time.
+ */
+export class BehavioralPatternAnalyzer {
+  private config: PatternMiningConfig;
+  private statistics: Map<string, PatternStatistics> = new Map();
+  private processedSequences: Set<string> = new Set(); // recent ids, only to ignore repeats
+  private sequenceCount: number = 0;
+  private readonly maxProcessedIds: number = 1000;
+  private readonly separator: string = '>';
+
+  constructor(config: Partial<PatternMiningConfig> = {}) {
+    this.config = {
+      minSupport: config.minSupport || 2,
+      minLength: config.minLength || 2,
+      maxLength: config.maxLength || 5,
+      maxPatterns: config.maxPatterns || 50,
+      collapseRepeats: config.collapseRepeats ?? true
+    };
+  }
+
+  /**
+   * Adds a completed sequence to the pattern statistics.
+   * Sequences among the last processed ones are ignored.
+   */
+  addSequence(sequence: ActionSequence): void {
+    if (this.processedSequences.has(sequence.id)) return;
+    this.processedSequences.add(sequence.id);
+    this.sequenceCount++;
+
+    // Sets iterate in insertion order, so the first id is the oldest
+    if (this.processedSequences.size > this.maxProcessedIds) {
+      this.processedSequences.delete(this.processedSequences.values().next().value as string);
+    }
+
+    const steps = this.toSteps(sequence.actions);
+    const seenInSequence = new Set<string>();
+
+    // Length-1 patterns are always counted because they are the prefixes
+    // needed for the confidence of length-2 patterns
+    for (let start = 0; start < steps.length; start++) {
+      for (let length = 1; length <= this.config.maxLength && start + length <= steps.length; length++) {
+        const window = steps.slice(start, start + length);
+        const items = window.map(step => step.item);
+        const key = this.toKey(items);
+
+        let stats = this.statistics.get(key);
+        if (!stats) {
+          stats = {
+            items,
+            support: 0,
+            frequency: 0,
+            lastSeen: sequence.endTime,
+            example: [],
+            context: sequence.context
+          };
+          this.statistics.set(key, stats);
+        }
+
+        stats.frequency++;
+        if (!seenInSequence.has(key)) {
+          seenInSequence.add(key);
+          stats.support++;
+        }
+
+        stats.lastSeen = sequence.endTime;
+        stats.context = sequence.context;
+        stats.example = window.reduce<BehavioralAction[]>((actions, step) => actions.concat(step.actions), []);
+      }
+    }
+  }
+
+  /**
+   * Adds several sequences and returns the resulting frequent patterns
+   */
+  analyzeSequences(sequences: ActionSequence[]): MinedPattern[] {
+    sequences.forEach(sequence => this.addSequence(sequence));
+    return this.getFrequentPatterns();
+  }
+
+  /**
+   * Gets patterns meeting the configured support and length limits,
+   * ordered by support, then confidence, then pattern id
+   */
+  getFrequentPatterns(): MinedPattern[] {
+    const patterns: MinedPattern[] = [];
+
+    this.statistics.forEach(stats => {
+      if (stats.items.length < this.config.minLength) return;
+      if (stats.support < this.config.minSupport) return;
+      patterns.push(this.toMinedPattern(stats));
+    });
+
+    return patterns
+      .sort((a, b) =>
+        b.support - a.support ||
+        b.confidence - a.confidence ||
+        a.id.localeCompare(b.id)
+      )
+      .slice(0, this.config.maxPatterns);
+  }
+
+  /**
+   * Gets frequent patterns occurring in the given sequence
+   */
+  getPatternsInSequence(sequence: ActionSequence): MinedPattern[] {
+    const itemKey = this.toKey(this.toSteps(sequence.actions).map(step => step.item));
+
+    return this.getFrequentPatterns().filter(pattern =>
+      this.containsKey(itemKey, this.toKey(pattern.items))
+    );
+  }
+
+  /**
+   * Gets statistics for a specific pattern, even if it is not frequent yet
+   */
+  getPattern(items: string[]): MinedPattern | null {
+    const stats = this.statistics.get(this.toKey(items));
+    return stats ? this.toMinedPattern(stats) : null;
+  }
+
+  /**
+   * Converts frequent patterns into behavioral pattern records
+   */
+  toBehavioralPatterns(userId: string, patterns: MinedPattern[] = this.getFrequentPatterns()): BehavioralPattern[] {
+    return patterns.map(pattern => ({
+      id: pattern.id,
+      userId,
+      timestamp: pattern.lastSeen,
+      sequence: [...pattern.example],
+      context: { ...pattern.context },
+      frequency: pattern.frequency,
+      confidence: pattern.confidence
+    }));
+  }
+
+  /**
+   * Builds the stable identifier used for a pattern
+   */
+  getPatternId(items: string[]): string {
+    // FNV-1a gives ids that are stable across runs and processes
+    const key = this.toKey(items);
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < key.length; i++) {
+      hash ^= key.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return `pattern_${(hash >>> 0).toString(16).padStart(8, '0')}`;
+  }
+
+  /**
+   * Gets the number of sequences analyzed so far
+   */
+  getSequenceCount(): number {
+    return this.sequenceCount;
+  }
+
+  /**
+   * Clears all mined statistics
+   */
+  clearData(): void {
+    this.statistics.clear();
+    this.processedSequences.clear();
+    this.sequenceCount = 0;
+  }
+
+  /**
+   * Gets current configuration
+   */
+  getConfig(): PatternMiningConfig {
+    return { ...this.config };
+  }
+
+  private toSteps(actions: BehavioralAction[]): SequenceStep[] {
+    const steps: SequenceStep[] = [];
+
+    actions.forEach(action => {
+      const previous = steps[steps.length - 1];
+      if (this.config.collapseRepeats && previous && previous.item === action.type) {
+        previous.actions.push(action);
+      } else {
+        steps.push({ item: action.type, actions: [action] });
+      }
+    });
+
+    return steps;
+  }
+
+  private toMinedPattern(stats: PatternStatistics): MinedPattern {
+    return {
+      id: this.getPatternId(stats.items),
+      items: [...stats.items],
+      support: stats.support,
+      frequency: stats.frequency,
+      confidence: this.calculateConfidence(stats),
+      lastSeen: stats.lastSeen,
+      example: [...stats.example],
+      context: { ...stats.context }
+    };
+  }
+
+  private calculateConfidence(stats: PatternStatistics): number {
+    if (stats.items.length === 1) {
+      return this.sequenceCount > 0 ? stats.support / this.sequenceCount : 0;
+    }
+
+    const prefix = this.statistics.get(this.toKey(stats.items.slice(0, -1)));
+    return prefix && prefix.frequency > 0 ? Math.min(1, stats.frequency / prefix.frequency) : 0;
+  }
+
+  private containsKey(sequenceKey: string, patternKey: string): boolean {
+    const wrappedSequence = `${this.separator}${sequenceKey}${this.separator}`;
+    return wrappedSequence.includes(`${this.separator}${patternKey}${this.separator}`);
+  }
+
+  private toKey(items: string[]): string {
+    return items.join(this.separator);
+  }
+}
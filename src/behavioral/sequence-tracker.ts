@@ -1,4 +1,5 @@
 import { BehavioralAction, BehavioralPattern, ActionType, ContextSnapshot } from '../interfaces/behavioral';
+import { BehavioralPatternAnalyzer } from './pattern-analyzer';
 
 /**
  * Behavioral sequence tracking system
@@ -59,6 +60,7 @@ export interface PatternChangeEvent {
  */
 export class BehavioralSequenceTracker {
   private config: SequenceConfig;
+  private patternAnalyzer: BehavioralPatternAnalyzer;
   private actionBuffer: BehavioralAction[] = [];
   private sequences: ActionSequence[] = [];
   private contextSwitches: ContextSwitch[] = [];
@@ -71,7 +73,8 @@ export class BehavioralSequenceTracker {
   private readonly maxContextSwitches: number = 500;
   private sequenceIdCounter: number = 0;
 
-  constructor(config: Partial<SequenceConfig> = {}) {
+  constructor(config: Partial<SequenceConfig> = {}, patternAnalyzer: BehavioralPatternAnalyzer = new BehavioralPatternAnalyzer()) {
+    this.patternAnalyzer = patternAnalyzer;
     this.config = {
       bufferSize: config.bufferSize || 50,
       contextSwitchThreshold: config.contextSwitchThreshold || 2000, // 2 seconds
@@ -306,6 +309,8 @@ export class BehavioralSequenceTracker {
     this.currentContext = '';
     this.lastActivityTime = new Date();
     this.sequenceIdCounter = 0;
+    // Sequence ids restart, so the analyzer must forget the old ones
+    this.patternAnalyzer.clearData();
   }
 
   /**
@@ -397,8 +402,10 @@ export class BehavioralSequenceTracker {
       startTime: new Date(this.actionBuffer[0].timestamp),
       endTime: new Date(this.actionBuffer[this.actionBuffer.length - 1].timestamp),
       context: this.createContextSnapshot(),
-      patterns: this.extractSequencePatterns(this.actionBuffer)
+      patterns: []
     };
+    this.patternAnalyzer.addSequence(sequence);
+    sequence.patterns = this.extractSequencePatterns(sequence);
 
     this.sequences.push(sequence);
 
@@ -420,13 +427,11 @@ export class BehavioralSequenceTracker {
     };
   }
 
-  private extractSequencePatterns(actions: BehavioralAction[]): string[] {
-    const patterns: string[] = [];
+  private extractSequencePatterns(sequence: ActionSequence): string[] {
+    const { actions } = sequence;
 
-    // Analyze action type patterns
-    const actionTypes = actions.map(a => a.type);
-    const typePattern = this.findActionTypePattern(actionTypes);
-    if (typePattern) patterns.push(typePattern);
+    // Action type patterns are the ids of mined patterns recurring in this sequence
+    const patterns = this.patternAnalyzer.getPatternsInSequence(sequence).map(pattern => pattern.id);
 
     // Analyze timing patterns
     const timingPattern = this.findTimingPattern(actions);
@@ -439,23 +444,6 @@ export class BehavioralSequenceTracker {
     return patterns;
   }
 
-  private findActionTypePattern(actionTypes: ActionType[]): string | null {
-    // Simple pattern detection - could be enhanced with more sophisticated algorithms
-    const typeSequence = actionTypes.join(',');
-    
-    if (typeSequence.includes('keystroke,keystroke,keystroke')) {
-      return 'continuous_typing';
-    }
-    if (typeSequence.includes('context_switch,keystroke')) {
-      return 'switch_and_type';
-    }
-    if (typeSequence.includes('file_switch,code_edit')) {
-      return 'file_navigation';
-    }
-    
-    return null;
-  }
-
   private findTimingPattern(actions: BehavioralAction[]): string | null {
     if (actions.length < 3) return null;
 
@@ -0,0 +1,355 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TemporalMetrics } from './metrics-engine';
+import { ActionSequence } from './sequence-tracker';
+
+/**
+ * Pluggable persistence for behavioral history
+ * Implements requirements 3.1, 3.2 and 6.2
+ */
+
+export interface SessionRecord {
+  sessionId: string;
+  startTime: Date;
+  endTime?: Date;
+}
+
+export interface HistoryRange {
+  startTime?: Date;
+  endTime?: Date;
+}
+
+export interface MetricsQuery extends HistoryRange {
+  pattern?: string; // omit for the general metrics history
+  limit?: number; // most recent entries only
+}
+
+/**
+ * Storage backend for per-user behavioral history. Metrics recorded under a
+ * pattern name are kept separately from the general metrics history.
+ */
+export interface BehavioralStore {
+  appendMetrics(userId: string, metrics: TemporalMetrics, pattern?: string): void;
+  getMetrics(userId: string, query?: MetricsQuery): TemporalMetrics[];
+  getPatternNames(userId: string): string[];
+  saveSession(userId: string, session: SessionRecord): void;
+  getSessions(userId: string, range?: HistoryRange): SessionRecord[];
+  appendSequence(userId: string, sequence: ActionSequence): void;
+  getSequences(userId: string, range?: HistoryRange): ActionSequence[];
+  prune(olderThan: Date, userId?: string): number;
+  deleteUser(userId: string): void;
+}
+
+interface StoredMetrics {
+  pattern: string | null;
+  metrics: TemporalMetrics;
+}
+
+interface UserRecords {
+  metrics: StoredMetrics[];
+  sessions: SessionRecord[];
+  sequences: ActionSequence[];
+}
+
+/**
+ * Converts a retention period in days into the cutoff before which data
+ * expires. A period of zero or less keeps data forever.
+ */
+export function getRetentionCutoff(retentionPeriodDays: number, now: Date = new Date()): Date | null {
+  if (!(retentionPeriodDays > 0)) return null;
+  return new Date(now.getTime() - retentionPeriodDays * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Store that keeps behavioral history in process memory
+ */
+export class InMemoryBehavioralStore implements BehavioralStore {
+  protected users: Map<string, UserRecords> = new Map();
+
+  /**
+   * Appends metrics to the history, optionally under a pattern name
+   */
+  appendMetrics(userId: string, metrics: TemporalMetrics, pattern?: string): void {
+    this.getRecords(userId).metrics.push({ pattern: pattern ?? null, metrics });
+  }
+
+  /**
+   * Gets metrics in chronological order matching the query
+   */
+  getMetrics(userId: string, query: MetricsQuery = {}): TemporalMetrics[] {
+    const pattern = query.pattern ?? null;
+    const matching = this.getRecords(userId).metrics
+      .filter(entry => entry.pattern === pattern && this.isInRange(entry.metrics.timestamp, query))
+      .map(entry => entry.metrics)
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    return query.limit ? matching.slice(-query.limit) : matching;
+  }
+
+  /**
+   * Gets the names of patterns that have stored metrics
+   */
+  getPatternNames(userId: string): string[] {
+    const names = new Set<string>();
+    this.getRecords(userId).metrics.forEach(entry => {
+      if (entry.pattern !== null) names.add(entry.pattern);
+    });
+    return Array.from(names);
+  }
+
+  /**
+   * Creates or updates a session record
+   */
+  saveSession(userId: string, session: SessionRecord): void {
+    const sessions = this.getRecords(userId).sessions;
+    const index = sessions.findIndex(existing => existing.sessionId === session.sessionId);
+
+    if (index >= 0) {
+      sessions[index] = session;
+    } else {
+      sessions.push(session);
+    }
+  }
+
+  /**
+   * Gets sessions that started within a time range
+   */
+  getSessions(userId: string, range: HistoryRange = {}): SessionRecord[] {
+    return this.getRecords(userId).sessions.filter(session => this.isInRange(session.startTime, range));
+  }
+
+  /**
+   * Appends a completed action sequence
+   */
+  appendSequence(userId: string, sequence: ActionSequence): void {
+    this.getRecords(userId).sequences.push(sequence);
+  }
+
+  /**
+   * Gets sequences that started within a time range
+   */
+  getSequences(userId: string, range: HistoryRange = {}): ActionSequence[] {
+    return this.getRecords(userId).sequences.filter(sequence => this.isInRange(sequence.startTime, range));
+  }
+
+  /**
+   * Removes data recorded before a cutoff, for one user or all users.
+   * Returns the number of removed records.
+   */
+  prune(olderThan: Date, userId?: string): number {
+    const userIds = userId ? [userId] : Array.from(this.users.keys());
+    let removed = 0;
+
+    userIds.forEach(id => {
+      const records = this.users.get(id);
+      if (!records) return;
+
+      const kept = this.pruneRecords(records, olderThan);
+      removed += this.countRecords(records) - this.countRecords(kept);
+      this.users.set(id, kept);
+    });
+
+    return removed;
+  }
+
+  /**
+   * Removes all data for a user
+   */
+  deleteUser(userId: string): void {
+    this.users.delete(userId);
+  }
+
+  protected getRecords(userId: string): UserRecords {
+    let records = this.users.get(userId);
+    if (!records) {
+      records = { metrics: [], sessions: [], sequences: [] };
+      this.users.set(userId, records);
+    }
+    return records;
+  }
+
+  protected pruneRecords(records: UserRecords, olderThan: Date): UserRecords {
+    return {
+      metrics: records.metrics.filter(entry => entry.metrics.timestamp >= olderThan),
+      // Sessions expire once they have ended before the cutoff; sessions never
+      // closed, e.g. by a process that crashed, expire by their start
+      sessions: records.sessions.filter(session => (session.endTime || session.startTime) >= olderThan),
+      sequences: records.sequences.filter(sequence => sequence.endTime >= olderThan)
+    };
+  }
+
+  protected countRecords(records: UserRecords): number {
+    return records.metrics.length + records.sessions.length + records.sequences.length;
+  }
+
+  private isInRange(timestamp: Date, range: HistoryRange): boolean {
+    return (!range.startTime || timestamp >= range.startTime) &&
+      (!range.endTime || timestamp <= range.endTime);
+  }
+}
+
+/**
+ * Store that persists behavioral history as JSON-lines files, one directory
+ * per user. Records are appended as they arrive, so history survives
+ * restarts; pruning rewrites the affected files.
+ */
+export class JsonLinesBehavioralStore extends InMemoryBehavioralStore {
+  private readonly directory: string;
+  private loadedUsers: Set<string> = new Set();
+
+  constructor(directory: string) {
+    super();
+    this.directory = directory;
+  }
+
+  /**
+   * Appends metrics to memory and to the user's metrics file
+   */
+  appendMetrics(userId: string, metrics: TemporalMetrics, pattern?: string): void {
+    super.appendMetrics(userId, metrics, pattern);
+    this.appendLine(userId, 'metrics', { pattern: pattern ?? null, metrics });
+  }
+
+  /**
+   * Creates or updates a session; the latest line for a session id wins
+   */
+  saveSession(userId: string, session: SessionRecord): void {
+    super.saveSession(userId, session);
+    this.appendLine(userId, 'sessions', session);
+  }
+
+  /**
+   * Appends a completed sequence to memory and to the user's sequences file
+   */
+  appendSequence(userId: string, sequence: ActionSequence): void {
+    super.appendSequence(userId, sequence);
+    this.appendLine(userId, 'sequences', sequence);
+  }
+
+  /**
+   * Removes expired records and rewrites the files of affected users
+   */
+  prune(olderThan: Date, userId?: string): number {
+    if (userId) {
+      this.getRecords(userId);
+    } else {
+      this.listStoredUsers().forEach(id => this.getRecords(id));
+    }
+
+    const removed = super.prune(olderThan, userId);
+    if (removed > 0) {
+      const userIds = userId ? [userId] : Array.from(this.users.keys());
+      userIds.forEach(id => this.rewriteFiles(id));
+    }
+
+    return removed;
+  }
+
+  /**
+   * Removes all data for a user, including files on disk
+   */
+  deleteUser(userId: string): void {
+    const userDirectory = this.getUserDirectory(userId);
+    super.deleteUser(userId);
+    this.loadedUsers.delete(userId);
+
+    const relative = path.relative(path.resolve(this.directory), path.resolve(userDirectory));
+    if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+      throw new Error(`User directory is outside the store: ${userDirectory}`);
+    }
+    if (fs.existsSync(userDirectory)) {
+      fs.rmSync(userDirectory, { recursive: true, force: true });
+    }
+  }
+
+  protected getRecords(userId: string): UserRecords {
+    if (!this.loadedUsers.has(userId)) {
+      this.users.set(userId, this.loadRecords(userId));
+      this.loadedUsers.add(userId);
+    }
+    return super.getRecords(userId);
+  }
+
+  private loadRecords(userId: string): UserRecords {
+    const sessions = new Map<string, SessionRecord>();
+    this.readLines(userId, 'sessions').forEach(line => {
+      const session: SessionRecord = {
+        sessionId: line.sessionId,
+        startTime: new Date(line.startTime),
+        endTime: line.endTime ? new Date(line.endTime) : undefined
+      };
+      sessions.set(session.sessionId, session);
+    });
+
+    return {
+      metrics: this.readLines(userId, 'metrics').map(line => ({
+        pattern: line.pattern ?? null,
+        metrics: { ...line.metrics, timestamp: new Date(line.metrics.timestamp) }
+      })),
+      sessions: Array.from(sessions.values()),
+      sequences: this.readLines(userId, 'sequences').map(line => ({
+        ...line,
+        startTime: new Date(line.startTime),
+        endTime: new Date(line.endTime)
+      }))
+    };
+  }
+
+  private readLines(userId: string, kind: keyof UserRecords): any[] {
+    const filePath = this.getFilePath(userId, kind);
+    if (!fs.existsSync(filePath)) return [];
+
+    const records: any[] = [];
+    fs.readFileSync(filePath, 'utf-8').split('\n').forEach(line => {
+      if (!line.trim()) return;
+      try {
+        records.push(JSON.parse(line));
+      } catch (error) {
+        // A partially written last line must not make the whole history unreadable
+        console.warn(`Error reading behavioral record from ${filePath}:`, error);
+      }
+    });
+
+    return records;
+  }
+
+  private appendLine(userId: string, kind: keyof UserRecords, record: unknown): void {
+    fs.mkdirSync(this.getUserDirectory(userId), { recursive: true });
+    fs.appendFileSync(this.getFilePath(userId, kind), JSON.stringify(record) + '\n');
+  }
+
+  private rewriteFiles(userId: string): void {
+    const records = this.users.get(userId);
+    if (!records) return;
+
+    fs.mkdirSync(this.getUserDirectory(userId), { recursive: true });
+    (Object.keys(records) as Array<keyof UserRecords>).forEach(kind => {
+      const lines = (records[kind] as unknown[]).map(record => JSON.stringify(record) + '\n');
+      const filePath = this.getFilePath(userId, kind);
+
+      // Write to a temporary file first so a crash cannot truncate history
+      fs.writeFileSync(`${filePath}.tmp`, lines.join(''));
+      fs.renameSync(`${filePath}.tmp`, filePath);
+    });
+  }
+
+  private listStoredUsers(): string[] {
+    if (!fs.existsSync(this.directory)) return [];
+
+    return fs.readdirSync(this.directory, { withFileTypes: true })
+      .filter(entry => entry.isDirectory())
+      .map(entry => decodeURIComponent(entry.name));
+  }
+
+  private getUserDirectory(userId: string): string {
+    // URI encoding keeps `.` and `..`, which would name the store or its parent
+    if (/^\.*$/.test(userId)) {
+      throw new Error(`Invalid user id: ${JSON.stringify(userId)}`);
+    }
+    return path.join(this.directory, encodeURIComponent(userId));
+  }
+
+  private getFilePath(userId: string, kind: keyof UserRecords): string {
+    return path.join(this.getUserDirectory(userId), `${kind}.jsonl`);
+  }
+}
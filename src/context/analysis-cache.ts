@@ -0,0 +1,159 @@
+import * as crypto from 'crypto';
+import * as path from 'path';
+import { CodeContext, DependencyGraph } from '../interfaces/context';
+
+/**
+ * Per-file cache of code context analyses
+ * Implements requirements 2.1 and 2.2
+ *
+ * Entries are keyed by resolved path and remember the hash of the content
+ * they were computed from; a lookup with a different hash drops the entry.
+ * The cache is bounded by entry count and by the total size of the cached
+ * sources (a proxy for the size of their ASTs), evicting least recently
+ * used entries first.
+ */
+
+export interface AnalysisCacheConfig {
+  maxEntries: number;
+  maxSourceBytes: number;
+}
+
+export interface CachedAnalysis {
+  filePath: string;
+  contentHash: string;
+  sourceBytes: number;
+  context: CodeContext;
+  dependencyGraph: DependencyGraph;
+}
+
+export interface AnalysisCacheStats {
+  entries: number;
+  sourceBytes: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+}
+
+/**
+ * Hashes file content for cache validation
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+/**
+ * LRU cache of file analyses
+ */
+export class AnalysisCache {
+  private config: AnalysisCacheConfig;
+  // Map iteration order is insertion order, so the first entry is the least recently used
+  private entries: Map<string, CachedAnalysis> = new Map();
+  private sourceBytes = 0;
+  private hits = 0;
+  private misses = 0;
+  private evictions = 0;
+
+  constructor(config: Partial<AnalysisCacheConfig> = {}) {
+    this.config = {
+      maxEntries: config.maxEntries || 200,
+      maxSourceBytes: config.maxSourceBytes || 16 * 1024 * 1024
+    };
+  }
+
+  /**
+   * Gets the analysis of a file. With a content hash, an entry computed
+   * from other content is stale and is removed.
+   */
+  get(filePath: string, contentHash?: string): CachedAnalysis | undefined {
+    const key = this.toKey(filePath);
+    const entry = this.entries.get(key);
+
+    if (!entry || (contentHash !== undefined && entry.contentHash !== contentHash)) {
+      if (entry) this.invalidate(key);
+      this.misses++;
+      return undefined;
+    }
+
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry;
+  }
+
+  /**
+   * Gets the analysis of a file without counting a lookup or refreshing its recency
+   */
+  peek(filePath: string): CachedAnalysis | undefined {
+    return this.entries.get(this.toKey(filePath));
+  }
+
+  /**
+   * Stores the analysis of a file, evicting least recently used entries
+   * while the cache is over its bounds. A source larger than the byte bound
+   * is not cached.
+   */
+  set(filePath: string, content: string, context: CodeContext, dependencyGraph: DependencyGraph): CachedAnalysis {
+    const key = this.toKey(filePath);
+    const entry: CachedAnalysis = {
+      filePath: key,
+      contentHash: hashContent(content),
+      sourceBytes: Buffer.byteLength(content),
+      context,
+      dependencyGraph
+    };
+
+    this.invalidate(key);
+    if (entry.sourceBytes > this.config.maxSourceBytes) {
+      return entry;
+    }
+
+    this.entries.set(key, entry);
+    this.sourceBytes += entry.sourceBytes;
+
+    while (this.entries.size > this.config.maxEntries || this.sourceBytes > this.config.maxSourceBytes) {
+      const oldest = this.entries.keys().next().value as string;
+      this.invalidate(oldest);
+      this.evictions++;
+    }
+
+    return entry;
+  }
+
+  /**
+   * Removes the analysis of a file, e.g. when it changed on disk
+   */
+  invalidate(filePath: string): boolean {
+    const key = this.toKey(filePath);
+    const entry = this.entries.get(key);
+    if (!entry) return false;
+
+    this.entries.delete(key);
+    this.sourceBytes -= entry.sourceBytes;
+    return true;
+  }
+
+  /**
+   * Removes every cached analysis
+   */
+  clear(): void {
+    this.entries.clear();
+    this.sourceBytes = 0;
+  }
+
+  /**
+   * Gets cache occupancy and hit statistics
+   */
+  getStats(): AnalysisCacheStats {
+    return {
+      entries: this.entries.size,
+      sourceBytes: this.sourceBytes,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions
+    };
+  }
+
+  private toKey(filePath: string): string {
+    return path.resolve(filePath);
+  }
+}
@@ -0,0 +1,22 @@
+import { parentPort, workerData } from 'worker_threads';
+import { CodeContextAnalyzerImpl } from './analyzer';
+import { FileAnalyzerConfig, measureFileQuality } from './project-quality';
+
+/**
+ * Worker thread entry of FileAnalysisPool
+ *
+ * Each worker runs its own analyzer, built from the pool's FileAnalyzerConfig,
+ * measures one file per message and posts back the result or the error
+ * message.
+ */
+
+const config: FileAnalyzerConfig = workerData || {};
+const analyzer = new CodeContextAnalyzerImpl(config.parserOptions, config.semanticConfig, {}, config.coverageConfig);
+
+parentPort?.on('message', async (filePath: string) => {
+  try {
+    parentPort!.postMessage({ result: await measureFileQuality(analyzer, filePath) });
+  } catch (error) {
+    parentPort!.postMessage({ error: error instanceof Error ? error.message : String(error) });
+  }
+});
@@ -1,9 +1,22 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { CodeContextAnalyzer, CodeContext, ProjectContext, SymbolTable, DependencyGraph, StyleProfile, Dependency } from '../interfaces/context';
+import { CodeContextAnalyzer, CodeContext, CursorContext, ProjectContext, SymbolTable, DependencyGraph, DependencyNode, StyleProfile, Dependency, SourcePosition, ProjectQualityReport, FileComplexity, FileMaintainability } from '../interfaces/context';
 import { ArchitecturalPattern, QualityMetrics } from '../interfaces/common';
 import { MultiLanguageASTParser } from './ast-parser';
 import { SymbolAnalyzer } from './symbol-analyzer';
+import { detectLanguage, isCodeFile } from './language';
+import { ASTParserOptions } from './ast-metadata';
+import { SemanticAnalyzerConfig, TypeScriptSemanticAnalyzer } from './semantic-analyzer';
+import { ProjectDependencyGraph, ProjectDependencyGraphBuilder } from './project-graph';
+import { AnalysisCache, AnalysisCacheConfig, CachedAnalysis, hashContent } from './analysis-cache';
+import { StyleInferrer, defaultStyleProfile } from './style-inferrer';
+import { ProjectQualityAnalyzer, aggregateQuality } from './project-quality';
+import { CoverageConfig, CoverageIngestor, mapCoverage } from './coverage';
+import { ComplexityAnalyzer } from './complexity';
+import { MaintainabilityAnalyzer } from './maintainability';
+
+// Smallest subtree, in AST nodes, reported as duplicated code
+const MIN_DUPLICATE_NODES = 30;
 
 /**
  * Main code context analyzer that combines AST parsing, symbol analysis, and project analysis
@@ -12,84 +25,263 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
   private astParser: MultiLanguageASTParser;
   private symbolAnalyzer: SymbolAnalyzer;
   private projectAnalyzer: ProjectAnalyzer;
+  private semanticAnalyzer: TypeScriptSemanticAnalyzer | null;
+  private graphBuilder: ProjectDependencyGraphBuilder;
+  private projectGraph: ProjectDependencyGraph | null = null;
+  private analysisCache: AnalysisCache;
+  private coverageIngestor: CoverageIngestor;
+  private complexityAnalyzer: ComplexityAnalyzer;
+  private maintainabilityAnalyzer: MaintainabilityAnalyzer;
+  private currentFile: string | null = null;
 
-  constructor() {
-    this.astParser = new MultiLanguageASTParser();
+  /**
+   * Passing a semantic configuration enables type-checker backed symbol
+   * information for TypeScript and JavaScript files
+   */
+  constructor(
+    parserOptions: Partial<ASTParserOptions> = {},
+    semanticConfig?: Partial<SemanticAnalyzerConfig>,
+    cacheConfig: Partial<AnalysisCacheConfig> = {},
+    coverageConfig: Partial<CoverageConfig> = {}
+  ) {
+    this.astParser = new MultiLanguageASTParser(parserOptions);
     this.symbolAnalyzer = new SymbolAnalyzer();
-    this.projectAnalyzer = new ProjectAnalyzer();
+    this.semanticAnalyzer = semanticConfig ? new TypeScriptSemanticAnalyzer(semanticConfig) : null;
+    this.graphBuilder = new ProjectDependencyGraphBuilder({}, this.astParser, this.symbolAnalyzer);
+    this.analysisCache = new AnalysisCache(cacheConfig);
+    this.coverageIngestor = new CoverageIngestor(coverageConfig);
+    this.complexityAnalyzer = new ComplexityAnalyzer();
+    this.maintainabilityAnalyzer = new MaintainabilityAnalyzer();
+    this.projectAnalyzer = new ProjectAnalyzer(
+      new StyleInferrer({}, this.astParser, this.symbolAnalyzer),
+      new ProjectQualityAnalyzer(null, { analyzerConfig: { parserOptions, semanticConfig, coverageConfig } })
+    );
   }
 
   /**
-   * Analyze a single file and return code context
+   * Analyze a single file and return code context. The analysis is cached
+   * until the file's content changes; the analyzed file becomes the current
+   * file of getSymbolTable and getDependencyGraph. Coverage comes from the
+   * latest reports of the file's project, also for cached analyses, and is
+   * attached to a copy so the cached context stays as analyzed.
    */
   async analyzeFile(filePath: string): Promise<CodeContext> {
-    const ast = await this.astParser.parseFile(filePath);
+    if (!isCodeFile(filePath)) {
+      throw new Error(`Cannot detect language for file: ${filePath}`);
+    }
+
+    const content = fs.readFileSync(filePath, 'utf-8');
+    const cached = this.analysisCache.get(filePath, hashContent(content));
+    if (cached) {
+      this.currentFile = filePath;
+      return this.applyCoverage(filePath, cached.context);
+    }
+
     const language = this.detectLanguage(filePath);
+    const ast = await this.astParser.parseCode(content, language, filePath);
     const symbols = this.symbolAnalyzer.analyzeSymbols(ast, language);
+    if (this.semanticAnalyzer && language !== 'python') {
+      this.annotateSemantics(symbols, filePath);
+    }
     const dependencyGraph = this.symbolAnalyzer.buildDependencyGraph(symbols, ast);
     
-    // Get current scope info (simplified - would be cursor position in real implementation)
+    // Without a cursor the file is seen from its global scope; see analyzeFileAt
     const scope = symbols.scopes.find(s => s.id === 'global') || symbols.scopes[0];
     
     // Detect architectural patterns in the file
     const patterns = this.detectFilePatterns(ast, language);
     
-    // Calculate quality metrics
-    const quality = this.calculateQualityMetrics(ast, symbols);
+    // Calculate per-function complexity, maintainability and quality metrics
+    const complexity = this.complexityAnalyzer.analyze(ast);
+    const maintainability = this.maintainabilityAnalyzer.analyze(ast, content, complexity);
+    const quality = this.calculateQualityMetrics(ast, complexity, maintainability);
 
-    return {
+    const context: CodeContext = {
       ast,
       symbols,
       scope,
       patterns,
-      quality
+      quality,
+      complexity,
+      maintainability
     };
+    this.analysisCache.set(filePath, content, context, dependencyGraph);
+    this.currentFile = filePath;
+
+    return this.applyCoverage(filePath, context);
   }
 
   /**
-   * Analyze entire project and return project context
+   * Analyze a file as seen from a cursor position, given as a 1-based
+   * line/column or as a character offset into the file
+   */
+  async analyzeFileAt(filePath: string, position: SourcePosition | number): Promise<CursorContext> {
+    const context = await this.analyzeFile(filePath);
+    const cursor = typeof position === 'number'
+      ? this.offsetToPosition(fs.readFileSync(filePath, 'utf-8'), position)
+      : position;
+    const { scope, scopeChain, visibleSymbols } = this.symbolAnalyzer.resolveScopeAt(context.symbols, cursor);
+
+    return {
+      ...context,
+      scope,
+      position: cursor,
+      scopeChain,
+      visibleSymbols
+    };
+  }
+
+  /**
+   * Analyze entire project and return project context. Project quality
+   * analyzes every file through this analyzer, warming its cache without
+   * changing the current file.
    */
   async analyzeProject(projectPath: string): Promise<ProjectContext> {
-    return this.projectAnalyzer.analyzeProject(projectPath);
+    const currentFile = this.currentFile;
+    this.coverageIngestor.load(projectPath);
+    const context = await this.projectAnalyzer.analyzeProject(projectPath);
+    this.currentFile = currentFile;
+
+    try {
+      this.projectGraph = await this.graphBuilder.build(projectPath);
+    } catch (error) {
+      // Handle file system errors gracefully
+      console.warn('Error building dependency graph:', error);
+    }
+
+    return context;
   }
 
   /**
-   * Get symbol table for current context
+   * Get the symbol table of a file, by default the current file, from its
+   * last analysis; empty when the file has no cached analysis or changed
+   * on disk since
    */
-  getSymbolTable(): SymbolTable {
-    // This would typically be cached from the last analysis
-    return {
+  getSymbolTable(filePath?: string): SymbolTable {
+    const entry = this.getCachedAnalysis(filePath);
+    return entry ? entry.context.symbols : {
       symbols: new Map(),
       scopes: []
     };
   }
 
   /**
-   * Get dependency graph for current context
+   * Get the dependency graph of a file from its last analysis. Without a
+   * path, the graph of the current file, or else the project graph of the
+   * last analyzeProject call.
    */
-  getDependencyGraph(): DependencyGraph {
-    // This would typically be cached from the last analysis
-    return {
+  getDependencyGraph(filePath?: string): DependencyGraph {
+    const entry = this.getCachedAnalysis(filePath);
+    if (entry) return entry.dependencyGraph;
+
+    return (!filePath && this.projectGraph) || {
       nodes: [],
       edges: []
     };
   }
 
+  /**
+   * Get the project dependency graph of the last analyzeProject call
+   */
+  getProjectGraph(): ProjectDependencyGraph | null {
+    return this.projectGraph;
+  }
+
+  /**
+   * Drop the cached analysis of a file, e.g. when the editor reports a change
+   */
+  invalidateFile(filePath: string): void {
+    this.analysisCache.invalidate(filePath);
+    this.semanticAnalyzer?.invalidate();
+  }
+
+  /**
+   * Get the analysis cache, e.g. to inspect its statistics
+   */
+  getAnalysisCache(): AnalysisCache {
+    return this.analysisCache;
+  }
+
+  /**
+   * Get the coverage ingestor, e.g. to load the reports of a project before
+   * analyzing single files of it
+   */
+  getCoverageIngestor(): CoverageIngestor {
+    return this.coverageIngestor;
+  }
+
+  /**
+   * Get the files and declarations that depend on a node of the project
+   * graph, e.g. before accepting a suggestion that changes it. Requires a
+   * prior analyzeProject call.
+   */
+  getDependents(id: string, transitive: boolean = true): DependencyNode[] {
+    return this.projectGraph ? this.projectGraph.getDependents(id, transitive) : [];
+  }
+
+  /**
+   * Add type information to the symbols; the syntactic table stays usable
+   * when the program cannot be built
+   */
+  private annotateSemantics(symbols: SymbolTable, filePath: string): void {
+    try {
+      this.semanticAnalyzer!.annotate(symbols, filePath);
+    } catch (error) {
+      console.warn('Error running semantic analysis:', error);
+    }
+  }
+
+  /**
+   * Copy a context with the coverage of its file attached; test coverage is
+   * the percentage of executable lines run
+   */
+  private applyCoverage(filePath: string, context: CodeContext): CodeContext {
+    const result: CodeContext = { ...context, quality: { ...context.quality, testCoverage: 0 } };
+    delete result.coverage;
+
+    const fileCoverage = this.coverageIngestor.getFileCoverage(filePath);
+    if (!fileCoverage) return result;
+
+    result.coverage = mapCoverage(fileCoverage, context.symbols);
+    const { covered, total } = result.coverage.lines;
+    result.quality.testCoverage = total > 0 ? Math.round(covered / total * 10000) / 100 : 0;
+    return result;
+  }
+
+  /**
+   * Get the cached analysis of a file, by default the current file, as long
+   * as the file on disk still has the analyzed content
+   */
+  private getCachedAnalysis(filePath?: string): CachedAnalysis | undefined {
+    const target = filePath || this.currentFile;
+    if (!target) return undefined;
+
+    if (!fs.existsSync(target)) {
+      this.analysisCache.invalidate(target);
+      return undefined;
+    }
+    return this.analysisCache.get(target, hashContent(fs.readFileSync(target, 'utf-8')));
+  }
+
   /**
    * Detect programming language from file extension
    */
   private detectLanguage(filePath: string): string {
-    const extension = path.extname(filePath).toLowerCase();
-    switch (extension) {
-      case '.ts':
-        return 'typescript';
-      case '.js':
-        return 'javascript';
-      case '.py':
-        return 'python';
-      default:
-        return 'unknown';
-    }
+    return detectLanguage(filePath) || 'unknown';
+  }
+
+  /**
+   * Convert a character offset into a 1-based line and column
+   */
+  private offsetToPosition(code: string, offset: number): SourcePosition {
+    const clamped = Math.max(0, Math.min(offset, code.length));
+    const before = code.slice(0, clamped);
+    const lineStart = before.lastIndexOf('\n') + 1;
+
+    return {
+      line: before.split('\n').length,
+      column: clamped - lineStart + 1
+    };
   }
 
   /**
@@ -132,10 +324,10 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
   /**
    * Calculate code quality metrics
    */
-  private calculateQualityMetrics(ast: any, symbols: SymbolTable): QualityMetrics {
-    const complexity = this.calculateComplexity(ast);
-    const maintainability = this.calculateMaintainability(symbols, complexity);
-    const testCoverage = 0; // Would be calculated from test files
+  private calculateQualityMetrics(ast: any, fileComplexity: FileComplexity, fileMaintainability: FileMaintainability): QualityMetrics {
+    const complexity = fileComplexity.cyclomatic;
+    const maintainability = fileMaintainability.index;
+    const testCoverage = 0; // Set from coverage reports by applyCoverage
     const codeSmells = this.calculateCodeSmells(ast);
 
     return {
@@ -146,46 +338,6 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
     };
   }
 
-  /**
-   * Calculate cyclomatic complexity
-   */
-  private calculateComplexity(ast: any): number {
-    let complexity = 1; // Base complexity
-
-    if (ast.type) {
-      // Add complexity for control flow statements
-      if (['IfStatement', 'WhileStatement', 'ForStatement', 'SwitchStatement'].includes(ast.type)) {
-        complexity += 1;
-      }
-      if (ast.type === 'ConditionalExpression') {
-        complexity += 1;
-      }
-    }
-
-    if (ast.children) {
-      ast.children.forEach((child: any) => {
-        complexity += this.calculateComplexity(child) - 1; // Subtract 1 to avoid double counting base
-      });
-    }
-
-    return complexity;
-  }
-
-  /**
-   * Calculate maintainability index
-   */
-  private calculateMaintainability(symbols: SymbolTable, complexity: number): number {
-    const linesOfCode = symbols.scopes.length * 10; // Rough estimate
-    const halsteadVolume = symbols.symbols.size * 2; // Simplified calculation
-    
-    // Simplified maintainability index calculation
-    const maintainability = Math.max(0, 
-      171 - 5.2 * Math.log(halsteadVolume) - 0.23 * complexity - 16.2 * Math.log(linesOfCode)
-    );
-    
-    return Math.min(100, maintainability);
-  }
-
   /**
    * Calculate code smells count
    */
@@ -206,7 +358,7 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
   private countLongMethods(ast: any): number {
     let count = 0;
     
-    if (ast.type === 'FunctionDeclaration' || ast.type === 'MethodDeclaration') {
+    if (['FunctionDeclaration', 'MethodDeclaration', 'FunctionDef', 'AsyncFunctionDef'].includes(ast.type)) {
       // Simplified: count children as a proxy for method length
       if (ast.children && ast.children.length > 10) {
         count++;
@@ -228,7 +380,7 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
   private countLargeClasses(ast: any): number {
     let count = 0;
     
-    if (ast.type === 'ClassDeclaration') {
+    if (ast.type === 'ClassDeclaration' || ast.type === 'ClassDef') {
       // Simplified: count children as a proxy for class size
       if (ast.children && ast.children.length > 15) {
         count++;
@@ -245,35 +397,46 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
   }
 
   /**
-   * Count duplicated code patterns (simplified)
+   * Count duplicated code: each repeat of a subtree of at least
+   * MIN_DUPLICATE_NODES nodes, compared by node types only so renamed copies
+   * match. Only the largest repeated subtrees count, not the parts inside them.
    */
   private countDuplicatedCode(ast: any): number {
-    const nodeTypes = new Map<string, number>();
-    this.countNodeTypes(ast, nodeTypes);
-    
-    let duplicatedPatterns = 0;
-    nodeTypes.forEach((count, type) => {
-      if (count > 3) { // More than 3 similar patterns might indicate duplication
-        duplicatedPatterns++;
+    const signatureIds = new Map<string, number>();
+    const shapes = new Map<any, { signature: number; size: number }>();
+    const occurrences = new Map<number, number>();
+
+    const measure = (node: any): { signature: number; size: number } => {
+      const children = (node.children || []).map(measure);
+      const key = `${node.type}(${children.map((child: { signature: number }) => child.signature).join(',')})`;
+      if (!signatureIds.has(key)) signatureIds.set(key, signatureIds.size);
+
+      const shape = {
+        signature: signatureIds.get(key)!,
+        size: children.reduce((sum: number, child: { size: number }) => sum + child.size, 1)
+      };
+      shapes.set(node, shape);
+      if (shape.size >= MIN_DUPLICATE_NODES) {
+        occurrences.set(shape.signature, (occurrences.get(shape.signature) || 0) + 1);
       }
-    });
-    
-    return duplicatedPatterns;
-  }
+      return shape;
+    };
+    measure(ast);
+
+    let copies = 0;
+    const firstSeen = new Set<number>();
+    const visit = (node: any) => {
+      const { signature, size } = shapes.get(node)!;
+      if (size >= MIN_DUPLICATE_NODES && occurrences.get(signature)! > 1) {
+        if (firstSeen.has(signature)) copies++;
+        firstSeen.add(signature);
+        return;
+      }
+      (node.children || []).forEach(visit);
+    };
+    visit(ast);
 
-  /**
-   * Count node types for duplication analysis
-   */
-  private countNodeTypes(ast: any, nodeTypes: Map<string, number>): void {
-    if (ast.type) {
-      nodeTypes.set(ast.type, (nodeTypes.get(ast.type) || 0) + 1);
-    }
-    
-    if (ast.children) {
-      ast.children.forEach((child: any) => {
-        this.countNodeTypes(child, nodeTypes);
-      });
-    }
+    return copies;
   }
 }
 
@@ -281,6 +444,18 @@ export class CodeContextAnalyzerImpl implements CodeContextAnalyzer {
  * Project-level analyzer for architectural patterns and dependencies
  */
 export class ProjectAnalyzer {
+  private styleInferrer: StyleInferrer;
+  private qualityAnalyzer: ProjectQualityAnalyzer | null;
+
+  /**
+   * Without a quality analyzer, project quality is computed with a
+   * dedicated CodeContextAnalyzerImpl created on first use
+   */
+  constructor(styleInferrer: StyleInferrer = new StyleInferrer(), qualityAnalyzer?: ProjectQualityAnalyzer) {
+    this.styleInferrer = styleInferrer;
+    this.qualityAnalyzer = qualityAnalyzer || null;
+  }
+
   /**
    * Analyze entire project structure and dependencies
    */
@@ -290,7 +465,7 @@ export class ProjectAnalyzer {
     const dependencies = await this.analyzeDependencies(projectPath);
     const architecture = this.detectArchitecture(fileStructure, dependencies);
     const codeStyle = await this.analyzeCodeStyle(projectPath);
-    const qualityMetrics = await this.calculateProjectQuality(projectPath);
+    const qualityReport = await this.calculateProjectQuality(projectPath);
 
     return {
       projectId: path.basename(projectPath),
@@ -299,7 +474,8 @@ export class ProjectAnalyzer {
       architecture,
       dependencies,
       codeStyle,
-      qualityMetrics
+      qualityMetrics: qualityReport.overall,
+      qualityReport
     };
   }
 
@@ -373,8 +549,7 @@ export class ProjectAnalyzer {
    * Check if file is a code file
    */
   private isCodeFile(filename: string): boolean {
-    const codeExtensions = ['.ts', '.js', '.py', '.tsx', '.jsx'];
-    return codeExtensions.some(ext => filename.endsWith(ext));
+    return isCodeFile(filename);
   }
 
   /**
@@ -491,32 +666,32 @@ export class ProjectAnalyzer {
   }
 
   /**
-   * Analyze code style across the project
+   * Analyze code style across the project from a sample of its files
    */
   private async analyzeCodeStyle(projectPath: string): Promise<StyleProfile> {
-    // This would analyze multiple files to determine consistent style
-    return {
-      indentation: 'spaces' as any,
-      naming: 'camelCase' as any,
-      structure: {
-        maxLineLength: 100,
-        bracketStyle: 'same-line',
-        importStyle: 'grouped'
-      },
-      patterns: []
-    };
+    try {
+      return await this.styleInferrer.infer(projectPath);
+    } catch (error) {
+      // Handle file system errors gracefully
+      console.warn('Error analyzing code style:', error);
+      return defaultStyleProfile();
+    }
   }
 
   /**
-   * Calculate project-wide quality metrics
+   * Calculate project-wide quality metrics from the analysis of every file
    */
-  private async calculateProjectQuality(projectPath: string): Promise<QualityMetrics> {
-    // This would aggregate metrics from all files
-    return {
-      complexity: 5.0,
-      maintainability: 75.0,
-      testCoverage: 0.0,
-      codeSmells: 3
-    };
+  private async calculateProjectQuality(projectPath: string): Promise<ProjectQualityReport> {
+    if (!this.qualityAnalyzer) {
+      this.qualityAnalyzer = new ProjectQualityAnalyzer();
+    }
+
+    try {
+      return await this.qualityAnalyzer.analyze(projectPath);
+    } catch (error) {
+      // Handle file system errors gracefully
+      console.warn('Error calculating project quality:', error);
+      return { overall: aggregateQuality([]), files: [], directories: [], hotspots: [] };
+    }
   }
 }
\ No newline at end of file
@@ -0,0 +1,105 @@
+/**
+ * Node metadata construction for unified ASTs
+ * Implements requirements 2.1 and 2.2
+ *
+ * In the default representation every node stores its own source text. In
+ * compact mode nodes store only offsets; `text` (and `leadingTrivia`) are
+ * getters on a prototype shared by all nodes of a file, which slice the one
+ * source buffer on access. Both representations expose the same properties
+ * to readers, but compact text is not an own property, so it is skipped by
+ * JSON.stringify, Object.keys and object spread.
+ */
+
+export interface ASTParserOptions {
+  compact: boolean;
+  includeTrivia: boolean; // record leading whitespace and comments per node
+}
+
+export interface SourceBuffer {
+  text: string;
+  file: string;
+}
+
+export interface NodeSpan {
+  offset: number;
+  endOffset: number;
+  fullStart?: number; // start of leading trivia
+}
+
+const compactMetadataPrototype = {
+  get text(): string {
+    const metadata = this as unknown as NodeSpan & { source: SourceBuffer };
+    return metadata.source.text.slice(metadata.offset, metadata.endOffset);
+  },
+  get leadingTrivia(): string | undefined {
+    const metadata = this as unknown as NodeSpan & { source: SourceBuffer };
+    if (metadata.fullStart === undefined) return undefined;
+    return metadata.source.text.slice(metadata.fullStart, metadata.offset);
+  }
+};
+
+/**
+ * Resolves parser options, defaulting to the full representation without trivia
+ */
+export function resolveParserOptions(options: Partial<ASTParserOptions> = {}): ASTParserOptions {
+  return {
+    compact: options.compact ?? false,
+    includeTrivia: options.includeTrivia ?? false
+  };
+}
+
+/**
+ * Builds node metadata for one source file
+ */
+export class NodeMetadataFactory {
+  private options: ASTParserOptions;
+  private source: SourceBuffer;
+  private prototype: object | null = null;
+
+  constructor(source: SourceBuffer, options: ASTParserOptions) {
+    this.source = source;
+    this.options = options;
+
+    if (options.compact) {
+      // One prototype per file holds the buffer, so nodes carry no reference to it
+      this.prototype = Object.create(compactMetadataPrototype, {
+        source: { value: source, enumerable: false }
+      });
+    }
+  }
+
+  /**
+   * Creates metadata for a node spanning `span`. `text` can be passed when
+   * the caller already holds the node text, to avoid slicing again.
+   */
+  create(span: NodeSpan, fields: Record<string, any>, text?: string): Record<string, any> {
+    const trivia = this.options.includeTrivia && span.fullStart !== undefined;
+
+    if (this.prototype) {
+      const metadata = Object.assign(Object.create(this.prototype), fields);
+      metadata.offset = span.offset;
+      metadata.endOffset = span.endOffset;
+      if (trivia) metadata.fullStart = span.fullStart;
+      return metadata;
+    }
+
+    const metadata: Record<string, any> = {
+      ...fields,
+      offset: span.offset,
+      endOffset: span.endOffset,
+      text: text ?? this.source.text.slice(span.offset, span.endOffset)
+    };
+    if (trivia) {
+      metadata.fullStart = span.fullStart;
+      metadata.leadingTrivia = this.source.text.slice(span.fullStart, span.offset);
+    }
+    return metadata;
+  }
+
+  /**
+   * Checks whether nodes are built in compact mode
+   */
+  isCompact(): boolean {
+    return this.prototype !== null;
+  }
+}
@@ -1,5 +1,8 @@
 import * as ts from 'typescript';
-import { AbstractSyntaxTree, SourceLocation } from '../interfaces/context';
+import { AbstractSyntaxTree, IncrementalParseResult, SourceLocation, TextEdit } from '../interfaces/context';
+import { PythonParser } from './python-parser';
+import { detectLanguage, getScriptKind } from './language';
+import { ASTParserOptions, NodeMetadataFactory, resolveParserOptions } from './ast-metadata';
 
 /**
  * Multi-language AST parser supporting TypeScript and Python
@@ -8,9 +11,9 @@ export class MultiLanguageASTParser {
   private typeScriptParser: TypeScriptASTParser;
   private pythonParser: PythonASTParser;
 
-  constructor() {
-    this.typeScriptParser = new TypeScriptASTParser();
-    this.pythonParser = new PythonASTParser();
+  constructor(options: Partial<ASTParserOptions> = {}) {
+    this.typeScriptParser = new TypeScriptASTParser(options);
+    this.pythonParser = new PythonASTParser(options);
   }
 
   /**
@@ -20,7 +23,7 @@ export class MultiLanguageASTParser {
     switch (language.toLowerCase()) {
       case 'typescript':
       case 'javascript':
-        return this.typeScriptParser.parse(code, filePath);
+        return this.typeScriptParser.parse(code, filePath, language);
       case 'python':
         return this.pythonParser.parse(code, filePath);
       default:
@@ -28,6 +31,19 @@ export class MultiLanguageASTParser {
     }
   }
 
+  /**
+   * Re-parse previously parsed code after text edits, reusing unchanged subtrees
+   */
+  async parseIncremental(previous: AbstractSyntaxTree, edits: TextEdit[], language: string): Promise<IncrementalParseResult> {
+    switch (language.toLowerCase()) {
+      case 'typescript':
+      case 'javascript':
+        return this.typeScriptParser.parseIncremental(previous, edits);
+      default:
+        throw new Error(`Incremental parsing is not supported for language: ${language}`);
+    }
+  }
+
   /**
    * Parse file and return unified AST
    */
@@ -42,139 +58,189 @@ export class MultiLanguageASTParser {
    * Detect programming language from file extension
    */
   private detectLanguage(filePath: string): string {
-    const extension = filePath.split('.').pop()?.toLowerCase();
-    switch (extension) {
-      case 'ts':
-        return 'typescript';
-      case 'js':
-        return 'javascript';
-      case 'py':
-        return 'python';
-      default:
-        throw new Error(`Cannot detect language for file: ${filePath}`);
+    const language = detectLanguage(filePath);
+    if (!language) {
+      throw new Error(`Cannot detect language for file: ${filePath}`);
     }
+    return language;
   }
 }
 
+interface CachedNode {
+  ast: AbstractSyntaxTree;
+  start: number; // offsets when the node was converted
+  end: number;
+  line: number; // start line and column, which an edit before the node can move
+  column: number;
+}
+
+interface ChangeTracking {
+  span: { start: number; end: number }; // edited range in the new text
+  nodes: AbstractSyntaxTree[];
+}
+
 /**
  * TypeScript AST Parser using TypeScript Compiler API
  */
 export class TypeScriptASTParser {
+  private options: ASTParserOptions;
+  private sourceFiles: WeakMap<AbstractSyntaxTree, ts.SourceFile> = new WeakMap();
+  private nodeCache: WeakMap<ts.Node, CachedNode> = new WeakMap();
+
+  constructor(options: Partial<ASTParserOptions> = {}) {
+    this.options = resolveParserOptions(options);
+  }
+
   /**
-   * Parse TypeScript/JavaScript code into unified AST
+   * Parse TypeScript/JavaScript code into unified AST. The script kind comes
+   * from the file extension, so JSX is recognized in .tsx and .jsx files.
    */
-  parse(code: string, filePath?: string): AbstractSyntaxTree {
+  parse(code: string, filePath?: string, language?: string): AbstractSyntaxTree {
+    const fileName = filePath || (language?.toLowerCase() === 'javascript' ? 'temp.js' : 'temp.ts');
+    const scriptKind = getScriptKind(fileName, language);
     const sourceFile = ts.createSourceFile(
-      filePath || 'temp.ts',
+      fileName,
       code,
       ts.ScriptTarget.Latest,
-      true
+      true,
+      scriptKind
     );
 
-    return this.convertTSNodeToUnifiedAST(sourceFile);
+    return this.convertSourceFile(sourceFile, scriptKind, null);
   }
 
   /**
-   * Convert TypeScript AST node to unified AST format
+   * Re-parse a previously parsed file after text edits. Edits apply in
+   * order, each to the text produced by the edits before it. Subtrees the
+   * edits do not touch are reused from the previous AST; only nodes that
+   * overlap the edited text are rebuilt and reported as changed.
+   *
+   * The previous AST must not be passed to parseIncremental again: the
+   * compiler updates its source file in place. Trees this parser did not
+   * produce (or already updated) fall back to a full parse of the root's
+   * text, which starts after any leading comments.
    */
-  private convertTSNodeToUnifiedAST(node: ts.Node): AbstractSyntaxTree {
+  parseIncremental(previous: AbstractSyntaxTree, edits: TextEdit[]): IncrementalParseResult {
+    const oldSourceFile = this.sourceFiles.get(previous);
+    const oldText: string = oldSourceFile ? oldSourceFile.text : previous.metadata.text;
+    if (typeof oldText !== 'string') {
+      throw new Error('Cannot re-parse an AST that has no source text');
+    }
+
+    let newText = oldText;
+    const changes = edits.map(edit => {
+      if (edit.offset < 0 || edit.length < 0 || edit.offset + edit.length > newText.length) {
+        throw new Error(`Text edit out of range: offset ${edit.offset}, length ${edit.length}`);
+      }
+      newText = newText.slice(0, edit.offset) + edit.newText + newText.slice(edit.offset + edit.length);
+      return ts.createTextChangeRange(ts.createTextSpan(edit.offset, edit.length), edit.newText.length);
+    });
+
+    if (!oldSourceFile) {
+      const fileName = previous.metadata.start?.file;
+      const ast = this.parse(newText, fileName);
+      return { ast, changedNodes: [ast] };
+    }
+
+    const change = changes.length > 0 ? ts.collapseTextChangeRangesAcrossMultipleVersions(changes) : ts.unchangedTextChangeRange;
+    const sourceFile = ts.updateSourceFile(oldSourceFile, newText, change);
+    this.sourceFiles.delete(previous);
+
+    const changedSpan = { start: change.span.start, end: change.span.start + change.newLength };
+    const changedNodes: AbstractSyntaxTree[] = [];
+    const ast = this.convertSourceFile(sourceFile, ts.ScriptKind[previous.metadata.scriptKind as keyof typeof ts.ScriptKind], {
+      span: changedSpan,
+      nodes: changedNodes
+    });
+
+    return { ast, changedNodes };
+  }
+
+  private convertSourceFile(sourceFile: ts.SourceFile, scriptKind: ts.ScriptKind, changes: ChangeTracking | null): AbstractSyntaxTree {
+    const factory = new NodeMetadataFactory({ text: sourceFile.text, file: sourceFile.fileName }, this.options);
+    const ast = this.convertTSNodeToUnifiedAST(sourceFile, sourceFile, factory, changes);
+    ast.metadata.scriptKind = ts.ScriptKind[scriptKind];
+    ast.metadata.isDeclarationFile = sourceFile.isDeclarationFile;
+    this.sourceFiles.set(ast, sourceFile);
+    return ast;
+  }
+
+  /**
+   * Convert TypeScript AST node to unified AST format, reusing the unified
+   * node built for the same compiler node when it is unchanged
+   */
+  private convertTSNodeToUnifiedAST(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    factory: NodeMetadataFactory,
+    changes: ChangeTracking | null
+  ): AbstractSyntaxTree {
+    const startOffset = node.getStart(sourceFile);
+    const endOffset = node.getEnd();
+    const start = this.toLocation(sourceFile, startOffset);
+    const cached = changes ? this.nodeCache.get(node) : undefined;
+
+    // The text of a reused compiler node is unchanged, so if it starts at the
+    // same offset, line and column, so does everything inside it
+    if (cached && cached.start === startOffset && cached.end === endOffset &&
+        cached.line === start.line && cached.column === start.column) {
+      return cached.ast;
+    }
+
     const children: AbstractSyntaxTree[] = [];
-    
+    const unified: AbstractSyntaxTree = {
+      type: ts.SyntaxKind[node.kind],
+      children,
+      metadata: factory.create(
+        { offset: startOffset, endOffset, fullStart: node.pos },
+        {
+          start,
+          end: this.toLocation(sourceFile, endOffset),
+          kind: node.kind,
+          flags: node.flags
+        },
+        // A reused compiler node has unchanged text even when it moved
+        cached && !factory.isCompact() ? cached.ast.metadata.text : undefined
+      )
+    };
+
+    if (!cached && changes && startOffset <= changes.span.end && endOffset >= changes.span.start) {
+      changes.nodes.push(unified);
+    }
+
     ts.forEachChild(node, (child) => {
-      children.push(this.convertTSNodeToUnifiedAST(child));
+      children.push(this.convertTSNodeToUnifiedAST(child, sourceFile, factory, changes));
     });
 
-    const sourceFile = node.getSourceFile();
-    const start = sourceFile.getLineAndCharacterOfPosition(node.getStart());
-    const end = sourceFile.getLineAndCharacterOfPosition(node.getEnd());
+    this.nodeCache.set(node, { ast: unified, start: startOffset, end: endOffset, line: start.line, column: start.column });
+    return unified;
+  }
 
+  private toLocation(sourceFile: ts.SourceFile, offset: number): SourceLocation {
+    const position = sourceFile.getLineAndCharacterOfPosition(offset);
     return {
-      type: ts.SyntaxKind[node.kind],
-      children,
-      metadata: {
-        start: {
-          line: start.line + 1,
-          column: start.character + 1,
-          file: sourceFile.fileName
-        } as SourceLocation,
-        end: {
-          line: end.line + 1,
-          column: end.character + 1,
-          file: sourceFile.fileName
-        } as SourceLocation,
-        text: node.getText(sourceFile),
-        kind: node.kind,
-        flags: node.flags
-      }
+      line: position.line + 1,
+      column: position.character + 1,
+      file: sourceFile.fileName
     };
   }
 }
 
 /**
- * Python AST Parser (placeholder for Python integration)
+ * Python AST Parser backed by the embedded Python 3 grammar
  */
 export class PythonASTParser {
-  /**
-   * Parse Python code into unified AST
-   * Note: This is a simplified implementation. In a real system,
-   * this would integrate with Python's ast module via a bridge.
-   */
-  parse(code: string, filePath?: string): AbstractSyntaxTree {
-    // For now, return a basic structure
-    // In production, this would use a Python bridge or WASM Python interpreter
-    return {
-      type: 'Module',
-      children: this.parseBasicPythonStructure(code),
-      metadata: {
-        language: 'python',
-        filePath: filePath || 'temp.py',
-        lineCount: code.split('\n').length
-      }
-    };
+  private parser: PythonParser;
+
+  constructor(options: Partial<ASTParserOptions> = {}) {
+    this.parser = new PythonParser(options);
   }
 
   /**
-   * Basic Python structure parsing (simplified)
+   * Parse Python code into unified AST. Syntax errors do not throw; they are
+   * reported in `metadata.errors` and as `Error` nodes in the tree.
    */
-  private parseBasicPythonStructure(code: string): AbstractSyntaxTree[] {
-    const lines = code.split('\n');
-    const nodes: AbstractSyntaxTree[] = [];
-    
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('def ')) {
-        nodes.push({
-          type: 'FunctionDef',
-          children: [],
-          metadata: {
-            name: line.match(/def\s+(\w+)/)?.[1] || 'unknown',
-            line: i + 1,
-            text: line
-          }
-        });
-      } else if (line.startsWith('class ')) {
-        nodes.push({
-          type: 'ClassDef',
-          children: [],
-          metadata: {
-            name: line.match(/class\s+(\w+)/)?.[1] || 'unknown',
-            line: i + 1,
-            text: line
-          }
-        });
-      } else if (line.startsWith('import ') || line.startsWith('from ')) {
-        nodes.push({
-          type: 'Import',
-          children: [],
-          metadata: {
-            module: line,
-            line: i + 1,
-            text: line
-          }
-        });
-      }
-    }
-    
-    return nodes;
+  parse(code: string, filePath?: string): AbstractSyntaxTree {
+    return this.parser.parse(code, filePath || 'temp.py');
   }
 }
\ No newline at end of file
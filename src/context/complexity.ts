@@ -0,0 +1,233 @@
+import { AbstractSyntaxTree, FileComplexity, FunctionComplexity, SourceRange } from '../interfaces/context';
+
+/**
+ * Cyclomatic and cognitive complexity of functions in TypeScript,
+ * JavaScript and Python ASTs
+ * Implements requirements 2.1 and 2.2
+ *
+ * Cyclomatic complexity is 1 plus one per decision point: conditionals,
+ * loops, non-default `case` clauses, `catch`/`except` handlers, ternaries,
+ * comprehension clauses and each logical `&&`, `||`, `??`, `and`, `or`.
+ *
+ * Cognitive complexity follows the SonarSource definition: structures that
+ * break the linear flow add 1 plus their nesting level, `else`/`elif`
+ * branches add 1 without nesting, each sequence of like logical operators
+ * adds 1, and labeled jumps add 1. Callbacks and lambdas count toward the
+ * enclosing function one nesting level deeper.
+ *
+ * Declared functions and methods, including functions assigned to variables
+ * or properties, are reported on their own and excluded from the function
+ * around them. File totals include every function and top-level code.
+ */
+
+interface ComplexityCounter {
+  cyclomatic: number;
+  cognitive: number;
+}
+
+interface VisitContext {
+  counter: ComplexityCounter;
+  nesting: number;
+  scope: string;
+  inClass: boolean;
+}
+
+const LOOP_TYPES = new Set([
+  'ForStatement', 'ForInStatement', 'ForOfStatement', 'WhileStatement', 'DoStatement',
+  'For', 'AsyncFor', 'While'
+]);
+
+const LOGICAL_OPERATORS = new Set([
+  'AmpersandAmpersandToken', 'BarBarToken', 'QuestionQuestionToken',
+  'AmpersandAmpersandEqualsToken', 'BarBarEqualsToken', 'QuestionQuestionEqualsToken'
+]);
+
+const FUNCTION_DECLARATION_TYPES = new Set([
+  'FunctionDeclaration', 'MethodDeclaration', 'Constructor', 'GetAccessor', 'SetAccessor',
+  'FunctionDef', 'AsyncFunctionDef'
+]);
+
+const INLINE_FUNCTION_TYPES = new Set(['ArrowFunction', 'FunctionExpression', 'Lambda']);
+
+// Declarations whose initializer names a function expression
+const FUNCTION_HOLDER_TYPES = new Set(['VariableDeclaration', 'PropertyDeclaration', 'PropertyAssignment']);
+
+/**
+ * Computes per-function and per-file complexity
+ */
+export class ComplexityAnalyzer {
+  /**
+   * Analyze the complexity of every function in a file
+   */
+  analyze(ast: AbstractSyntaxTree): FileComplexity {
+    const file: ComplexityCounter = { cyclomatic: 1, cognitive: 0 };
+    const functions: FunctionComplexity[] = [];
+
+    const increment = (context: VisitContext, cyclomatic: number, cognitive: number) => {
+      context.counter.cyclomatic += cyclomatic;
+      context.counter.cognitive += cognitive;
+      if (context.counter !== file) {
+        file.cyclomatic += cyclomatic;
+        file.cognitive += cognitive;
+      }
+    };
+
+    const visitAll = (nodes: AbstractSyntaxTree[], context: VisitContext, parent: AbstractSyntaxTree) => {
+      nodes.forEach(child => visit(child, context, parent));
+    };
+
+    const nested = (context: VisitContext): VisitContext => ({ ...context, nesting: context.nesting + 1 });
+
+    const visitIf = (node: AbstractSyntaxTree, context: VisitContext, elseIf: boolean) => {
+      increment(context, 1, elseIf ? 1 : 1 + context.nesting);
+
+      const isPython = node.type === 'If';
+      const bodyLength = isPython ? node.metadata.bodyLength ?? 0 : 1;
+      const [test, ...rest] = node.children;
+      const body = rest.slice(0, bodyLength);
+      const orelse = rest.slice(bodyLength);
+
+      visit(test, context, node);
+      visitAll(body, nested(context), node);
+
+      const chained = orelse.length === 1 && orelse[0].type === node.type &&
+        // `elif` lines up with its `if`; an `if` inside `else:` is indented
+        (!isPython || orelse[0].metadata.start?.column === node.metadata.start?.column);
+      if (chained) {
+        visitIf(orelse[0], context, true);
+      } else if (orelse.length > 0) {
+        increment(context, 0, 1);
+        visitAll(orelse, nested(context), node);
+      }
+    };
+
+    const visit = (node: AbstractSyntaxTree, context: VisitContext, parent?: AbstractSyntaxTree) => {
+      const name = this.getFunctionName(node, parent);
+      if (name !== null) {
+        const counter: ComplexityCounter = { cyclomatic: 1, cognitive: 0 };
+        visitAll(node.children, { counter, nesting: 0, scope: `${context.scope}.${name}`, inClass: false }, node);
+
+        functions.push({
+          name,
+          type: context.inClass ? 'method' : 'function',
+          scope: context.scope,
+          range: { start: node.metadata.start, end: node.metadata.end } as SourceRange,
+          cyclomatic: counter.cyclomatic,
+          cognitive: counter.cognitive
+        });
+        return;
+      }
+
+      switch (node.type) {
+        case 'ClassDeclaration':
+        case 'ClassExpression':
+        case 'ClassDef': {
+          const className = node.type === 'ClassDef'
+            ? node.metadata.name
+            : node.children.find(child => child.type === 'Identifier')?.metadata.text;
+          const scope = className ? `${context.scope}.${className}` : context.scope;
+          visitAll(node.children, { ...context, scope, inClass: true }, node);
+          return;
+        }
+        case 'IfStatement':
+        case 'If':
+          visitIf(node, context, false);
+          return;
+        case 'SwitchStatement':
+        case 'Match':
+          increment(context, 0, 1 + context.nesting);
+          visitAll(node.children, nested(context), node);
+          return;
+        case 'CaseClause':
+          increment(context, 1, 0);
+          break;
+        case 'match_case': {
+          // `case _:` always matches, like a default clause
+          const pattern = node.children[0];
+          if (!(pattern?.type === 'Name' && pattern.metadata.name === '_')) increment(context, 1, 0);
+          break;
+        }
+        case 'CatchClause':
+        case 'ExceptHandler':
+        case 'ConditionalExpression':
+        case 'IfExp':
+          increment(context, 1, 1 + context.nesting);
+          visitAll(node.children, nested(context), node);
+          return;
+        case 'BinaryExpression': {
+          const operator = node.children[1]?.type;
+          if (LOGICAL_OPERATORS.has(operator)) {
+            // `a && b && c` is one sequence: only its outermost operator adds cognitive complexity
+            const continuesSequence = parent?.type === 'BinaryExpression' && parent.children[1]?.type === operator;
+            increment(context, 1, continuesSequence ? 0 : 1);
+          }
+          break;
+        }
+        case 'BoolOp':
+          // The parser flattens `a and b and c` into one BoolOp
+          increment(context, Math.max(0, node.children.length - 1), 1);
+          break;
+        case 'comprehension':
+          // Children are the target, the iterable and one test per `if`
+          increment(context, 1 + Math.max(0, node.children.length - 2), 1);
+          break;
+        case 'BreakStatement':
+        case 'ContinueStatement':
+          if (node.children.some(child => child.type === 'Identifier')) increment(context, 0, 1);
+          break;
+        default:
+          if (LOOP_TYPES.has(node.type)) {
+            increment(context, 1, 1 + context.nesting);
+            visitAll(node.children, nested(context), node);
+            return;
+          }
+          if (INLINE_FUNCTION_TYPES.has(node.type)) {
+            visitAll(node.children, nested(context), node);
+            return;
+          }
+      }
+
+      visitAll(node.children, context, node);
+    };
+
+    visit(ast, { counter: file, nesting: 0, scope: 'global', inClass: false });
+    // Functions are recorded when their body is done, so inner ones come first
+    functions.sort((a, b) => a.range.start.line - b.range.start.line || a.range.start.column - b.range.start.column);
+
+    return {
+      cyclomatic: file.cyclomatic,
+      cognitive: file.cognitive,
+      functions
+    };
+  }
+
+  /**
+   * Name of a function reported on its own, or null for other nodes,
+   * inline callbacks and bodiless signatures
+   */
+  private getFunctionName(node: AbstractSyntaxTree, parent?: AbstractSyntaxTree): string | null {
+    if (node.type === 'FunctionDef' || node.type === 'AsyncFunctionDef') {
+      return node.metadata.name || null;
+    }
+
+    if (FUNCTION_DECLARATION_TYPES.has(node.type)) {
+      // Overloads and abstract methods have no body
+      if (!node.children.some(child => child.type === 'Block')) return null;
+      if (node.type === 'Constructor') return 'constructor';
+
+      const nameNode = node.children.find(child =>
+        ['Identifier', 'PrivateIdentifier', 'StringLiteral', 'NumericLiteral', 'ComputedPropertyName'].includes(child.type)
+      );
+      return nameNode ? String(nameNode.metadata.text) : 'default';
+    }
+
+    if (INLINE_FUNCTION_TYPES.has(node.type) && parent && FUNCTION_HOLDER_TYPES.has(parent.type)) {
+      const nameNode = parent.children[0];
+      return nameNode && nameNode !== node && ['Identifier', 'PrivateIdentifier', 'StringLiteral'].includes(nameNode.type)
+        ? String(nameNode.metadata.text)
+        : null;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,432 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { CodeCoverage, CoverageCounts, FileCoverage, Symbol, SymbolCoverage, SymbolTable } from '../interfaces/context';
+import { ScopedSymbolTable } from './symbol-table';
+
+/**
+ * Ingestion of local test coverage reports
+ * Implements requirements 2.1 and 2.2
+ *
+ * Supported formats: Istanbul `coverage-final.json`, lcov, Cobertura XML
+ * and coverage.py JSON. Reports are looked up under a project root, which
+ * is either given to `load` or discovered by walking up from an analyzed
+ * file to the nearest directory with a report, stopping at the first
+ * directory that looks like a project root; directories without a report
+ * are remembered until the project is loaded. A report is parsed again when
+ * its modification time changes. Files covered by several reports take the
+ * highest count of each line and branch.
+ */
+
+export type CoverageFormat = 'istanbul' | 'lcov' | 'cobertura' | 'coverage.py';
+
+export interface CoverageConfig {
+  reportPaths: string[]; // project-relative report locations
+}
+
+interface LoadedReport {
+  mtimeMs: number;
+  files: FileCoverage[];
+}
+
+interface CoverageRoot {
+  reports: Map<string, LoadedReport>;
+  files: Map<string, FileCoverage>;
+}
+
+export const DEFAULT_COVERAGE_REPORTS = [
+  'coverage/coverage-final.json',
+  'coverage/lcov.info',
+  'lcov.info',
+  'coverage/cobertura-coverage.xml',
+  'coverage.xml',
+  'coverage.json'
+];
+
+const PROJECT_MARKERS = ['package.json', 'pyproject.toml', 'setup.py', '.git'];
+
+const COVERED_SYMBOL_TYPES = ['function', 'method', 'class'];
+
+/**
+ * Detects the format of a coverage report from its name and content
+ */
+export function detectCoverageFormat(reportPath: string, content: string): CoverageFormat | null {
+  const extension = path.extname(reportPath).toLowerCase();
+
+  if (extension === '.info' || /^(TN|SF):/m.test(content.slice(0, 1024))) return 'lcov';
+  if (extension === '.xml' || content.trimStart().startsWith('<')) {
+    return /<coverage\b/.test(content) ? 'cobertura' : null;
+  }
+  if (extension === '.json') {
+    const data = JSON.parse(content);
+    return data.files && data.meta ? 'coverage.py' : 'istanbul';
+  }
+  return null;
+}
+
+/**
+ * Parses a coverage report; relative file paths resolve against `baseDir`
+ */
+export function parseCoverageReport(content: string, format: CoverageFormat, baseDir: string): FileCoverage[] {
+  switch (format) {
+    case 'istanbul':
+      return parseIstanbul(content, baseDir);
+    case 'lcov':
+      return parseLcov(content, baseDir);
+    case 'cobertura':
+      return parseCobertura(content, baseDir);
+    case 'coverage.py':
+      return parseCoveragePy(content, baseDir);
+    default:
+      throw new Error(`Unsupported coverage format: ${format}`);
+  }
+}
+
+/**
+ * Combines coverage of the same file from several reports
+ */
+export function mergeFileCoverage(target: FileCoverage, source: FileCoverage): FileCoverage {
+  Object.entries(source.lineHits).forEach(([line, hits]) => {
+    target.lineHits[Number(line)] = Math.max(target.lineHits[Number(line)] ?? 0, hits);
+  });
+  Object.entries(source.branches).forEach(([line, counts]) => {
+    const existing = target.branches[Number(line)];
+    target.branches[Number(line)] = existing
+      ? { covered: Math.max(existing.covered, counts.covered), total: Math.max(existing.total, counts.total) }
+      : { ...counts };
+  });
+  return target;
+}
+
+/**
+ * Summarizes the coverage of a file and of the functions, methods and
+ * classes declared in it
+ */
+export function mapCoverage(coverage: FileCoverage, symbols: SymbolTable): CodeCoverage {
+  const declarations: Symbol[] = symbols instanceof ScopedSymbolTable
+    ? symbols.getAllDeclarations()
+    : Array.from(symbols.symbols.values());
+  const seen = new Set<string>();
+  const symbolCoverage: SymbolCoverage[] = [];
+
+  declarations
+    .filter(symbol => COVERED_SYMBOL_TYPES.includes(symbol.type))
+    .forEach(symbol => {
+      // Overloads share the scope of their implementation
+      const scopeId = `${symbol.scope}.${symbol.name}`;
+      const range = symbols.scopes.find(scope => scope.id === scopeId)?.range;
+      if (!range || seen.has(scopeId)) return;
+
+      seen.add(scopeId);
+      symbolCoverage.push({
+        name: symbol.name,
+        type: symbol.type,
+        scope: symbol.scope,
+        range,
+        lines: countLines(coverage, range.start.line, range.end.line),
+        branches: countBranches(coverage, range.start.line, range.end.line)
+      });
+    });
+
+  return {
+    lines: countLines(coverage, 1, Infinity),
+    branches: countBranches(coverage, 1, Infinity),
+    symbols: symbolCoverage
+  };
+}
+
+function countLines(coverage: FileCoverage, startLine: number, endLine: number): CoverageCounts {
+  const counts = { covered: 0, total: 0 };
+  Object.entries(coverage.lineHits).forEach(([line, hits]) => {
+    if (Number(line) < startLine || Number(line) > endLine) return;
+    counts.total++;
+    if (hits > 0) counts.covered++;
+  });
+  return counts;
+}
+
+function countBranches(coverage: FileCoverage, startLine: number, endLine: number): CoverageCounts {
+  const counts = { covered: 0, total: 0 };
+  Object.entries(coverage.branches).forEach(([line, branch]) => {
+    if (Number(line) < startLine || Number(line) > endLine) return;
+    counts.covered += branch.covered;
+    counts.total += branch.total;
+  });
+  return counts;
+}
+
+function createFileCoverage(filePath: string): FileCoverage {
+  return { filePath: path.resolve(filePath), lineHits: {}, branches: {} };
+}
+
+function recordLine(coverage: FileCoverage, line: number, hits: number): void {
+  coverage.lineHits[line] = Math.max(coverage.lineHits[line] ?? 0, hits);
+}
+
+function recordBranches(coverage: FileCoverage, line: number, covered: number, total: number): void {
+  const existing = coverage.branches[line] || { covered: 0, total: 0 };
+  coverage.branches[line] = { covered: existing.covered + covered, total: existing.total + total };
+}
+
+/**
+ * Istanbul reports count statements and branches; a line takes the highest
+ * count of the statements starting on it
+ */
+function parseIstanbul(content: string, baseDir: string): FileCoverage[] {
+  const report = JSON.parse(content);
+
+  return Object.entries(report).map(([key, entry]: [string, any]) => {
+    const data = entry.data || entry;
+    const coverage = createFileCoverage(path.resolve(baseDir, data.path || key));
+
+    Object.entries(data.s || {}).forEach(([id, hits]) => {
+      const line = data.statementMap?.[id]?.start?.line;
+      if (line) recordLine(coverage, line, hits as number);
+    });
+    Object.entries(data.b || {}).forEach(([id, counts]) => {
+      const branch = data.branchMap?.[id];
+      const line = branch?.loc?.start?.line ?? branch?.line ?? branch?.locations?.[0]?.start?.line;
+      const taken = counts as number[];
+      if (line) recordBranches(coverage, line, taken.filter(count => count > 0).length, taken.length);
+    });
+
+    return coverage;
+  });
+}
+
+function parseLcov(content: string, baseDir: string): FileCoverage[] {
+  const files: FileCoverage[] = [];
+  let current: FileCoverage | null = null;
+
+  content.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const separator = line.indexOf(':');
+    const tag = separator === -1 ? line : line.slice(0, separator);
+    const values = line.slice(separator + 1).split(',');
+
+    switch (tag) {
+      case 'SF':
+        current = createFileCoverage(path.resolve(baseDir, line.slice(separator + 1)));
+        files.push(current);
+        break;
+      case 'DA':
+        if (current) recordLine(current, Number(values[0]), Number(values[1]));
+        break;
+      case 'BRDA':
+        // Branches of never executed blocks are reported as '-'
+        if (current) recordBranches(current, Number(values[0]), values[3] !== '-' && Number(values[3]) > 0 ? 1 : 0, 1);
+        break;
+      case 'end_of_record':
+        current = null;
+        break;
+    }
+  });
+
+  return files;
+}
+
+/**
+ * Cobertura lists lines per class, and again per method of the class;
+ * file names are relative to one of the report's sources
+ */
+function parseCobertura(content: string, baseDir: string): FileCoverage[] {
+  const sources = Array.from(content.matchAll(/<source>([^<]*)<\/source>/g)).map(match => decodeXml(match[1].trim()));
+  const files = new Map<string, FileCoverage>();
+
+  for (const match of content.matchAll(/<class\b([^>]*)>([\s\S]*?)<\/class>/g)) {
+    const filename = parseAttributes(match[1]).filename;
+    if (!filename) continue;
+
+    const filePath = resolveCoberturaPath(filename, sources, baseDir);
+    const lines = new Map<number, Record<string, string>>();
+    for (const lineMatch of match[2].matchAll(/<line\b([^>]*?)\/?>/g)) {
+      const attributes = parseAttributes(lineMatch[1]);
+      lines.set(Number(attributes.number), attributes);
+    }
+
+    const coverage = createFileCoverage(filePath);
+    lines.forEach((attributes, line) => {
+      recordLine(coverage, line, Number(attributes.hits) || 0);
+      const condition = attributes['condition-coverage']?.match(/\((\d+)\/(\d+)\)/);
+      if (attributes.branch === 'true' && condition) {
+        recordBranches(coverage, line, Number(condition[1]), Number(condition[2]));
+      }
+    });
+
+    const existing = files.get(coverage.filePath);
+    files.set(coverage.filePath, existing ? mergeFileCoverage(existing, coverage) : coverage);
+  }
+
+  return Array.from(files.values());
+}
+
+function resolveCoberturaPath(filename: string, sources: string[], baseDir: string): string {
+  const decoded = decodeXml(filename);
+  if (path.isAbsolute(decoded)) return decoded;
+
+  const candidates = sources.map(source => path.resolve(baseDir, source, decoded));
+  return candidates.find(candidate => fs.existsSync(candidate)) || candidates[0] || path.resolve(baseDir, decoded);
+}
+
+function parseAttributes(text: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  for (const match of text.matchAll(/([\w-]+)\s*=\s*"([^"]*)"/g)) {
+    attributes[match[1]] = decodeXml(match[2]);
+  }
+  return attributes;
+}
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * coverage.py only tells whether a line ran; branches are arcs from a
+ * line, negative targets being exits from the code object
+ */
+function parseCoveragePy(content: string, baseDir: string): FileCoverage[] {
+  const report = JSON.parse(content);
+
+  return Object.entries(report.files || {}).map(([file, data]: [string, any]) => {
+    const coverage = createFileCoverage(path.resolve(baseDir, file));
+
+    (data.executed_lines || []).forEach((line: number) => recordLine(coverage, line, 1));
+    (data.missing_lines || []).forEach((line: number) => recordLine(coverage, line, 0));
+    (data.executed_branches || []).forEach(([from]: number[]) => recordBranches(coverage, from, 1, 1));
+    (data.missing_branches || []).forEach(([from]: number[]) => recordBranches(coverage, from, 0, 1));
+
+    return coverage;
+  });
+}
+
+/**
+ * Loads coverage reports and answers the coverage of files
+ */
+export class CoverageIngestor {
+  private config: CoverageConfig;
+  private roots: Map<string, CoverageRoot> = new Map();
+  // Directories already searched for a coverage root, and the root found
+  private rootByDirectory: Map<string, string | null> = new Map();
+
+  constructor(config: Partial<CoverageConfig> = {}) {
+    this.config = {
+      reportPaths: config.reportPaths || DEFAULT_COVERAGE_REPORTS
+    };
+  }
+
+  /**
+   * Load the coverage reports of a project and return the files they cover
+   */
+  load(projectPath: string): FileCoverage[] {
+    const root = path.resolve(projectPath);
+    this.rootByDirectory.forEach((found, directory) => {
+      if (found === null && (directory === root || directory.startsWith(root + path.sep))) {
+        this.rootByDirectory.delete(directory);
+      }
+    });
+    this.rootByDirectory.set(root, root);
+    return Array.from(this.refresh(root).files.values());
+  }
+
+  /**
+   * Get the coverage of a file from the reports of its project, or
+   * undefined when no report covers it
+   */
+  getFileCoverage(filePath: string): FileCoverage | undefined {
+    const absolutePath = path.resolve(filePath);
+    const root = this.findRoot(path.dirname(absolutePath));
+    return root ? this.refresh(root).files.get(absolutePath) : undefined;
+  }
+
+  /**
+   * Forget every loaded report and discovered project root
+   */
+  clear(): void {
+    this.roots.clear();
+    this.rootByDirectory.clear();
+  }
+
+  /**
+   * Re-read the reports of a root that appeared, disappeared or changed
+   */
+  private refresh(root: string): CoverageRoot {
+    const loaded: CoverageRoot = this.roots.get(root) || { reports: new Map(), files: new Map() };
+    this.roots.set(root, loaded);
+    let changed = false;
+
+    this.config.reportPaths.forEach(reportPath => {
+      const absolutePath = path.resolve(root, reportPath);
+      const existing = loaded.reports.get(absolutePath);
+      const mtimeMs = fs.existsSync(absolutePath) ? fs.statSync(absolutePath).mtimeMs : null;
+
+      if (mtimeMs === null) {
+        changed = loaded.reports.delete(absolutePath) || changed;
+        return;
+      }
+      if (existing && existing.mtimeMs === mtimeMs) return;
+
+      loaded.reports.set(absolutePath, { mtimeMs, files: this.readReport(absolutePath, root) });
+      changed = true;
+    });
+
+    if (changed) {
+      loaded.files.clear();
+      loaded.reports.forEach(report => report.files.forEach(file => {
+        const existing = loaded.files.get(file.filePath);
+        loaded.files.set(file.filePath, mergeFileCoverage(existing || createFileCoverage(file.filePath), file));
+      }));
+    }
+
+    return loaded;
+  }
+
+  private readReport(reportPath: string, root: string): FileCoverage[] {
+    try {
+      const content = fs.readFileSync(reportPath, 'utf-8');
+      const format = detectCoverageFormat(reportPath, content);
+      if (!format) {
+        throw new Error(`Unknown coverage report format: ${reportPath}`);
+      }
+      return parseCoverageReport(content, format, root);
+    } catch (error) {
+      console.warn('Error reading coverage report:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Find the nearest directory at or above `directory` with a coverage
+   * report, without leaving the enclosing project
+   */
+  private findRoot(directory: string): string | null {
+    const visited: string[] = [];
+    let current = directory;
+    let root: string | null = null;
+
+    while (true) {
+      if (this.rootByDirectory.has(current)) {
+        root = this.rootByDirectory.get(current)!;
+        break;
+      }
+      visited.push(current);
+
+      if (this.config.reportPaths.some(reportPath => fs.existsSync(path.join(current, reportPath)))) {
+        root = current;
+        break;
+      }
+
+      const parent = path.dirname(current);
+      if (parent === current || PROJECT_MARKERS.some(marker => fs.existsSync(path.join(current, marker)))) {
+        break;
+      }
+      current = parent;
+    }
+
+    visited.forEach(visitedDirectory => this.rootByDirectory.set(visitedDirectory, root));
+    return root;
+  }
+}
@@ -0,0 +1,362 @@
+import { ScopedSymbolTable } from './symbol-table';
+import { AbstractSyntaxTree, DependencyEdge, DependencyGraph, DependencyNode, Symbol, SymbolTable } from '../interfaces/context';
+
+/**
+ * Dependency extraction for a single parsed file
+ * Implements requirements 2.1 and 2.2
+ *
+ * Node ids in a file graph:
+ * - the file itself: its path as recorded by the parser (type `file`)
+ * - imported modules: the specifier as written, e.g. `./util` or `..pkg` (type `module`)
+ * - names taken from a module: `<specifier>#<name>`, or `<specifier>#<name>.<member>`
+ *   for a member accessed through an imported name (type `import`)
+ * - declared functions, classes, interfaces and methods: the
+ *   scope-qualified name, e.g. `global.Store.get`
+ *
+ * Edges point from the dependent to its dependency. Calls, inheritance and
+ * type references start at the innermost enclosing declaration, or at the
+ * file for top-level code. Top-level code using a declaration of the same
+ * file adds no edge: a file is not a dependent of its own declarations.
+ */
+
+export type DependencyEdgeType = 'imports' | 'calls' | 'extends' | 'implements' | 'references';
+
+export const DEPENDENCY_EDGE_TYPES: DependencyEdgeType[] = ['imports', 'calls', 'extends', 'implements', 'references'];
+
+export interface ImportBinding {
+  specifier: string;
+  importedName: string | null; // null when the whole module is bound, e.g. `import * as ns`
+}
+
+const DECLARATION_TYPES = new Set(['function', 'class', 'interface', 'method']);
+
+const TS_DECLARATIONS: Record<string, string> = {
+  FunctionDeclaration: 'function',
+  MethodDeclaration: 'method',
+  ClassDeclaration: 'class',
+  InterfaceDeclaration: 'interface'
+};
+
+const PYTHON_DECLARATIONS: Record<string, string> = {
+  FunctionDef: 'function',
+  AsyncFunctionDef: 'function',
+  ClassDef: 'class'
+};
+
+interface WalkState {
+  scopeId: string;
+  ownerId: string; // innermost enclosing declaration, or the file
+  classScopeId?: string; // for `this.x` / `self.x`
+}
+
+/**
+ * Builds the dependency graph of one file from its AST and symbol table
+ */
+export class FileDependencyExtractor {
+  private symbolTable: SymbolTable;
+  private fileId: string;
+  private bindings: Map<string, ImportBinding> = new Map();
+  private nodes: Map<string, DependencyNode> = new Map();
+  private edges: Map<string, DependencyEdge> = new Map();
+
+  constructor(symbolTable: SymbolTable, ast: AbstractSyntaxTree) {
+    this.symbolTable = symbolTable;
+    this.fileId = ast.metadata.filePath || ast.metadata.start?.file || 'file';
+  }
+
+  /**
+   * Extract the nodes and edges of the file
+   */
+  extract(ast: AbstractSyntaxTree): DependencyGraph {
+    this.addNode({ id: this.fileId, name: this.fileId, type: 'file' });
+
+    const declarations = this.symbolTable instanceof ScopedSymbolTable
+      ? this.symbolTable.getAllDeclarations()
+      : Array.from(this.symbolTable.symbols.values());
+    declarations.forEach(symbol => {
+      if (DECLARATION_TYPES.has(symbol.type)) {
+        this.addNode({ id: `${symbol.scope}.${symbol.name}`, name: symbol.name, type: symbol.type });
+      }
+    });
+
+    const state: WalkState = { scopeId: 'global', ownerId: this.fileId };
+    if (ast.type === 'Module') {
+      this.walkPython(ast, state);
+    } else {
+      this.walkTypeScript(ast, state);
+    }
+
+    return { nodes: Array.from(this.nodes.values()), edges: Array.from(this.edges.values()) };
+  }
+
+  /**
+   * Get the names the file imports, by local name
+   */
+  getBindings(): Map<string, ImportBinding> {
+    return new Map(this.bindings);
+  }
+
+  private walkTypeScript(node: AbstractSyntaxTree, state: WalkState): void {
+    switch (node.type) {
+      case 'ImportDeclaration':
+      case 'ExportDeclaration':
+        this.addTypeScriptImport(node);
+        return;
+      case 'ImportEqualsDeclaration': {
+        const reference = node.children.find(child => child.type === 'ExternalModuleReference');
+        const specifier = reference && this.stringValue(reference.children[0]);
+        const local = this.identifierText(node.children.find(child => child.type === 'Identifier'));
+        if (specifier) {
+          this.addImport(specifier);
+          if (local) this.bindings.set(local, { specifier, importedName: null });
+        }
+        return;
+      }
+      case 'HeritageClause': {
+        const type = /^\s*implements\b/.test(node.metadata.text || '') ? 'implements' : 'extends';
+        node.children.forEach(child => {
+          const [expression, ...typeArguments] = child.children;
+          this.addEdge(state.ownerId, this.resolveChain(this.typeScriptChain(expression), state), type);
+          typeArguments.forEach(argument => this.walkTypeScript(argument, state));
+        });
+        return;
+      }
+      case 'CallExpression':
+      case 'NewExpression': {
+        const callee = node.children[0];
+        const specifier = this.requiredModule(node);
+        if (specifier) {
+          this.addImport(specifier);
+        } else {
+          this.addEdge(state.ownerId, this.resolveChain(this.typeScriptChain(callee), state), 'calls');
+        }
+        break;
+      }
+      case 'TypeReference':
+      case 'ExpressionWithTypeArguments':
+        this.addEdge(state.ownerId, this.resolveChain(this.typeScriptChain(node.children[0]), state), 'references');
+        break;
+    }
+
+    const declarationType = TS_DECLARATIONS[node.type];
+    const name = declarationType && this.identifierText(node.children.find(child => child.type === 'Identifier'));
+    const inner = name ? this.enterDeclaration(state, name, declarationType) : state;
+
+    node.children.forEach(child => this.walkTypeScript(child, inner));
+  }
+
+  private walkPython(node: AbstractSyntaxTree, state: WalkState): void {
+    const declarationType = PYTHON_DECLARATIONS[node.type];
+    const name: string | undefined = declarationType ? node.metadata.name : undefined;
+    const inner = name ? this.enterDeclaration(state, name, declarationType) : state;
+    const bases: string[] = node.type === 'ClassDef' ? node.metadata.bases || [] : [];
+
+    switch (node.type) {
+      case 'Import':
+        this.addPythonImport(node);
+        return;
+      case 'ClassDef':
+        bases.forEach(base => this.addEdge(inner.ownerId, this.resolveChain(base.split('.'), state), 'extends'));
+        break;
+      case 'FunctionDef':
+      case 'AsyncFunctionDef':
+        this.addAnnotationReferences(node.metadata.returns, inner);
+        break;
+      case 'Call':
+        this.addEdge(state.ownerId, this.resolveChain(this.pythonChain(node.children[0]), state), 'calls');
+        break;
+      case 'arg':
+        this.addAnnotationReferences(node.metadata.annotation, state);
+        break;
+      case 'AnnAssign':
+        this.addAnnotationReferences(node.children[1]?.metadata.text, state);
+        break;
+    }
+
+    node.children.forEach(child => {
+      // Base classes were recorded as inheritance above
+      if (!bases.includes(child.metadata.text)) {
+        this.walkPython(child, inner);
+      }
+    });
+  }
+
+  /**
+   * Enter a declaration: methods are declared in a class scope, so the
+   * class scope is remembered for `this.x` / `self.x`
+   */
+  private enterDeclaration(state: WalkState, name: string, declarationType: string): WalkState {
+    const scopeId = `${state.scopeId}.${name}`;
+    const isClass = declarationType === 'class';
+    return {
+      scopeId,
+      ownerId: this.nodes.has(scopeId) ? scopeId : state.ownerId,
+      classScopeId: isClass ? scopeId : state.classScopeId
+    };
+  }
+
+  private addTypeScriptImport(node: AbstractSyntaxTree): void {
+    const specifier = this.stringValue(node.children.find(child => child.type === 'StringLiteral'));
+    if (!specifier) return;
+    this.addImport(specifier);
+
+    const clause = node.children.find(child => child.type === 'ImportClause');
+    clause?.children.forEach(child => {
+      if (child.type === 'Identifier') {
+        this.bindings.set(child.metadata.text, { specifier, importedName: 'default' });
+      } else if (child.type === 'NamespaceImport') {
+        const local = this.identifierText(child.children[0]);
+        if (local) this.bindings.set(local, { specifier, importedName: null });
+      } else if (child.type === 'NamedImports') {
+        child.children.forEach(specifierNode => {
+          const names = specifierNode.children.filter(part => part.type === 'Identifier').map(part => part.metadata.text);
+          if (names.length > 0) {
+            this.bindings.set(names[names.length - 1], { specifier, importedName: names[0] });
+          }
+        });
+      }
+    });
+  }
+
+  private addPythonImport(node: AbstractSyntaxTree): void {
+    const names: Array<{ name: string; asname?: string }> = node.metadata.names || [];
+
+    if (node.metadata.importKind === 'from') {
+      const specifier: string = node.metadata.fromModule;
+      this.addImport(specifier);
+      names.forEach(({ name, asname }) => {
+        if (name !== '*') this.bindings.set(asname || name, { specifier, importedName: name });
+      });
+      return;
+    }
+
+    names.forEach(({ name, asname }) => {
+      this.addImport(name);
+      this.bindings.set(asname || name, { specifier: name, importedName: null });
+      // `import a.b` also binds `a`; `a.b.x` still resolves through the longer path
+      const [root] = name.split('.');
+      if (!asname && root !== name && !this.bindings.has(root)) {
+        this.bindings.set(root, { specifier: root, importedName: null });
+      }
+    });
+  }
+
+  private addAnnotationReferences(annotation: string | undefined, state: WalkState): void {
+    if (!annotation) return;
+    (annotation.match(/[A-Za-z_][\w.]*/g) || []).forEach(reference => {
+      this.addEdge(state.ownerId, this.resolveChain(reference.split('.'), state), 'references');
+    });
+  }
+
+  private addImport(specifier: string): void {
+    this.addNode({ id: specifier, name: specifier, type: 'module' });
+    this.addEdge(this.fileId, specifier, 'imports');
+  }
+
+  /**
+   * Resolve a (possibly dotted) name to a node: a local declaration, a
+   * member of the enclosing class, or a name imported from a module
+   */
+  private resolveChain(chain: string[], state: WalkState): string | null {
+    if (chain.length === 0) return null;
+
+    if ((chain[0] === 'this' || chain[0] === 'self') && chain.length > 1) {
+      const member = state.classScopeId && `${state.classScopeId}.${chain[1]}`;
+      return member && this.nodes.has(member) ? member : null;
+    }
+
+    // The longest imported prefix wins, so `os.path.join` resolves through `os.path`
+    for (let length = chain.length; length > 0; length--) {
+      const prefix = chain.slice(0, length).join('.');
+      if (length === 1 || this.bindings.has(prefix)) {
+        const local = length === 1 ? this.lookupLocal(chain[0], state.scopeId) : undefined;
+        if (local && local.type !== 'import') {
+          const id = `${local.scope}.${local.name}`;
+          return this.nodes.has(id) ? id : null;
+        }
+
+        const binding = this.bindings.get(prefix);
+        if (!binding) return null;
+
+        // A member of an imported name may be a static member or, in Python, a submodule's declaration
+        const member = chain[length];
+        const name = binding.importedName === null ? member : [binding.importedName, member].filter(Boolean).join('.');
+        if (!name) return binding.specifier;
+        const id = `${binding.specifier}#${name}`;
+        this.addNode({ id, name, type: 'import' });
+        return id;
+      }
+    }
+
+    return null;
+  }
+
+  private lookupLocal(name: string, scopeId: string): Symbol | undefined {
+    if (this.symbolTable instanceof ScopedSymbolTable) {
+      return this.symbolTable.lookup(name, scopeId)[0];
+    }
+    return Array.from(this.symbolTable.symbols.values()).find(symbol => symbol.name === name);
+  }
+
+  private typeScriptChain(node?: AbstractSyntaxTree): string[] {
+    if (!node) return [];
+    switch (node.type) {
+      case 'Identifier':
+        return [node.metadata.text];
+      case 'ThisKeyword':
+        return ['this'];
+      case 'PropertyAccessExpression':
+      case 'QualifiedName': {
+        const [object, property] = node.children;
+        const chain = this.typeScriptChain(object);
+        return chain.length > 0 && property?.type === 'Identifier' ? [...chain, property.metadata.text] : [];
+      }
+      default:
+        return [];
+    }
+  }
+
+  private pythonChain(node?: AbstractSyntaxTree): string[] {
+    if (!node) return [];
+    if (node.type === 'Name') return [node.metadata.name];
+    if (node.type === 'Attribute') {
+      const chain = this.pythonChain(node.children[0]);
+      return chain.length > 0 ? [...chain, node.metadata.attr] : [];
+    }
+    return [];
+  }
+
+  /**
+   * Get the module of `require('x')` or `import('x')`
+   */
+  private requiredModule(node: AbstractSyntaxTree): string | null {
+    const [callee, argument] = node.children;
+    const isRequire = callee?.type === 'Identifier' && callee.metadata.text === 'require';
+    if (node.type !== 'CallExpression' || !(isRequire || callee?.type === 'ImportKeyword')) return null;
+    return this.stringValue(argument);
+  }
+
+  private stringValue(node?: AbstractSyntaxTree): string | null {
+    if (!node || (node.type !== 'StringLiteral' && node.type !== 'NoSubstitutionTemplateLiteral')) return null;
+    return String(node.metadata.text).slice(1, -1);
+  }
+
+  private identifierText(node?: AbstractSyntaxTree): string | null {
+    return node?.type === 'Identifier' && node.metadata.text ? node.metadata.text : null;
+  }
+
+  private addNode(node: DependencyNode): void {
+    if (!this.nodes.has(node.id)) {
+      this.nodes.set(node.id, node);
+    }
+  }
+
+  private addEdge(from: string, to: string | null, type: DependencyEdgeType): void {
+    if (!to) return;
+    if (from === this.fileId && DECLARATION_TYPES.has(this.nodes.get(to)?.type || '')) return;
+    const key = `${from}\u0000${to}\u0000${type}`;
+    if (!this.edges.has(key)) {
+      this.edges.set(key, { from, to, type });
+    }
+  }
+}
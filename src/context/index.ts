@@ -1,4 +1,18 @@
 // Code context analysis components
 export * from './analyzer';
 export * from './ast-parser';
-export * from './symbol-analyzer';
\ No newline at end of file
+export * from './ast-metadata';
+export * from './symbol-analyzer';
+export * from './symbol-table';
+export * from './semantic-analyzer';
+export * from './dependency-graph';
+export * from './project-graph';
+export * from './analysis-cache';
+export * from './style-inferrer';
+export * from './project-quality';
+export * from './coverage';
+export * from './complexity';
+export * from './maintainability';
+export * from './tsconfig';
+export * from './language';
+export * from './python-parser';
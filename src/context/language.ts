@@ -0,0 +1,70 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * Source language and script kind detection shared by the parser and analyzers
+ * Implements requirements 2.1 and 2.2
+ */
+
+export type SourceLanguage = 'typescript' | 'javascript' | 'python';
+
+const LANGUAGE_BY_EXTENSION: Record<string, SourceLanguage> = {
+  '.ts': 'typescript',
+  '.tsx': 'typescript',
+  '.mts': 'typescript',
+  '.cts': 'typescript',
+  '.js': 'javascript',
+  '.jsx': 'javascript',
+  '.mjs': 'javascript',
+  '.cjs': 'javascript',
+  '.py': 'python',
+  '.pyi': 'python'
+};
+
+const SCRIPT_KIND_BY_EXTENSION: Record<string, ts.ScriptKind> = {
+  '.ts': ts.ScriptKind.TS,
+  '.mts': ts.ScriptKind.TS,
+  '.cts': ts.ScriptKind.TS,
+  '.tsx': ts.ScriptKind.TSX,
+  '.js': ts.ScriptKind.JS,
+  '.mjs': ts.ScriptKind.JS,
+  '.cjs': ts.ScriptKind.JS,
+  '.jsx': ts.ScriptKind.JSX
+};
+
+/**
+ * Extensions of files the analyzers can parse
+ */
+export const CODE_FILE_EXTENSIONS = Object.keys(LANGUAGE_BY_EXTENSION);
+
+/**
+ * Detects the language of a file from its extension, or null when unsupported
+ */
+export function detectLanguage(filePath: string): SourceLanguage | null {
+  return LANGUAGE_BY_EXTENSION[path.extname(filePath).toLowerCase()] || null;
+}
+
+/**
+ * Checks whether a file has an extension the analyzers can parse
+ */
+export function isCodeFile(filePath: string): boolean {
+  return detectLanguage(filePath) !== null;
+}
+
+/**
+ * Checks whether a file is a TypeScript declaration file (.d.ts, .d.mts, .d.cts)
+ */
+export function isDeclarationFile(filePath: string): boolean {
+  return /\.d\.[mc]?ts$/i.test(filePath);
+}
+
+/**
+ * Selects the TypeScript script kind for a file. JSX is only parsed in
+ * .tsx/.jsx files, matching the compiler; unknown extensions fall back to
+ * the kind of the language hint.
+ */
+export function getScriptKind(filePath: string, language?: string): ts.ScriptKind {
+  const kind = SCRIPT_KIND_BY_EXTENSION[path.extname(filePath).toLowerCase()];
+  if (kind !== undefined) return kind;
+  return language?.toLowerCase() === 'javascript' ? ts.ScriptKind.JS : ts.ScriptKind.TS;
+}
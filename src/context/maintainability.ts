@@ -0,0 +1,250 @@
+import * as ts from 'typescript';
+import {
+  AbstractSyntaxTree,
+  FileComplexity,
+  FileMaintainability,
+  FunctionComplexity,
+  HalsteadMetrics,
+  LineCounts
+} from '../interfaces/context';
+
+/**
+ * Halstead metrics, line counts and maintainability index for TypeScript,
+ * JavaScript and Python ASTs
+ * Implements requirements 2.1 and 2.2
+ *
+ * Operands are identifiers, declared names and literals. Operators are the
+ * other syntax nodes, keyed by their operator where they have one (`+`,
+ * `and`, `not in`); nodes that only group others, such as blocks and
+ * expression statements, are neither.
+ *
+ * Source lines are the lines a node starts or ends on, and every line of a
+ * leaf node such as a multi-line string. Other non-blank lines hold only
+ * comments.
+ *
+ * The maintainability index is the original formula without its comment
+ * term, rescaled to 0-100 as Visual Studio does:
+ *   max(0, (171 - 5.2 ln(V) - 0.23 G - 16.2 ln(SLOC)) * 100 / 171)
+ * where V is the Halstead volume and G the cyclomatic complexity. Counts for
+ * a function include the functions nested in it.
+ */
+
+interface HalsteadCounts {
+  operators: Map<string, number>;
+  operands: Map<string, number>;
+}
+
+const OPERAND_TYPES = new Set([
+  ...[
+    ts.SyntaxKind.Identifier,
+    ts.SyntaxKind.PrivateIdentifier,
+    ts.SyntaxKind.StringLiteral,
+    ts.SyntaxKind.NumericLiteral,
+    ts.SyntaxKind.BigIntLiteral,
+    ts.SyntaxKind.RegularExpressionLiteral,
+    ts.SyntaxKind.NoSubstitutionTemplateLiteral,
+    ts.SyntaxKind.TemplateHead,
+    ts.SyntaxKind.TemplateMiddle,
+    ts.SyntaxKind.TemplateTail,
+    ts.SyntaxKind.TrueKeyword,
+    ts.SyntaxKind.FalseKeyword,
+    ts.SyntaxKind.NullKeyword,
+    ts.SyntaxKind.ThisKeyword,
+    ts.SyntaxKind.SuperKeyword
+  ].map(kind => ts.SyntaxKind[kind]),
+  'Name', 'Constant', 'JoinedStr'
+]);
+
+// Nodes that only group other nodes; a binary expression counts through its operator token
+const GROUPING_TYPES = new Set([
+  ...[
+    ts.SyntaxKind.SourceFile,
+    ts.SyntaxKind.Block,
+    ts.SyntaxKind.ExpressionStatement,
+    ts.SyntaxKind.VariableStatement,
+    ts.SyntaxKind.ModuleBlock,
+    ts.SyntaxKind.CaseBlock,
+    ts.SyntaxKind.TemplateSpan,
+    ts.SyntaxKind.BinaryExpression,
+    ts.SyntaxKind.EndOfFileToken
+  ].map(kind => ts.SyntaxKind[kind]),
+  'Module', 'Expr', 'arguments', 'Error'
+]);
+
+// Python nodes that declare or reference a name held in their metadata
+const PYTHON_NAMED_TYPES = new Set(['FunctionDef', 'AsyncFunctionDef', 'ClassDef', 'arg', 'alias', 'Attribute', 'ExceptHandler']);
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Computes the maintainability index on the 0-100 scale
+ */
+export function maintainabilityIndex(volume: number, cyclomatic: number, sourceLines: number): number {
+  const index = 171 - 5.2 * Math.log(Math.max(1, volume)) - 0.23 * cyclomatic - 16.2 * Math.log(Math.max(1, sourceLines));
+  return round(Math.min(100, Math.max(0, index * 100 / 171)));
+}
+
+/**
+ * Computes per-function and per-file maintainability
+ */
+export class MaintainabilityAnalyzer {
+  /**
+   * Analyze the maintainability of a file and of the functions found by
+   * complexity analysis
+   */
+  analyze(ast: AbstractSyntaxTree, code: string, complexity: FileComplexity): FileMaintainability {
+    const lines = code.length > 0 ? code.replace(/\r?\n$/, '').split(/\r?\n/) : [];
+    const sourceLines = new Set<number>();
+    const file = this.createCounts();
+    const functionsByRange = new Map(complexity.functions.map(fn => [this.rangeKey(fn.range), fn]));
+    const functionCounts = new Map<FunctionComplexity, HalsteadCounts>();
+
+    const visit = (node: AbstractSyntaxTree, active: HalsteadCounts[]) => {
+      const fn = functionsByRange.get(this.rangeKey(node.metadata));
+      if (fn && !functionCounts.has(fn)) {
+        const counts = this.createCounts();
+        functionCounts.set(fn, counts);
+        active = [...active, counts];
+      }
+
+      this.markSourceLines(node, sourceLines);
+      active.forEach(counts => this.tally(node, counts));
+      node.children.forEach(child => visit(child, active));
+    };
+
+    // The root spans the whole file, so its own lines say nothing
+    ast.children.forEach(child => visit(child, [file]));
+
+    const countLines = (from: number, to: number): LineCounts => {
+      const counts: LineCounts = { total: Math.max(0, to - from + 1), source: 0, comment: 0, blank: 0 };
+      for (let line = from; line <= to; line++) {
+        if (sourceLines.has(line)) {
+          counts.source++;
+        } else if ((lines[line - 1] || '').trim().length > 0) {
+          counts.comment++;
+        } else {
+          counts.blank++;
+        }
+      }
+      return counts;
+    };
+
+    const fileLines = countLines(1, lines.length);
+    const fileHalstead = this.toMetrics(file);
+
+    return {
+      index: maintainabilityIndex(fileHalstead.volume, complexity.cyclomatic, fileLines.source),
+      halstead: fileHalstead,
+      lines: fileLines,
+      functions: complexity.functions.map(fn => {
+        const halstead = this.toMetrics(functionCounts.get(fn) || this.createCounts());
+        const functionLines = countLines(fn.range.start.line, fn.range.end.line);
+        return {
+          name: fn.name,
+          type: fn.type,
+          scope: fn.scope,
+          range: fn.range,
+          index: maintainabilityIndex(halstead.volume, fn.cyclomatic, functionLines.source),
+          halstead,
+          lines: functionLines
+        };
+      })
+    };
+  }
+
+  /**
+   * Add the operators and operands of one node, without its children
+   */
+  private tally(node: AbstractSyntaxTree, counts: HalsteadCounts): void {
+    const { type, metadata, children } = node;
+    const operator = (key: string, count = 1) => this.add(counts.operators, key, count);
+    const operand = (key: string) => this.add(counts.operands, key, 1);
+
+    if (OPERAND_TYPES.has(type)) {
+      operand(String(metadata.text));
+      return;
+    }
+
+    switch (type) {
+      case 'BinOp':
+      case 'UnaryOp':
+      case 'AugAssign':
+        operator(String(metadata.op));
+        break;
+      case 'BoolOp':
+        // The parser flattens `a and b and c` into one BoolOp
+        operator(String(metadata.op), children.length - 1);
+        break;
+      case 'Compare':
+        (metadata.ops as string[] || []).forEach(op => operator(op));
+        break;
+      case 'PrefixUnaryExpression':
+      case 'PostfixUnaryExpression': {
+        const text = String(metadata.text);
+        const operandLength = String(children[0]?.metadata.text || '').length;
+        operator(type === 'PrefixUnaryExpression'
+          ? text.slice(0, text.length - operandLength).trim()
+          : text.slice(operandLength).trim());
+        break;
+      }
+      default:
+        if (!GROUPING_TYPES.has(type)) operator(type);
+    }
+
+    if (PYTHON_NAMED_TYPES.has(type) && metadata.name) operand(String(metadata.name));
+    if (type === 'alias' && metadata.asname) operand(String(metadata.asname));
+    if (type === 'keyword' && metadata.arg) operand(String(metadata.arg));
+  }
+
+  /**
+   * Record the lines a node starts and ends on, or all of a leaf's lines
+   */
+  private markSourceLines(node: AbstractSyntaxTree, sourceLines: Set<number>): void {
+    const start = node.metadata.start?.line;
+    const end = node.metadata.end?.line ?? start;
+    if (start === undefined || node.type === ts.SyntaxKind[ts.SyntaxKind.EndOfFileToken]) return;
+
+    if (node.children.length === 0) {
+      for (let line = start; line <= end; line++) sourceLines.add(line);
+    } else {
+      sourceLines.add(start);
+      sourceLines.add(end);
+    }
+  }
+
+  private toMetrics(counts: HalsteadCounts): HalsteadMetrics {
+    const sum = (map: Map<string, number>) => Array.from(map.values()).reduce((total, count) => total + count, 0);
+    const distinctOperators = counts.operators.size;
+    const distinctOperands = counts.operands.size;
+    const totalOperators = sum(counts.operators);
+    const totalOperands = sum(counts.operands);
+    const vocabulary = distinctOperators + distinctOperands;
+    const length = totalOperators + totalOperands;
+    const volume = vocabulary > 0 ? length * Math.log2(vocabulary) : 0;
+    const difficulty = distinctOperands > 0 ? (distinctOperators / 2) * (totalOperands / distinctOperands) : 0;
+
+    return {
+      distinctOperators,
+      distinctOperands,
+      totalOperators,
+      totalOperands,
+      vocabulary,
+      length,
+      volume: round(volume),
+      difficulty: round(difficulty),
+      effort: round(difficulty * volume)
+    };
+  }
+
+  private createCounts(): HalsteadCounts {
+    return { operators: new Map(), operands: new Map() };
+  }
+
+  private add(map: Map<string, number>, key: string, count: number): void {
+    if (count > 0) map.set(key, (map.get(key) || 0) + count);
+  }
+
+  private rangeKey(range: { start?: { line: number; column: number }; end?: { line: number; column: number } }): string {
+    return `${range.start?.line}:${range.start?.column}-${range.end?.line}:${range.end?.column}`;
+  }
+}
@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as ts from 'typescript';
+import { DependencyEdge, DependencyGraph, DependencyNode } from '../interfaces/context';
+import { MultiLanguageASTParser } from './ast-parser';
+import { SymbolAnalyzer } from './symbol-analyzer';
+import { SourceLanguage, detectLanguage } from './language';
+import { readProjectConfig } from './tsconfig';
+
+/**
+ * Project-wide dependency graph across files and symbols
+ * Implements requirements 2.1 and 2.2
+ *
+ * Node ids:
+ * - files: the project-relative path with forward slashes, e.g. `src/store.ts`
+ * - declarations: `<file>#<qualified name>`, e.g. `src/store.ts#global.Store.get`
+ * - modules outside the project: `module:<specifier>`, e.g. `module:react`
+ *
+ * Edges point from the dependent to its dependency, so the dependents of a
+ * node are the sources of its incoming edges.
+ */
+
+export interface ProjectGraphConfig {
+  tsconfigPath?: string; // defaults to the nearest tsconfig.json at or above the project
+  pythonRoots: string[]; // project-relative directories that absolute Python imports resolve from
+}
+
+interface AnalyzedFile {
+  id: string;
+  absolutePath: string;
+  language: SourceLanguage;
+  graph: DependencyGraph;
+}
+
+const EXCLUDED_DIRECTORIES = new Set(['node_modules', '__pycache__', 'dist', 'build']);
+
+/**
+ * Collect the project-relative paths of the code files under a directory
+ */
+export function collectCodeFiles(projectPath: string): string[] {
+  const files: string[] = [];
+
+  const scanDirectory = (dirPath: string) => {
+    fs.readdirSync(dirPath, { withFileTypes: true }).forEach(entry => {
+      const entryPath = path.join(dirPath, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !EXCLUDED_DIRECTORIES.has(entry.name)) {
+          scanDirectory(entryPath);
+        }
+      } else if (entry.isFile() && detectLanguage(entry.name)) {
+        files.push(path.relative(projectPath, entryPath));
+      }
+    });
+  };
+
+  scanDirectory(projectPath);
+  return files.sort();
+}
+
+/**
+ * Dependency graph with traversal in both directions
+ */
+export class ProjectDependencyGraph implements DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  private nodeIndex: Map<string, DependencyNode> = new Map();
+  private incoming: Map<string, DependencyEdge[]> = new Map();
+  private outgoing: Map<string, DependencyEdge[]> = new Map();
+
+  constructor(nodes: DependencyNode[], edges: DependencyEdge[]) {
+    this.nodes = nodes;
+    this.edges = edges;
+    nodes.forEach(node => this.nodeIndex.set(node.id, node));
+    edges.forEach(edge => {
+      this.index(this.incoming, edge.to, edge);
+      this.index(this.outgoing, edge.from, edge);
+    });
+  }
+
+  /**
+   * Get a node by id
+   */
+  getNode(id: string): DependencyNode | undefined {
+    return this.nodeIndex.get(id);
+  }
+
+  /**
+   * Get what depends on a node: the files and declarations that import,
+   * call, extend, implement or reference it. A file stands for itself and
+   * the declarations in it.
+   */
+  getDependents(id: string, transitive: boolean = false): DependencyNode[] {
+    return this.traverse(id, transitive, this.incoming, edge => edge.from);
+  }
+
+  /**
+   * Get what a node depends on
+   */
+  getDependencies(id: string, transitive: boolean = false): DependencyNode[] {
+    return this.traverse(id, transitive, this.outgoing, edge => edge.to);
+  }
+
+  /**
+   * Get the edges into or out of a node
+   */
+  getEdges(id: string, direction: 'incoming' | 'outgoing' = 'incoming'): DependencyEdge[] {
+    return [...((direction === 'incoming' ? this.incoming : this.outgoing).get(id) || [])];
+  }
+
+  private traverse(
+    id: string,
+    transitive: boolean,
+    adjacency: Map<string, DependencyEdge[]>,
+    next: (edge: DependencyEdge) => string
+  ): DependencyNode[] {
+    const start = [id];
+    if (this.nodeIndex.get(id)?.type === 'file') {
+      start.push(...this.nodes.filter(node => node.id.startsWith(`${id}#`)).map(node => node.id));
+    }
+
+    const seen = new Set(start);
+    const queue = [...start];
+    const found: DependencyNode[] = [];
+
+    while (queue.length > 0) {
+      (adjacency.get(queue.shift()!) || []).forEach(edge => {
+        const target = next(edge);
+        if (seen.has(target)) return;
+
+        seen.add(target);
+        const node = this.nodeIndex.get(target);
+        if (node) found.push(node);
+        if (transitive) queue.push(target);
+      });
+    }
+
+    return found;
+  }
+
+  private index(map: Map<string, DependencyEdge[]>, key: string, edge: DependencyEdge): void {
+    const list = map.get(key);
+    if (list) {
+      list.push(edge);
+    } else {
+      map.set(key, [edge]);
+    }
+  }
+}
+
+/**
+ * Builds the dependency graph of a project by analyzing each file and
+ * resolving its module specifiers: TypeScript and JavaScript through the
+ * compiler's module resolution (tsconfig paths and node resolution),
+ * Python through relative levels and the configured import roots
+ */
+export class ProjectDependencyGraphBuilder {
+  private config: ProjectGraphConfig;
+  private astParser: MultiLanguageASTParser;
+  private symbolAnalyzer: SymbolAnalyzer;
+
+  constructor(
+    config: Partial<ProjectGraphConfig> = {},
+    astParser: MultiLanguageASTParser = new MultiLanguageASTParser(),
+    symbolAnalyzer: SymbolAnalyzer = new SymbolAnalyzer()
+  ) {
+    this.config = {
+      tsconfigPath: config.tsconfigPath,
+      pythonRoots: config.pythonRoots || ['.', 'src']
+    };
+    this.astParser = astParser;
+    this.symbolAnalyzer = symbolAnalyzer;
+  }
+
+  /**
+   * Build the graph of a project, from the given project-relative files or
+   * from every code file under the project
+   */
+  async build(projectPath: string, files?: string[]): Promise<ProjectDependencyGraph> {
+    const root = path.resolve(projectPath);
+    const { options } = readProjectConfig(root, this.config.tsconfigPath);
+    const resolutionCache = ts.createModuleResolutionCache(root, fileName => fileName, options);
+
+    const analyzed: AnalyzedFile[] = [];
+    for (const file of files || collectCodeFiles(root)) {
+      const absolutePath = path.resolve(root, file);
+      const language = detectLanguage(absolutePath);
+      if (!language) continue;
+
+      try {
+        const ast = await this.astParser.parseFile(absolutePath);
+        const symbols = this.symbolAnalyzer.analyzeSymbols(ast, language);
+        const graph = this.symbolAnalyzer.buildDependencyGraph(symbols, ast);
+        analyzed.push({ id: this.toNodeId(root, absolutePath), absolutePath, language, graph });
+      } catch (error) {
+        console.warn('Error analyzing file dependencies:', error);
+      }
+    }
+
+    const nodes = new Map<string, DependencyNode>();
+    const edges = new Map<string, DependencyEdge>();
+    analyzed.forEach(file => {
+      nodes.set(file.id, { id: file.id, name: file.id, type: 'file' });
+      file.graph.nodes
+        .filter(node => !['file', 'module', 'import'].includes(node.type))
+        .forEach(node => nodes.set(`${file.id}#${node.id}`, { ...node, id: `${file.id}#${node.id}` }));
+    });
+
+    analyzed.forEach(file => {
+      const resolveModule = (specifier: string): string => {
+        const resolved = file.language === 'python'
+          ? this.resolvePythonModule(root, specifier, file.absolutePath)
+          : this.resolveScriptModule(root, specifier, file.absolutePath, options, resolutionCache);
+        const id = resolved ? this.toNodeId(root, resolved) : `module:${specifier}`;
+        if (!nodes.has(id)) {
+          nodes.set(id, resolved ? { id, name: id, type: 'file' } : { id, name: specifier, type: 'module' });
+        }
+        return id;
+      };
+
+      const ids = new Map<string, string>();
+      file.graph.nodes.forEach(node => {
+        switch (node.type) {
+          case 'file':
+            ids.set(node.id, file.id);
+            break;
+          case 'module':
+            ids.set(node.id, resolveModule(node.id));
+            break;
+          case 'import': {
+            const separator = node.id.lastIndexOf('#');
+            ids.set(node.id, this.resolveImportedName(root, file, node.id.slice(0, separator), node.name, nodes, resolveModule));
+            break;
+          }
+          default:
+            ids.set(node.id, `${file.id}#${node.id}`);
+        }
+      });
+
+      file.graph.edges.forEach(edge => {
+        const from = ids.get(edge.from);
+        const to = ids.get(edge.to);
+        if (from && to) {
+          edges.set(`${from}\u0000${to}\u0000${edge.type}`, { from, to, type: edge.type });
+        }
+      });
+    });
+
+    return new ProjectDependencyGraph(Array.from(nodes.values()), Array.from(edges.values()));
+  }
+
+  /**
+   * Resolve a name imported from a module to the declaration exported by the
+   * module's file (or a member of it), to a Python submodule or a declaration
+   * in it, or else to the module itself
+   */
+  private resolveImportedName(
+    root: string,
+    file: AnalyzedFile,
+    specifier: string,
+    name: string,
+    nodes: Map<string, DependencyNode>,
+    resolveModule: (specifier: string) => string
+  ): string {
+    const moduleId = resolveModule(specifier);
+    if (nodes.get(moduleId)?.type !== 'file') return moduleId;
+
+    const [head, ...members] = name.split('.');
+    const candidates = [`${moduleId}#global.${name}`, `${moduleId}#global.${head}`];
+    const declaration = candidates.find(candidate => nodes.has(candidate));
+    if (declaration) return declaration;
+
+    if (file.language === 'python') {
+      const submodule = specifier.endsWith('.') ? specifier + head : `${specifier}.${head}`;
+      if (this.resolvePythonModule(root, submodule, file.absolutePath)) {
+        const submoduleId = resolveModule(submodule);
+        const member = `${submoduleId}#global.${members.join('.')}`;
+        return members.length > 0 && nodes.has(member) ? member : submoduleId;
+      }
+    }
+
+    return moduleId;
+  }
+
+  /**
+   * Resolve a TypeScript or JavaScript module specifier to a project file
+   */
+  private resolveScriptModule(
+    root: string,
+    specifier: string,
+    containingFile: string,
+    options: ts.CompilerOptions,
+    cache: ts.ModuleResolutionCache
+  ): string | null {
+    const { resolvedModule } = ts.resolveModuleName(specifier, containingFile, { ...options, allowJs: true }, ts.sys, cache);
+    if (!resolvedModule || resolvedModule.isExternalLibraryImport) return null;
+
+    const resolved = path.resolve(resolvedModule.resolvedFileName);
+    return this.isInside(root, resolved) ? resolved : null;
+  }
+
+  /**
+   * Resolve a Python module name, relative (leading dots) or absolute, to a
+   * module file or package `__init__`
+   */
+  private resolvePythonModule(root: string, specifier: string, containingFile: string): string | null {
+    const level = specifier.match(/^\.*/)![0].length;
+    const parts = specifier.slice(level).split('.').filter(Boolean);
+    const bases = level > 0
+      ? [path.resolve(path.dirname(containingFile), ...Array(level - 1).fill('..'))]
+      : this.config.pythonRoots.map(pythonRoot => path.resolve(root, pythonRoot));
+
+    for (const base of bases) {
+      const modulePath = path.join(base, ...parts);
+      const candidates = parts.length > 0
+        ? [`${modulePath}.py`, `${modulePath}.pyi`, path.join(modulePath, '__init__.py')]
+        : [path.join(modulePath, '__init__.py')];
+
+      const found = candidates.find(candidate => this.isInside(root, candidate) && fs.existsSync(candidate));
+      if (found) return found;
+    }
+
+    return null;
+  }
+
+  private isInside(root: string, filePath: string): boolean {
+    const relative = path.relative(root, filePath);
+    return !!relative && !relative.startsWith('..') && !path.isAbsolute(relative) &&
+      !relative.split(path.sep).includes('node_modules');
+  }
+
+  private toNodeId(root: string, filePath: string): string {
+    return path.relative(root, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,336 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { CodeContextAnalyzer, DirectoryQuality, FileQuality, ProjectQualityReport, QualityHotspot } from '../interfaces/context';
+import { QualityMetrics } from '../interfaces/common';
+import { collectCodeFiles } from './project-graph';
+import { isDeclarationFile } from './language';
+import { ASTParserOptions } from './ast-metadata';
+import { SemanticAnalyzerConfig } from './semantic-analyzer';
+import { CoverageConfig } from './coverage';
+
+/**
+ * Project-wide aggregation of per-file quality metrics
+ * Implements requirements 2.1 and 2.2
+ *
+ * Files are analyzed in a pool of worker threads, each running its own
+ * CodeContextAnalyzerImpl, unless a file analyzer is passed in; then they
+ * are analyzed on the calling thread. Aggregates take the mean complexity
+ * per file, the mean maintainability index (0-100) and test coverage
+ * weighted by lines of code, and the total number of code smells. A
+ * directory aggregates every file below it. Hotspots are the files past a
+ * complexity or maintainability threshold or with code smells, ranked by
+ * how far past the thresholds they are. The default maintainability
+ * threshold of 20 is where Visual Studio starts flagging its rescaled
+ * index; it flags below 10 as poor.
+ */
+
+export interface ProjectQualityConfig {
+  concurrency: number; // worker threads, or files in flight for a passed-in analyzer
+  analyzerConfig: FileAnalyzerConfig; // of the analyzers in the worker threads
+  hotspotLimit: number;
+  complexityThreshold: number; // files above it are hotspots
+  maintainabilityThreshold: number; // maintainability index (0-100) below which files are hotspots
+}
+
+export interface FileAnalyzerConfig {
+  parserOptions?: Partial<ASTParserOptions>;
+  semanticConfig?: Partial<SemanticAnalyzerConfig>;
+  coverageConfig?: Partial<CoverageConfig>;
+}
+
+export type FileAnalyzer = Pick<CodeContextAnalyzer, 'analyzeFile'>;
+
+export type MeasuredFile = Omit<FileQuality, 'path'>;
+
+type AnalysisWorkerResponse = { result: MeasuredFile } | { error: string };
+
+interface PendingAnalysis {
+  filePath: string;
+  resolve: (result: MeasuredFile) => void;
+  reject: (error: Error) => void;
+}
+
+// Under ts-jest the sources are not compiled; workers transpile them as they
+// load, sharing the output through a temp directory keyed by source hash
+const TS_WORKER_BOOTSTRAP = `
+const { threadId, workerData } = require('worker_threads');
+const crypto = require('crypto');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+const load = require('module').createRequire(workerData.entry);
+const cacheDirectory = path.join(os.tmpdir(), 'analysis-worker-ts-' + load('typescript/package.json').version);
+fs.mkdirSync(cacheDirectory, { recursive: true });
+load.extensions['.ts'] = (module, filename) => {
+  const source = fs.readFileSync(filename, 'utf-8');
+  const cached = path.join(cacheDirectory, crypto.createHash('sha256').update(filename + '\\0' + source).digest('hex') + '.js');
+  if (!fs.existsSync(cached)) {
+    const ts = load('typescript');
+    const output = ts.transpileModule(source, {
+      fileName: filename,
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2020, esModuleInterop: true }
+    }).outputText;
+    const temporary = cached + '.' + process.pid + '.' + threadId;
+    fs.writeFileSync(temporary, output);
+    fs.renameSync(temporary, cached);
+  }
+  module._compile(fs.readFileSync(cached, 'utf-8'), filename);
+};
+load(workerData.entry);
+`;
+
+const EMPTY_METRICS: QualityMetrics = {
+  complexity: 1,
+  maintainability: 100,
+  testCoverage: 0,
+  codeSmells: 0
+};
+
+/**
+ * Runs an async task over items with at most `limit` tasks in flight,
+ * keeping results in item order
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  task: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+/**
+ * Aggregates quality metrics of files into one set of metrics
+ */
+export function aggregateQuality(files: FileQuality[]): QualityMetrics {
+  if (files.length === 0) return { ...EMPTY_METRICS };
+
+  const lines = files.reduce((sum, file) => sum + file.linesOfCode, 0);
+  const weighted = (metric: keyof QualityMetrics) => lines === 0
+    ? files.reduce((sum, file) => sum + file.metrics[metric], 0) / files.length
+    : files.reduce((sum, file) => sum + file.metrics[metric] * file.linesOfCode, 0) / lines;
+
+  return {
+    complexity: round(files.reduce((sum, file) => sum + file.metrics.complexity, 0) / files.length),
+    maintainability: round(weighted('maintainability')),
+    testCoverage: round(weighted('testCoverage')),
+    codeSmells: files.reduce((sum, file) => sum + file.metrics.codeSmells, 0)
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Analyze a file and measure its size; files analyzed without line counts
+ * fall back to their non-blank lines
+ */
+export async function measureFileQuality(fileAnalyzer: FileAnalyzer, filePath: string): Promise<MeasuredFile> {
+  const context = await fileAnalyzer.analyzeFile(filePath);
+  const linesOfCode = context.maintainability
+    ? context.maintainability.lines.source
+    : fs.readFileSync(filePath, 'utf-8').split(/\r?\n/).filter(line => line.trim().length > 0).length;
+  return { linesOfCode, metrics: context.quality };
+}
+
+/**
+ * Worker threads that measure files with measureFileQuality, see
+ * analysis-worker. Files wait in order until a worker is idle; a worker that
+ * crashes fails its file and is not replaced.
+ */
+export class FileAnalysisPool {
+  private workers: Worker[] = [];
+  private idle: Worker[] = [];
+  private running = new Map<Worker, PendingAnalysis>();
+  private queue: PendingAnalysis[] = [];
+
+  constructor(size: number, config: FileAnalyzerConfig = {}) {
+    for (let i = 0; i < Math.max(1, size); i++) {
+      this.spawn(config);
+    }
+  }
+
+  /**
+   * Measure a file on the next idle worker
+   */
+  analyze(filePath: string): Promise<MeasuredFile> {
+    return new Promise((resolve, reject) => {
+      this.queue.push({ filePath, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop the workers; files still waiting fail
+   */
+  async close(): Promise<void> {
+    const workers = this.workers;
+    this.workers = [];
+    this.idle = [];
+    this.failQueue(new Error('File analysis pool closed'));
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private spawn(config: FileAnalyzerConfig): void {
+    const entry = path.join(__dirname, `analysis-worker${path.extname(__filename)}`);
+    const worker = path.extname(entry) === '.ts'
+      ? new Worker(TS_WORKER_BOOTSTRAP, { eval: true, workerData: { ...config, entry } })
+      : new Worker(entry, { workerData: config });
+
+    worker.on('message', (response: AnalysisWorkerResponse) => {
+      const pending = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      if (pending) {
+        if ('error' in response) {
+          pending.reject(new Error(response.error));
+        } else {
+          pending.resolve(response.result);
+        }
+      }
+      this.dispatch();
+    });
+
+    worker.on('error', error => {
+      const pending = this.running.get(worker);
+      this.running.delete(worker);
+      this.workers = this.workers.filter(other => other !== worker);
+      this.idle = this.idle.filter(other => other !== worker);
+      pending?.reject(error);
+      if (this.workers.length === 0) this.failQueue(error);
+    });
+
+    this.workers.push(worker);
+    this.idle.push(worker);
+  }
+
+  private dispatch(): void {
+    while (this.idle.length > 0 && this.queue.length > 0) {
+      const worker = this.idle.shift()!;
+      const pending = this.queue.shift()!;
+      this.running.set(worker, pending);
+      worker.postMessage(pending.filePath);
+    }
+  }
+
+  private failQueue(error: Error): void {
+    this.queue.splice(0).forEach(pending => pending.reject(error));
+  }
+}
+
+/**
+ * Analyzes every code file of a project and aggregates their quality
+ */
+export class ProjectQualityAnalyzer {
+  private config: ProjectQualityConfig;
+  private fileAnalyzer: FileAnalyzer | null;
+
+  constructor(fileAnalyzer: FileAnalyzer | null = null, config: Partial<ProjectQualityConfig> = {}) {
+    this.fileAnalyzer = fileAnalyzer;
+    this.config = {
+      concurrency: config.concurrency || 4,
+      analyzerConfig: config.analyzerConfig || {},
+      hotspotLimit: config.hotspotLimit || 10,
+      complexityThreshold: config.complexityThreshold || 10,
+      maintainabilityThreshold: config.maintainabilityThreshold || 20
+    };
+  }
+
+  /**
+   * Analyze the given project-relative files, or every code file under the
+   * project, and report overall, per-directory and per-file quality
+   */
+  async analyze(projectPath: string, files?: string[]): Promise<ProjectQualityReport> {
+    const root = path.resolve(projectPath);
+    const candidates = (files || collectCodeFiles(root)).filter(file => !isDeclarationFile(file));
+
+    const concurrency = Math.min(this.config.concurrency, candidates.length);
+    const fileAnalyzer = this.fileAnalyzer;
+    const pool = fileAnalyzer || candidates.length === 0 ? null : new FileAnalysisPool(concurrency, this.config.analyzerConfig);
+
+    let analyzed: (FileQuality | null)[];
+    try {
+      analyzed = await mapWithConcurrency(candidates, concurrency, async file => {
+        const absolutePath = path.resolve(root, file);
+        try {
+          const measured = pool ? await pool.analyze(absolutePath) : await measureFileQuality(fileAnalyzer!, absolutePath);
+          return { path: path.relative(root, absolutePath).split(path.sep).join('/'), ...measured };
+        } catch (error) {
+          console.warn('Error analyzing file quality:', error);
+          return null;
+        }
+      });
+    } finally {
+      await pool?.close();
+    }
+    const fileQualities = analyzed.filter((file): file is FileQuality => file !== null);
+
+    return {
+      overall: aggregateQuality(fileQualities),
+      files: fileQualities,
+      directories: this.aggregateDirectories(fileQualities),
+      hotspots: this.findHotspots(fileQualities)
+    };
+  }
+
+  /**
+   * Roll file metrics up into every directory that contains them
+   */
+  private aggregateDirectories(files: FileQuality[]): DirectoryQuality[] {
+    const byDirectory = new Map<string, FileQuality[]>();
+
+    files.forEach(file => {
+      const parts = file.path.split('/').slice(0, -1);
+      parts.forEach((_, index) => {
+        const directory = parts.slice(0, index + 1).join('/');
+        byDirectory.set(directory, [...(byDirectory.get(directory) || []), file]);
+      });
+    });
+
+    return Array.from(byDirectory.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([directory, contained]) => ({
+        path: directory,
+        files: contained.length,
+        linesOfCode: contained.reduce((sum, file) => sum + file.linesOfCode, 0),
+        metrics: aggregateQuality(contained)
+      }));
+  }
+
+  /**
+   * Rank the files past a threshold; each term of the score is 1 at its
+   * threshold, so a file twice as complex as allowed adds 2
+   */
+  private findHotspots(files: FileQuality[]): QualityHotspot[] {
+    const { complexityThreshold, maintainabilityThreshold } = this.config;
+
+    return files
+      .map(file => {
+        const { complexity, maintainability, codeSmells } = file.metrics;
+        const reasons: string[] = [];
+        if (complexity > complexityThreshold) reasons.push('high complexity');
+        if (maintainability < maintainabilityThreshold) reasons.push('low maintainability');
+        if (codeSmells > 0) reasons.push('code smells');
+
+        const score = complexity / complexityThreshold +
+          (100 - maintainability) / Math.max(1, 100 - maintainabilityThreshold) +
+          codeSmells;
+        return { path: file.path, score: round(score), reasons, metrics: file.metrics };
+      })
+      .filter(hotspot => hotspot.reasons.length > 0)
+      .sort((a, b) => b.score - a.score || a.path.localeCompare(b.path))
+      .slice(0, this.config.hotspotLimit);
+  }
+}
@@ -0,0 +1,1597 @@
+import { AbstractSyntaxTree, SourceLocation } from '../interfaces/context';
+import { ASTParserOptions, NodeMetadataFactory, resolveParserOptions } from './ast-metadata';
+
+/**
+ * Pure TypeScript Python 3 tokenizer and recursive-descent parser
+ * Implements requirements 2.1 and 2.2
+ *
+ * Nodes follow the names of Python's own `ast` module (FunctionDef, If,
+ * Call, Name...), with one deliberate difference: `from x import y` is
+ * emitted as an `Import` node with `metadata.importKind === 'from'` so
+ * existing consumers keep treating every import alike.
+ */
+
+export type PythonTokenType =
+  | 'NAME'
+  | 'NUMBER'
+  | 'STRING'
+  | 'OP'
+  | 'NEWLINE'
+  | 'INDENT'
+  | 'DEDENT'
+  | 'ENDMARKER'
+  | 'ERRORTOKEN';
+
+export interface PythonPosition {
+  line: number; // 1-based
+  column: number; // 1-based
+  offset: number;
+}
+
+export interface PythonToken {
+  type: PythonTokenType;
+  value: string;
+  start: PythonPosition;
+  end: PythonPosition;
+}
+
+export interface PythonComment {
+  text: string;
+  start: PythonPosition;
+  end: PythonPosition;
+}
+
+export interface PythonSyntaxError {
+  message: string;
+  location: SourceLocation;
+}
+
+export interface PythonTokenizeResult {
+  tokens: PythonToken[];
+  comments: PythonComment[];
+  errors: PythonSyntaxError[];
+}
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue',
+  'def', 'del', 'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import',
+  'in', 'is', 'lambda', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return', 'try', 'while',
+  'with', 'yield'
+]);
+
+const OPERATORS = [
+  '**=', '//=', '>>=', '<<=', '...', '->', ':=', '**', '//', '<<', '>>', '<=', '>=', '==', '!=',
+  '+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '@=',
+  '+', '-', '*', '/', '%', '@', '&', '|', '^', '~', '<', '>', '(', ')', '[', ']', '{', '}',
+  ',', ':', ';', '.', '='
+];
+
+// Keywords that can only start a statement; seeing one at the start of a line
+// inside brackets means a bracket was left unclosed
+const STATEMENT_KEYWORDS = new Set([
+  'def', 'class', 'return', 'import', 'try', 'while', 'with', 'raise', 'pass', 'del', 'global',
+  'nonlocal', 'assert', 'elif', 'except', 'finally', 'break', 'continue'
+]);
+const NEXT_LINE_WORD = /(?:[ \t\f]*(?:#[^\r\n]*)?(?:\r\n|\r|\n))*[ \t\f]*([A-Za-z_]\w*)/y;
+
+const AUGMENTED_ASSIGNMENTS = new Set(['+=', '-=', '*=', '/=', '%=', '&=', '|=', '^=', '>>=', '<<=', '**=', '//=', '@=']);
+const COMPARISON_OPERATORS = new Set(['<', '>', '==', '>=', '<=', '!=']);
+// Location metadata of a node, dropped when its other metadata is copied
+const SPAN_METADATA_KEYS = ['start', 'end', 'text', 'offset', 'endOffset', 'fullStart', 'leadingTrivia'];
+const STRING_PREFIX = /^(?:[rR]|[uU]|[fF]|[bB]|[bB][rR]|[rR][bB]|[fF][rR]|[rR][fF])$/;
+const NUMBER_PATTERN = /0[xX][0-9a-fA-F_]+|0[oO][0-7_]+|0[bB][01_]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:[eE][+-]?\d[\d_]*)?[jJ]?/y;
+const IDENTIFIER_START = /[\p{L}\p{Nl}_]/u;
+const IDENTIFIER_PART = /[\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}_]/u;
+
+/**
+ * Splits Python source into tokens, producing NEWLINE, INDENT and DEDENT
+ * tokens the way CPython's tokenizer does. Problems are reported as errors
+ * and ERRORTOKENs rather than exceptions.
+ */
+export function tokenizePython(source: string, file: string = 'temp.py'): PythonTokenizeResult {
+  const tokens: PythonToken[] = [];
+  const comments: PythonComment[] = [];
+  const errors: PythonSyntaxError[] = [];
+  const lineStarts = computeLineStarts(source);
+  const indentStack = [0];
+
+  const position = (offset: number): PythonPosition => {
+    const line = findLine(lineStarts, offset);
+    return { line: line + 1, column: offset - lineStarts[line] + 1, offset };
+  };
+  const push = (type: PythonTokenType, start: number, end: number, value: string = source.slice(start, end)) => {
+    tokens.push({ type, value, start: position(start), end: position(end) });
+  };
+  const report = (message: string, offset: number) => {
+    const { line, column } = position(offset);
+    errors.push({ message, location: { line, column, file } });
+  };
+
+  let pos = 0;
+  const brackets: number[] = [];
+  let atLineStart = true;
+
+  while (pos < source.length) {
+    if (atLineStart && brackets.length === 0) {
+      let column = 0;
+      let cursor = pos;
+      while (cursor < source.length && ' \t\f'.includes(source[cursor])) {
+        column = source[cursor] === '\t' ? (Math.floor(column / 8) + 1) * 8 : column + 1;
+        cursor++;
+      }
+
+      const next = source[cursor];
+      if (cursor >= source.length || next === '\n' || next === '\r' || next === '#') {
+        // Blank and comment-only lines do not affect indentation
+        pos = cursor;
+        if (next === '#') {
+          pos = readComment(source, pos, comments, position);
+        }
+        pos = skipNewline(source, pos);
+        continue;
+      }
+
+      if (column > indentStack[indentStack.length - 1]) {
+        indentStack.push(column);
+        push('INDENT', pos, cursor);
+      } else {
+        while (column < indentStack[indentStack.length - 1]) {
+          indentStack.pop();
+          push('DEDENT', cursor, cursor, '');
+        }
+        if (column !== indentStack[indentStack.length - 1]) {
+          report('unindent does not match any outer indentation level', cursor);
+          indentStack.push(column);
+        }
+      }
+
+      pos = cursor;
+      atLineStart = false;
+      continue;
+    }
+
+    const char = source[pos];
+
+    if (char === ' ' || char === '\t' || char === '\f') {
+      pos++;
+    } else if (char === '#') {
+      pos = readComment(source, pos, comments, position);
+    } else if (char === '\\' && (source[pos + 1] === '\n' || source[pos + 1] === '\r')) {
+      pos = skipNewline(source, pos + 1);
+    } else if (char === '\n' || char === '\r') {
+      const end = skipNewline(source, pos);
+      if (brackets.length > 0 && startsStatement(source, end)) {
+        report("'" + source[brackets[0]] + "' was never closed", brackets[0]);
+        brackets.length = 0;
+      }
+      if (brackets.length === 0) {
+        push('NEWLINE', pos, end);
+        atLineStart = true;
+      }
+      pos = end;
+    } else if (IDENTIFIER_START.test(char)) {
+      let end = pos + 1;
+      while (end < source.length && IDENTIFIER_PART.test(source[end])) end++;
+      const word = source.slice(pos, end);
+
+      if ((source[end] === '"' || source[end] === "'") && STRING_PREFIX.test(word)) {
+        pos = readString(source, pos, end, push, report);
+      } else {
+        push('NAME', pos, end);
+        pos = end;
+      }
+    } else if (/\d/.test(char) || (char === '.' && /\d/.test(source[pos + 1] || ''))) {
+      NUMBER_PATTERN.lastIndex = pos;
+      const match = NUMBER_PATTERN.exec(source);
+      const end = match ? pos + match[0].length : pos + 1;
+      push('NUMBER', pos, end);
+      pos = end;
+    } else if (char === '"' || char === "'") {
+      pos = readString(source, pos, pos, push, report);
+    } else {
+      const operator = OPERATORS.find(candidate => source.startsWith(candidate, pos));
+      if (operator) {
+        if ('([{'.includes(operator)) brackets.push(pos);
+        if (')]}'.includes(operator)) brackets.pop();
+        push('OP', pos, pos + operator.length);
+        pos += operator.length;
+      } else {
+        report(`invalid character '${char}'`, pos);
+        push('ERRORTOKEN', pos, pos + 1);
+        pos++;
+      }
+    }
+  }
+
+  const last = tokens[tokens.length - 1];
+  if (last && last.type !== 'NEWLINE' && last.type !== 'DEDENT') {
+    push('NEWLINE', source.length, source.length, '');
+  }
+  while (indentStack.length > 1) {
+    indentStack.pop();
+    push('DEDENT', source.length, source.length, '');
+  }
+  push('ENDMARKER', source.length, source.length, '');
+
+  return { tokens, comments, errors };
+}
+
+function startsStatement(source: string, pos: number): boolean {
+  NEXT_LINE_WORD.lastIndex = pos;
+  const match = NEXT_LINE_WORD.exec(source);
+  return !!match && STATEMENT_KEYWORDS.has(match[1]);
+}
+
+function computeLineStarts(source: string): number[] {
+  const starts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n' || (source[i] === '\r' && source[i + 1] !== '\n')) {
+      starts.push(i + 1);
+    }
+  }
+  return starts;
+}
+
+function findLine(lineStarts: number[], offset: number): number {
+  let low = 0;
+  let high = lineStarts.length - 1;
+  while (low < high) {
+    const middle = (low + high + 1) >> 1;
+    if (lineStarts[middle] <= offset) {
+      low = middle;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return low;
+}
+
+function skipNewline(source: string, pos: number): number {
+  if (source[pos] === '\r' && source[pos + 1] === '\n') return pos + 2;
+  if (source[pos] === '\n' || source[pos] === '\r') return pos + 1;
+  return pos;
+}
+
+function readComment(
+  source: string,
+  pos: number,
+  comments: PythonComment[],
+  position: (offset: number) => PythonPosition
+): number {
+  let end = pos;
+  while (end < source.length && source[end] !== '\n' && source[end] !== '\r') end++;
+  comments.push({ text: source.slice(pos, end), start: position(pos), end: position(end) });
+  return end;
+}
+
+function readString(
+  source: string,
+  start: number,
+  quoteStart: number,
+  push: (type: PythonTokenType, start: number, end: number) => void,
+  report: (message: string, offset: number) => void
+): number {
+  const quote = source[quoteStart];
+  const triple = source.startsWith(quote.repeat(3), quoteStart);
+  const delimiter = triple ? quote.repeat(3) : quote;
+  let pos = quoteStart + delimiter.length;
+
+  while (pos < source.length) {
+    const char = source[pos];
+    if (char === '\\') {
+      pos += 2;
+    } else if (source.startsWith(delimiter, pos)) {
+      push('STRING', start, pos + delimiter.length);
+      return pos + delimiter.length;
+    } else if (!triple && (char === '\n' || char === '\r')) {
+      break;
+    } else {
+      pos++;
+    }
+  }
+
+  report(triple ? 'unterminated triple-quoted string literal' : 'unterminated string literal', start);
+  push('ERRORTOKEN', start, Math.min(pos, source.length));
+  return Math.min(pos, source.length);
+}
+
+/**
+ * Recursive-descent parser over tokenizePython output. Statements that fail
+ * to parse become `Error` nodes and parsing resumes at the next line, so
+ * one syntax error does not hide the rest of the file.
+ */
+export class PythonParser {
+  private options: ASTParserOptions;
+  private source: string = '';
+  private file: string = 'temp.py';
+  private tokens: PythonToken[] = [];
+  private tokenIndex: Map<PythonToken, number> = new Map();
+  private pos: number = 0;
+  private errors: PythonSyntaxError[] = [];
+  private metadataFactory!: NodeMetadataFactory;
+
+  constructor(options: Partial<ASTParserOptions> = {}) {
+    this.options = resolveParserOptions(options);
+  }
+
+  /**
+   * Parses Python source into a unified Module node
+   */
+  parse(source: string, file: string = 'temp.py'): AbstractSyntaxTree {
+    const tokenized = tokenizePython(source, file);
+    this.source = source;
+    this.file = file;
+    this.tokens = tokenized.tokens;
+    this.tokenIndex = this.options.includeTrivia ? new Map(this.tokens.map((token, index) => [token, index])) : new Map();
+    this.metadataFactory = new NodeMetadataFactory({ text: source, file }, this.options);
+    this.pos = 0;
+    this.errors = [...tokenized.errors];
+
+    const body = this.parseStatements(() => this.at('ENDMARKER'));
+
+    return {
+      type: 'Module',
+      children: body,
+      metadata: {
+        start: this.location({ line: 1, column: 1, offset: 0 }),
+        end: this.location(this.tokens[this.tokens.length - 1].end),
+        language: 'python',
+        filePath: file,
+        lineCount: source.split('\n').length,
+        comments: tokenized.comments.map(comment => ({
+          text: comment.text,
+          start: this.location(comment.start),
+          end: this.location(comment.end)
+        })),
+        errors: this.errors
+      }
+    };
+  }
+
+  // ---------------------------------------------------------------------------
+  // Statements
+
+  private parseStatements(isEnd: () => boolean): AbstractSyntaxTree[] {
+    const statements: AbstractSyntaxTree[] = [];
+
+    while (!isEnd() && !this.at('ENDMARKER')) {
+      const start = this.pos;
+      try {
+        if (this.at('INDENT')) {
+          throw new Error('unexpected indent');
+        }
+        if (this.at('NEWLINE')) {
+          this.pos++;
+          continue;
+        }
+        statements.push(...this.parseStatement());
+      } catch (error) {
+        statements.push(this.recover(start, error));
+      }
+    }
+
+    return statements;
+  }
+
+  private recover(start: number, error: unknown): AbstractSyntaxTree {
+    const failedAt = this.peek();
+    const message = error instanceof Error ? error.message : String(error);
+    this.errors.push({ message, location: this.location(failedAt.start) });
+
+    this.pos = Math.max(this.pos, start);
+    const startToken = this.tokens[start];
+
+    if (startToken.type === 'INDENT') {
+      // Parse the over-indented lines as if they were at the outer level
+      this.pos = start + 1;
+      const children = this.parseStatements(() => this.at('DEDENT'));
+      if (this.at('DEDENT')) this.pos++;
+      return this.finish('Error', startToken, children, { message, line: startToken.start.line });
+    }
+
+    while (!this.at('NEWLINE') && !this.at('ENDMARKER') && !(this.at('DEDENT') && this.pos > start)) {
+      if (this.at('INDENT') && this.pos > start) break;
+      this.pos++;
+    }
+    if (this.at('NEWLINE')) this.pos++;
+
+    // Keep statements of an indented block below the broken line
+    let children: AbstractSyntaxTree[] = [];
+    if (this.at('INDENT')) {
+      this.pos++;
+      children = this.parseStatements(() => this.at('DEDENT'));
+      if (this.at('DEDENT')) this.pos++;
+    }
+
+    return this.finish('Error', startToken, children, { message, line: startToken.start.line });
+  }
+
+  private parseStatement(): AbstractSyntaxTree[] {
+    const token = this.peek();
+
+    if (token.type === 'OP' && token.value === '@') {
+      return [this.parseDecorated()];
+    }
+    if (token.type === 'NAME') {
+      switch (token.value) {
+        case 'def':
+          return [this.parseFunctionDef([], null)];
+        case 'class':
+          return [this.parseClassDef([])];
+        case 'if':
+          return [this.parseIf()];
+        case 'while':
+          return [this.parseWhile()];
+        case 'for':
+          return [this.parseFor(null)];
+        case 'try':
+          return [this.parseTry()];
+        case 'with':
+          return [this.parseWith(null)];
+        case 'async':
+          return [this.parseAsync()];
+        case 'match':
+          if (this.isMatchStatement()) return [this.parseMatch()];
+          break;
+      }
+    }
+
+    return this.parseSimpleStatements();
+  }
+
+  private parseSimpleStatements(): AbstractSyntaxTree[] {
+    const statements = [this.parseSmallStatement()];
+    while (this.atOp(';')) {
+      this.pos++;
+      if (this.at('NEWLINE')) break;
+      statements.push(this.parseSmallStatement());
+    }
+    this.expect('NEWLINE');
+    return statements;
+  }
+
+  private parseSmallStatement(): AbstractSyntaxTree {
+    const start = this.peek();
+
+    if (start.type === 'NAME') {
+      switch (start.value) {
+        case 'pass':
+        case 'break':
+        case 'continue':
+          this.pos++;
+          return this.finish(this.capitalize(start.value), start, []);
+        case 'return': {
+          this.pos++;
+          const value = this.atExpressionEnd() ? [] : [this.parseStarExpressions()];
+          return this.finish('Return', start, value);
+        }
+        case 'raise': {
+          this.pos++;
+          const children: AbstractSyntaxTree[] = [];
+          if (!this.atExpressionEnd()) {
+            children.push(this.parseTest());
+            if (this.atKeyword('from')) {
+              this.pos++;
+              children.push(this.parseTest());
+            }
+          }
+          return this.finish('Raise', start, children);
+        }
+        case 'del':
+          this.pos++;
+          return this.finish('Delete', start, this.parseExpressionList(() => this.parseOrExpression()));
+        case 'assert': {
+          this.pos++;
+          const children = [this.parseTest()];
+          if (this.atOp(',')) {
+            this.pos++;
+            children.push(this.parseTest());
+          }
+          return this.finish('Assert', start, children);
+        }
+        case 'global':
+        case 'nonlocal': {
+          this.pos++;
+          const names = [this.expectName().value];
+          while (this.atOp(',')) {
+            this.pos++;
+            names.push(this.expectName().value);
+          }
+          return this.finish(this.capitalize(start.value), start, [], { names });
+        }
+        case 'import':
+          return this.parseImport();
+        case 'from':
+          return this.parseFromImport();
+      }
+    }
+
+    return this.parseExpressionStatement();
+  }
+
+  private parseExpressionStatement(): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = this.atKeyword('yield') ? this.parseYield() : this.parseStarExpressions();
+
+    if (this.atOp(':')) {
+      this.pos++;
+      const children = [first, this.parseTest()];
+      if (this.atOp('=')) {
+        this.pos++;
+        children.push(this.atKeyword('yield') ? this.parseYield() : this.parseStarExpressions());
+      }
+      return this.finish('AnnAssign', start, children);
+    }
+
+    const operator = this.peek();
+    if (operator.type === 'OP' && AUGMENTED_ASSIGNMENTS.has(operator.value)) {
+      this.pos++;
+      const value = this.atKeyword('yield') ? this.parseYield() : this.parseStarExpressions();
+      return this.finish('AugAssign', start, [first, value], { op: operator.value });
+    }
+
+    if (this.atOp('=')) {
+      const parts = [first];
+      while (this.atOp('=')) {
+        this.pos++;
+        parts.push(this.atKeyword('yield') ? this.parseYield() : this.parseStarExpressions());
+      }
+      return this.finish('Assign', start, parts);
+    }
+
+    return this.finish('Expr', start, [first]);
+  }
+
+  private parseImport(): AbstractSyntaxTree {
+    const start = this.next();
+    const aliases = [this.parseDottedAlias()];
+    while (this.atOp(',')) {
+      this.pos++;
+      aliases.push(this.parseDottedAlias());
+    }
+
+    const modules = aliases.map(alias => alias.metadata.name as string);
+    return this.finish('Import', start, aliases, {
+      importKind: 'import',
+      modules,
+      names: aliases.map(alias => ({ name: alias.metadata.name, asname: alias.metadata.asname }))
+    }, true);
+  }
+
+  private parseFromImport(): AbstractSyntaxTree {
+    const start = this.next();
+    let level = 0;
+    while (this.atOp('.') || this.atOp('...')) {
+      level += this.next().value.length;
+    }
+    const moduleName = this.atKeyword('import') ? '' : this.parseDottedName();
+    this.expectKeyword('import');
+
+    const aliases: AbstractSyntaxTree[] = [];
+    if (this.atOp('*')) {
+      const star = this.next();
+      aliases.push(this.finish('alias', star, [], { name: '*' }));
+    } else {
+      const parenthesized = this.atOp('(');
+      if (parenthesized) this.pos++;
+      aliases.push(this.parseAlias());
+      while (this.atOp(',')) {
+        this.pos++;
+        if (parenthesized && this.atOp(')')) break;
+        aliases.push(this.parseAlias());
+      }
+      if (parenthesized) this.expectOp(')');
+    }
+
+    const fromModule = '.'.repeat(level) + moduleName;
+    return this.finish('Import', start, aliases, {
+      importKind: 'from',
+      fromModule,
+      level,
+      modules: [fromModule],
+      names: aliases.map(alias => ({ name: alias.metadata.name, asname: alias.metadata.asname }))
+    }, true);
+  }
+
+  private parseDottedAlias(): AbstractSyntaxTree {
+    const start = this.peek();
+    const name = this.parseDottedName();
+    const asname = this.parseAsName();
+    return this.finish('alias', start, [], { name, asname });
+  }
+
+  private parseAlias(): AbstractSyntaxTree {
+    const start = this.expectName();
+    const asname = this.parseAsName();
+    return this.finish('alias', start, [], { name: start.value, asname });
+  }
+
+  private parseAsName(): string | undefined {
+    if (!this.atKeyword('as')) return undefined;
+    this.pos++;
+    return this.expectName().value;
+  }
+
+  private parseDottedName(): string {
+    let name = this.expectName().value;
+    while (this.atOp('.')) {
+      this.pos++;
+      name += '.' + this.expectName().value;
+    }
+    return name;
+  }
+
+  private parseDecorated(): AbstractSyntaxTree {
+    const decorators: AbstractSyntaxTree[] = [];
+    while (this.atOp('@')) {
+      this.pos++;
+      decorators.push(this.parseNamedExpression());
+      this.expect('NEWLINE');
+    }
+
+    if (this.atKeyword('class')) return this.parseClassDef(decorators);
+    if (this.atKeyword('async')) {
+      const asyncToken = this.next();
+      return this.parseFunctionDef(decorators, asyncToken);
+    }
+    if (this.atKeyword('def')) return this.parseFunctionDef(decorators, null);
+    throw new Error('expected function or class definition after decorator');
+  }
+
+  private parseAsync(): AbstractSyntaxTree {
+    const asyncToken = this.next();
+    if (this.atKeyword('def')) return this.parseFunctionDef([], asyncToken);
+    if (this.atKeyword('for')) return this.parseFor(asyncToken);
+    if (this.atKeyword('with')) return this.parseWith(asyncToken);
+    throw new Error("expected 'def', 'for' or 'with' after 'async'");
+  }
+
+  private parseFunctionDef(decorators: AbstractSyntaxTree[], asyncToken: PythonToken | null): AbstractSyntaxTree {
+    const defToken = this.expectKeyword('def');
+    const name = this.expectName().value;
+    const parameters = this.parseParameters(true);
+
+    const children: AbstractSyntaxTree[] = [...decorators, parameters];
+    let returns: string | undefined;
+    if (this.atOp('->')) {
+      this.pos++;
+      const annotation = this.parseTest();
+      returns = annotation.metadata.text;
+      children.push(annotation);
+    }
+
+    const header = this.previous();
+    const body = this.parseBlock();
+    const start = asyncToken || defToken;
+
+    return this.finish(asyncToken ? 'AsyncFunctionDef' : 'FunctionDef', start, [...children, ...body], {
+      name,
+      line: start.start.line,
+      isAsync: !!asyncToken,
+      decorators: decorators.map(decorator => decorator.metadata.text),
+      parameters: parameters.children.map(parameter => parameter.metadata.name),
+      returns,
+      header: this.source.slice(start.start.offset, header.end.offset),
+      bodyLength: body.length
+    });
+  }
+
+  private parseClassDef(decorators: AbstractSyntaxTree[]): AbstractSyntaxTree {
+    const start = this.expectKeyword('class');
+    const name = this.expectName().value;
+
+    const bases: AbstractSyntaxTree[] = [];
+    if (this.atOp('(')) {
+      this.pos++;
+      bases.push(...this.parseArguments(')'));
+      this.expectOp(')');
+    }
+
+    const header = this.previous();
+    const body = this.parseBlock();
+
+    return this.finish('ClassDef', start, [...decorators, ...bases, ...body], {
+      name,
+      line: start.start.line,
+      decorators: decorators.map(decorator => decorator.metadata.text),
+      bases: bases.filter(base => base.type !== 'keyword').map(base => base.metadata.text),
+      header: this.source.slice(start.start.offset, header.end.offset),
+      bodyLength: body.length
+    });
+  }
+
+  private parseParameters(allowAnnotations: boolean): AbstractSyntaxTree {
+    const parenthesized = allowAnnotations;
+    const start = this.peek();
+    if (parenthesized) this.expectOp('(');
+
+    const closing = () => parenthesized ? this.atOp(')') : this.atOp(':');
+    const parameters: AbstractSyntaxTree[] = [];
+
+    while (!closing()) {
+      const paramStart = this.peek();
+      if (this.atOp('/')) {
+        this.pos++;
+      } else if (this.atOp('*') || this.atOp('**')) {
+        const kind = this.next().value === '*' ? 'vararg' : 'kwarg';
+        if (this.peek().type === 'NAME') {
+          parameters.push(this.parseParameter(paramStart, kind, allowAnnotations));
+        }
+      } else {
+        parameters.push(this.parseParameter(paramStart, 'arg', allowAnnotations));
+      }
+
+      if (!this.atOp(',')) break;
+      this.pos++;
+    }
+
+    if (parenthesized) this.expectOp(')');
+    return this.finish('arguments', start, parameters);
+  }
+
+  private parseParameter(start: PythonToken, kind: string, allowAnnotations: boolean): AbstractSyntaxTree {
+    const name = this.expectName().value;
+    const children: AbstractSyntaxTree[] = [];
+    let annotation: string | undefined;
+
+    if (allowAnnotations && this.atOp(':')) {
+      this.pos++;
+      const node = this.parseTest();
+      annotation = node.metadata.text;
+      children.push(node);
+    }
+    if (this.atOp('=')) {
+      this.pos++;
+      children.push(this.parseTest());
+    }
+
+    return this.finish('arg', start, children, { name, kind, annotation });
+  }
+
+  private parseBlock(): AbstractSyntaxTree[] {
+    this.expectOp(':');
+
+    if (!this.at('NEWLINE')) {
+      return this.parseSimpleStatements();
+    }
+
+    this.pos++;
+    this.expect('INDENT');
+    const statements = this.parseStatements(() => this.at('DEDENT'));
+    this.expect('DEDENT');
+    return statements;
+  }
+
+  private parseIf(): AbstractSyntaxTree {
+    const start = this.next();
+    const test = this.parseNamedExpression();
+    const body = this.parseBlock();
+    const orelse: AbstractSyntaxTree[] = [];
+
+    if (this.atKeyword('elif')) {
+      // elif chains nest as If nodes in the else branch, like Python's ast
+      orelse.push(this.parseIf());
+    } else if (this.atKeyword('else')) {
+      this.pos++;
+      orelse.push(...this.parseBlock());
+    }
+
+    return this.finish('If', start, [test, ...body, ...orelse], {
+      line: start.start.line,
+      bodyLength: body.length,
+      orelseLength: orelse.length
+    });
+  }
+
+  private parseWhile(): AbstractSyntaxTree {
+    const start = this.next();
+    const test = this.parseNamedExpression();
+    const body = this.parseBlock();
+    const orelse = this.parseElse();
+    return this.finish('While', start, [test, ...body, ...orelse], { line: start.start.line, orelseLength: orelse.length });
+  }
+
+  private parseFor(asyncToken: PythonToken | null): AbstractSyntaxTree {
+    const forToken = this.expectKeyword('for');
+    const target = this.parseTargetList();
+    this.expectKeyword('in');
+    const iterable = this.parseStarExpressions();
+    const body = this.parseBlock();
+    const orelse = this.parseElse();
+    const start = asyncToken || forToken;
+
+    return this.finish(asyncToken ? 'AsyncFor' : 'For', start, [target, iterable, ...body, ...orelse], {
+      line: start.start.line,
+      orelseLength: orelse.length
+    });
+  }
+
+  private parseElse(): AbstractSyntaxTree[] {
+    if (!this.atKeyword('else')) return [];
+    this.pos++;
+    return this.parseBlock();
+  }
+
+  private parseTry(): AbstractSyntaxTree {
+    const start = this.next();
+    const body = this.parseBlock();
+    const children = [...body];
+    let handlers = 0;
+
+    while (this.atKeyword('except')) {
+      const handlerStart = this.next();
+      const isGroup = this.atOp('*');
+      if (isGroup) this.pos++;
+
+      const handlerChildren: AbstractSyntaxTree[] = [];
+      let name: string | undefined;
+      if (!this.atOp(':')) {
+        handlerChildren.push(this.parseTest());
+        if (this.atOp(',')) {
+          // Python 3.14 allows unparenthesized exception tuples
+          while (this.atOp(',')) {
+            this.pos++;
+            handlerChildren.push(this.parseTest());
+          }
+        }
+        if (this.atKeyword('as')) {
+          this.pos++;
+          name = this.expectName().value;
+        }
+      }
+
+      handlerChildren.push(...this.parseBlock());
+      children.push(this.finish('ExceptHandler', handlerStart, handlerChildren, {
+        name,
+        isGroup,
+        line: handlerStart.start.line
+      }));
+      handlers++;
+    }
+
+    const orelse = this.parseElse();
+    children.push(...orelse);
+
+    let finalLength = 0;
+    if (this.atKeyword('finally')) {
+      this.pos++;
+      const finalbody = this.parseBlock();
+      finalLength = finalbody.length;
+      children.push(...finalbody);
+    }
+
+    if (handlers === 0 && finalLength === 0) {
+      throw new Error("expected 'except' or 'finally' block");
+    }
+
+    return this.finish('Try', start, children, { line: start.start.line, handlers });
+  }
+
+  private parseWith(asyncToken: PythonToken | null): AbstractSyntaxTree {
+    const withToken = this.expectKeyword('with');
+    const items: AbstractSyntaxTree[] = [];
+
+    // Parenthesized context managers: with (open(a) as f, open(b) as g):
+    const parenthesized = this.atOp('(') && this.isParenthesizedWithItems();
+    if (parenthesized) this.pos++;
+
+    do {
+      if (items.length > 0) this.pos++;
+      if (parenthesized && this.atOp(')')) break;
+      const itemStart = this.peek();
+      const children = [this.parseTest()];
+      if (this.atKeyword('as')) {
+        this.pos++;
+        children.push(this.parseTarget());
+      }
+      items.push(this.finish('withitem', itemStart, children));
+    } while (this.atOp(','));
+
+    if (parenthesized) this.expectOp(')');
+
+    const body = this.parseBlock();
+    const start = asyncToken || withToken;
+    return this.finish(asyncToken ? 'AsyncWith' : 'With', start, [...items, ...body], { line: start.start.line });
+  }
+
+  private isParenthesizedWithItems(): boolean {
+    // The parenthesis groups the items when the matching ')' is followed by ':'
+    let depth = 0;
+    for (let i = this.pos; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'NEWLINE' || token.type === 'ENDMARKER') return false;
+      if (token.type !== 'OP') continue;
+      if ('([{'.includes(token.value)) depth++;
+      if (')]}'.includes(token.value)) {
+        depth--;
+        if (depth === 0) {
+          const next = this.tokens[i + 1];
+          return next.type === 'OP' && next.value === ':';
+        }
+      }
+    }
+    return false;
+  }
+
+  private isMatchStatement(): boolean {
+    // `match` is a soft keyword: a match statement is a line ending in ':'
+    // followed by an indented block that starts with `case`
+    const next = this.peek(1);
+    if (next.type === 'OP' && ['=', '.', ',', ')', ':', ';'].includes(next.value)) return false;
+    if (next.type === 'NEWLINE' || (next.type === 'OP' && AUGMENTED_ASSIGNMENTS.has(next.value))) return false;
+
+    let depth = 0;
+    for (let i = this.pos + 1; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'OP' && '([{'.includes(token.value)) depth++;
+      if (token.type === 'OP' && ')]}'.includes(token.value)) depth--;
+      if (token.type === 'NEWLINE' || token.type === 'ENDMARKER') {
+        const previous = this.tokens[i - 1];
+        const indent = this.tokens[i + 1];
+        const first = this.tokens[i + 2];
+        return depth === 0 &&
+          previous.type === 'OP' && previous.value === ':' &&
+          indent?.type === 'INDENT' &&
+          first?.type === 'NAME' && first.value === 'case';
+      }
+    }
+    return false;
+  }
+
+  private parseMatch(): AbstractSyntaxTree {
+    const start = this.next();
+    const subject = this.parseStarExpressions();
+    this.expectOp(':');
+    this.expect('NEWLINE');
+    this.expect('INDENT');
+
+    const cases: AbstractSyntaxTree[] = [];
+    while (this.atKeyword('case')) {
+      const caseStart = this.next();
+      // Patterns share the expression grammar closely enough for analysis
+      const pattern = this.parseStarExpressions();
+      const children = [pattern];
+      if (this.atKeyword('if')) {
+        this.pos++;
+        children.push(this.parseNamedExpression());
+      }
+      children.push(...this.parseBlock());
+      cases.push(this.finish('match_case', caseStart, children, { line: caseStart.start.line }));
+    }
+
+    this.expect('DEDENT');
+    return this.finish('Match', start, [subject, ...cases], { line: start.start.line });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Expressions
+
+  private parseStarExpressions(): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = this.parseStarOrNamed();
+    if (!this.atOp(',')) return first;
+
+    const elements = [first];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atExpressionEnd() || this.atOp('=') || this.atOp(':') || this.isAugmentedAssignment()) break;
+      elements.push(this.parseStarOrNamed());
+    }
+    return this.finish('Tuple', start, elements);
+  }
+
+  private parseStarOrNamed(): AbstractSyntaxTree {
+    if (this.atOp('*')) {
+      const start = this.next();
+      return this.finish('Starred', start, [this.parseOrExpression()]);
+    }
+    return this.parseNamedExpression();
+  }
+
+  private parseNamedExpression(): AbstractSyntaxTree {
+    const start = this.peek();
+    const value = this.parseTest();
+    if (this.atOp(':=')) {
+      this.pos++;
+      return this.finish('NamedExpr', start, [value, this.parseTest()]);
+    }
+    return value;
+  }
+
+  private parseTest(): AbstractSyntaxTree {
+    if (this.atKeyword('lambda')) return this.parseLambda();
+
+    const start = this.peek();
+    const body = this.parseOr();
+    if (this.atKeyword('if') && !this.isComprehensionIf()) {
+      this.pos++;
+      const test = this.parseOr();
+      this.expectKeyword('else');
+      const orelse = this.parseTest();
+      return this.finish('IfExp', start, [test, body, orelse]);
+    }
+    return body;
+  }
+
+  private isComprehensionIf(): boolean {
+    // Inside comprehensions `if` filters have no matching `else`
+    let depth = 0;
+    for (let i = this.pos + 1; i < this.tokens.length; i++) {
+      const token = this.tokens[i];
+      if (token.type === 'NEWLINE' || token.type === 'ENDMARKER') return true;
+      if (token.type === 'OP') {
+        if ('([{'.includes(token.value)) depth++;
+        if (')]}'.includes(token.value)) {
+          if (depth === 0) return true;
+          depth--;
+        }
+        if (depth === 0 && token.value === ',') return true;
+      }
+      if (depth === 0 && token.type === 'NAME') {
+        if (token.value === 'else') return false;
+        if (token.value === 'for' || token.value === 'if' || token.value === 'async') return true;
+      }
+    }
+    return true;
+  }
+
+  private parseLambda(): AbstractSyntaxTree {
+    const start = this.next();
+    const parameters = this.parseParameters(false);
+    this.expectOp(':');
+    const body = this.parseTest();
+    return this.finish('Lambda', start, [parameters, body]);
+  }
+
+  private parseOr(): AbstractSyntaxTree {
+    return this.parseBoolean('or', () => this.parseAnd());
+  }
+
+  private parseAnd(): AbstractSyntaxTree {
+    return this.parseBoolean('and', () => this.parseNot());
+  }
+
+  private parseBoolean(keyword: string, operand: () => AbstractSyntaxTree): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = operand();
+    if (!this.atKeyword(keyword)) return first;
+
+    const values = [first];
+    while (this.atKeyword(keyword)) {
+      this.pos++;
+      values.push(operand());
+    }
+    return this.finish('BoolOp', start, values, { op: keyword === 'or' ? 'Or' : 'And' });
+  }
+
+  private parseNot(): AbstractSyntaxTree {
+    if (this.atKeyword('not')) {
+      const start = this.next();
+      return this.finish('UnaryOp', start, [this.parseNot()], { op: 'Not' });
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = this.parseOrExpression();
+    const operands = [first];
+    const ops: string[] = [];
+
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'OP' && COMPARISON_OPERATORS.has(token.value)) {
+        ops.push(this.next().value);
+      } else if (this.atKeyword('in')) {
+        this.pos++;
+        ops.push('in');
+      } else if (this.atKeyword('not') && this.peek(1).type === 'NAME' && this.peek(1).value === 'in') {
+        this.pos += 2;
+        ops.push('not in');
+      } else if (this.atKeyword('is')) {
+        this.pos++;
+        if (this.atKeyword('not')) {
+          this.pos++;
+          ops.push('is not');
+        } else {
+          ops.push('is');
+        }
+      } else {
+        break;
+      }
+      operands.push(this.parseOrExpression());
+    }
+
+    return ops.length > 0 ? this.finish('Compare', start, operands, { ops }) : first;
+  }
+
+  private parseOrExpression(): AbstractSyntaxTree {
+    return this.parseBinary([['|'], ['^'], ['&'], ['<<', '>>'], ['+', '-'], ['*', '/', '//', '%', '@']], 0);
+  }
+
+  private parseBinary(levels: string[][], level: number): AbstractSyntaxTree {
+    if (level === levels.length) return this.parseFactor();
+
+    const start = this.peek();
+    let left = this.parseBinary(levels, level + 1);
+    while (this.peek().type === 'OP' && levels[level].includes(this.peek().value)) {
+      const op = this.next().value;
+      const right = this.parseBinary(levels, level + 1);
+      left = this.finish('BinOp', start, [left, right], { op });
+    }
+    return left;
+  }
+
+  private parseFactor(): AbstractSyntaxTree {
+    const token = this.peek();
+    if (token.type === 'OP' && ['+', '-', '~'].includes(token.value)) {
+      this.pos++;
+      const op = token.value === '+' ? 'UAdd' : token.value === '-' ? 'USub' : 'Invert';
+      return this.finish('UnaryOp', token, [this.parseFactor()], { op });
+    }
+    return this.parsePower();
+  }
+
+  private parsePower(): AbstractSyntaxTree {
+    const start = this.peek();
+    const base = this.parseAwaitPrimary();
+    if (this.atOp('**')) {
+      this.pos++;
+      return this.finish('BinOp', start, [base, this.parseFactor()], { op: '**' });
+    }
+    return base;
+  }
+
+  private parseAwaitPrimary(): AbstractSyntaxTree {
+    if (this.atKeyword('await')) {
+      const start = this.next();
+      return this.finish('Await', start, [this.parsePrimary()]);
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): AbstractSyntaxTree {
+    const start = this.peek();
+    let node = this.parseAtom();
+
+    while (true) {
+      if (this.atOp('.')) {
+        this.pos++;
+        const attr = this.expectName().value;
+        node = this.finish('Attribute', start, [node], { attr, name: attr });
+      } else if (this.atOp('(')) {
+        this.pos++;
+        const args = this.parseArguments(')');
+        this.expectOp(')');
+        node = this.finish('Call', start, [node, ...args], { func: node.metadata.text });
+      } else if (this.atOp('[')) {
+        this.pos++;
+        const slice = this.parseSubscriptList();
+        this.expectOp(']');
+        node = this.finish('Subscript', start, [node, slice]);
+      } else {
+        return node;
+      }
+    }
+  }
+
+  private parseArguments(closing: string): AbstractSyntaxTree[] {
+    const args: AbstractSyntaxTree[] = [];
+
+    while (!this.atOp(closing)) {
+      const start = this.peek();
+      if (this.atOp('*')) {
+        this.pos++;
+        args.push(this.finish('Starred', start, [this.parseTest()]));
+      } else if (this.atOp('**')) {
+        this.pos++;
+        args.push(this.finish('keyword', start, [this.parseTest()], { arg: null }));
+      } else if (start.type === 'NAME' && this.peek(1).type === 'OP' && this.peek(1).value === '=') {
+        this.pos += 2;
+        args.push(this.finish('keyword', start, [this.parseTest()], { arg: start.value }));
+      } else {
+        const value = this.parseNamedExpression();
+        args.push(this.isComprehensionStart() ? this.parseComprehension('GeneratorExp', start, [value]) : value);
+      }
+
+      if (!this.atOp(',')) break;
+      this.pos++;
+    }
+
+    return args;
+  }
+
+  private parseSubscriptList(): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = this.parseSubscript();
+    if (!this.atOp(',')) return first;
+
+    const elements = [first];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atOp(']')) break;
+      elements.push(this.parseSubscript());
+    }
+    return this.finish('Tuple', start, elements);
+  }
+
+  private parseSubscript(): AbstractSyntaxTree {
+    const start = this.peek();
+    const parts: AbstractSyntaxTree[] = [];
+    let isSlice = false;
+
+    if (!this.atOp(':')) {
+      parts.push(this.parseStarOrNamed());
+    }
+    while (this.atOp(':')) {
+      isSlice = true;
+      this.pos++;
+      if (!this.atOp(':') && !this.atOp(']') && !this.atOp(',')) {
+        parts.push(this.parseTest());
+      }
+    }
+
+    return isSlice ? this.finish('Slice', start, parts) : parts[0];
+  }
+
+  private parseAtom(): AbstractSyntaxTree {
+    const token = this.peek();
+
+    if (token.type === 'NAME') {
+      if (['None', 'True', 'False'].includes(token.value)) {
+        this.pos++;
+        return this.finish('Constant', token, [], { value: token.value, kind: 'keyword' });
+      }
+      if (KEYWORDS.has(token.value)) {
+        throw new Error(`invalid syntax: unexpected '${token.value}'`);
+      }
+      this.pos++;
+      return this.finish('Name', token, [], { name: token.value, id: token.value });
+    }
+
+    if (token.type === 'NUMBER') {
+      this.pos++;
+      return this.finish('Constant', token, [], { value: token.value, kind: 'number' });
+    }
+
+    if (token.type === 'STRING') {
+      let isFormatted = false;
+      while (this.at('STRING')) {
+        const prefix = this.next().value.match(/^[a-zA-Z]*/)![0].toLowerCase();
+        isFormatted = isFormatted || prefix.includes('f');
+      }
+      const value = this.source.slice(token.start.offset, this.previous().end.offset);
+      return this.finish(isFormatted ? 'JoinedStr' : 'Constant', token, [], { value, kind: 'string' });
+    }
+
+    if (token.type === 'OP') {
+      switch (token.value) {
+        case '(':
+          return this.parseParenthesized();
+        case '[':
+          return this.parseListDisplay();
+        case '{':
+          return this.parseDictOrSet();
+        case '...':
+          this.pos++;
+          return this.finish('Constant', token, [], { value: '...', kind: 'ellipsis' });
+      }
+    }
+
+    if (token.type === 'NEWLINE' || token.type === 'ENDMARKER') {
+      throw new Error('invalid syntax: unexpected end of line');
+    }
+    throw new Error(`invalid syntax: unexpected '${token.value}'`);
+  }
+
+  private parseParenthesized(): AbstractSyntaxTree {
+    const start = this.next();
+    if (this.atOp(')')) {
+      this.pos++;
+      return this.finish('Tuple', start, []);
+    }
+    if (this.atKeyword('yield')) {
+      const value = this.parseYield();
+      this.expectOp(')');
+      return value;
+    }
+
+    const first = this.parseStarOrNamed();
+    if (this.isComprehensionStart()) {
+      const generator = this.parseComprehension('GeneratorExp', start, [first]);
+      this.expectOp(')');
+      return this.finish('GeneratorExp', start, generator.children);
+    }
+
+    if (!this.atOp(',')) {
+      this.expectOp(')');
+      // Parentheses only group; keep the inner node but widen its span
+      return this.finish(first.type, start, first.children, this.stripSpan(first.metadata));
+    }
+
+    const elements = [first];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atOp(')')) break;
+      elements.push(this.parseStarOrNamed());
+    }
+    this.expectOp(')');
+    return this.finish('Tuple', start, elements);
+  }
+
+  private parseListDisplay(): AbstractSyntaxTree {
+    const start = this.next();
+    if (this.atOp(']')) {
+      this.pos++;
+      return this.finish('List', start, []);
+    }
+
+    const first = this.parseStarOrNamed();
+    if (this.isComprehensionStart()) {
+      const comprehension = this.parseComprehension('ListComp', start, [first]);
+      this.expectOp(']');
+      return this.finish('ListComp', start, comprehension.children);
+    }
+
+    const elements = [first];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atOp(']')) break;
+      elements.push(this.parseStarOrNamed());
+    }
+    this.expectOp(']');
+    return this.finish('List', start, elements);
+  }
+
+  private parseDictOrSet(): AbstractSyntaxTree {
+    const start = this.next();
+    if (this.atOp('}')) {
+      this.pos++;
+      return this.finish('Dict', start, []);
+    }
+
+    const parseEntry = (): { nodes: AbstractSyntaxTree[]; isDict: boolean } => {
+      if (this.atOp('**')) {
+        this.pos++;
+        return { nodes: [this.parseOrExpression()], isDict: true };
+      }
+      const key = this.parseStarOrNamed();
+      if (this.atOp(':')) {
+        this.pos++;
+        return { nodes: [key, this.parseTest()], isDict: true };
+      }
+      return { nodes: [key], isDict: false };
+    };
+
+    const first = parseEntry();
+    if (this.isComprehensionStart()) {
+      const type = first.isDict ? 'DictComp' : 'SetComp';
+      const comprehension = this.parseComprehension(type, start, first.nodes);
+      this.expectOp('}');
+      return this.finish(type, start, comprehension.children);
+    }
+
+    const children = [...first.nodes];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atOp('}')) break;
+      children.push(...parseEntry().nodes);
+    }
+    this.expectOp('}');
+    return this.finish(first.isDict ? 'Dict' : 'Set', start, children);
+  }
+
+  private isComprehensionStart(): boolean {
+    return this.atKeyword('for') || (this.atKeyword('async') && this.peek(1).value === 'for');
+  }
+
+  private parseComprehension(type: string, start: PythonToken, elements: AbstractSyntaxTree[]): AbstractSyntaxTree {
+    const generators: AbstractSyntaxTree[] = [];
+
+    while (this.isComprehensionStart()) {
+      const generatorStart = this.peek();
+      const isAsync = this.atKeyword('async');
+      if (isAsync) this.pos++;
+      this.expectKeyword('for');
+      const target = this.parseTargetList();
+      this.expectKeyword('in');
+      const iterable = this.parseOr();
+      const children = [target, iterable];
+
+      while (this.atKeyword('if')) {
+        this.pos++;
+        children.push(this.parseOrTest());
+      }
+      generators.push(this.finish('comprehension', generatorStart, children, { isAsync }));
+    }
+
+    return this.finish(type, start, [...elements, ...generators]);
+  }
+
+  private parseOrTest(): AbstractSyntaxTree {
+    // Comprehension conditions cannot be conditional expressions
+    return this.atKeyword('lambda') ? this.parseLambda() : this.parseOr();
+  }
+
+  private parseYield(): AbstractSyntaxTree {
+    const start = this.next();
+    if (this.atKeyword('from')) {
+      this.pos++;
+      return this.finish('YieldFrom', start, [this.parseTest()]);
+    }
+    const value = this.atExpressionEnd() || this.atOp(')') || this.atOp('=') ? [] : [this.parseStarExpressions()];
+    return this.finish('Yield', start, value);
+  }
+
+  private parseTargetList(): AbstractSyntaxTree {
+    const start = this.peek();
+    const first = this.parseTarget();
+    if (!this.atOp(',')) return first;
+
+    const elements = [first];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atKeyword('in') || this.atOp('=')) break;
+      elements.push(this.parseTarget());
+    }
+    return this.finish('Tuple', start, elements);
+  }
+
+  private parseTarget(): AbstractSyntaxTree {
+    if (this.atOp('*')) {
+      const start = this.next();
+      return this.finish('Starred', start, [this.parseOrExpression()]);
+    }
+    return this.parseOrExpression();
+  }
+
+  private parseExpressionList(parseItem: () => AbstractSyntaxTree): AbstractSyntaxTree[] {
+    const items = [parseItem()];
+    while (this.atOp(',')) {
+      this.pos++;
+      if (this.atExpressionEnd()) break;
+      items.push(parseItem());
+    }
+    return items;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Token helpers
+
+  private peek(ahead: number = 0): PythonToken {
+    return this.tokens[Math.min(this.pos + ahead, this.tokens.length - 1)];
+  }
+
+  private previous(): PythonToken {
+    return this.tokens[Math.max(0, this.pos - 1)];
+  }
+
+  private next(): PythonToken {
+    const token = this.peek();
+    if (this.pos < this.tokens.length - 1) this.pos++;
+    return token;
+  }
+
+  private at(type: PythonTokenType): boolean {
+    return this.peek().type === type;
+  }
+
+  private atOp(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'OP' && token.value === value;
+  }
+
+  private atKeyword(value: string): boolean {
+    const token = this.peek();
+    return token.type === 'NAME' && token.value === value;
+  }
+
+  private atExpressionEnd(): boolean {
+    return this.at('NEWLINE') || this.at('ENDMARKER') || this.atOp(';') || this.atOp(')') ||
+      this.atOp(']') || this.atOp('}');
+  }
+
+  private isAugmentedAssignment(): boolean {
+    const token = this.peek();
+    return token.type === 'OP' && AUGMENTED_ASSIGNMENTS.has(token.value);
+  }
+
+  private expect(type: PythonTokenType): PythonToken {
+    if (!this.at(type)) {
+      throw new Error(`invalid syntax: expected ${type.toLowerCase()}, found '${this.peek().value || this.peek().type}'`);
+    }
+    return this.next();
+  }
+
+  private expectOp(value: string): PythonToken {
+    if (!this.atOp(value)) {
+      throw new Error(`invalid syntax: expected '${value}', found '${this.peek().value || this.peek().type}'`);
+    }
+    return this.next();
+  }
+
+  private expectKeyword(value: string): PythonToken {
+    if (!this.atKeyword(value)) {
+      throw new Error(`invalid syntax: expected '${value}', found '${this.peek().value || this.peek().type}'`);
+    }
+    return this.next();
+  }
+
+  private expectName(): PythonToken {
+    const token = this.peek();
+    if (token.type !== 'NAME' || KEYWORDS.has(token.value)) {
+      throw new Error(`invalid syntax: expected a name, found '${token.value || token.type}'`);
+    }
+    return this.next();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Node helpers
+
+  private finish(
+    type: string,
+    start: PythonToken,
+    children: AbstractSyntaxTree[],
+    metadata: Record<string, any> = {},
+    legacyModuleText: boolean = false
+  ): AbstractSyntaxTree {
+    const end = this.lastSignificantToken(start);
+    const endPosition = end.end.offset >= start.start.offset ? end.end : start.end;
+    const span = { offset: start.start.offset, endOffset: endPosition.offset, fullStart: this.getFullStart(start) };
+
+    return {
+      type,
+      children,
+      metadata: this.metadataFactory.create(span, {
+        ...metadata,
+        // Import nodes historically carried the statement text as `module`
+        ...(legacyModuleText ? { module: this.source.slice(span.offset, span.endOffset), line: start.start.line } : {}),
+        ...(this.isStatement(type) && metadata.line === undefined ? { line: start.start.line } : {}),
+        start: this.location(start.start),
+        end: this.location(endPosition)
+      })
+    };
+  }
+
+  private getFullStart(start: PythonToken): number | undefined {
+    // Leading trivia runs from the end of the previous significant token,
+    // so it includes comments, line breaks and indentation
+    let index = this.tokenIndex.get(start);
+    if (index === undefined) return undefined;
+    while (index > 0 && ['NEWLINE', 'INDENT', 'DEDENT'].includes(this.tokens[index - 1].type)) {
+      index--;
+    }
+    return index > 0 ? this.tokens[index - 1].end.offset : 0;
+  }
+
+  private lastSignificantToken(start: PythonToken): PythonToken {
+    // Blocks end with NEWLINE/DEDENT tokens; the span ends at the last real token
+    for (let i = this.pos - 1; i >= 0; i--) {
+      const token = this.tokens[i];
+      if (token.start.offset < start.start.offset) break;
+      if (!['NEWLINE', 'INDENT', 'DEDENT', 'ENDMARKER'].includes(token.type)) return token;
+    }
+    return start;
+  }
+
+  private stripSpan(metadata: Record<string, any>): Record<string, any> {
+    const rest = { ...metadata };
+    SPAN_METADATA_KEYS.forEach(key => delete rest[key]);
+    return rest;
+  }
+
+  private isStatement(type: string): boolean {
+    return [
+      'Expr', 'Assign', 'AugAssign', 'AnnAssign', 'Return', 'Pass', 'Break', 'Continue', 'Delete',
+      'Raise', 'Assert', 'Global', 'Nonlocal', 'Import'
+    ].includes(type);
+  }
+
+  private location(position: PythonPosition): SourceLocation {
+    return { line: position.line, column: position.column, file: this.file };
+  }
+
+  private capitalize(value: string): string {
+    return value.charAt(0).toUpperCase() + value.slice(1);
+  }
+}
@@ -0,0 +1,262 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+import { ScopedSymbolTable } from './symbol-table';
+import { readProjectConfig } from './tsconfig';
+import { MemberInfo, SemanticInfo, SignatureInfo, SourceLocation, Symbol, SymbolTable } from '../interfaces/context';
+
+/**
+ * Type-checker backed semantic analysis for TypeScript and JavaScript
+ * Implements requirements 2.1 and 2.2
+ *
+ * The syntactic analyzers only know what kind of declaration a symbol is.
+ * This analyzer builds a `ts.Program` from the project's tsconfig.json and
+ * asks its type checker for each symbol's type, signatures, type parameters,
+ * JSDoc and resolved declarations. Source files are cached by text, so
+ * rebuilding the program after an edit only re-parses the edited file.
+ */
+
+export interface SemanticAnalyzerConfig {
+  projectPath: string;
+  tsconfigPath?: string; // defaults to the nearest tsconfig.json at or above projectPath
+  maxMembers: number; // per symbol, for member completion
+}
+
+const TYPE_SYMBOL_FLAGS = ts.SymbolFlags.Class | ts.SymbolFlags.Interface | ts.SymbolFlags.TypeAlias;
+const CALLABLE_SYMBOL_FLAGS = ts.SymbolFlags.Function | ts.SymbolFlags.Method;
+
+/**
+ * Semantic analyzer that annotates symbol tables with type-checker information
+ */
+export class TypeScriptSemanticAnalyzer {
+  private config: SemanticAnalyzerConfig;
+  private compilerOptions: ts.CompilerOptions;
+  private rootNames: Set<string>;
+  private host: ts.CompilerHost;
+  private sourceFiles: Map<string, ts.SourceFile> = new Map();
+  private overrides: Map<string, string> = new Map();
+  private program: ts.Program | null = null;
+
+  constructor(config: Partial<SemanticAnalyzerConfig> = {}) {
+    this.config = {
+      projectPath: path.resolve(config.projectPath || process.cwd()),
+      tsconfigPath: config.tsconfigPath,
+      maxMembers: config.maxMembers || 100
+    };
+
+    const project = readProjectConfig(this.config.projectPath, this.config.tsconfigPath);
+    // JavaScript files are analyzed even when the project does not compile them
+    this.compilerOptions = { ...project.options, allowJs: true, noEmit: true };
+    this.rootNames = new Set(project.fileNames.map(fileName => this.normalize(fileName)));
+    this.host = this.createHost();
+  }
+
+  /**
+   * Attach semantic information to the symbols of a file. `content`
+   * replaces the file's text on disk, e.g. for an unsaved editor buffer.
+   */
+  annotate(symbolTable: SymbolTable, filePath: string, content?: string): void {
+    const fileName = this.normalize(filePath);
+    if (content !== undefined) {
+      this.overrides.set(fileName, content);
+    } else {
+      this.overrides.delete(fileName);
+    }
+
+    const program = this.getProgram(fileName);
+    const sourceFile = program.getSourceFile(fileName);
+    if (!sourceFile) {
+      throw new Error(`File is not part of the TypeScript program: ${filePath}`);
+    }
+
+    const checker = program.getTypeChecker();
+    const symbols = symbolTable instanceof ScopedSymbolTable
+      ? symbolTable.getAllDeclarations()
+      : Array.from(symbolTable.symbols.values());
+
+    symbols.forEach(symbol => {
+      const name = this.findDeclarationName(sourceFile, symbol);
+      const semantic = name && this.describeSymbol(checker, name);
+      if (semantic) {
+        symbol.semantic = semantic;
+      }
+    });
+  }
+
+  /**
+   * Drop the current program so the next analysis re-reads every file,
+   * e.g. after files other than the analyzed one changed on disk
+   */
+  invalidate(): void {
+    this.program = null;
+  }
+
+  /**
+   * Get the compiler options resolved from the project configuration
+   */
+  getCompilerOptions(): ts.CompilerOptions {
+    return { ...this.compilerOptions };
+  }
+
+  /**
+   * Create a compiler host that serves overridden text and reuses source
+   * files whose text is unchanged
+   */
+  private createHost(): ts.CompilerHost {
+    const host = ts.createCompilerHost(this.compilerOptions, true);
+    const readFile = host.readFile.bind(host);
+
+    host.readFile = fileName => this.overrides.get(this.normalize(fileName)) ?? readFile(fileName);
+    host.getSourceFile = (fileName, languageVersion) => {
+      const text = host.readFile(fileName);
+      if (text === undefined) return undefined;
+
+      const cached = this.sourceFiles.get(fileName);
+      if (cached && cached.text === text) return cached;
+
+      const sourceFile = ts.createSourceFile(fileName, text, languageVersion, true);
+      this.sourceFiles.set(fileName, sourceFile);
+      return sourceFile;
+    };
+
+    return host;
+  }
+
+  /**
+   * Get a program that includes the file with its current text
+   */
+  private getProgram(fileName: string): ts.Program {
+    const current = this.program?.getSourceFile(fileName);
+    if (this.program && current && current.text === this.host.readFile(fileName)) {
+      return this.program;
+    }
+
+    this.rootNames.add(fileName);
+    this.program = ts.createProgram({
+      rootNames: Array.from(this.rootNames),
+      options: this.compilerOptions,
+      host: this.host,
+      oldProgram: this.program || undefined
+    });
+    return this.program;
+  }
+
+  /**
+   * Find the name of the declaration a symbol was recorded at. Symbol
+   * locations point at the start of the declaration (modifiers included)
+   * or, for variables, at the declared identifier itself.
+   */
+  private findDeclarationName(sourceFile: ts.SourceFile, symbol: Symbol): ts.Node | undefined {
+    const { line, column } = symbol.location;
+    if (line < 1 || line > sourceFile.getLineStarts().length) return undefined;
+
+    const position = sourceFile.getPositionOfLineAndCharacter(line - 1, column - 1);
+    let found: ts.Node | undefined;
+
+    const visit = (node: ts.Node): void => {
+      if (found || position < node.getStart(sourceFile) || position >= node.getEnd()) return;
+
+      if (node.getStart(sourceFile) === position) {
+        const name = ts.isIdentifier(node) ? node : ts.getNameOfDeclaration(node as ts.Declaration);
+        if (name && name.getText(sourceFile) === symbol.name) {
+          found = name;
+          return;
+        }
+      }
+      ts.forEachChild(node, visit);
+    };
+
+    visit(sourceFile);
+    return found;
+  }
+
+  /**
+   * Describe the symbol declared at a name node
+   */
+  private describeSymbol(checker: ts.TypeChecker, name: ts.Node): SemanticInfo | undefined {
+    let symbol = checker.getSymbolAtLocation(name);
+    if (!symbol) return undefined;
+    if (symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    const valueType = checker.getTypeOfSymbolAtLocation(symbol, name);
+    const isType = (symbol.flags & TYPE_SYMBOL_FLAGS) !== 0;
+    // Classes are described by their instance type, constructed through the value side
+    const type = isType ? checker.getDeclaredTypeOfSymbol(symbol) : valueType;
+    const signatures = symbol.flags & ts.SymbolFlags.Class
+      ? valueType.getConstructSignatures()
+      : type.getCallSignatures();
+    const declaration = symbol.declarations?.[0];
+
+    return {
+      typeString: checker.typeToString(type),
+      signatures: signatures.map(signature => this.describeSignature(checker, signature, name)),
+      typeParameters: declaration && this.hasTypeParameters(declaration)
+        ? ts.getEffectiveTypeParameterDeclarations(declaration).map(parameter => parameter.getText())
+        : [],
+      documentation: ts.displayPartsToString(symbol.getDocumentationComment(checker)),
+      jsDocTags: symbol.getJsDocTags(checker).map(tag => ({
+        name: tag.name,
+        text: ts.displayPartsToString(tag.text)
+      })),
+      declarations: (symbol.declarations || []).map(node => this.toLocation(node)),
+      members: symbol.flags & CALLABLE_SYMBOL_FLAGS ? [] : this.describeMembers(checker, type, name)
+    };
+  }
+
+  /**
+   * Describe a call or construct signature
+   */
+  private describeSignature(checker: ts.TypeChecker, signature: ts.Signature, location: ts.Node): SignatureInfo {
+    return {
+      text: checker.signatureToString(signature),
+      parameters: signature.getParameters().map(parameter => {
+        const declaration = parameter.valueDeclaration;
+        return {
+          name: parameter.getName(),
+          type: checker.typeToString(checker.getTypeOfSymbolAtLocation(parameter, location)),
+          optional: !!declaration && ts.isParameter(declaration) && checker.isOptionalParameter(declaration)
+        };
+      }),
+      returnType: checker.typeToString(signature.getReturnType()),
+      typeParameters: (signature.getTypeParameters() || []).map(parameter => checker.typeToString(parameter))
+    };
+  }
+
+  /**
+   * Describe the properties and methods reachable through a value of a type
+   */
+  private describeMembers(checker: ts.TypeChecker, type: ts.Type, location: ts.Node): MemberInfo[] {
+    // Primitives expose the members of their wrapper types, e.g. String
+    const properties = checker.getPropertiesOfType(checker.getApparentType(type));
+
+    return properties.slice(0, this.config.maxMembers).map(property => ({
+      name: property.getName(),
+      kind: property.flags & ts.SymbolFlags.Method ? 'method' : 'property',
+      typeString: checker.typeToString(checker.getTypeOfSymbolAtLocation(property, location)),
+      documentation: ts.displayPartsToString(property.getDocumentationComment(checker))
+    }));
+  }
+
+  private hasTypeParameters(node: ts.Node): node is ts.DeclarationWithTypeParameters {
+    return ts.isFunctionLike(node) || ts.isClassLike(node) ||
+      ts.isInterfaceDeclaration(node) || ts.isTypeAliasDeclaration(node);
+  }
+
+  private toLocation(node: ts.Node): SourceLocation {
+    const sourceFile = node.getSourceFile();
+    const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+    return {
+      line: position.line + 1,
+      column: position.character + 1,
+      file: sourceFile.fileName
+    };
+  }
+
+  /**
+   * Normalize a path the way the compiler names source files
+   */
+  private normalize(filePath: string): string {
+    return path.resolve(this.config.projectPath, filePath).split(path.sep).join('/');
+  }
+}
@@ -0,0 +1,415 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AbstractSyntaxTree, LineLengthPercentiles, PreferredPatterns, StyleProfile } from '../interfaces/context';
+import { IndentationStyle, NamingConvention } from '../interfaces/common';
+import { MultiLanguageASTParser } from './ast-parser';
+import { SymbolAnalyzer } from './symbol-analyzer';
+import { collectCodeFiles } from './project-graph';
+import { detectLanguage, isDeclarationFile } from './language';
+import { tokenizePython } from './python-parser';
+
+/**
+ * Infers a project's code style from a sample of its source files
+ * Implements requirements 2.1 and 2.2
+ *
+ * Every measured dimension is a vote count per option: indentation steps,
+ * string quotes, statement semicolons, brace placement, import grouping and
+ * the naming convention of each kind of symbol. The profile takes the most
+ * frequent option of each dimension and lists every observed option as a
+ * preferred pattern whose frequency is its share of the votes.
+ */
+
+export interface StyleInferenceConfig {
+  maxFiles: number; // files sampled evenly across the sorted file list
+  maxFileBytes: number; // larger files are usually generated or minified and are skipped
+}
+
+export interface StyleMeasurements {
+  files: number;
+  indentation: Record<string, number>;
+  quotes: Record<string, number>;
+  semicolons: Record<string, number>;
+  braces: Record<string, number>;
+  imports: Record<string, number>;
+  naming: Record<string, Record<string, number>>; // symbol type -> convention -> count
+  lineLengths: number[];
+}
+
+type ImportCategory = 'package' | 'relative';
+
+interface ImportStatement {
+  category: ImportCategory;
+  startLine: number;
+  endLine: number;
+}
+
+// Statements that end with a semicolon unless the project relies on ASI
+const SEMICOLON_STATEMENTS = new Set([
+  'ImportDeclaration', 'ExportDeclaration', 'ExportAssignment', 'FirstStatement', 'VariableStatement',
+  'ExpressionStatement', 'ReturnStatement', 'ThrowStatement', 'BreakStatement', 'ContinueStatement',
+  'TypeAliasDeclaration', 'PropertyDeclaration'
+]);
+
+// Symbol types whose convention decides the profile's overall naming
+const VALUE_SYMBOL_TYPES = ['function', 'method', 'variable', 'property'];
+
+const COMMON_LINE_LIMITS = [80, 100, 120, 140, 160];
+
+/**
+ * Profile used when a project has no files to sample
+ */
+export function defaultStyleProfile(): StyleProfile {
+  return {
+    indentation: IndentationStyle.SPACES_2,
+    naming: NamingConvention.CAMEL_CASE,
+    structure: {
+      maxLineLength: 100,
+      bracketStyle: 'same-line',
+      importStyle: 'grouped'
+    },
+    patterns: []
+  };
+}
+
+/**
+ * Classifies an identifier's naming convention, or null when the name does
+ * not tell (single lowercase words, UPPER_CASE constants)
+ */
+export function classifyNamingConvention(name: string): NamingConvention | null {
+  const bare = name.replace(/^[_$]+|_+$/g, '');
+
+  if (/^[a-z][a-z0-9]*(_[a-z0-9]+)+$/.test(bare)) return NamingConvention.SNAKE_CASE;
+  if (/^[a-z][a-z0-9]*[A-Z][A-Za-z0-9]*$/.test(bare)) return NamingConvention.CAMEL_CASE;
+  if (/^[A-Z](?=[A-Z0-9]*[a-z])[A-Za-z0-9]*$/.test(bare)) return NamingConvention.PASCAL_CASE;
+  if (/^[a-z][a-z0-9]*(-[a-z0-9]+)+$/.test(bare)) return NamingConvention.KEBAB_CASE;
+  return null;
+}
+
+/**
+ * Samples project files and measures their style
+ */
+export class StyleInferrer {
+  private config: StyleInferenceConfig;
+  private astParser: MultiLanguageASTParser;
+  private symbolAnalyzer: SymbolAnalyzer;
+
+  constructor(
+    config: Partial<StyleInferenceConfig> = {},
+    astParser: MultiLanguageASTParser = new MultiLanguageASTParser(),
+    symbolAnalyzer: SymbolAnalyzer = new SymbolAnalyzer()
+  ) {
+    this.config = {
+      maxFiles: config.maxFiles || 50,
+      maxFileBytes: config.maxFileBytes || 256 * 1024
+    };
+    this.astParser = astParser;
+    this.symbolAnalyzer = symbolAnalyzer;
+  }
+
+  /**
+   * Infer the style profile of a project from a sample of the given
+   * project-relative files or of every code file under the project
+   */
+  async infer(projectPath: string, files?: string[]): Promise<StyleProfile> {
+    const root = path.resolve(projectPath);
+    const measurements = this.createMeasurements();
+
+    for (const file of this.sampleFiles(files || collectCodeFiles(root))) {
+      const absolutePath = path.resolve(root, file);
+      try {
+        if (fs.statSync(absolutePath).size > this.config.maxFileBytes) continue;
+        await this.measure(fs.readFileSync(absolutePath, 'utf-8'), absolutePath, measurements);
+      } catch (error) {
+        console.warn('Error inferring file style:', error);
+      }
+    }
+
+    return this.toProfile(measurements);
+  }
+
+  /**
+   * Measure the style of one source file, adding its votes to the given
+   * measurements
+   */
+  async measure(code: string, filePath: string, measurements: StyleMeasurements = this.createMeasurements()): Promise<StyleMeasurements> {
+    const language = detectLanguage(filePath);
+    if (!language) {
+      throw new Error(`Cannot detect language for file: ${filePath}`);
+    }
+
+    const lines = code.split(/\r?\n/);
+    measurements.files++;
+    this.measureLines(lines, measurements);
+
+    const ast = await this.astParser.parseCode(code, language, filePath);
+    if (language === 'python') {
+      this.measurePythonQuotes(code, measurements);
+    } else {
+      this.measureScriptSyntax(ast, lines, measurements);
+    }
+    this.measureImports(ast, language, measurements);
+    this.measureNaming(ast, language, measurements);
+
+    return measurements;
+  }
+
+  /**
+   * Turn measurements into a profile, keeping the defaults for dimensions
+   * without votes
+   */
+  toProfile(measurements: StyleMeasurements): StyleProfile {
+    const profile = defaultStyleProfile();
+    const patterns: PreferredPatterns[] = [];
+
+    const indentation = this.dominant(measurements.indentation);
+    if (indentation) profile.indentation = indentation as IndentationStyle;
+
+    const quotes = this.dominant(measurements.quotes);
+    if (quotes) profile.structure.quoteStyle = quotes as 'single' | 'double';
+
+    const semicolons = this.dominant(measurements.semicolons);
+    if (semicolons) profile.structure.semicolons = semicolons === 'always';
+
+    profile.structure.bracketStyle = this.dominant(measurements.braces) || profile.structure.bracketStyle;
+    profile.structure.importStyle = this.dominant(measurements.imports) || profile.structure.importStyle;
+
+    patterns.push(
+      ...this.toPatterns(measurements.indentation, 'indentation'),
+      ...this.toPatterns(measurements.quotes, 'quotes'),
+      ...this.toPatterns(measurements.semicolons, 'semicolons'),
+      ...this.toPatterns(measurements.braces, 'braces'),
+      ...this.toPatterns(measurements.imports, 'imports')
+    );
+
+    const namingByKind: Record<string, NamingConvention> = {};
+    const valueNaming: Record<string, number> = {};
+    Object.keys(measurements.naming).sort().forEach(kind => {
+      const counts = measurements.naming[kind];
+      const convention = this.dominant(counts);
+      if (convention) namingByKind[kind] = convention as NamingConvention;
+      if (VALUE_SYMBOL_TYPES.includes(kind)) {
+        Object.entries(counts).forEach(([name, count]) => this.vote(valueNaming, name, count));
+      }
+      patterns.push(...this.toPatterns(counts, `naming:${kind}`));
+    });
+    profile.namingByKind = namingByKind;
+    profile.naming = (this.dominant(valueNaming) as NamingConvention) || profile.naming;
+
+    if (measurements.lineLengths.length > 0) {
+      const lineLengths = this.percentiles(measurements.lineLengths);
+      const maxLineLength = COMMON_LINE_LIMITS.find(limit => limit >= lineLengths.p99) || lineLengths.p99;
+      const within = measurements.lineLengths.filter(length => length <= maxLineLength).length;
+
+      profile.structure.maxLineLength = maxLineLength;
+      profile.structure.lineLengths = lineLengths;
+      patterns.push({
+        pattern: `max-line-length:${maxLineLength}`,
+        frequency: this.round(within / measurements.lineLengths.length),
+        context: 'line-length'
+      });
+    }
+
+    profile.patterns = patterns;
+    return profile;
+  }
+
+  private createMeasurements(): StyleMeasurements {
+    return {
+      files: 0,
+      indentation: {},
+      quotes: {},
+      semicolons: {},
+      braces: {},
+      imports: {},
+      naming: {},
+      lineLengths: []
+    };
+  }
+
+  /**
+   * Pick at most `maxFiles` files spread evenly over the sorted list, so the
+   * sample covers the whole tree rather than its first directories
+   */
+  private sampleFiles(files: string[]): string[] {
+    const candidates = files.filter(file => !isDeclarationFile(file)).sort();
+    if (candidates.length <= this.config.maxFiles) return candidates;
+
+    const sample: string[] = [];
+    for (let i = 0; i < this.config.maxFiles; i++) {
+      sample.push(candidates[Math.floor(i * candidates.length / this.config.maxFiles)]);
+    }
+    return sample;
+  }
+
+  /**
+   * Vote on the indentation unit from the steps where a line is indented
+   * deeper than the previous one, and record non-blank line lengths
+   */
+  private measureLines(lines: string[], measurements: StyleMeasurements): void {
+    let previous = '';
+
+    lines.forEach(line => {
+      const content = line.trimEnd();
+      if (content.trim().length === 0) return;
+      measurements.lineLengths.push(content.length);
+
+      // Continuation lines of block comments are offset by one space
+      if (/^\s*\*/.test(content)) return;
+
+      const leading = content.match(/^[ \t]*/)![0];
+      if (leading.length > previous.length && leading.startsWith(previous)) {
+        const step = leading.slice(previous.length);
+        if (/^\t+$/.test(step)) {
+          this.vote(measurements.indentation, IndentationStyle.TABS);
+        } else if (step === '  ') {
+          this.vote(measurements.indentation, IndentationStyle.SPACES_2);
+        } else if (step === '    ') {
+          this.vote(measurements.indentation, IndentationStyle.SPACES_4);
+        }
+      }
+      previous = leading;
+    });
+  }
+
+  /**
+   * Vote on quotes, semicolons and brace placement from a TypeScript or
+   * JavaScript AST
+   */
+  private measureScriptSyntax(ast: AbstractSyntaxTree, lines: string[], measurements: StyleMeasurements): void {
+    const visit = (node: AbstractSyntaxTree, parent: AbstractSyntaxTree | null) => {
+      const text = String(node.metadata.text ?? '');
+
+      if (node.type === 'StringLiteral') {
+        if (text.startsWith("'")) this.vote(measurements.quotes, 'single');
+        if (text.startsWith('"')) this.vote(measurements.quotes, 'double');
+      } else if (SEMICOLON_STATEMENTS.has(node.type)) {
+        this.vote(measurements.semicolons, text.trimEnd().endsWith(';') ? 'always' : 'never');
+      } else if (node.type === 'Block' && parent && !['Block', 'SourceFile', 'CaseClause', 'DefaultClause'].includes(parent.type)) {
+        // A brace that starts its line was moved off the line of its header
+        const line = lines[node.metadata.start.line - 1] || '';
+        const before = line.slice(0, node.metadata.start.column - 1);
+        this.vote(measurements.braces, before.trim().length === 0 ? 'next-line' : 'same-line');
+      }
+
+      node.children.forEach(child => visit(child, node));
+    };
+
+    visit(ast, null);
+  }
+
+  /**
+   * Vote on quotes from Python string tokens; triple-quoted strings are
+   * docstrings or multi-line text whose quotes follow their own convention
+   */
+  private measurePythonQuotes(code: string, measurements: StyleMeasurements): void {
+    tokenizePython(code).tokens
+      .filter(token => token.type === 'STRING')
+      .forEach(token => {
+        const literal = token.value.replace(/^[A-Za-z]+/, '');
+        if (literal.startsWith("'''") || literal.startsWith('"""')) return;
+        if (literal.startsWith("'")) this.vote(measurements.quotes, 'single');
+        if (literal.startsWith('"')) this.vote(measurements.quotes, 'double');
+      });
+  }
+
+  /**
+   * Vote on import grouping. A file whose top-level imports come from more
+   * than one category (packages, relative modules) is grouped when each
+   * category forms one run and runs are separated by a blank line.
+   */
+  private measureImports(ast: AbstractSyntaxTree, language: string, measurements: StyleMeasurements): void {
+    const imports: ImportStatement[] = [];
+
+    ast.children.forEach(node => {
+      const specifier = this.getImportSpecifier(node, language);
+      if (specifier === null) return;
+
+      imports.push({
+        category: this.categorizeImport(specifier),
+        startLine: node.metadata.start.line,
+        endLine: node.metadata.end.line
+      });
+    });
+
+    if (new Set(imports.map(statement => statement.category)).size < 2) return;
+
+    const seen = new Set<ImportCategory>();
+    let grouped = true;
+    imports.forEach((statement, index) => {
+      const previous = imports[index - 1];
+      if (previous && previous.category === statement.category) return;
+
+      if (seen.has(statement.category)) grouped = false;
+      if (previous && statement.startLine <= previous.endLine + 1) grouped = false;
+      seen.add(statement.category);
+    });
+
+    this.vote(measurements.imports, grouped ? 'grouped' : 'ungrouped');
+  }
+
+  private getImportSpecifier(node: AbstractSyntaxTree, language: string): string | null {
+    if (language === 'python') {
+      if (node.type !== 'Import') return null;
+      return node.metadata.importKind === 'from' ? node.metadata.fromModule : node.metadata.modules[0];
+    }
+
+    if (node.type !== 'ImportDeclaration') return null;
+    const literal = node.children.find(child => child.type === 'StringLiteral');
+    return literal ? String(literal.metadata.text).slice(1, -1) : null;
+  }
+
+  private categorizeImport(specifier: string): ImportCategory {
+    return specifier.startsWith('.') || specifier.startsWith('/') ? 'relative' : 'package';
+  }
+
+  /**
+   * Vote on the naming convention of each kind of declared symbol
+   */
+  private measureNaming(ast: AbstractSyntaxTree, language: string, measurements: StyleMeasurements): void {
+    const symbols = this.symbolAnalyzer.analyzeSymbols(ast, language);
+
+    symbols.getAllDeclarations()
+      .filter(symbol => symbol.type !== 'import')
+      .forEach(symbol => {
+        const convention = classifyNamingConvention(symbol.name);
+        if (!convention) return;
+
+        measurements.naming[symbol.type] = measurements.naming[symbol.type] || {};
+        this.vote(measurements.naming[symbol.type], convention);
+      });
+  }
+
+  private percentiles(values: number[]): LineLengthPercentiles {
+    const sorted = [...values].sort((a, b) => a - b);
+    const rank = (percentile: number) => sorted[Math.max(0, Math.ceil(percentile / 100 * sorted.length) - 1)];
+
+    return {
+      p50: rank(50),
+      p90: rank(90),
+      p95: rank(95),
+      p99: rank(99),
+      max: sorted[sorted.length - 1]
+    };
+  }
+
+  private toPatterns(counts: Record<string, number>, context: string): PreferredPatterns[] {
+    const total = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+    return Object.entries(counts)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))
+      .map(([pattern, count]) => ({ pattern, frequency: this.round(count / total), context }));
+  }
+
+  private dominant(counts: Record<string, number>): string | undefined {
+    return Object.entries(counts)
+      .sort(([a, countA], [b, countB]) => countB - countA || a.localeCompare(b))[0]?.[0];
+  }
+
+  private vote(counts: Record<string, number>, option: string, weight: number = 1): void {
+    counts[option] = (counts[option] || 0) + weight;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 1000) / 1000;
+  }
+}
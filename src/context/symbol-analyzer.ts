@@ -1,5 +1,25 @@
 import * as ts from 'typescript';
-import { AbstractSyntaxTree, SymbolTable, Symbol, ScopeInfo, DependencyGraph, DependencyNode, DependencyEdge, SourceLocation } from '../interfaces/context';
+import { ScopedSymbolTable } from './symbol-table';
+import { FileDependencyExtractor } from './dependency-graph';
+import { AbstractSyntaxTree, SymbolTable, Symbol, ScopeInfo, DependencyGraph, SourceLocation, SourcePosition, SourceRange } from '../interfaces/context';
+
+/**
+ * Gets the source range of a node, when the parser recorded one
+ */
+function getNodeRange(node: AbstractSyntaxTree): SourceRange | undefined {
+  if (!node.metadata.start || !node.metadata.end) return undefined;
+  return { start: node.metadata.start, end: node.metadata.end };
+}
+
+const BINDING_NAME_TYPES = new Set(['Identifier', 'ObjectBindingPattern', 'ArrayBindingPattern']);
+
+const INLINE_FUNCTION_TYPES = new Set(['ArrowFunction', 'FunctionExpression']);
+
+export interface ScopeResolution {
+  scope: ScopeInfo;
+  scopeChain: ScopeInfo[];
+  visibleSymbols: Symbol[];
+}
 
 /**
  * Symbol table and scope analyzer for multi-language support
@@ -16,7 +36,7 @@ export class SymbolAnalyzer {
   /**
    * Analyze AST and build symbol table with scope information
    */
-  analyzeSymbols(ast: AbstractSyntaxTree, language: string): SymbolTable {
+  analyzeSymbols(ast: AbstractSyntaxTree, language: string): ScopedSymbolTable {
     switch (language.toLowerCase()) {
       case 'typescript':
       case 'javascript':
@@ -29,62 +49,68 @@ export class SymbolAnalyzer {
   }
 
   /**
-   * Build dependency graph from symbol table and imports
+   * Build the dependency graph of one file: its imports, and the calls,
+   * inheritance and type references of its declarations. Specifiers are
+   * kept as written; ProjectDependencyGraphBuilder resolves them to files.
    */
   buildDependencyGraph(symbolTable: SymbolTable, ast: AbstractSyntaxTree): DependencyGraph {
-    const nodes: DependencyNode[] = [];
-    const edges: DependencyEdge[] = [];
-
-    // Extract import/dependency information from AST
-    this.extractDependencies(ast, nodes, edges);
-
-    // Add internal symbols as nodes
-    symbolTable.symbols.forEach((symbol, name) => {
-      if (symbol.type === 'function' || symbol.type === 'class' || symbol.type === 'interface') {
-        nodes.push({
-          id: symbol.name,
-          name: symbol.name,
-          type: symbol.type
-        });
-      }
-    });
-
-    return { nodes, edges };
+    return new FileDependencyExtractor(symbolTable, ast).extract(ast);
   }
 
   /**
-   * Extract dependencies from AST nodes
+   * Resolve the innermost scope enclosing a position, its parent chain and
+   * the symbols visible there. Class bodies only contribute their members
+   * when the position is directly inside the class, since methods refer to
+   * members through `this`/`self` rather than by bare name.
    */
-  private extractDependencies(ast: AbstractSyntaxTree, nodes: DependencyNode[], edges: DependencyEdge[]): void {
-    if (ast.type === 'Import' || ast.type === 'ImportDeclaration') {
-      const moduleName = this.extractModuleName(ast);
-      if (moduleName) {
-        nodes.push({
-          id: moduleName,
-          name: moduleName,
-          type: 'module'
-        });
-      }
+  resolveScopeAt(symbolTable: SymbolTable, position: SourcePosition): ScopeResolution {
+    const { scopes } = symbolTable;
+    const containing = scopes.filter(scope => scope.range && this.containsPosition(scope.range, position));
+    const globalScope = scopes.find(scope => scope.id === 'global') || scopes[0];
+
+    // Nested scopes start later (or end earlier) than the scopes around them;
+    // on equal ranges, e.g. a function spanning the file, the later-declared one is nested
+    const innermost = containing.reduce<ScopeInfo | undefined>((best, scope) => {
+      if (!best) return scope;
+      const order = this.comparePositions(scope.range!.start, best.range!.start) ||
+        this.comparePositions(best.range!.end, scope.range!.end);
+      return order >= 0 ? scope : best;
+    }, undefined) || globalScope;
+
+    const scopeChain: ScopeInfo[] = [];
+    let current: ScopeInfo | undefined = innermost;
+    while (current && !scopeChain.includes(current)) {
+      scopeChain.push(current);
+      const parentId: string | undefined = current.parent;
+      current = parentId
+        ? containing.find(scope => scope.id === parentId) || scopes.find(scope => scope.id === parentId)
+        : undefined;
     }
 
-    // Recursively process children
-    ast.children.forEach(child => {
-      this.extractDependencies(child, nodes, edges);
+    const declarations = symbolTable instanceof ScopedSymbolTable
+      ? symbolTable.getAllDeclarations()
+      : Array.from(symbolTable.symbols.values());
+    const visible = new Map<string, Symbol>();
+    scopeChain.forEach((scope, depth) => {
+      if (scope.type === 'class' && depth > 0) return;
+
+      declarations.forEach(symbol => {
+        // Inner declarations shadow outer ones
+        if (symbol.scope === scope.id && !visible.has(symbol.name)) {
+          visible.set(symbol.name, symbol);
+        }
+      });
     });
+
+    return { scope: innermost, scopeChain, visibleSymbols: Array.from(visible.values()) };
   }
 
-  /**
-   * Extract module name from import node
-   */
-  private extractModuleName(importNode: AbstractSyntaxTree): string | null {
-    if (importNode.metadata.module) {
-      return importNode.metadata.module;
-    }
-    if (importNode.metadata.text) {
-      const match = importNode.metadata.text.match(/from\s+['"]([^'"]+)['"]|import\s+['"]([^'"]+)['"]/);
-      return match ? (match[1] || match[2]) : null;
-    }
-    return null;
+  private containsPosition(range: SourceRange, position: SourcePosition): boolean {
+    return this.comparePositions(range.start, position) <= 0 && this.comparePositions(position, range.end) <= 0;
+  }
+
+  private comparePositions(a: SourcePosition, b: SourcePosition): number {
+    return a.line !== b.line ? a.line - b.line : a.column - b.column;
   }
 }
 
@@ -95,28 +121,29 @@ export class TypeScriptSymbolAnalyzer {
   /**
    * Analyze TypeScript AST and build symbol table
    */
-  analyze(ast: AbstractSyntaxTree): SymbolTable {
-    const symbols = new Map<string, Symbol>();
-    const scopes: ScopeInfo[] = [];
+  analyze(ast: AbstractSyntaxTree): ScopedSymbolTable {
+    const symbols = new ScopedSymbolTable();
+    const scopes = symbols.scopes;
     
     // Create global scope
     const globalScope: ScopeInfo = {
       id: 'global',
       type: 'global',
       variables: [],
-      functions: []
+      functions: [],
+      range: getNodeRange(ast)
     };
     scopes.push(globalScope);
 
     this.analyzeNode(ast, symbols, scopes, globalScope);
 
-    return { symbols, scopes };
+    return symbols;
   }
 
   /**
    * Recursively analyze AST nodes to extract symbols
    */
-  private analyzeNode(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+  private analyzeNode(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
     switch (node.type) {
       case 'FunctionDeclaration':
         this.analyzeFunctionDeclaration(node, symbols, scopes, currentScope);
@@ -129,7 +156,9 @@ export class TypeScriptSymbolAnalyzer {
         break;
       case 'VariableStatement':
       case 'FirstStatement':
-        this.analyzeVariableStatement(node, symbols, currentScope);
+      case 'VariableDeclarationList':
+      case 'VariableDeclaration':
+        this.analyzeVariableStatement(node, symbols, scopes, currentScope);
         break;
       case 'MethodDeclaration':
         this.analyzeMethodDeclaration(node, symbols, scopes, currentScope);
@@ -137,6 +166,25 @@ export class TypeScriptSymbolAnalyzer {
       case 'PropertyDeclaration':
         this.analyzePropertyDeclaration(node, symbols, currentScope);
         break;
+      case 'Constructor':
+      case 'ArrowFunction':
+      case 'FunctionExpression':
+        this.analyzeFunctionExpression(node, symbols, scopes, currentScope);
+        break;
+      case 'Parameter':
+        // Parameters are local variables of the function; defaults may hold callbacks
+        this.declareBindingNames(node.children.find(child => BINDING_NAME_TYPES.has(child.type)), symbols, currentScope);
+        node.children.forEach(child => {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        });
+        break;
+      case 'Block':
+      case 'ForStatement':
+      case 'ForInStatement':
+      case 'ForOfStatement':
+      case 'CatchClause':
+        this.analyzeBlock(node, symbols, scopes, currentScope);
+        break;
       default:
         // Recursively analyze children
         node.children.forEach(child => {
@@ -148,8 +196,8 @@ export class TypeScriptSymbolAnalyzer {
   /**
    * Analyze function declaration
    */
-  private analyzeFunctionDeclaration(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
-    const functionName = this.extractIdentifierName(node.children[0]);
+  private analyzeFunctionDeclaration(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const functionName = this.extractIdentifierName(node.children.find(child => child.type === 'Identifier'));
     if (functionName) {
       const symbol: Symbol = {
         name: functionName,
@@ -157,8 +205,15 @@ export class TypeScriptSymbolAnalyzer {
         scope: currentScope.id,
         location: node.metadata.start as SourceLocation
       };
-      symbols.set(functionName, symbol);
-      currentScope.functions.push(functionName);
+      symbols.declare(symbol);
+      if (!currentScope.functions.includes(functionName)) {
+        currentScope.functions.push(functionName);
+      }
+
+      // Overload signatures have no body, so only the implementation opens a scope
+      if (!node.children.some(child => child.type === 'Block')) {
+        return;
+      }
 
       // Create function scope
       const functionScope: ScopeInfo = {
@@ -166,22 +221,21 @@ export class TypeScriptSymbolAnalyzer {
         type: 'function',
         parent: currentScope.id,
         variables: [],
-        functions: []
+        functions: [],
+        range: getNodeRange(node)
       };
       scopes.push(functionScope);
 
-      // Analyze function body
-      node.children.forEach(child => {
-        this.analyzeNode(child, symbols, scopes, functionScope);
-      });
+      // Analyze parameters and function body
+      this.analyzeScopeBody(node, symbols, scopes, functionScope);
     }
   }
 
   /**
    * Analyze class declaration
    */
-  private analyzeClassDeclaration(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
-    const className = this.extractIdentifierName(node.children[0]);
+  private analyzeClassDeclaration(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const className = this.extractIdentifierName(node.children.find(child => child.type === 'Identifier'));
     if (className) {
       const symbol: Symbol = {
         name: className,
@@ -189,7 +243,7 @@ export class TypeScriptSymbolAnalyzer {
         scope: currentScope.id,
         location: node.metadata.start as SourceLocation
       };
-      symbols.set(className, symbol);
+      symbols.declare(symbol);
 
       // Create class scope
       const classScope: ScopeInfo = {
@@ -197,7 +251,8 @@ export class TypeScriptSymbolAnalyzer {
         type: 'class',
         parent: currentScope.id,
         variables: [],
-        functions: []
+        functions: [],
+        range: getNodeRange(node)
       };
       scopes.push(classScope);
 
@@ -211,8 +266,8 @@ export class TypeScriptSymbolAnalyzer {
   /**
    * Analyze interface declaration
    */
-  private analyzeInterfaceDeclaration(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
-    const interfaceName = this.extractIdentifierName(node.children[0]);
+  private analyzeInterfaceDeclaration(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const interfaceName = this.extractIdentifierName(node.children.find(child => child.type === 'Identifier'));
     if (interfaceName) {
       const symbol: Symbol = {
         name: interfaceName,
@@ -220,23 +275,95 @@ export class TypeScriptSymbolAnalyzer {
         scope: currentScope.id,
         location: node.metadata.start as SourceLocation
       };
-      symbols.set(interfaceName, symbol);
+      symbols.declare(symbol);
     }
   }
 
   /**
    * Analyze variable statement
    */
-  private analyzeVariableStatement(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, currentScope: ScopeInfo): void {
+  private analyzeVariableStatement(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
     // Look for variable declarations in children
-    this.findVariableDeclarations(node, symbols, currentScope);
+    this.findVariableDeclarations(node, symbols, scopes, currentScope);
+  }
+
+  /**
+   * Analyze a constructor, arrow function or function expression, which
+   * opens a function scope named after the variable it is assigned to, the
+   * function itself or its position
+   */
+  private analyzeFunctionExpression(
+    node: AbstractSyntaxTree,
+    symbols: ScopedSymbolTable,
+    scopes: ScopeInfo[],
+    currentScope: ScopeInfo,
+    assignedName?: string
+  ): void {
+    // A constructor overload signature has no body
+    if (node.type === 'Constructor' && !node.children.some(child => child.type === 'Block')) {
+      return;
+    }
+
+    const name = node.type === 'Constructor'
+      ? 'constructor'
+      : assignedName || this.extractIdentifierName(node.children.find(child => child.type === 'Identifier')) || this.getAnonymousName(node, 'function');
+    const functionScope = this.createScope(
+      `${currentScope.id}.${name}`,
+      currentScope.type === 'class' ? 'method' : 'function',
+      node,
+      scopes,
+      currentScope
+    );
+
+    this.analyzeScopeBody(node, symbols, scopes, functionScope);
+  }
+
+  /**
+   * Analyze a block, loop or catch clause, which opens a block scope for
+   * `let`, `const`, loop variables and the caught error
+   */
+  private analyzeBlock(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const blockScope = this.createScope(`${currentScope.id}.${this.getAnonymousName(node, 'block')}`, 'block', node, scopes, currentScope);
+    this.analyzeScopeBody(node, symbols, scopes, blockScope);
+  }
+
+  /**
+   * Analyze the children of a scope-opening node; a body block shares the
+   * scope of its function, loop or catch clause
+   */
+  private analyzeScopeBody(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], scope: ScopeInfo): void {
+    node.children.forEach(child => {
+      (child.type === 'Block' ? child.children : [child]).forEach(member => {
+        this.analyzeNode(member, symbols, scopes, scope);
+      });
+    });
+  }
+
+  private createScope(id: string, type: string, node: AbstractSyntaxTree, scopes: ScopeInfo[], parent: ScopeInfo): ScopeInfo {
+    const scope: ScopeInfo = {
+      id,
+      type,
+      parent: parent.id,
+      variables: [],
+      functions: [],
+      range: getNodeRange(node)
+    };
+    scopes.push(scope);
+    return scope;
+  }
+
+  /**
+   * Name of an unnamed scope, unique through its position, e.g. `block@3:5`
+   */
+  private getAnonymousName(node: AbstractSyntaxTree, kind: string): string {
+    return `${kind}@${node.metadata.start?.line}:${node.metadata.start?.column}`;
   }
 
   /**
    * Analyze method declaration
    */
-  private analyzeMethodDeclaration(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
-    const methodName = this.extractIdentifierName(node.children[0]);
+  private analyzeMethodDeclaration(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const methodName = this.extractIdentifierName(node.children.find(child => child.type === 'Identifier'));
     if (methodName) {
       const symbol: Symbol = {
         name: methodName,
@@ -244,8 +371,15 @@ export class TypeScriptSymbolAnalyzer {
         scope: currentScope.id,
         location: node.metadata.start as SourceLocation
       };
-      symbols.set(`${currentScope.id}.${methodName}`, symbol);
-      currentScope.functions.push(methodName);
+      symbols.declare(symbol);
+      if (!currentScope.functions.includes(methodName)) {
+        currentScope.functions.push(methodName);
+      }
+
+      // Overload signatures have no body, so only the implementation opens a scope
+      if (!node.children.some(child => child.type === 'Block')) {
+        return;
+      }
 
       // Create method scope
       const methodScope: ScopeInfo = {
@@ -253,21 +387,20 @@ export class TypeScriptSymbolAnalyzer {
         type: 'method',
         parent: currentScope.id,
         variables: [],
-        functions: []
+        functions: [],
+        range: getNodeRange(node)
       };
       scopes.push(methodScope);
 
-      // Analyze method body
-      node.children.forEach(child => {
-        this.analyzeNode(child, symbols, scopes, methodScope);
-      });
+      // Analyze parameters and method body
+      this.analyzeScopeBody(node, symbols, scopes, methodScope);
     }
   }
 
   /**
    * Analyze property declaration
    */
-  private analyzePropertyDeclaration(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, currentScope: ScopeInfo): void {
+  private analyzePropertyDeclaration(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, currentScope: ScopeInfo): void {
     const propertyName = this.extractIdentifierName(node.children.find(child => child.type === 'Identifier'));
     if (propertyName) {
       const symbol: Symbol = {
@@ -276,7 +409,7 @@ export class TypeScriptSymbolAnalyzer {
         scope: currentScope.id,
         location: node.metadata.start as SourceLocation
       };
-      symbols.set(`${currentScope.id}.${propertyName}`, symbol);
+      symbols.declare(symbol);
       currentScope.variables.push(propertyName);
     }
   }
@@ -284,24 +417,82 @@ export class TypeScriptSymbolAnalyzer {
   /**
    * Find variable declarations recursively
    */
-  private findVariableDeclarations(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, currentScope: ScopeInfo): void {
-    if (node.type === 'Identifier' && node.metadata.text) {
-      const variableName = node.metadata.text;
-      const symbol: Symbol = {
-        name: variableName,
-        type: 'variable',
-        scope: currentScope.id,
-        location: node.metadata.start as SourceLocation
-      };
-      symbols.set(`${currentScope.id}.${variableName}`, symbol);
-      currentScope.variables.push(variableName);
+  private findVariableDeclarations(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    if (node.type === 'VariableDeclarationList' && !(node.metadata.flags & ts.NodeFlags.BlockScoped)) {
+      // `var` declarations belong to the enclosing function, not the block
+      while (currentScope.type === 'block') {
+        const parent = scopes.find(scope => scope.id === currentScope.parent);
+        if (!parent) break;
+        currentScope = parent;
+      }
+    }
+
+    if (node.type === 'VariableDeclaration') {
+      // Only the declared names bind; initializers and type annotations only refer
+      const [name, ...rest] = node.children;
+      this.declareBindingNames(name, symbols, currentScope);
+
+      // Declarations inside the initializer belong to the scopes it opens;
+      // a function assigned to a variable is named after the variable
+      const variableName = this.extractIdentifierName(name);
+      rest.forEach(child => {
+        if (variableName && INLINE_FUNCTION_TYPES.has(child.type)) {
+          this.analyzeFunctionExpression(child, symbols, scopes, currentScope, variableName);
+        } else {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        }
+      });
+      return;
     }
 
     node.children.forEach(child => {
-      this.findVariableDeclarations(child, symbols, currentScope);
+      this.findVariableDeclarations(child, symbols, scopes, currentScope);
     });
   }
 
+  /**
+   * Declare the names bound by a declaration name or destructuring pattern
+   */
+  private declareBindingNames(node: AbstractSyntaxTree | undefined, symbols: ScopedSymbolTable, currentScope: ScopeInfo): void {
+    if (!node) return;
+
+    switch (node.type) {
+      case 'Identifier': {
+        const variableName = node.metadata.text;
+        if (!variableName) return;
+        const symbol: Symbol = {
+          name: variableName,
+          type: 'variable',
+          scope: currentScope.id,
+          location: node.metadata.start as SourceLocation
+        };
+        symbols.declare(symbol);
+        currentScope.variables.push(variableName);
+        break;
+      }
+      case 'ObjectBindingPattern':
+      case 'ArrayBindingPattern':
+        node.children.forEach(child => this.declareBindingNames(child, symbols, currentScope));
+        break;
+      case 'BindingElement': {
+        // `{ key: name = fallback }` binds the name after the property key
+        const parts = node.children.filter(child => child.type !== 'DotDotDotToken');
+        this.declareBindingNames(this.hasPropertyKey(node, parts[0]) ? parts[1] : parts[0], symbols, currentScope);
+        break;
+      }
+    }
+  }
+
+  /**
+   * Check whether a binding element renames an object property
+   */
+  private hasPropertyKey(node: AbstractSyntaxTree, first?: AbstractSyntaxTree): boolean {
+    if (first && ['ComputedPropertyName', 'StringLiteral', 'NumericLiteral'].includes(first.type)) {
+      return true;
+    }
+    return /^\s*[\w$]+\s*:/.test(node.metadata.text || '');
+  }
+
   /**
    * Extract identifier name from AST node
    */
@@ -321,30 +512,32 @@ export class PythonSymbolAnalyzer {
   /**
    * Analyze Python AST and build symbol table
    */
-  analyze(ast: AbstractSyntaxTree): SymbolTable {
-    const symbols = new Map<string, Symbol>();
-    const scopes: ScopeInfo[] = [];
+  analyze(ast: AbstractSyntaxTree): ScopedSymbolTable {
+    const symbols = new ScopedSymbolTable();
+    const scopes = symbols.scopes;
     
     // Create global scope
     const globalScope: ScopeInfo = {
       id: 'global',
       type: 'global',
       variables: [],
-      functions: []
+      functions: [],
+      range: getNodeRange(ast)
     };
     scopes.push(globalScope);
 
     this.analyzeNode(ast, symbols, scopes, globalScope);
 
-    return { symbols, scopes };
+    return symbols;
   }
 
   /**
    * Recursively analyze Python AST nodes
    */
-  private analyzeNode(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+  private analyzeNode(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
     switch (node.type) {
       case 'FunctionDef':
+      case 'AsyncFunctionDef':
         this.analyzeFunctionDef(node, symbols, scopes, currentScope);
         break;
       case 'ClassDef':
@@ -353,6 +546,36 @@ export class PythonSymbolAnalyzer {
       case 'Import':
         this.analyzeImport(node, symbols, currentScope);
         break;
+      case 'Assign':
+      case 'AnnAssign':
+      case 'AugAssign':
+        // The last child of an assignment is its value; everything before is a target
+        this.analyzeTargets(node.children.slice(0, node.type === 'Assign' ? -1 : 1), symbols, scopes, currentScope);
+        node.children.forEach(child => {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        });
+        break;
+      case 'For':
+      case 'AsyncFor':
+        this.analyzeTargets(node.children.slice(0, 1), symbols, scopes, currentScope);
+        node.children.forEach(child => {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        });
+        break;
+      case 'withitem':
+        this.analyzeTargets(node.children.slice(1), symbols, scopes, currentScope);
+        node.children.forEach(child => {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        });
+        break;
+      case 'ExceptHandler':
+        if (node.metadata.name) {
+          this.declareVariable(node.metadata.name, node, symbols, currentScope);
+        }
+        node.children.forEach(child => {
+          this.analyzeNode(child, symbols, scopes, currentScope);
+        });
+        break;
       default:
         // Recursively analyze children
         node.children.forEach(child => {
@@ -362,37 +585,41 @@ export class PythonSymbolAnalyzer {
   }
 
   /**
-   * Analyze Python function definition
+   * Analyze Python function definition; functions defined in a class body are methods
    */
-  private analyzeFunctionDef(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+  private analyzeFunctionDef(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
     const functionName = node.metadata.name;
     if (functionName) {
+      const isMethod = currentScope.type === 'class';
       const symbol: Symbol = {
         name: functionName,
-        type: 'function',
+        type: isMethod ? 'method' : 'function',
         scope: currentScope.id,
-        location: {
-          line: node.metadata.line || 1,
-          column: 1,
-          file: 'python_file'
-        }
+        location: this.getLocation(node)
       };
-      symbols.set(functionName, symbol);
+      symbols.declare(symbol);
       currentScope.functions.push(functionName);
 
       // Create function scope
       const functionScope: ScopeInfo = {
         id: `${currentScope.id}.${functionName}`,
-        type: 'function',
+        type: isMethod ? 'method' : 'function',
         parent: currentScope.id,
         variables: [],
-        functions: []
+        functions: [],
+        range: getNodeRange(node)
       };
       scopes.push(functionScope);
 
-      // Analyze function body (children would contain nested functions/classes)
       node.children.forEach(child => {
-        this.analyzeNode(child, symbols, scopes, functionScope);
+        if (child.type === 'arguments') {
+          // Parameters are local variables of the function
+          child.children.forEach(parameter => {
+            this.declareVariable(parameter.metadata.name, parameter, symbols, functionScope);
+          });
+        } else {
+          this.analyzeNode(child, symbols, scopes, functionScope);
+        }
       });
     }
   }
@@ -400,20 +627,16 @@ export class PythonSymbolAnalyzer {
   /**
    * Analyze Python class definition
    */
-  private analyzeClassDef(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+  private analyzeClassDef(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
     const className = node.metadata.name;
     if (className) {
       const symbol: Symbol = {
         name: className,
         type: 'class',
         scope: currentScope.id,
-        location: {
-          line: node.metadata.line || 1,
-          column: 1,
-          file: 'python_file'
-        }
+        location: this.getLocation(node)
       };
-      symbols.set(className, symbol);
+      symbols.declare(symbol);
 
       // Create class scope
       const classScope: ScopeInfo = {
@@ -421,7 +644,8 @@ export class PythonSymbolAnalyzer {
         type: 'class',
         parent: currentScope.id,
         variables: [],
-        functions: []
+        functions: [],
+        range: getNodeRange(node)
       };
       scopes.push(classScope);
 
@@ -435,25 +659,99 @@ export class PythonSymbolAnalyzer {
   /**
    * Analyze Python import statement
    */
-  private analyzeImport(node: AbstractSyntaxTree, symbols: Map<string, Symbol>, currentScope: ScopeInfo): void {
+  private analyzeImport(node: AbstractSyntaxTree, symbols: ScopedSymbolTable, currentScope: ScopeInfo): void {
     const importText = node.metadata.module || node.metadata.text;
-    if (importText) {
-      // Extract module names from import statement
-      const moduleNames = this.extractPythonModuleNames(importText);
-      moduleNames.forEach(moduleName => {
-        const symbol: Symbol = {
-          name: moduleName,
-          type: 'import',
-          scope: currentScope.id,
-          location: {
-            line: node.metadata.line || 1,
-            column: 1,
-            file: 'python_file'
-          }
-        };
-        symbols.set(moduleName, symbol);
-      });
+    const moduleNames: string[] = node.metadata.modules || (importText ? this.extractPythonModuleNames(importText) : []);
+    const boundNames: string[] = node.metadata.importKind === 'from'
+      ? (node.metadata.names || [])
+        .filter((alias: { name: string }) => alias.name !== '*')
+        .map((alias: { name: string; asname?: string }) => alias.asname || alias.name)
+      : (node.metadata.names || [])
+        .filter((alias: { asname?: string }) => alias.asname)
+        .map((alias: { asname: string }) => alias.asname);
+
+    [...moduleNames, ...boundNames].forEach(moduleName => {
+      const symbol: Symbol = {
+        name: moduleName,
+        type: 'import',
+        scope: currentScope.id,
+        location: this.getLocation(node)
+      };
+      symbols.declare(symbol);
+    });
+  }
+
+  /**
+   * Declare the names bound by assignment targets
+   */
+  private analyzeTargets(targets: AbstractSyntaxTree[], symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    targets.forEach(target => {
+      switch (target.type) {
+        case 'Name':
+          this.declareVariable(target.metadata.name, target, symbols, currentScope);
+          break;
+        case 'Tuple':
+        case 'List':
+        case 'Starred':
+          this.analyzeTargets(target.children, symbols, scopes, currentScope);
+          break;
+        case 'Attribute':
+          this.analyzeSelfAttribute(target, symbols, scopes, currentScope);
+          break;
+      }
+    });
+  }
+
+  /**
+   * Record `self.x = ...` inside a method as a property of the enclosing class
+   */
+  private analyzeSelfAttribute(target: AbstractSyntaxTree, symbols: ScopedSymbolTable, scopes: ScopeInfo[], currentScope: ScopeInfo): void {
+    const receiver = target.children[0];
+    if (currentScope.type !== 'method' || receiver?.type !== 'Name' || receiver.metadata.name !== 'self') {
+      return;
+    }
+
+    const classScope = scopes.find(scope => scope.id === currentScope.parent);
+    const propertyName = target.metadata.attr;
+    if (!classScope || !propertyName || classScope.variables.includes(propertyName)) {
+      return;
     }
+
+    symbols.declare({
+      name: propertyName,
+      type: 'property',
+      scope: classScope.id,
+      location: this.getLocation(target)
+    });
+    classScope.variables.push(propertyName);
+  }
+
+  /**
+   * Declare a variable once per scope, keeping its first binding
+   */
+  private declareVariable(name: string | undefined, node: AbstractSyntaxTree, symbols: ScopedSymbolTable, currentScope: ScopeInfo): void {
+    if (!name || currentScope.variables.includes(name)) {
+      return;
+    }
+
+    symbols.declare({
+      name,
+      type: 'variable',
+      scope: currentScope.id,
+      location: this.getLocation(node)
+    });
+    currentScope.variables.push(name);
+  }
+
+  /**
+   * Get the source location of a node
+   */
+  private getLocation(node: AbstractSyntaxTree): SourceLocation {
+    return node.metadata.start || {
+      line: node.metadata.line || 1,
+      column: 1,
+      file: 'python_file'
+    };
   }
 
   /**
@@ -0,0 +1,121 @@
+import { ScopeInfo, SourcePosition, Symbol, SymbolTable } from '../interfaces/context';
+
+/**
+ * Scope-qualified symbol table
+ * Implements requirements 2.1 and 2.2
+ */
+
+const CALLABLE_TYPES = new Set(['function', 'method']);
+
+/**
+ * Gets the scope-qualified name of a declaration, e.g. `global.Cache.get`
+ */
+export function qualifyName(scopeId: string, name: string): string {
+  return `${scopeId}.${name}`;
+}
+
+/**
+ * Symbol table that keeps every declaration, keyed by scope-qualified name.
+ * Several declarations can share a qualified name: overload signatures,
+ * redeclared functions and conditional definitions all form a declaration
+ * set in source order.
+ *
+ * `symbols` keeps the legacy view, where each qualified name maps to its
+ * latest declaration.
+ */
+export class ScopedSymbolTable implements SymbolTable {
+  symbols: Map<string, Symbol> = new Map();
+  scopes: ScopeInfo[] = [];
+  private declarations: Map<string, Symbol[]> = new Map();
+
+  /**
+   * Records a declaration under its qualified name
+   */
+  declare(symbol: Symbol): void {
+    const qualifiedName = qualifyName(symbol.scope, symbol.name);
+    const existing = this.declarations.get(qualifiedName);
+
+    if (existing) {
+      existing.push(symbol);
+    } else {
+      this.declarations.set(qualifiedName, [symbol]);
+    }
+    this.symbols.set(qualifiedName, symbol);
+  }
+
+  /**
+   * Gets the declarations of a name made directly in a scope
+   */
+  getDeclarations(name: string, scopeId: string): Symbol[] {
+    return [...(this.declarations.get(qualifyName(scopeId, name)) || [])];
+  }
+
+  /**
+   * Gets the overload set of a function or method declared in a scope
+   */
+  getOverloads(name: string, scopeId: string): Symbol[] {
+    return this.getDeclarations(name, scopeId).filter(symbol => CALLABLE_TYPES.has(symbol.type));
+  }
+
+  /**
+   * Resolves a name as seen from a scope: the declarations in the nearest
+   * enclosing scope that declares it. Names declared in a class body are
+   * only visible from the class body itself, not from its methods.
+   */
+  lookup(name: string, scopeId: string): Symbol[] {
+    let scope = this.findScope(scopeId);
+    let depth = 0;
+    const visited = new Set<string>();
+
+    while (scope && !visited.has(scope.id)) {
+      visited.add(scope.id);
+      if (scope.type !== 'class' || depth === 0) {
+        const declarations = this.getDeclarations(name, scope.id);
+        if (declarations.length > 0) return declarations;
+      }
+
+      scope = scope.parent ? this.findScope(scope.parent) : undefined;
+      depth++;
+    }
+
+    return [];
+  }
+
+  /**
+   * Finds the declaration at a source location: the one starting exactly
+   * there, or else the last one on the same line that starts before it
+   */
+  findAt(location: SourcePosition & { file?: string }): Symbol | undefined {
+    let best: Symbol | undefined;
+
+    this.getAllDeclarations().forEach(symbol => {
+      const declared = symbol.location;
+      if (declared.line !== location.line || declared.column > location.column) return;
+      if (location.file && declared.file !== location.file) return;
+
+      if (!best || declared.column > best.location.column) {
+        best = symbol;
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Gets every declaration in declaration order per qualified name
+   */
+  getAllDeclarations(): Symbol[] {
+    return Array.from(this.declarations.values()).flat();
+  }
+
+  /**
+   * Gets the qualified names of all declared symbols
+   */
+  getQualifiedNames(): string[] {
+    return Array.from(this.declarations.keys());
+  }
+
+  private findScope(scopeId: string): ScopeInfo | undefined {
+    return this.scopes.find(scope => scope.id === scopeId);
+  }
+}
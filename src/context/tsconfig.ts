@@ -0,0 +1,42 @@
+import * as path from 'path';
+import * as ts from 'typescript';
+
+/**
+ * TypeScript project configuration shared by the semantic analyzer and
+ * the project dependency graph
+ * Implements requirements 2.1 and 2.2
+ */
+
+export interface ProjectCompilerConfig {
+  options: ts.CompilerOptions;
+  fileNames: string[];
+  configPath: string | null;
+}
+
+export const DEFAULT_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2020,
+  module: ts.ModuleKind.CommonJS,
+  moduleResolution: ts.ModuleResolutionKind.Node10,
+  strict: true,
+  esModuleInterop: true,
+  skipLibCheck: true
+};
+
+/**
+ * Read a project's tsconfig.json, by default the nearest one at or above
+ * the project path, falling back to default options when there is none
+ */
+export function readProjectConfig(projectPath: string, tsconfigPath?: string): ProjectCompilerConfig {
+  const configPath = tsconfigPath || ts.findConfigFile(projectPath, ts.sys.fileExists);
+  if (!configPath) {
+    return { options: DEFAULT_COMPILER_OPTIONS, fileNames: [], configPath: null };
+  }
+
+  const { config, error } = ts.readConfigFile(configPath, ts.sys.readFile);
+  if (error) {
+    throw new Error(`Cannot read ${configPath}: ${ts.flattenDiagnosticMessageText(error.messageText, '\n')}`);
+  }
+
+  const parsed = ts.parseJsonConfigFileContent(config, ts.sys, path.dirname(configPath));
+  return { options: parsed.options, fileNames: parsed.fileNames, configPath };
+}
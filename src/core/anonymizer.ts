@@ -0,0 +1,313 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ContextSnapshot } from '../interfaces/behavioral';
+
+/**
+ * Anonymization of behavioral data before it leaves the machine
+ * Implements requirements 6.1, 6.2 and 6.3
+ *
+ * Levels (each includes everything from the level before it):
+ *
+ * basic
+ *   - userId and sessionId become salted HMAC pseudonyms (`user_<hash>`)
+ *   - file paths (fileName, filePath, from/to contexts, projectContext) become
+ *     salted hashes that keep only the extension (`file_<hash>.ts`)
+ *   - raw content metadata (key, text, content, code, selection, clipboard)
+ *     is dropped
+ *
+ * advanced
+ *   - timestamps are bucketed to 5 minutes, session durations to 5 minutes
+ *   - file paths are reduced to their extension (`*.ts`)
+ *   - action metadata keeps only eventType, modifiers, fileType and language
+ *
+ * strict
+ *   - userId and sessionId are removed
+ *   - timestamps are bucketed to the hour and action metadata is removed
+ *   - context snapshots are generalized until every combination of
+ *     fileType, projectContext, timeOfDay and sessionDuration occurs at
+ *     least k times in the exported batch (k-anonymity); records whose
+ *     snapshots still occur fewer than k times are dropped
+ */
+
+export type AnonymizationLevel = 'basic' | 'advanced' | 'strict';
+
+export interface AnonymizerConfig {
+  level: AnonymizationLevel;
+  salt: string; // per-install secret; see loadInstallSalt
+  kAnonymity: number;
+}
+
+const IDENTIFIER_FIELDS = new Set(['userId', 'sessionId']);
+const PATH_FIELDS = new Set(['fileName', 'filePath', 'path', 'from', 'to', 'fromContext', 'toContext', 'projectContext']);
+const TIMESTAMP_FIELDS = new Set(['timestamp', 'startTime', 'endTime']);
+const CONTENT_FIELDS = new Set(['key', 'text', 'content', 'code', 'selection', 'clipboard']);
+const ADVANCED_METADATA_FIELDS = new Set(['eventType', 'modifiers', 'fileType', 'language']);
+
+const FILE_TYPE_CATEGORIES: Record<string, string> = {
+  ts: 'code', tsx: 'code', js: 'code', jsx: 'code', mjs: 'code', cjs: 'code', py: 'code', java: 'code',
+  go: 'code', rs: 'code', rb: 'code', cs: 'code', cpp: 'code', c: 'code', h: 'code',
+  html: 'markup', css: 'markup', scss: 'markup', md: 'markup', xml: 'markup',
+  json: 'config', yaml: 'config', yml: 'config', toml: 'config', ini: 'config', env: 'config'
+};
+
+const FIVE_MINUTES = 5 * 60 * 1000;
+const ONE_HOUR = 60 * 60 * 1000;
+
+/**
+ * Loads the per-install anonymization salt, creating it on first use. The
+ * same salt yields stable pseudonyms across exports from this install while
+ * keeping them unlinkable to other installs.
+ */
+export function loadInstallSalt(filePath: string): string {
+  if (fs.existsSync(filePath)) {
+    const existing = fs.readFileSync(filePath, 'utf-8').trim();
+    if (existing) return existing;
+  }
+
+  const salt = crypto.randomBytes(32).toString('hex');
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  fs.writeFileSync(filePath, salt, { mode: 0o600 });
+  return salt;
+}
+
+/**
+ * Applies the transformations of an anonymization level to exported records
+ */
+export class DataAnonymizer {
+  private config: AnonymizerConfig;
+
+  constructor(config: Partial<AnonymizerConfig> = {}) {
+    this.config = {
+      level: config.level || 'basic',
+      salt: config.salt || crypto.randomBytes(32).toString('hex'),
+      kAnonymity: config.kAnonymity || 5
+    };
+  }
+
+  /**
+   * Anonymizes a batch of records. Records are copied, never mutated. At the
+   * strict level, records whose snapshots cannot be made k-anonymous are
+   * dropped.
+   */
+  anonymize(data: any[]): any[] {
+    const anonymized = data.map(item => this.transform(item, null));
+    if (this.config.level !== 'strict') return anonymized;
+
+    const snapshotsByRecord = anonymized.map(record => this.collectSnapshots(record));
+    this.generalizeSnapshots(snapshotsByRecord.flat());
+
+    // Classes still smaller than k after full generalization are suppressed
+    const classSizes = this.getClassSizes(snapshotsByRecord.flat());
+    return anonymized.filter((_, index) => snapshotsByRecord[index].every(snapshot =>
+      classSizes.get(this.getClassKey(snapshot))! >= this.config.kAnonymity
+    ));
+  }
+
+  /**
+   * Gets a stable salted pseudonym for an identifier
+   */
+  pseudonymize(value: string, prefix: string = 'user'): string {
+    return `${prefix}_${this.hash(value, 16)}`;
+  }
+
+  /**
+   * Gets the active anonymization level
+   */
+  getLevel(): AnonymizationLevel {
+    return this.config.level;
+  }
+
+  private transform(value: any, field: string | null): any {
+    if (Array.isArray(value)) {
+      return value.map(entry => this.transform(entry, field));
+    }
+    if (value instanceof Date) {
+      return field && TIMESTAMP_FIELDS.has(field) ? new Date(this.bucketTime(value.getTime())) : new Date(value);
+    }
+    if (value === null || typeof value !== 'object') {
+      return this.transformScalar(value, field);
+    }
+
+    const result: Record<string, any> = {};
+    Object.keys(value).forEach(key => {
+      if (key === 'metadata' && this.isPlainObject(value[key])) {
+        result[key] = this.transformMetadata(value[key]);
+        return;
+      }
+      if (IDENTIFIER_FIELDS.has(key) && this.config.level === 'strict') {
+        return;
+      }
+      result[key] = this.transform(value[key], key);
+    });
+    return result;
+  }
+
+  private transformScalar(value: any, field: string | null): any {
+    if (field === null) return value;
+
+    if (typeof value === 'string') {
+      if (IDENTIFIER_FIELDS.has(field)) {
+        return this.pseudonymize(value, field === 'userId' ? 'user' : 'session');
+      }
+      if (PATH_FIELDS.has(field)) {
+        return this.anonymizePath(value);
+      }
+    }
+
+    if (typeof value === 'number') {
+      if (TIMESTAMP_FIELDS.has(field)) {
+        return this.bucketTime(value);
+      }
+      if (field === 'sessionDuration' && this.config.level !== 'basic') {
+        return Math.floor(value / FIVE_MINUTES) * FIVE_MINUTES;
+      }
+    }
+
+    return value;
+  }
+
+  private transformMetadata(metadata: Record<string, any>): Record<string, any> {
+    if (this.config.level === 'strict') return {};
+
+    const result: Record<string, any> = {};
+    Object.keys(metadata).forEach(key => {
+      if (CONTENT_FIELDS.has(key)) return;
+      if (this.config.level === 'advanced' && !ADVANCED_METADATA_FIELDS.has(key)) return;
+
+      result[key] = this.transform(metadata[key], key);
+    });
+    return result;
+  }
+
+  private anonymizePath(value: string): string {
+    const extension = path.extname(value);
+    if (this.config.level === 'basic') {
+      return `file_${this.hash(value, 12)}${extension}`;
+    }
+    return extension ? `*${extension}` : '*';
+  }
+
+  private bucketTime(timestamp: number): number {
+    switch (this.config.level) {
+      case 'strict':
+        return Math.floor(timestamp / ONE_HOUR) * ONE_HOUR;
+      case 'advanced':
+        return Math.floor(timestamp / FIVE_MINUTES) * FIVE_MINUTES;
+      default:
+        return timestamp;
+    }
+  }
+
+  private collectSnapshots(value: any, snapshots: ContextSnapshot[] = []): ContextSnapshot[] {
+    if (Array.isArray(value)) {
+      value.forEach(entry => this.collectSnapshots(entry, snapshots));
+    } else if (this.isPlainObject(value)) {
+      if (this.isContextSnapshot(value)) {
+        snapshots.push(value);
+      } else {
+        Object.keys(value).forEach(key => this.collectSnapshots(value[key], snapshots));
+      }
+    }
+    return snapshots;
+  }
+
+  /**
+   * Greedy full-domain generalization: repeatedly coarsen the attribute
+   * with the most distinct values until every equivalence class has at
+   * least k members or nothing can be generalized further
+   */
+  private generalizeSnapshots(snapshots: ContextSnapshot[]): void {
+    if (snapshots.length === 0) return;
+
+    const originals = snapshots.map(snapshot => ({ ...snapshot }));
+    const levels: Record<keyof ContextSnapshot, number> = {
+      fileType: 0,
+      projectContext: 0,
+      timeOfDay: 0,
+      sessionDuration: 0
+    };
+    const maxLevels: Record<keyof ContextSnapshot, number> = {
+      fileType: 2,
+      projectContext: 1,
+      timeOfDay: 2,
+      sessionDuration: 2
+    };
+
+    const apply = () => snapshots.forEach((snapshot, index) => {
+      const original = originals[index];
+      snapshot.fileType = this.generalizeFileType(original.fileType, levels.fileType);
+      snapshot.projectContext = levels.projectContext > 0 ? '*' : original.projectContext;
+      snapshot.timeOfDay = this.generalizeTimeOfDay(original.timeOfDay, levels.timeOfDay);
+      snapshot.sessionDuration = this.generalizeDuration(original.sessionDuration, levels.sessionDuration);
+    });
+
+    apply();
+    while (this.getSmallestClassSize(snapshots) < this.config.kAnonymity) {
+      const candidates = (Object.keys(levels) as Array<keyof ContextSnapshot>)
+        .filter(attribute => levels[attribute] < maxLevels[attribute]);
+      if (candidates.length === 0) break;
+
+      const attribute = candidates.reduce((best, candidate) =>
+        this.countDistinct(snapshots, candidate) > this.countDistinct(snapshots, best) ? candidate : best
+      );
+      levels[attribute]++;
+      apply();
+    }
+  }
+
+  private generalizeFileType(fileType: string, level: number): string {
+    if (level === 0) return fileType;
+    if (level === 1) return FILE_TYPE_CATEGORIES[fileType.replace(/^\*?\./, '')] || 'other';
+    return '*';
+  }
+
+  private generalizeTimeOfDay(hour: number, level: number): number {
+    // Generalized hours are reported as the start of their bucket
+    if (level === 0) return hour;
+    if (level === 1) return Math.floor(hour / 6) * 6;
+    return 0;
+  }
+
+  private generalizeDuration(duration: number, level: number): number {
+    if (level === 0) return duration;
+    if (level === 1) return Math.floor(duration / ONE_HOUR) * ONE_HOUR;
+    return 0;
+  }
+
+  private getSmallestClassSize(snapshots: ContextSnapshot[]): number {
+    return Math.min(...Array.from(this.getClassSizes(snapshots).values()));
+  }
+
+  private getClassSizes(snapshots: ContextSnapshot[]): Map<string, number> {
+    const classes = new Map<string, number>();
+    snapshots.forEach(snapshot => {
+      const key = this.getClassKey(snapshot);
+      classes.set(key, (classes.get(key) || 0) + 1);
+    });
+    return classes;
+  }
+
+  private getClassKey(snapshot: ContextSnapshot): string {
+    return [snapshot.fileType, snapshot.projectContext, snapshot.timeOfDay, snapshot.sessionDuration].join('|');
+  }
+
+  private countDistinct(snapshots: ContextSnapshot[], attribute: keyof ContextSnapshot): number {
+    return new Set(snapshots.map(snapshot => snapshot[attribute])).size;
+  }
+
+  private isContextSnapshot(value: Record<string, any>): value is ContextSnapshot {
+    return typeof value.fileType === 'string' &&
+      typeof value.projectContext === 'string' &&
+      typeof value.timeOfDay === 'number' &&
+      typeof value.sessionDuration === 'number';
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  private hash(value: string, length: number): string {
+    return crypto.createHmac('sha256', this.config.salt).update(value).digest('hex').slice(0, length);
+  }
+}
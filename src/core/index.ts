@@ -1,4 +1,5 @@
 // Core system components
 export * from './error-handler';
 export * from './privacy-manager';
+export * from './anonymizer';
 export * from './performance-monitor';
\ No newline at end of file
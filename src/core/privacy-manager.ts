@@ -1,3 +1,7 @@
+import * as os from 'os';
+import * as path from 'path';
+import { DataAnonymizer, loadInstallSalt } from './anonymizer';
+
 /**
  * Privacy management and data protection
  */
@@ -16,4 +20,313 @@ export interface PrivacyConfiguration {
   noiseLevel: number;
   dataRetentionPeriod: number;
   anonymizationLevel: 'basic' | 'advanced' | 'strict';
-}
\ No newline at end of file
+}
+
+export type NoiseMechanism = 'laplace' | 'gaussian';
+
+export interface DifferentialPrivacyOptions {
+  mechanism: NoiseMechanism;
+  delta: number; // failure probability for the Gaussian mechanism
+  budgetWindow: number; // ms; the privacy budget renews per window
+  defaultSensitivity: number;
+  sensitivities: Record<string, number>; // per-field L1 sensitivity
+  bounds: Record<string, [number, number]>; // per-field clamp applied after noise
+  categoricalDomains: Record<string, string[]>; // fields released via randomized response
+  operationCosts: Record<string, number>; // epsilon charged per named operation
+  defaultOperationCost: number;
+  salt: string; // anonymization salt; loaded from saltFile when empty
+  saltFile: string; // where the per-install salt is kept, see loadInstallSalt
+  kAnonymity: number;
+  random: () => number; // uniform in [0, 1)
+  now: () => number;
+}
+
+export interface PrivacyBudgetEntry {
+  userId: string;
+  operation: string;
+  epsilon: number;
+  timestamp: number;
+}
+
+// Reported in place of categorical values outside their domain
+const OTHER_CATEGORY = 'other';
+
+/**
+ * Sensitivities for BehavioralMetrics fields: the most a single action can
+ * move each value
+ */
+const DEFAULT_SENSITIVITIES: Record<string, number> = {
+  typingSpeed: 10,
+  pausePatterns: 1,
+  decisionTime: 1000,
+  contextSwitches: 1,
+  fatigueLevel: 1
+};
+
+const DEFAULT_BOUNDS: Record<string, [number, number]> = {
+  typingSpeed: [0, Infinity],
+  pausePatterns: [0, Infinity],
+  decisionTime: [0, Infinity],
+  contextSwitches: [0, Infinity],
+  fatigueLevel: [0, 1]
+};
+
+/**
+ * Privacy manager that releases data through differentially private
+ * mechanisms and accounts the spent epsilon per user and time window.
+ *
+ * Budget accounting uses sequential composition: every release costs its
+ * epsilon per record, since all records of a release describe the same user.
+ * Within a record the epsilon is split evenly across the perturbed fields,
+ * and within a numeric array evenly across its elements.
+ */
+export class DifferentialPrivacyManager implements PrivacyManager {
+  private config: PrivacyConfiguration;
+  private options: DifferentialPrivacyOptions;
+  private anonymizer: DataAnonymizer | null = null;
+  private ledger: PrivacyBudgetEntry[] = [];
+
+  constructor(config: Partial<PrivacyConfiguration> = {}, options: Partial<DifferentialPrivacyOptions> = {}) {
+    this.config = {
+      enableDifferentialPrivacy: config.enableDifferentialPrivacy ?? true,
+      privacyBudget: config.privacyBudget || 1.0,
+      noiseLevel: config.noiseLevel || 1.0,
+      dataRetentionPeriod: config.dataRetentionPeriod || 30, // days
+      anonymizationLevel: config.anonymizationLevel || 'basic'
+    };
+    this.options = {
+      mechanism: options.mechanism || 'laplace',
+      delta: options.delta || 1e-5,
+      budgetWindow: options.budgetWindow || 24 * 60 * 60 * 1000, // 1 day
+      defaultSensitivity: options.defaultSensitivity || 1,
+      sensitivities: { ...DEFAULT_SENSITIVITIES, ...options.sensitivities },
+      bounds: { ...DEFAULT_BOUNDS, ...options.bounds },
+      categoricalDomains: options.categoricalDomains || {},
+      operationCosts: options.operationCosts || {},
+      defaultOperationCost: options.defaultOperationCost || 0.1,
+      salt: options.salt || '',
+      saltFile: options.saltFile || path.join(os.homedir(), '.predictive-development-assistant', 'anonymization-salt'),
+      kAnonymity: options.kAnonymity || 5,
+      random: options.random || Math.random,
+      now: options.now || Date.now
+    };
+  }
+
+  /**
+   * Releases a noisy copy of the data and charges epsilon for every record
+   * to the user's budget. Numbers, numeric arrays and numeric object fields
+   * are perturbed; fields with a categorical domain go through randomized
+   * response.
+   */
+  applyDifferentialPrivacy(data: any[], epsilon: number, userId: string = 'default'): any[] {
+    if (!this.config.enableDifferentialPrivacy) {
+      return data.map(item => this.copy(item));
+    }
+    if (data.length === 0) return [];
+
+    this.spendBudget(userId, 'apply_differential_privacy', epsilon * data.length);
+    return data.map(item => this.perturbRecord(item, epsilon));
+  }
+
+  /**
+   * Releases a categorical value using k-ary randomized response over the
+   * domain plus an 'other' category, which stands in for values outside it
+   */
+  applyRandomizedResponse(value: string, domain: string[], epsilon: number, userId: string = 'default'): string {
+    if (!this.config.enableDifferentialPrivacy) return value;
+
+    this.spendBudget(userId, 'randomized_response', epsilon);
+    return this.randomizedResponse(value, domain, epsilon);
+  }
+
+  /**
+   * Anonymizes records according to the configured anonymization level
+   */
+  anonymizeData(data: any[]): any[] {
+    return this.getAnonymizer().anonymize(data);
+  }
+
+  /**
+   * Whether the user has enough budget left in the current window for an
+   * operation
+   */
+  checkPrivacyCompliance(operation: string, userId: string = 'default'): boolean {
+    if (!this.config.enableDifferentialPrivacy) return true;
+
+    const cost = this.options.operationCosts[operation] ?? this.options.defaultOperationCost;
+    const remaining = this.getPrivacyBudget(userId);
+    return remaining > 0 && remaining >= cost;
+  }
+
+  /**
+   * Gets the epsilon the user has left in the current window
+   */
+  getPrivacyBudget(userId: string = 'default'): number {
+    return Math.max(0, this.config.privacyBudget - this.getSpentBudget(userId));
+  }
+
+  /**
+   * Clears spent budget for one user, or for everyone
+   */
+  resetPrivacyBudget(userId?: string): void {
+    this.ledger = userId ? this.ledger.filter(entry => entry.userId !== userId) : [];
+  }
+
+  /**
+   * Charges epsilon for an operation. Throws when the budget is exhausted.
+   */
+  spendBudget(userId: string, operation: string, epsilon: number): void {
+    if (!(epsilon > 0) || !Number.isFinite(epsilon)) {
+      throw new Error(`Epsilon must be a positive number, got ${epsilon}`);
+    }
+
+    const remaining = this.getPrivacyBudget(userId);
+    if (epsilon > remaining + 1e-12) {
+      throw new Error(
+        `Privacy budget exhausted for user ${userId}: ${operation} needs ${epsilon}, ${remaining.toFixed(4)} remaining`
+      );
+    }
+
+    this.ledger.push({ userId, operation, epsilon, timestamp: this.options.now() });
+  }
+
+  /**
+   * Gets the budget entries charged to a user in the current window
+   */
+  getBudgetLedger(userId: string = 'default'): PrivacyBudgetEntry[] {
+    const windowStart = this.options.now() - this.options.budgetWindow;
+    return this.ledger.filter(entry => entry.userId === userId && entry.timestamp > windowStart);
+  }
+
+  /**
+   * Samples noise for a single value from the configured mechanism
+   */
+  sampleNoise(sensitivity: number, epsilon: number): number {
+    // noiseLevel can only add noise; scaling it down would break the guarantee
+    const scaledSensitivity = sensitivity * Math.max(1, this.config.noiseLevel);
+
+    if (this.options.mechanism === 'gaussian') {
+      // The classic calibration only holds for epsilon < 1; larger epsilons get the noise of 1
+      const sigma = scaledSensitivity * Math.sqrt(2 * Math.log(1.25 / this.options.delta)) / Math.min(1, epsilon);
+      return this.sampleGaussian(sigma);
+    }
+    return this.sampleLaplace(scaledSensitivity / epsilon);
+  }
+
+  /**
+   * Builds the anonymizer on first use so the install salt is only read or
+   * created when data is actually anonymized
+   */
+  private getAnonymizer(): DataAnonymizer {
+    if (!this.anonymizer) {
+      let salt = this.options.salt;
+      if (!salt) {
+        try {
+          salt = loadInstallSalt(this.options.saltFile);
+        } catch (error) {
+          // The anonymizer falls back to a random salt for this manager only
+          console.warn('Error loading anonymization salt:', error);
+        }
+      }
+
+      this.anonymizer = new DataAnonymizer({
+        level: this.config.anonymizationLevel,
+        salt,
+        kAnonymity: this.options.kAnonymity
+      });
+    }
+    return this.anonymizer;
+  }
+
+  private perturbRecord(item: any, epsilon: number): any {
+    if (typeof item === 'number') {
+      return item + this.sampleNoise(this.options.defaultSensitivity, epsilon);
+    }
+    if (Array.isArray(item) && item.every(value => typeof value === 'number')) {
+      const elementEpsilon = epsilon / Math.max(1, item.length);
+      return item.map(value => value + this.sampleNoise(this.options.defaultSensitivity, elementEpsilon));
+    }
+    if (!this.isPlainObject(item)) {
+      return this.copy(item);
+    }
+
+    const fields = Object.keys(item).filter(field => this.isPerturbable(field, item[field]));
+    const fieldEpsilon = epsilon / Math.max(1, fields.length);
+    const result: Record<string, any> = this.copy(item);
+
+    fields.forEach(field => {
+      const value = item[field];
+      const domain = this.options.categoricalDomains[field];
+
+      if (typeof value === 'string') {
+        result[field] = this.randomizedResponse(value, domain, fieldEpsilon);
+      } else if (Array.isArray(value)) {
+        // Every element is a release of its own, so they share the field's epsilon
+        result[field] = value.map(entry => this.perturbValue(field, entry, fieldEpsilon / value.length));
+      } else {
+        result[field] = this.perturbValue(field, value, fieldEpsilon);
+      }
+    });
+
+    return result;
+  }
+
+  private isPerturbable(field: string, value: any): boolean {
+    if (typeof value === 'number') return true;
+    if (typeof value === 'string') return !!this.options.categoricalDomains[field];
+    return Array.isArray(value) && value.length > 0 && value.every(entry => typeof entry === 'number');
+  }
+
+  private perturbValue(field: string, value: number, epsilon: number): number {
+    const sensitivity = this.options.sensitivities[field] ?? this.options.defaultSensitivity;
+    const noisy = value + this.sampleNoise(sensitivity, epsilon);
+    const bounds = this.options.bounds[field];
+
+    // Clamping is post-processing and does not weaken the guarantee
+    return bounds ? Math.max(bounds[0], Math.min(bounds[1], noisy)) : noisy;
+  }
+
+  private randomizedResponse(value: string, domain: string[], epsilon: number): string {
+    // The output support must not depend on the input, so values outside the
+    // domain are reported as the fixed 'other' category before randomizing
+    const categories = domain.includes(OTHER_CATEGORY) ? domain : [...domain, OTHER_CATEGORY];
+    if (!categories.includes(value)) value = OTHER_CATEGORY;
+    if (categories.length < 2) return value;
+
+    const keepProbability = Math.exp(epsilon) / (Math.exp(epsilon) + categories.length - 1);
+    if (this.options.random() < keepProbability) return value;
+
+    const others = categories.filter(category => category !== value);
+    return others[Math.min(others.length - 1, Math.floor(this.options.random() * others.length))];
+  }
+
+  private sampleLaplace(scale: number): number {
+    const u = this.options.random() - 0.5;
+    return -scale * Math.sign(u) * Math.log(Math.max(Number.MIN_VALUE, 1 - 2 * Math.abs(u)));
+  }
+
+  private sampleGaussian(sigma: number): number {
+    // Box-Muller transform
+    const u1 = Math.max(Number.MIN_VALUE, this.options.random());
+    const u2 = this.options.random();
+    return sigma * Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+  }
+
+  private getSpentBudget(userId: string): number {
+    return this.getBudgetLedger(userId).reduce((sum, entry) => sum + entry.epsilon, 0);
+  }
+
+  private isPlainObject(value: any): value is Record<string, any> {
+    return value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date);
+  }
+
+  private copy<T>(value: T): T {
+    if (Array.isArray(value)) return value.map(entry => this.copy(entry)) as unknown as T;
+    if (this.isPlainObject(value)) {
+      const result: Record<string, any> = {};
+      Object.keys(value).forEach(key => { result[key] = this.copy((value as Record<string, any>)[key]); });
+      return result as T;
+    }
+    return value;
+  }
+}
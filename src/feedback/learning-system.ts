@@ -1,4 +1,213 @@
-// Placeholder for FeedbackLearningSystem implementation
-// Will be implemented in task 6.1
+import { PredictionFeedback } from '../interfaces/prediction';
+import {
+  FeedbackLearningSystem,
+  LearnableModel,
+  LearningConfiguration,
+  ModelPerformanceMetrics,
+  ModelVersion
+} from '../interfaces/feedback';
+import { ModelUpdater, ModelSnapshot } from './model-updater';
 
-export {};
\ No newline at end of file
+/**
+ * Batched feedback learning with versioned model snapshots
+ * Implements requirements 1.3, 1.4 and 3.3
+ */
+
+const BASELINE_VERSION = 'v0';
+
+/**
+ * Learning system that applies user feedback to a set of models in batches.
+ * Every update produces a new ModelVersion whose snapshot can be restored
+ * later, so a bad update can always be rolled back.
+ */
+export class FeedbackLearningSystemImpl implements FeedbackLearningSystem {
+  private config: LearningConfiguration;
+  private updater: ModelUpdater = new ModelUpdater();
+  private pendingFeedback: PredictionFeedback[] = [];
+  private versions: ModelVersion[] = [];
+  private snapshots: Map<string, ModelSnapshot> = new Map();
+  private currentVersion: ModelVersion;
+  private versionCounter = 0;
+  private lastUpdateTime: number;
+  private maxVersions: number;
+
+  constructor(
+    models: Record<string, LearnableModel>,
+    config: Partial<LearningConfiguration> = {},
+    maxVersions: number = 20
+  ) {
+    this.config = {
+      learningRate: config.learningRate || 0.1,
+      batchSize: config.batchSize || 32,
+      updateFrequency: config.updateFrequency || 60000, // ms
+      explorationRate: config.explorationRate ?? 0.1,
+      privacyBudget: config.privacyBudget || 1.0
+    };
+    this.maxVersions = Math.max(1, maxVersions);
+
+    Object.keys(models).forEach(name => this.updater.register(name, models[name]));
+
+    this.lastUpdateTime = Date.now();
+    this.currentVersion = this.recordVersion(this.createEmptyMetrics(), { batchSize: 0, parent: null });
+  }
+
+  /**
+   * Queues feedback and updates the models once a full batch is collected
+   * or the update interval has elapsed
+   */
+  async processFeedback(feedback: PredictionFeedback): Promise<void> {
+    this.pendingFeedback.push(feedback);
+
+    const batchFull = this.pendingFeedback.length >= this.config.batchSize;
+    const intervalElapsed = Date.now() - this.lastUpdateTime >= this.config.updateFrequency;
+
+    if (batchFull || intervalElapsed) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Applies queued feedback immediately, regardless of batch size. If the
+   * update fails, the batch goes back to the front of the queue.
+   */
+  async flush(): Promise<void> {
+    if (this.pendingFeedback.length === 0) return;
+
+    const batch = this.pendingFeedback;
+    this.pendingFeedback = [];
+    try {
+      await this.updateModels(batch);
+    } catch (error) {
+      this.pendingFeedback = [...batch, ...this.pendingFeedback];
+      throw error;
+    }
+  }
+
+  /**
+   * Applies a feedback batch to every model and records a new version. If
+   * any model fails, all models keep their previous state.
+   */
+  async updateModels(feedbackBatch: PredictionFeedback[]): Promise<void> {
+    if (feedbackBatch.length === 0) return;
+
+    const startTime = Date.now();
+    this.updater.applyBatch(feedbackBatch);
+    const updateTime = Date.now() - startTime;
+
+    this.lastUpdateTime = Date.now();
+    this.currentVersion = this.recordVersion(
+      this.calculatePerformance(feedbackBatch, updateTime),
+      { batchSize: feedbackBatch.length, parent: this.currentVersion.version }
+    );
+  }
+
+  /**
+   * Gets the performance metrics of the active model version
+   */
+  getModelPerformance(): ModelPerformanceMetrics {
+    return { ...this.currentVersion.performance };
+  }
+
+  /**
+   * Restores every model to the state of a previous version
+   */
+  async rollbackModel(version: string): Promise<void> {
+    const target = this.versions.find(entry => entry.version === version || entry.id === version);
+    const snapshot = target && this.snapshots.get(target.id);
+    if (!target || !snapshot) {
+      throw new Error(`Unknown model version: ${version}`);
+    }
+
+    this.updater.restoreSnapshot(snapshot);
+    this.currentVersion = target;
+  }
+
+  /**
+   * Gets the active model version
+   */
+  getCurrentVersion(): ModelVersion {
+    return this.currentVersion;
+  }
+
+  /**
+   * Gets retained model versions, oldest first
+   */
+  getVersionHistory(): ModelVersion[] {
+    return [...this.versions];
+  }
+
+  /**
+   * Gets the number of feedback items waiting for the next batch
+   */
+  getPendingFeedbackCount(): number {
+    return this.pendingFeedback.length;
+  }
+
+  /**
+   * Gets the learning configuration
+   */
+  getConfig(): LearningConfiguration {
+    return { ...this.config };
+  }
+
+  private recordVersion(performance: ModelPerformanceMetrics, metadata: Record<string, any>): ModelVersion {
+    const versionNumber = this.versionCounter++;
+    const version: ModelVersion = {
+      id: `model_${versionNumber}_${Date.now()}`,
+      version: versionNumber === 0 ? BASELINE_VERSION : `v${versionNumber}`,
+      timestamp: new Date(),
+      performance,
+      metadata: { ...metadata, models: this.updater.getModelNames() }
+    };
+
+    this.versions.push(version);
+    this.snapshots.set(version.id, this.updater.createSnapshot());
+    this.pruneVersions(version);
+
+    return version;
+  }
+
+  private pruneVersions(latest: ModelVersion): void {
+    while (this.versions.length > this.maxVersions) {
+      // Never evict the active version, it is the only way back after a rollback
+      const index = this.versions.findIndex(entry => entry !== this.currentVersion && entry !== latest);
+      if (index === -1) break;
+
+      const [removed] = this.versions.splice(index, 1);
+      this.snapshots.delete(removed.id);
+    }
+  }
+
+  private calculatePerformance(batch: PredictionFeedback[], updateTime: number): ModelPerformanceMetrics {
+    const accepted = batch.filter(entry => entry.feedback.accepted);
+    const confident = batch.filter(entry => entry.prediction.confidence >= 0.5);
+    const confidentAccepted = confident.filter(entry => entry.feedback.accepted);
+
+    const accuracy = accepted.length / batch.length;
+    const precision = confident.length > 0 ? confidentAccepted.length / confident.length : 0;
+    const recall = accepted.length > 0 ? confidentAccepted.length / accepted.length : 0;
+    const f1Score = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+    // Ratings are on a 1-5 scale; fall back to acceptance when no one rated
+    const ratings = batch
+      .map(entry => entry.feedback.rating)
+      .filter((rating): rating is number => typeof rating === 'number');
+    const userSatisfaction = ratings.length > 0
+      ? Math.max(0, Math.min(1, ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length / 5))
+      : accuracy;
+
+    return { accuracy, precision, recall, f1Score, userSatisfaction, responseTime: updateTime, updateTime };
+  }
+
+  private createEmptyMetrics(): ModelPerformanceMetrics {
+    return {
+      accuracy: 0,
+      precision: 0,
+      recall: 0,
+      f1Score: 0,
+      userSatisfaction: 0,
+      responseTime: 0,
+      updateTime: 0
+    };
+  }
+}
@@ -1,4 +1,90 @@
-// Placeholder for model update mechanisms
-// Will be implemented in task 6.2
+import { PredictionFeedback } from '../interfaces/prediction';
+import { LearnableModel } from '../interfaces/feedback';
 
-export {};
\ No newline at end of file
+/**
+ * Incremental model updates with atomic snapshots
+ * Implements requirements 1.3, 1.4 and 3.3
+ */
+
+export type ModelSnapshot = Map<string, unknown>;
+
+/**
+ * Applies feedback batches to a set of named models. Every batch and every
+ * restore is all-or-nothing: if any model fails, all models are returned to
+ * the state they had before the operation.
+ */
+export class ModelUpdater {
+  private models: Map<string, LearnableModel> = new Map();
+
+  /**
+   * Registers a model under a unique name
+   */
+  register(name: string, model: LearnableModel): void {
+    if (this.models.has(name)) {
+      throw new Error(`Model already registered: ${name}`);
+    }
+    this.models.set(name, model);
+  }
+
+  /**
+   * Gets the names of registered models
+   */
+  getModelNames(): string[] {
+    return Array.from(this.models.keys());
+  }
+
+  /**
+   * Applies a batch of feedback to every registered model
+   */
+  applyBatch(batch: PredictionFeedback[]): void {
+    const previous = this.createSnapshot();
+
+    try {
+      batch.forEach(feedback => {
+        this.models.forEach(model => model.applyFeedback(feedback));
+      });
+    } catch (error) {
+      this.importSnapshot(previous);
+      throw error;
+    }
+  }
+
+  /**
+   * Captures a deep copy of every model's state
+   */
+  createSnapshot(): ModelSnapshot {
+    const snapshot: ModelSnapshot = new Map();
+    this.models.forEach((model, name) => {
+      snapshot.set(name, structuredClone(model.exportState()));
+    });
+    return snapshot;
+  }
+
+  /**
+   * Restores every model from a snapshot
+   */
+  restoreSnapshot(snapshot: ModelSnapshot): void {
+    const missing = this.getModelNames().filter(name => !snapshot.has(name));
+    if (missing.length > 0) {
+      throw new Error(`Snapshot is missing state for models: ${missing.join(', ')}`);
+    }
+
+    const previous = this.createSnapshot();
+
+    try {
+      this.importSnapshot(snapshot);
+    } catch (error) {
+      this.importSnapshot(previous);
+      throw error;
+    }
+  }
+
+  private importSnapshot(snapshot: ModelSnapshot): void {
+    this.models.forEach((model, name) => {
+      if (snapshot.has(name)) {
+        // Copy so later updates cannot mutate the stored snapshot
+        model.importState(structuredClone(snapshot.get(name)));
+      }
+    });
+  }
+}
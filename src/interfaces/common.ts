@@ -16,7 +16,8 @@ export enum PredictionType {
   FUNCTION_GENERATION = 'function_generation',
   CLASS_GENERATION = 'class_generation',
   ARCHITECTURAL_SUGGESTION = 'architectural_suggestion',
-  ERROR_HANDLING = 'error_handling'
+  ERROR_HANDLING = 'error_handling',
+  TEST_GENERATION = 'test_generation'
 }
 
 export enum ArchitecturalPattern {
@@ -43,7 +44,7 @@ export enum NamingConvention {
 
 export interface QualityMetrics {
   complexity: number;
-  maintainability: number;
-  testCoverage: number;
+  maintainability: number; // maintainability index, 0-100
+  testCoverage: number; // percentage of executable lines run by tests
   codeSmells: number;
 }
\ No newline at end of file
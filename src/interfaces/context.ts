@@ -6,9 +6,10 @@ import { ArchitecturalPattern, QualityMetrics, IndentationStyle, NamingConventio
 
 export interface CodeContextAnalyzer {
   analyzeFile(filePath: string): Promise<CodeContext>;
+  analyzeFileAt(filePath: string, position: SourcePosition | number): Promise<CursorContext>;
   analyzeProject(projectPath: string): Promise<ProjectContext>;
-  getSymbolTable(): SymbolTable;
-  getDependencyGraph(): DependencyGraph;
+  getSymbolTable(filePath?: string): SymbolTable;
+  getDependencyGraph(filePath?: string): DependencyGraph;
 }
 
 export interface CodeContext {
@@ -17,6 +18,15 @@ export interface CodeContext {
   scope: ScopeInfo;
   patterns: ArchitecturalPattern[];
   quality: QualityMetrics;
+  coverage?: CodeCoverage; // set when a coverage report covers the file
+  complexity?: FileComplexity;
+  maintainability?: FileMaintainability;
+}
+
+export interface CursorContext extends CodeContext {
+  position: SourcePosition;
+  scopeChain: ScopeInfo[]; // innermost scope first, ending with the global scope
+  visibleSymbols: Symbol[]; // inner declarations shadow outer ones
 }
 
 export interface ProjectContext {
@@ -27,6 +37,34 @@ export interface ProjectContext {
   dependencies: Dependency[];
   codeStyle: StyleProfile;
   qualityMetrics: QualityMetrics;
+  qualityReport?: ProjectQualityReport;
+}
+
+export interface ProjectQualityReport {
+  overall: QualityMetrics;
+  files: FileQuality[];
+  directories: DirectoryQuality[];
+  hotspots: QualityHotspot[];
+}
+
+export interface FileQuality {
+  path: string; // project-relative, forward slashes
+  linesOfCode: number;
+  metrics: QualityMetrics;
+}
+
+export interface DirectoryQuality {
+  path: string;
+  files: number; // including files in subdirectories
+  linesOfCode: number;
+  metrics: QualityMetrics;
+}
+
+export interface QualityHotspot {
+  path: string;
+  score: number;
+  reasons: string[];
+  metrics: QualityMetrics;
 }
 
 export interface AbstractSyntaxTree {
@@ -35,6 +73,17 @@ export interface AbstractSyntaxTree {
   metadata: Record<string, any>;
 }
 
+export interface TextEdit {
+  offset: number; // in the text the edit applies to
+  length: number; // number of replaced characters
+  newText: string;
+}
+
+export interface IncrementalParseResult {
+  ast: AbstractSyntaxTree;
+  changedNodes: AbstractSyntaxTree[]; // newly built nodes that overlap the edited text
+}
+
 export interface SymbolTable {
   symbols: Map<string, Symbol>;
   scopes: ScopeInfo[];
@@ -45,6 +94,42 @@ export interface Symbol {
   type: string;
   scope: string;
   location: SourceLocation;
+  semantic?: SemanticInfo; // set by the type-checker backed analysis of TypeScript
+}
+
+export interface SemanticInfo {
+  typeString: string; // inferred or declared type, as the compiler prints it
+  signatures: SignatureInfo[]; // call signatures, or construct signatures of classes
+  typeParameters: string[];
+  documentation: string;
+  jsDocTags: JSDocTagInfo[];
+  declarations: SourceLocation[]; // resolved through import aliases
+  members: MemberInfo[]; // properties and methods of the type, for member completion
+}
+
+export interface SignatureInfo {
+  text: string;
+  parameters: ParameterInfo[];
+  returnType: string;
+  typeParameters: string[];
+}
+
+export interface ParameterInfo {
+  name: string;
+  type: string;
+  optional: boolean;
+}
+
+export interface JSDocTagInfo {
+  name: string;
+  text: string;
+}
+
+export interface MemberInfo {
+  name: string;
+  kind: 'method' | 'property';
+  typeString: string;
+  documentation: string;
 }
 
 export interface ScopeInfo {
@@ -53,6 +138,84 @@ export interface ScopeInfo {
   parent?: string;
   variables: string[];
   functions: string[];
+  range?: SourceRange;
+}
+
+export interface FileComplexity {
+  cyclomatic: number; // 1 + every decision point in the file
+  cognitive: number; // sum over the file, top-level code included
+  functions: FunctionComplexity[];
+}
+
+export interface FunctionComplexity {
+  name: string;
+  type: string; // 'function' | 'method'
+  scope: string; // id of the enclosing scope, as in the symbol table
+  range: SourceRange;
+  cyclomatic: number;
+  cognitive: number;
+}
+
+export interface HalsteadMetrics {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+  vocabulary: number;
+  length: number;
+  volume: number;
+  difficulty: number;
+  effort: number;
+}
+
+export interface LineCounts {
+  total: number;
+  source: number; // lines holding code, including those with trailing comments
+  comment: number; // lines holding only comments
+  blank: number;
+}
+
+export interface FileMaintainability {
+  index: number; // maintainability index, 0-100
+  halstead: HalsteadMetrics;
+  lines: LineCounts;
+  functions: FunctionMaintainability[];
+}
+
+export interface FunctionMaintainability {
+  name: string;
+  type: string; // 'function' | 'method'
+  scope: string;
+  range: SourceRange;
+  index: number;
+  halstead: HalsteadMetrics;
+  lines: LineCounts;
+}
+
+export interface CoverageCounts {
+  covered: number;
+  total: number;
+}
+
+export interface FileCoverage {
+  filePath: string; // absolute
+  lineHits: Record<number, number>; // executable 1-based line -> execution count
+  branches: Record<number, CoverageCounts>; // 1-based line -> branches taken of the branches on it
+}
+
+export interface CodeCoverage {
+  lines: CoverageCounts;
+  branches: CoverageCounts;
+  symbols: SymbolCoverage[]; // functions, methods and classes
+}
+
+export interface SymbolCoverage {
+  name: string;
+  type: string;
+  scope: string;
+  range: SourceRange;
+  lines: CoverageCounts;
+  branches: CoverageCounts;
 }
 
 export interface DependencyGraph {
@@ -84,12 +247,24 @@ export interface StyleProfile {
   naming: NamingConvention;
   structure: StructuralPreferences;
   patterns: PreferredPatterns[];
+  namingByKind?: Record<string, NamingConvention>; // symbol type (class, function...) -> dominant convention
 }
 
 export interface StructuralPreferences {
   maxLineLength: number;
-  bracketStyle: string;
-  importStyle: string;
+  bracketStyle: string; // 'same-line' | 'next-line'
+  importStyle: string; // 'grouped' | 'ungrouped'
+  quoteStyle?: 'single' | 'double';
+  semicolons?: boolean;
+  lineLengths?: LineLengthPercentiles;
+}
+
+export interface LineLengthPercentiles {
+  p50: number;
+  p90: number;
+  p95: number;
+  p99: number;
+  max: number;
 }
 
 export interface PreferredPatterns {
@@ -98,6 +273,16 @@ export interface PreferredPatterns {
   context: string;
 }
 
+export interface SourcePosition {
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+export interface SourceRange {
+  start: SourceLocation;
+  end: SourceLocation;
+}
+
 export interface SourceLocation {
   line: number;
   column: number;
@@ -11,13 +11,21 @@ export interface FeedbackLearningSystem {
   rollbackModel(version: string): Promise<void>;
 }
 
+export interface LearnableModel<TState = unknown> {
+  applyFeedback(feedback: PredictionFeedback): void;
+  exportState(): TState;
+  importState(state: TState): void;
+}
+
 export interface ModelPerformanceMetrics {
   accuracy: number;
   precision: number;
   recall: number;
   f1Score: number;
   userSatisfaction: number;
+  /** @deprecated Holds the same value as updateTime; it never measured prediction latency */
   responseTime: number;
+  updateTime: number; // ms spent applying the batch that produced the version
 }
 
 export interface ModelVersion {
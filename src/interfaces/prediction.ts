@@ -25,6 +25,13 @@ export interface CodePrediction {
   confidence: number;
   reasoning: string;
   type: PredictionType;
+  targetFile?: string; // file the code belongs in when it is not the file being edited
+  replaceRange?: TextRange; // offsets in the current code replaced by `code`; inserted at the cursor otherwise
+}
+
+export interface TextRange {
+  start: number;
+  end: number;
 }
 
 export interface RankedPrediction {
@@ -1,4 +1,744 @@
-// Placeholder for PredictionEngine implementation
-// Will be implemented in task 5.1
+import * as path from 'path';
+import {
+  PredictionEngine,
+  PredictionContext,
+  CodePrediction,
+  RankedPrediction,
+  UserFeedback,
+  PredictionFeedback,
+  TextRange
+} from '../interfaces/prediction';
+import { Symbol, ScopeInfo, StyleProfile, SymbolCoverage } from '../interfaces/context';
+import { PredictionType, ArchitecturalPattern, IndentationStyle, NamingConvention } from '../interfaces/common';
+import { LearnableModel } from '../interfaces/feedback';
+import { PredictionRanker, RankingSignals, RankerState } from './ranking';
 
-export {};
\ No newline at end of file
+/**
+ * Context-driven code prediction engine
+ * Implements requirements 1.1, 1.2 and 2.1
+ */
+
+export interface PredictionEngineConfig {
+  userId: string;
+  maxPredictions: number;
+  minConfidence: number;
+}
+
+interface CursorInfo {
+  language: string;
+  textBefore: string;
+  linePrefix: string;
+  previousLine: string;
+  identifierPrefix: string;
+  indentation: string;
+}
+
+interface Parameter {
+  name: string;
+  type?: string;
+  optional: boolean;
+}
+
+interface Signature {
+  parameters: Parameter[];
+  returnType?: string;
+  isAsync: boolean;
+}
+
+// Python calls that commonly raise, the exception to catch and what failed
+const PYTHON_RAISING_CALLS = [
+  { pattern: /\bopen\(/, exception: 'OSError', action: 'opening file' },
+  { pattern: /\bjson\.loads?\(/, exception: 'ValueError', action: 'parsing JSON' },
+  { pattern: /\brequests\.\w+\(/, exception: 'requests.RequestException', action: 'sending request' },
+  { pattern: /\b(int|float)\(/, exception: 'ValueError', action: 'converting value' }
+];
+
+interface TypeFeedbackStats {
+  accepted: number;
+  total: number;
+}
+
+export interface PredictionEngineState {
+  feedbackStats: Map<PredictionType, TypeFeedbackStats>;
+  ranker: RankerState;
+}
+
+/**
+ * Prediction engine that proposes completions from the local symbol table,
+ * scope chain, project style and the text around the cursor
+ */
+export class ContextualPredictionEngine implements PredictionEngine, LearnableModel<PredictionEngineState> {
+  private config: PredictionEngineConfig;
+  private feedbackStats: Map<PredictionType, TypeFeedbackStats> = new Map();
+  private ranker: PredictionRanker;
+  private lastSignals: RankingSignals = {};
+  private lastRanking: Map<CodePrediction, RankedPrediction> = new Map();
+
+  constructor(config: Partial<PredictionEngineConfig> = {}, ranker: PredictionRanker = new PredictionRanker()) {
+    this.ranker = ranker;
+    this.config = {
+      userId: config.userId || 'default',
+      maxPredictions: config.maxPredictions || 10,
+      minConfidence: config.minConfidence ?? 0.1
+    };
+  }
+
+  /**
+   * Generates prediction candidates of every applicable type
+   */
+  async generatePredictions(context: PredictionContext): Promise<CodePrediction[]> {
+    const cursor = this.analyzeCursor(context);
+    this.lastSignals = { behavioral: context.behavioralState, code: context.fileContext };
+
+    const candidates = [
+      ...this.generateCompletions(context, cursor),
+      ...this.generateFunctionBodies(context, cursor),
+      ...this.generateClassBodies(context, cursor),
+      ...this.generateErrorHandling(context, cursor),
+      ...this.generateArchitecturalSuggestions(context, cursor),
+      ...this.generateTestSuggestions(context, cursor)
+    ];
+
+    const seen = new Set<string>();
+    return candidates
+      .map(prediction => ({ ...prediction, confidence: this.adjustConfidence(prediction) }))
+      .filter(prediction => {
+        if (prediction.confidence < this.config.minConfidence || seen.has(prediction.code)) {
+          return false;
+        }
+        seen.add(prediction.code);
+        return true;
+      })
+      .sort((a, b) => b.confidence - a.confidence)
+      .slice(0, this.config.maxPredictions);
+  }
+
+  /**
+   * Ranks predictions against the behavioral state and code context of the
+   * most recent generatePredictions call
+   */
+  rankPredictions(predictions: CodePrediction[]): RankedPrediction[] {
+    const ranked = this.ranker.rank(predictions, this.lastSignals, this.config.userId);
+
+    this.lastRanking.clear();
+    ranked.forEach(entry => this.lastRanking.set(entry.prediction, entry));
+
+    return ranked;
+  }
+
+  /**
+   * Adjusts future confidence for the prediction's type and the user's
+   * ranking weights from acceptance feedback
+   */
+  refineWithFeedback(prediction: CodePrediction, feedback: UserFeedback): void {
+    const stats = this.feedbackStats.get(prediction.type) || { accepted: 0, total: 0 };
+    stats.total++;
+    if (feedback.accepted) {
+      stats.accepted++;
+    }
+    this.feedbackStats.set(prediction.type, stats);
+
+    const ranked = this.lastRanking.get(prediction);
+    if (ranked) {
+      this.ranker.updateWeights(this.config.userId, ranked, feedback.accepted);
+    }
+  }
+
+  /**
+   * Applies feedback as part of a learning system batch
+   */
+  applyFeedback(feedback: PredictionFeedback): void {
+    this.refineWithFeedback(feedback.prediction, feedback.feedback);
+  }
+
+  /**
+   * Exports acceptance statistics and learned ranking weights
+   */
+  exportState(): PredictionEngineState {
+    return { feedbackStats: this.feedbackStats, ranker: this.ranker.exportState() };
+  }
+
+  /**
+   * Replaces acceptance statistics and learned ranking weights
+   */
+  importState(state: PredictionEngineState): void {
+    this.feedbackStats = state.feedbackStats;
+    this.ranker.importState(state.ranker);
+  }
+
+  /**
+   * Gets the ranker, e.g. to inspect why one suggestion outranked another
+   */
+  getRanker(): PredictionRanker {
+    return this.ranker;
+  }
+
+  /**
+   * Gets the acceptance rate observed for a prediction type
+   */
+  getAcceptanceRate(type: PredictionType): number {
+    const stats = this.feedbackStats.get(type);
+    return stats && stats.total > 0 ? stats.accepted / stats.total : 0;
+  }
+
+  private analyzeCursor(context: PredictionContext): CursorInfo {
+    const position = Math.max(0, Math.min(context.cursorPosition, context.currentCode.length));
+    const textBefore = context.currentCode.slice(0, position);
+    const lines = textBefore.split('\n');
+    const linePrefix = lines[lines.length - 1];
+
+    return {
+      language: this.detectLanguage(context),
+      textBefore,
+      linePrefix,
+      previousLine: lines.length > 1 ? lines[lines.length - 2] : '',
+      identifierPrefix: linePrefix.match(/[A-Za-z_$][\w$]*$/)?.[0] || '',
+      indentation: linePrefix.match(/^\s*/)?.[0] || ''
+    };
+  }
+
+  private generateCompletions(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    const scopeChain = this.getScopeChain(context.fileContext.symbols.scopes, context.fileContext.scope);
+    const memberAccess = cursor.linePrefix.match(/([A-Za-z_$][\w$]*)\s*\??\.\s*([A-Za-z_$][\w$]*)?$/);
+    if (memberAccess) {
+      return this.generateMemberCompletions(context, scopeChain, memberAccess[1], memberAccess[2] || '');
+    }
+
+    const prefix = cursor.identifierPrefix;
+    if (!prefix) return [];
+
+    const predictions: CodePrediction[] = [];
+
+    this.getVisibleSymbols(context, scopeChain).forEach(({ symbol, depth }) => {
+      if (!symbol.name.startsWith(prefix) || symbol.name === prefix) return;
+
+      const callable = ['function', 'method'].includes(symbol.type);
+      const remainder = symbol.name.slice(prefix.length) + (callable ? '()' : '');
+      const prefixCoverage = prefix.length / symbol.name.length;
+      const scopeProximity = 1 / (depth + 1);
+
+      predictions.push({
+        code: remainder,
+        confidence: this.clamp(0.4 + 0.3 * prefixCoverage + 0.2 * scopeProximity),
+        reasoning: `Symbol '${symbol.name}' (${symbol.type}) declared in scope '${symbol.scope}' matches prefix '${prefix}'`,
+        type: PredictionType.CODE_COMPLETION
+      });
+    });
+
+    return predictions;
+  }
+
+  private generateMemberCompletions(context: PredictionContext, scopeChain: ScopeInfo[], receiver: string, prefix: string): CodePrediction[] {
+    // Members are only known when the semantic analysis typed the receiver
+    const target = this.getVisibleSymbols(context, scopeChain).find(({ symbol }) => symbol.name === receiver)?.symbol;
+    if (!target?.semantic) return [];
+
+    return target.semantic.members
+      .filter(member => member.name.startsWith(prefix) && member.name !== prefix)
+      .map(member => ({
+        code: member.name.slice(prefix.length) + (member.kind === 'method' ? '()' : ''),
+        confidence: this.clamp(0.5 + 0.4 * (prefix.length + 1) / (member.name.length + 1)),
+        reasoning: `Member '${member.name}' (${member.typeString}) of '${receiver}': ${target.semantic!.typeString}`,
+        type: PredictionType.CODE_COMPLETION
+      }));
+  }
+
+  private generateFunctionBodies(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    const indent = this.getIndentUnit(context.projectContext.codeStyle);
+    const bodyIndent = cursor.indentation + indent;
+
+    if (cursor.language === 'python') {
+      const match = cursor.linePrefix.match(/^\s*(?:async\s+)?def\s+(\w+)\s*\(([^)]*)\)\s*(?:->\s*[^:]+)?:\s*$/);
+      if (!match) return [];
+
+      return [{
+        code: `\n${bodyIndent}"""${this.describeName(match[1])}."""\n${bodyIndent}raise NotImplementedError`,
+        confidence: 0.6,
+        reasoning: `Function signature '${match[1]}' at cursor has no body yet`,
+        type: PredictionType.FUNCTION_GENERATION
+      }];
+    }
+
+    const match = cursor.linePrefix.match(/(?:function\s+(\w+)|(\w+)\s*=\s*(?:async\s*)?)\s*\(([^)]*)\)\s*(?::\s*[^{=]+)?(?:=>)?\s*\{\s*$/);
+    if (!match) return [];
+
+    const name = match[1] || match[2];
+    const parameters = match[3].split(',').map(p => p.trim().split(/[:=?]/)[0].trim()).filter(Boolean);
+    const validation = parameters.length > 0
+      ? `${bodyIndent}if (${parameters.map(p => `${p} === undefined`).join(' || ')}) {\n` +
+        `${bodyIndent}${indent}throw new Error('${name}: missing argument');\n` +
+        `${bodyIndent}}\n`
+      : '';
+
+    return [{
+      code: `\n${validation}${bodyIndent}throw new Error('${name} is not implemented');\n${cursor.indentation}}`,
+      confidence: 0.55,
+      reasoning: `Function signature '${name}' with ${parameters.length} parameter(s) at cursor has no body yet`,
+      type: PredictionType.FUNCTION_GENERATION
+    }];
+  }
+
+  private generateClassBodies(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    const indent = this.getIndentUnit(context.projectContext.codeStyle);
+    const memberIndent = cursor.indentation + indent;
+
+    if (cursor.language === 'python') {
+      const match = cursor.linePrefix.match(/^\s*class\s+(\w+)\s*(?:\(([^)]*)\))?\s*:\s*$/);
+      if (!match) return [];
+
+      const body = match[2] ? 'super().__init__()' : 'pass';
+      return [{
+        code: `\n${memberIndent}def __init__(self):\n${memberIndent}${indent}${body}`,
+        confidence: 0.55,
+        reasoning: `Class declaration '${match[1]}' at cursor has no body yet`,
+        type: PredictionType.CLASS_GENERATION
+      }];
+    }
+
+    const match = cursor.linePrefix.match(/class\s+(\w+)(?:\s+extends\s+(\w+))?(?:\s+implements\s+[\w\s,]+)?\s*\{\s*$/);
+    if (!match) return [];
+
+    const superCall = match[2] ? `\n${memberIndent}${indent}super();` : '';
+    return [{
+      code: `\n${memberIndent}constructor() {${superCall}\n${memberIndent}}\n${cursor.indentation}}`,
+      confidence: 0.55,
+      reasoning: match[2]
+        ? `Class declaration '${match[1]}' extends '${match[2]}' and needs a constructor calling super`
+        : `Class declaration '${match[1]}' at cursor has no body yet`,
+      type: PredictionType.CLASS_GENERATION
+    }];
+  }
+
+  private generateErrorHandling(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    // The statement is the one being typed, or the one just finished on the line above
+    const onCurrentLine = cursor.linePrefix.trim().length > 0;
+    const statementLine = onCurrentLine ? cursor.linePrefix : cursor.previousLine;
+    const statement = statementLine.trim();
+    if (!statement) return [];
+
+    const baseIndent = statementLine.match(/^\s*/)![0];
+    const innerIndent = baseIndent + this.getIndentUnit(context.projectContext.codeStyle);
+    const lineStart = cursor.textBefore.length - cursor.linePrefix.length;
+    const replaceRange: TextRange = {
+      start: onCurrentLine
+        ? lineStart + baseIndent.length
+        : lineStart - 1 - cursor.previousLine.length + baseIndent.length,
+      end: cursor.textBefore.length
+    };
+    const trailer = onCurrentLine ? '' : `\n${cursor.linePrefix}`;
+
+    if (cursor.language === 'python') {
+      const exceptions = PYTHON_RAISING_CALLS.filter(call => call.pattern.test(statement));
+      if (exceptions.length === 0 || this.isInsidePythonTry(cursor)) return [];
+
+      const caught = Array.from(new Set(exceptions.map(call => call.exception)));
+      const targets = statement.match(/^([A-Za-z_]\w*(?:\s*,\s*[A-Za-z_]\w*)*)\s*=(?!=)/)?.[1].split(/\s*,\s*/);
+      const usesLogging = /^\s*(import logging\b|from logging import)/m.test(context.currentCode);
+      const message = `Error ${exceptions[0].action}`;
+      const report = usesLogging
+        ? `logging.warning('${message}: %s', error)`
+        : `print(f'${message}: {error}')`;
+      // Bind the targets so code after the block can test for a failure
+      const fallback = targets ? `\n${innerIndent}${targets.join(' = ')} = None` : '';
+
+      return [{
+        code: `try:\n${innerIndent}${statement}\n` +
+          `${baseIndent}except ${caught.length > 1 ? `(${caught.join(', ')})` : caught[0]} as error:\n` +
+          `${innerIndent}${report}${fallback}${trailer}`,
+        confidence: 0.45,
+        reasoning: `Statement '${statement}' can raise ${caught.join(' or ')} and is not inside a try block`,
+        type: PredictionType.ERROR_HANDLING,
+        replaceRange
+      }];
+    }
+
+    if (!/\bawait\b|JSON\.parse\(|\bfetch\(/.test(statement) || this.isInsideTryBlock(cursor.textBefore)) {
+      return [];
+    }
+
+    // A declaration inside the try block would be out of scope after it, so declare it first
+    const declaration = statement.match(/^(?:const|let|var)\s+([A-Za-z_$][\w$]*)(\s*:\s*[^=]+?)?\s*=(?!=)\s*(.+)$/);
+    const hoisted = declaration ? `let ${declaration[1]}${declaration[2] || ''};\n${baseIndent}` : '';
+    const body = declaration ? `${declaration[1]} = ${declaration[3]}` : statement;
+
+    return [{
+      code: `${hoisted}try {\n${innerIndent}${body}\n${baseIndent}} catch (error) {\n` +
+        `${innerIndent}console.warn('Error ${this.describeOperation(statement)}:', error);\n${baseIndent}}${trailer}`,
+      confidence: 0.45,
+      reasoning: `Statement '${statement}' can throw and is not inside a try block`,
+      type: PredictionType.ERROR_HANDLING,
+      replaceRange
+    }];
+  }
+
+  private generateArchitecturalSuggestions(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    const className = cursor.linePrefix.match(/class\s+(\w+)/)?.[1];
+    if (!className || cursor.language === 'python') return [];
+
+    const indent = this.getIndentUnit(context.projectContext.codeStyle);
+    const memberIndent = cursor.indentation + indent;
+    const architecture = context.projectContext.architecture;
+    const reasoning = `Project follows the ${architecture} pattern`;
+
+    switch (architecture) {
+      case ArchitecturalPattern.REPOSITORY: {
+        if (!className.endsWith('Service')) return [];
+        const entity = className.replace(/Service$/, '');
+        const field = this.formatFieldName(`${entity}Repository`, context.projectContext.codeStyle.naming);
+        return [{
+          code: `\n${memberIndent}constructor(private readonly ${field}: ${entity}Repository) {}\n`,
+          confidence: 0.4,
+          reasoning: `${reasoning}; services receive their repository through the constructor`,
+          type: PredictionType.ARCHITECTURAL_SUGGESTION
+        }];
+      }
+      case ArchitecturalPattern.SINGLETON:
+        return [{
+          code: `\n${memberIndent}private static instance: ${className};\n\n` +
+            `${memberIndent}static getInstance(): ${className} {\n` +
+            `${memberIndent}${indent}if (!${className}.instance) {\n` +
+            `${memberIndent}${indent}${indent}${className}.instance = new ${className}();\n` +
+            `${memberIndent}${indent}}\n` +
+            `${memberIndent}${indent}return ${className}.instance;\n` +
+            `${memberIndent}}\n`,
+          confidence: 0.4,
+          reasoning: `${reasoning}; classes expose a shared instance`,
+          type: PredictionType.ARCHITECTURAL_SUGGESTION
+        }];
+      case ArchitecturalPattern.OBSERVER:
+        return [{
+          code: `\n${memberIndent}private listeners: Array<() => void> = [];\n\n` +
+            `${memberIndent}subscribe(listener: () => void): void {\n` +
+            `${memberIndent}${indent}this.listeners.push(listener);\n` +
+            `${memberIndent}}\n`,
+          confidence: 0.4,
+          reasoning: `${reasoning}; classes notify registered listeners`,
+          type: PredictionType.ARCHITECTURAL_SUGGESTION
+        }];
+      case ArchitecturalPattern.FACTORY:
+        return [{
+          code: `\n${memberIndent}static create(): ${className} {\n` +
+            `${memberIndent}${indent}return new ${className}();\n` +
+            `${memberIndent}}\n`,
+          confidence: 0.4,
+          reasoning: `${reasoning}; instances are created through factory methods`,
+          type: PredictionType.ARCHITECTURAL_SUGGESTION
+        }];
+      default:
+        return [];
+    }
+  }
+
+  private generateTestSuggestions(context: PredictionContext, cursor: CursorInfo): CodePrediction[] {
+    const coverage = context.fileContext.coverage;
+    if (!coverage || cursor.linePrefix.trim()) return [];
+
+    // The innermost function around a blank cursor line that tests miss in part
+    const line = cursor.textBefore.split('\n').length;
+    const target = coverage.symbols
+      .filter(symbol => ['function', 'method'].includes(symbol.type))
+      .filter(symbol => symbol.range.start.line <= line && line <= symbol.range.end.line)
+      .filter(symbol => symbol.lines.covered < symbol.lines.total || symbol.branches.covered < symbol.branches.total)
+      .sort((a, b) => (a.range.end.line - a.range.start.line) - (b.range.end.line - b.range.start.line))[0];
+    if (!target) return [];
+
+    // The test goes to its own file, never into the function being edited
+    const sourceFile = target.range.start.file;
+    const targetFile = this.getTestFilePath(sourceFile, cursor.language);
+    const signature = this.readSignature(context.currentCode, target, cursor.language);
+    const indent = this.getIndentUnit(context.projectContext.codeStyle);
+    const covered = target.lines.covered + target.branches.covered;
+    const total = target.lines.total + target.branches.total;
+
+    return [{
+      code: cursor.language === 'python'
+        ? this.formatPythonTest(target, signature, sourceFile, indent)
+        : this.formatTypeScriptTest(target, signature, sourceFile, targetFile, indent),
+      confidence: this.clamp(0.25 + 0.25 * (1 - covered / total)),
+      reasoning: `${target.type === 'method' ? 'Method' : 'Function'} '${target.name}' has ` +
+        `${target.lines.covered}/${target.lines.total} lines and ${target.branches.covered}/${target.branches.total} branches covered by tests`,
+      type: PredictionType.TEST_GENERATION,
+      targetFile
+    }];
+  }
+
+  /**
+   * Test file for a source file: `src/` mirrored into `tests/` when the path
+   * has one, otherwise next to the source
+   */
+  private getTestFilePath(filePath: string, language: string): string {
+    const { dir, name, ext } = path.parse(filePath);
+    const segments = dir.split(path.sep);
+    const sourceRoot = segments.lastIndexOf('src');
+    const testDirectory = sourceRoot >= 0
+      ? [...segments.slice(0, sourceRoot), 'tests', ...segments.slice(sourceRoot + 1)].join(path.sep)
+      : dir;
+
+    return path.join(testDirectory, language === 'python' ? `test_${name}.py` : `${name}.test${ext}`);
+  }
+
+  private formatTypeScriptTest(target: SymbolCoverage, signature: Signature, sourceFile: string, testFile: string, indent: string): string {
+    const owner = target.type === 'method' ? target.scope.split('.').pop()! : '';
+    const { dir, name } = path.parse(sourceFile);
+    const specifier = path.relative(path.dirname(testFile), path.join(dir, name)).split(path.sep).join('/');
+    const functionType = owner ? `${owner}['${target.name}']` : `typeof ${target.name}`;
+    const body = indent + indent;
+
+    const declarations = signature.parameters.map((parameter, index) =>
+      this.formatTypeScriptConstant(parameter.name, parameter.type, `Parameters<${functionType}>[${index}]`)
+    );
+    declarations.push(this.formatTypeScriptConstant('expected', signature.returnType, `Awaited<ReturnType<${functionType}>>`));
+    const call = `${owner ? `new ${owner}().` : ''}${target.name}(${signature.parameters.map(parameter => parameter.name).join(', ')})`;
+
+    return `import { ${owner || target.name} } from '${specifier.startsWith('.') ? specifier : `./${specifier}`}';\n\n` +
+      `describe('${owner ? `${owner}.` : ''}${target.name}', () => {\n` +
+      `${indent}it('should cover the untested paths', ${signature.isAsync ? 'async ' : ''}() => {\n` +
+      declarations.map(declaration => `${body}${declaration}\n`).join('') +
+      `${body}expect(${signature.isAsync ? 'await ' : ''}${call}).toEqual(expected);\n` +
+      `${indent}});\n` +
+      `});\n`;
+  }
+
+  private formatPythonTest(target: SymbolCoverage, signature: Signature, sourceFile: string, indent: string): string {
+    const owner = target.type === 'method' ? target.scope.split('.').pop()! : '';
+    const testName = this.formatFieldName(`test ${owner} ${target.name}`, NamingConvention.SNAKE_CASE);
+    const call = `${owner ? `${owner}().` : ''}${target.name}(${signature.parameters.map(parameter => parameter.name).join(', ')})`;
+    const assignments = [
+      ...signature.parameters.map(parameter => `${parameter.name} = ${this.placeholderValue(parameter.type, 'python')}`),
+      `expected = ${this.placeholderValue(signature.returnType, 'python')}`
+    ];
+
+    return `from ${path.parse(sourceFile).name} import ${owner || target.name}\n\n\n` +
+      `${signature.isAsync ? 'async ' : ''}def ${testName}():\n` +
+      assignments.map(assignment => `${indent}${assignment}\n`).join('') +
+      `${indent}assert ${signature.isAsync ? 'await ' : ''}${call} == expected\n`;
+  }
+
+  private formatTypeScriptConstant(name: string, type: string | undefined, typeExpression: string): string {
+    // An awaited call is compared with the resolved value
+    const resolved = type?.replace(/^Promise<(.*)>$/, '$1').trim();
+    const value = this.placeholderValue(resolved, 'typescript');
+    if (value !== undefined) return `const ${name}: ${resolved} = ${value};`;
+    return type ? `const ${name} = {} as ${typeExpression};` : `const ${name} = undefined;`;
+  }
+
+  /**
+   * Neutral value of a built-in parameter or return type, to be replaced
+   * with a real input or expectation
+   */
+  private placeholderValue(type: string | undefined, language: string): string | undefined {
+    const base = (type || '').trim();
+
+    if (language === 'python') {
+      if (/^int$/.test(base)) return '0';
+      if (/^float$/.test(base)) return '0.0';
+      if (/^str$/.test(base)) return "''";
+      if (/^bool$/.test(base)) return 'False';
+      if (/^(list|List|Sequence)\b/.test(base)) return '[]';
+      if (/^(dict|Dict|Mapping)\b/.test(base)) return '{}';
+      return 'None';
+    }
+
+    if (base === 'number') return '0';
+    if (base === 'string') return "''";
+    if (base === 'boolean') return 'false';
+    if (/\[\]$|^(Readonly)?Array</.test(base)) return '[]';
+    return undefined;
+  }
+
+  /**
+   * Reads the required parameters and the return type of a function from
+   * the source text at its declaration
+   */
+  private readSignature(code: string, target: SymbolCoverage, language: string): Signature {
+    const text = code.split('\n').slice(target.range.start.line - 1).join('\n').slice(target.range.start.column - 1);
+    const open = text.indexOf('(');
+    const close = open >= 0 ? this.findClosingParenthesis(text, open) : -1;
+    if (close < 0) return { parameters: [], isAsync: false };
+
+    const isAsync = /\basync\b/.test(text.slice(0, open));
+    const rest = text.slice(close + 1);
+    const entries = this.splitTopLevel(text.slice(open + 1, close));
+
+    if (language === 'python') {
+      const parameters: Parameter[] = [];
+      for (const [index, entry] of entries.entries()) {
+        // Keyword-only and variadic parameters are left to their defaults
+        if (entry.startsWith('*') || entry === '/') break;
+        const match = entry.match(/^(\w+)\s*(?::\s*([^=]+?))?\s*(=[^]*)?$/);
+        if (!match || (index === 0 && target.type === 'method' && ['self', 'cls'].includes(match[1]))) continue;
+        parameters.push({ name: match[1], type: match[2], optional: Boolean(match[3]) });
+      }
+      return { parameters: this.dropOptionalTail(parameters), returnType: rest.match(/^\s*->\s*([^:]+?)\s*:/)?.[1], isAsync };
+    }
+
+    const parameters = entries
+      .map(entry => entry.replace(/^(?:(?:public|private|protected|readonly|override)\s+)+/, ''))
+      .filter(entry => !/^this\s*:/.test(entry))
+      .map((entry, index): Parameter => {
+        const match = entry.match(/^(\.\.\.)?([A-Za-z_$][\w$]*)(\?)?\s*(?::\s*([^=]+?))?\s*(=[^]*)?$/);
+        return match
+          ? { name: match[2], type: match[4], optional: Boolean(match[1] || match[3] || match[5]) }
+          : { name: `arg${index + 1}`, type: undefined, optional: /=/.test(entry) };
+      });
+
+    return {
+      parameters: this.dropOptionalTail(parameters),
+      returnType: rest.match(/^\s*:\s*([^{=]+?)\s*(?:\{|=>)/)?.[1],
+      isAsync: isAsync || /^\s*:\s*Promise</.test(rest)
+    };
+  }
+
+  private dropOptionalTail(parameters: Parameter[]): Parameter[] {
+    let end = parameters.length;
+    while (end > 0 && parameters[end - 1].optional) end--;
+    return parameters.slice(0, end);
+  }
+
+  private findClosingParenthesis(text: string, open: number): number {
+    let depth = 0;
+    for (let index = open; index < text.length; index++) {
+      if (text[index] === '(') depth++;
+      if (text[index] === ')' && --depth === 0) return index;
+    }
+    return -1;
+  }
+
+  /**
+   * Splits a parameter list on commas outside brackets and generics
+   */
+  private splitTopLevel(text: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let current = '';
+
+    for (let index = 0; index < text.length; index++) {
+      const char = text[index];
+      if ('([{<'.includes(char)) depth++;
+      if (')]}'.includes(char) || (char === '>' && text[index - 1] !== '=')) depth--;
+      if (char === ',' && depth === 0) {
+        parts.push(current.trim());
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    parts.push(current.trim());
+
+    return parts.filter(Boolean);
+  }
+
+  private getScopeChain(scopes: ScopeInfo[], scope?: ScopeInfo): ScopeInfo[] {
+    const chain: ScopeInfo[] = [];
+    let current = scope;
+
+    while (current && !chain.includes(current)) {
+      chain.push(current);
+      current = current.parent ? scopes.find(s => s.id === current!.parent) : undefined;
+    }
+
+    return chain;
+  }
+
+  private getVisibleSymbols(context: PredictionContext, scopeChain: ScopeInfo[]): Array<{ symbol: Symbol; depth: number }> {
+    const visible = new Map<string, { symbol: Symbol; depth: number }>();
+
+    context.fileContext.symbols.symbols.forEach(symbol => {
+      const depth = scopeChain.findIndex(scope => scope.id === symbol.scope);
+      if (depth === -1) return;
+
+      // Inner declarations shadow outer ones
+      const existing = visible.get(symbol.name);
+      if (!existing || depth < existing.depth) {
+        visible.set(symbol.name, { symbol, depth });
+      }
+    });
+
+    return Array.from(visible.values());
+  }
+
+  private detectLanguage(context: PredictionContext): string {
+    if (context.fileContext.ast?.type === 'Module') return 'python';
+    return context.projectContext.language === 'python' ? 'python' : 'typescript';
+  }
+
+  private describeOperation(statement: string): string {
+    if (/JSON\.parse\(/.test(statement)) return 'parsing JSON';
+    if (/\bfetch\(/.test(statement)) return 'fetching data';
+    const callee = statement.match(/\bawait\s+(?:new\s+)?([\w$.]+)/)?.[1];
+    return callee ? `in ${callee}` : 'in awaited call';
+  }
+
+  /**
+   * Whether the cursor is inside the block of a `try`, counting braces so a
+   * try with both catch and finally closes once
+   */
+  private isInsideTryBlock(textBefore: string): boolean {
+    const tryDepths: number[] = [];
+    let depth = 0;
+
+    for (const match of textBefore.matchAll(/\btry\s*\{|[{}]/g)) {
+      if (match[0] === '}') {
+        if (tryDepths[tryDepths.length - 1] === depth) tryDepths.pop();
+        depth--;
+      } else {
+        depth++;
+        if (match[0] !== '{') tryDepths.push(depth);
+      }
+    }
+    return tryDepths.length > 0;
+  }
+
+  private isInsidePythonTry(cursor: CursorInfo): boolean {
+    const lines = cursor.textBefore.split('\n').slice(0, -1).reverse();
+    const currentIndent = cursor.indentation.length;
+
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      const indent = line.match(/^\s*/)![0].length;
+      if (indent < currentIndent) {
+        return /^\s*try\s*:/.test(line);
+      }
+    }
+    return false;
+  }
+
+  private adjustConfidence(prediction: CodePrediction): number {
+    const stats = this.feedbackStats.get(prediction.type);
+    if (!stats || stats.total === 0) return prediction.confidence;
+
+    // Laplace-smoothed acceptance rate relative to an uninformed 50%
+    const acceptance = (stats.accepted + 1) / (stats.total + 2);
+    return this.clamp(prediction.confidence * acceptance / 0.5);
+  }
+
+  private getIndentUnit(style: StyleProfile): string {
+    switch (style.indentation) {
+      case IndentationStyle.TABS:
+        return '\t';
+      case IndentationStyle.SPACES_4:
+        return '    ';
+      default:
+        return '  ';
+    }
+  }
+
+  private formatFieldName(name: string, convention: NamingConvention): string {
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[\s_-]+/).map(w => w.toLowerCase());
+
+    if (convention === NamingConvention.SNAKE_CASE) {
+      return words.join('_');
+    }
+    return words.map((w, i) => i === 0 ? w : w.charAt(0).toUpperCase() + w.slice(1)).join('');
+  }
+
+  private describeName(name: string): string {
+    const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(/[\s_]+/).filter(Boolean);
+    const sentence = words.join(' ').toLowerCase();
+    return sentence.charAt(0).toUpperCase() + sentence.slice(1);
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
@@ -1,3 +1,4 @@
 // Prediction engine components
 export * from './engine';
-export * from './pattern-recognition';
\ No newline at end of file
+export * from './pattern-recognition';
+export * from './ranking';
\ No newline at end of file
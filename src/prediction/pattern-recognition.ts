@@ -1,4 +1,333 @@
-// Placeholder for PatternRecognitionEngine implementation
-// Will be implemented in task 4.1
+import {
+  PatternRecognitionEngine,
+  BehavioralSequence,
+  CombinedContext,
+  ActionPrediction,
+  PredictionFeedback
+} from '../interfaces/prediction';
+import { BehavioralAction } from '../interfaces/behavioral';
+import { LearnableModel } from '../interfaces/feedback';
 
-export {};
\ No newline at end of file
+/**
+ * Markov-chain based next-action prediction
+ * Implements requirements 3.1, 3.3 and 3.4
+ */
+
+export interface MarkovModelConfig {
+  maxOrder: number; // longest history used as Markov context
+  smoothing: number; // additive smoothing for the order-0 distribution
+  maxPredictions: number;
+  contextWeight: number; // weight of context-conditioned statistics (0-1)
+  changeWindowSize: number; // observations per window for change detection
+  changeThreshold: number; // increase in average surprisal (bits) signalling a change
+}
+
+type TransitionTable = Map<string, Map<string, number>>;
+
+export interface MarkovModelState {
+  globalTable: TransitionTable;
+  conditionalTables: Map<string, TransitionTable>;
+  vocabulary: string[];
+  surprisalHistory: number[];
+}
+
+/**
+ * Variable-order Markov model over action types. Higher-order histories are
+ * interpolated with lower orders using Witten-Bell smoothing, so predicted
+ * confidences form a proper probability distribution.
+ */
+export class MarkovPatternRecognitionEngine implements PatternRecognitionEngine, LearnableModel<MarkovModelState> {
+  private config: MarkovModelConfig;
+  private globalTable: TransitionTable = new Map();
+  private conditionalTables: Map<string, TransitionTable> = new Map();
+  private vocabulary: Set<string> = new Set();
+  private surprisalHistory: number[] = [];
+
+  constructor(config: Partial<MarkovModelConfig> = {}) {
+    this.config = {
+      maxOrder: config.maxOrder || 3,
+      smoothing: config.smoothing || 0.1,
+      maxPredictions: config.maxPredictions || 5,
+      contextWeight: config.contextWeight ?? 0.3,
+      changeWindowSize: config.changeWindowSize || 50,
+      changeThreshold: config.changeThreshold || 1.0
+    };
+  }
+
+  /**
+   * Trains the model on behavioral sequences. Training is incremental:
+   * counts from previous calls are kept.
+   */
+  async trainBehavioralModel(data: BehavioralSequence[]): Promise<void> {
+    data.forEach(sequence => {
+      const tokens = sequence.actions.map(action => action.type as string);
+      const conditions = this.getSequenceConditions(sequence.actions, sequence.timestamp);
+      this.observeSequence(tokens, conditions, false);
+    });
+  }
+
+  /**
+   * Predicts the most likely next actions given the recent action history
+   * in context.temporal.recentPatterns
+   */
+  async predictNextActions(context: CombinedContext): Promise<ActionPrediction[]> {
+    if (this.vocabulary.size === 0) {
+      return [];
+    }
+
+    const history = context.temporal.recentPatterns.slice(-this.config.maxOrder);
+    const conditions = this.getPredictionConditions(context);
+    const usedOrder = this.getLongestKnownOrder(this.globalTable, history);
+
+    const predictions: ActionPrediction[] = Array.from(this.vocabulary).map(action => ({
+      action,
+      confidence: this.calculateProbability(action, history, conditions),
+      context: this.describeContext(history.slice(history.length - usedOrder), conditions)
+    }));
+
+    return predictions
+      .sort((a, b) => b.confidence - a.confidence || a.action.localeCompare(b.action))
+      .slice(0, this.config.maxPredictions);
+  }
+
+  /**
+   * Incrementally updates the model with the actions that led to a prediction
+   */
+  updateModel(feedback: PredictionFeedback): void {
+    const actions = feedback.context.recentActions;
+    if (actions.length === 0) return;
+
+    const tokens = actions.map(action => action.type as string);
+    const conditions = this.getSequenceConditions(actions, feedback.feedback.timestamp);
+    this.observeSequence(tokens, conditions, true);
+  }
+
+  /**
+   * Detects whether recent behavior is poorly explained by the model,
+   * comparing average surprisal of the latest window with the one before it
+   */
+  detectPatternChange(): boolean {
+    const windowSize = this.config.changeWindowSize;
+    if (this.surprisalHistory.length < windowSize * 2) {
+      return false;
+    }
+
+    const recent = this.surprisalHistory.slice(-windowSize);
+    const baseline = this.surprisalHistory.slice(-windowSize * 2, -windowSize);
+
+    return this.calculateMean(recent) - this.calculateMean(baseline) > this.config.changeThreshold;
+  }
+
+  /**
+   * Gets the probability of an action following the given history
+   */
+  getTransitionProbability(action: string, history: string[]): number {
+    return this.calculateProbability(action, history.slice(-this.config.maxOrder), []);
+  }
+
+  /**
+   * Gets the set of actions the model has seen
+   */
+  getVocabulary(): string[] {
+    return Array.from(this.vocabulary).sort();
+  }
+
+  /**
+   * Applies feedback as part of a learning system batch
+   */
+  applyFeedback(feedback: PredictionFeedback): void {
+    this.updateModel(feedback);
+  }
+
+  /**
+   * Exports the learned transition counts
+   */
+  exportState(): MarkovModelState {
+    return {
+      globalTable: this.globalTable,
+      conditionalTables: this.conditionalTables,
+      vocabulary: Array.from(this.vocabulary),
+      surprisalHistory: this.surprisalHistory
+    };
+  }
+
+  /**
+   * Replaces the learned transition counts
+   */
+  importState(state: MarkovModelState): void {
+    this.globalTable = state.globalTable;
+    this.conditionalTables = state.conditionalTables;
+    this.vocabulary = new Set(state.vocabulary);
+    this.surprisalHistory = state.surprisalHistory;
+  }
+
+  /**
+   * Clears all learned statistics
+   */
+  reset(): void {
+    this.globalTable.clear();
+    this.conditionalTables.clear();
+    this.vocabulary.clear();
+    this.surprisalHistory = [];
+  }
+
+  /**
+   * Gets current configuration
+   */
+  getConfig(): MarkovModelConfig {
+    return { ...this.config };
+  }
+
+  private observeSequence(tokens: string[], conditions: string[], trackSurprisal: boolean): void {
+    for (let i = 0; i < tokens.length; i++) {
+      const token = tokens[i];
+      const history = tokens.slice(Math.max(0, i - this.config.maxOrder), i);
+
+      // Score against the model before learning from the observation
+      if (trackSurprisal && this.vocabulary.size > 0 && history.length > 0) {
+        const probability = this.calculateProbability(token, history, conditions);
+        this.recordSurprisal(-Math.log2(Math.max(probability, Number.EPSILON)));
+      }
+
+      this.vocabulary.add(token);
+      this.addObservation(this.globalTable, history, token);
+      conditions.forEach(condition => {
+        if (!this.conditionalTables.has(condition)) {
+          this.conditionalTables.set(condition, new Map());
+        }
+        this.addObservation(this.conditionalTables.get(condition)!, history, token);
+      });
+    }
+  }
+
+  private addObservation(table: TransitionTable, history: string[], token: string): void {
+    // Record the token under every suffix of the history, including the empty one
+    for (let order = 0; order <= history.length; order++) {
+      const key = this.toHistoryKey(history.slice(history.length - order));
+      if (!table.has(key)) {
+        table.set(key, new Map());
+      }
+      const followers = table.get(key)!;
+      followers.set(token, (followers.get(token) || 0) + 1);
+    }
+  }
+
+  private calculateProbability(action: string, history: string[], conditions: string[]): number {
+    const globalProbability = this.calculateTableProbability(this.globalTable, action, history);
+
+    const conditionalProbabilities = conditions
+      .filter(condition => this.conditionalTables.has(condition))
+      .map(condition => this.calculateTableProbability(this.conditionalTables.get(condition)!, action, history));
+
+    if (conditionalProbabilities.length === 0) {
+      return globalProbability;
+    }
+
+    const conditionalProbability = this.calculateMean(conditionalProbabilities);
+    return (1 - this.config.contextWeight) * globalProbability + this.config.contextWeight * conditionalProbability;
+  }
+
+  private calculateTableProbability(table: TransitionTable, action: string, history: string[]): number {
+    // Order-0 distribution with additive smoothing over the known vocabulary
+    const unigrams = table.get('') || new Map<string, number>();
+    const total = this.sumCounts(unigrams);
+    const vocabularySize = Math.max(1, this.vocabulary.size);
+    let probability = ((unigrams.get(action) || 0) + this.config.smoothing) /
+      (total + this.config.smoothing * vocabularySize);
+
+    // Witten-Bell interpolation with increasingly longer histories
+    for (let order = 1; order <= history.length; order++) {
+      const followers = table.get(this.toHistoryKey(history.slice(history.length - order)));
+      if (!followers) break;
+
+      const count = this.sumCounts(followers);
+      const distinct = followers.size;
+      probability = ((followers.get(action) || 0) + distinct * probability) / (count + distinct);
+    }
+
+    return probability;
+  }
+
+  private getLongestKnownOrder(table: TransitionTable, history: string[]): number {
+    let order = 0;
+    while (order < history.length && table.has(this.toHistoryKey(history.slice(history.length - order - 1)))) {
+      order++;
+    }
+    return order;
+  }
+
+  private getSequenceConditions(actions: BehavioralAction[], timestamp: Date): string[] {
+    const conditions = [`time:${this.getTimeBucket(timestamp.getHours())}`];
+
+    const fileTypes = new Map<string, number>();
+    actions.forEach(action => {
+      const fileType = action.metadata?.fileType || this.getExtension(action.metadata?.fileName);
+      if (fileType) {
+        fileTypes.set(fileType, (fileTypes.get(fileType) || 0) + 1);
+      }
+    });
+
+    const dominantFileType = Array.from(fileTypes.entries())
+      .reduce<[string, number] | null>((max, entry) => !max || entry[1] > max[1] ? entry : max, null);
+    if (dominantFileType) {
+      conditions.push(`file:${dominantFileType[0]}`);
+    }
+
+    return conditions;
+  }
+
+  private getPredictionConditions(context: CombinedContext): string[] {
+    const conditions = [`time:${this.getTimeBucket(context.temporal.timeOfDay)}`];
+
+    const rootMetadata = context.code?.ast?.metadata || {};
+    const fileName = rootMetadata.start?.file || rootMetadata.filePath;
+    const fileType = this.getExtension(fileName);
+    if (fileType) {
+      conditions.push(`file:${fileType}`);
+    }
+
+    return conditions;
+  }
+
+  private describeContext(history: string[], conditions: string[]): string {
+    const historyDescription = history.length > 0
+      ? `order-${history.length} history ${history.join(',')}`
+      : 'action frequencies';
+    return `${historyDescription}; ${conditions.join(', ')}`;
+  }
+
+  private getTimeBucket(hour: number): string {
+    if (hour < 6) return 'night';
+    if (hour < 12) return 'morning';
+    if (hour < 18) return 'afternoon';
+    return 'evening';
+  }
+
+  private getExtension(fileName?: string): string | null {
+    if (!fileName || !fileName.includes('.')) return null;
+    return fileName.split('.').pop()!.toLowerCase();
+  }
+
+  private recordSurprisal(bits: number): void {
+    this.surprisalHistory.push(bits);
+    if (this.surprisalHistory.length > this.config.changeWindowSize * 2) {
+      this.surprisalHistory.shift();
+    }
+  }
+
+  private sumCounts(counts: Map<string, number>): number {
+    let total = 0;
+    counts.forEach(count => {
+      total += count;
+    });
+    return total;
+  }
+
+  private calculateMean(values: number[]): number {
+    return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+  }
+
+  private toHistoryKey(history: string[]): string {
+    return history.join(',');
+  }
+}
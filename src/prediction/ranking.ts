@@ -0,0 +1,311 @@
+import { CodePrediction, RankedPrediction } from '../interfaces/prediction';
+import { BehavioralMetrics } from '../interfaces/behavioral';
+import { CodeContext, ScopeInfo } from '../interfaces/context';
+import { PredictionType } from '../interfaces/common';
+
+/**
+ * Multi-signal prediction ranking
+ * Implements requirements 1.1, 1.2 and 4.1
+ */
+
+export interface RankingWeights {
+  confidence: number;
+  behavioral: number;
+  context: number;
+}
+
+export interface RankerConfig {
+  initialWeights: RankingWeights;
+  learningRate: number;
+  fatigueThreshold: number; // fatigue level above which long suggestions are suppressed
+  quickDecisionTime: number; // ms; shorter decision times favour short suggestions
+  longSuggestionLines: number; // suggestions at or above this size get the full penalty
+}
+
+export interface RankingSignals {
+  behavioral?: BehavioralMetrics;
+  code?: CodeContext;
+}
+
+export interface RankingFactors {
+  fatiguePenalty: number;
+  decisionPenalty: number;
+  symbolAvailability: number;
+  scopeMatch: number;
+}
+
+export interface RankingExplanation {
+  prediction: CodePrediction;
+  rank: number;
+  combinedScore: number;
+  behavioralScore: number;
+  contextScore: number;
+  weights: RankingWeights;
+  factors: RankingFactors;
+}
+
+export interface RankerState {
+  userWeights: Map<string, RankingWeights>;
+}
+
+const IDENTIFIER_KEYWORDS = new Set([
+  'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'constructor', 'continue', 'def', 'default',
+  'do', 'else', 'except', 'export', 'extends', 'false', 'finally', 'for', 'from', 'function', 'if',
+  'implements', 'import', 'in', 'instanceof', 'let', 'new', 'null', 'of', 'pass', 'private', 'protected',
+  'public', 'raise', 'readonly', 'return', 'self', 'static', 'super', 'this', 'throw', 'true', 'try',
+  'typeof', 'undefined', 'var', 'void', 'while', 'with', 'yield', 'None', 'True', 'False', 'Error',
+  'Exception', 'string', 'number', 'boolean', 'any', 'unknown', 'error'
+]);
+
+/**
+ * Ranks code predictions by combining model confidence with behavioral and
+ * code-context scores. Weights are learned per user from acceptance feedback.
+ */
+export class PredictionRanker {
+  private config: RankerConfig;
+  private userWeights: Map<string, RankingWeights> = new Map();
+  private lastExplanations: Map<CodePrediction, RankingExplanation> = new Map();
+
+  constructor(config: Partial<RankerConfig> = {}) {
+    this.config = {
+      initialWeights: config.initialWeights || { confidence: 0.5, behavioral: 0.25, context: 0.25 },
+      learningRate: config.learningRate || 0.1,
+      fatigueThreshold: config.fatigueThreshold ?? 0.3,
+      quickDecisionTime: config.quickDecisionTime || 500,
+      longSuggestionLines: config.longSuggestionLines || 10
+    };
+  }
+
+  /**
+   * Scores and orders predictions. Ties are broken by confidence, then
+   * shorter code, then code text, so equal inputs always rank identically.
+   */
+  rank(predictions: CodePrediction[], signals: RankingSignals = {}, userId: string = 'default'): RankedPrediction[] {
+    const weights = this.getWeights(userId);
+    const visibleNames = this.getVisibleNames(signals.code);
+
+    const scored = predictions.map(prediction => {
+      const factors = this.calculateFactors(prediction, signals, visibleNames);
+      const behavioralScore = this.clamp(1 - factors.fatiguePenalty - factors.decisionPenalty);
+      const contextScore = signals.code ? 0.6 * factors.symbolAvailability + 0.4 * factors.scopeMatch : 0.5;
+      const combinedScore =
+        weights.confidence * prediction.confidence +
+        weights.behavioral * behavioralScore +
+        weights.context * contextScore;
+
+      return { prediction, factors, behavioralScore, contextScore, combinedScore };
+    });
+
+    scored.sort((a, b) =>
+      b.combinedScore - a.combinedScore ||
+      b.prediction.confidence - a.prediction.confidence ||
+      a.prediction.code.length - b.prediction.code.length ||
+      a.prediction.code.localeCompare(b.prediction.code) ||
+      a.prediction.type.localeCompare(b.prediction.type)
+    );
+
+    this.lastExplanations.clear();
+    return scored.map((entry, index) => {
+      const ranked: RankedPrediction = {
+        prediction: entry.prediction,
+        rank: index + 1,
+        combinedScore: entry.combinedScore,
+        behavioralScore: entry.behavioralScore,
+        contextScore: entry.contextScore
+      };
+
+      this.lastExplanations.set(entry.prediction, {
+        ...ranked,
+        weights: { ...weights },
+        factors: entry.factors
+      });
+
+      return ranked;
+    });
+  }
+
+  /**
+   * Gets the scoring breakdown of a prediction from the most recent ranking
+   */
+  explain(prediction: CodePrediction): RankingExplanation | null {
+    return this.lastExplanations.get(prediction) || null;
+  }
+
+  /**
+   * Describes why one prediction outranked another in the most recent ranking
+   */
+  compare(a: CodePrediction, b: CodePrediction): string {
+    const first = this.explain(a);
+    const second = this.explain(b);
+    if (!first || !second) {
+      return 'Both predictions must come from the most recent ranking';
+    }
+
+    const [winner, loser] = first.rank < second.rank ? [first, second] : [second, first];
+    const contributions = (['confidence', 'behavioral', 'context'] as const).map(signal => {
+      const difference = winner.weights[signal] * (this.getSignalScore(winner, signal) - this.getSignalScore(loser, signal));
+      return `${signal} ${difference >= 0 ? '+' : ''}${difference.toFixed(3)}`;
+    });
+
+    const scoreDifference = winner.combinedScore - loser.combinedScore;
+    const tieBreak = scoreDifference === 0 ? ' (tie broken by confidence, length, then text)' : '';
+    return `Rank ${winner.rank} outranked rank ${loser.rank} by ${scoreDifference.toFixed(3)}: ${contributions.join(', ')}${tieBreak}`;
+  }
+
+  /**
+   * Learns a user's weights from acceptance of a ranked prediction using a
+   * logistic regression step over the three signal scores
+   */
+  updateWeights(userId: string, ranked: RankedPrediction, accepted: boolean): void {
+    const weights = this.getWeights(userId);
+    const features: RankingWeights = {
+      confidence: ranked.prediction.confidence,
+      behavioral: ranked.behavioralScore,
+      context: ranked.contextScore
+    };
+
+    const predicted = 1 / (1 + Math.exp(-4 * (ranked.combinedScore - 0.5)));
+    const error = (accepted ? 1 : 0) - predicted;
+
+    const updated: RankingWeights = {
+      confidence: Math.max(0.01, weights.confidence + this.config.learningRate * error * features.confidence),
+      behavioral: Math.max(0.01, weights.behavioral + this.config.learningRate * error * features.behavioral),
+      context: Math.max(0.01, weights.context + this.config.learningRate * error * features.context)
+    };
+
+    this.userWeights.set(userId, this.normalizeWeights(updated));
+  }
+
+  /**
+   * Gets the weights currently used for a user
+   */
+  getWeights(userId: string = 'default'): RankingWeights {
+    return { ...(this.userWeights.get(userId) || this.normalizeWeights(this.config.initialWeights)) };
+  }
+
+  /**
+   * Replaces the weights used for a user
+   */
+  setWeights(userId: string, weights: RankingWeights): void {
+    this.userWeights.set(userId, this.normalizeWeights(weights));
+  }
+
+  /**
+   * Exports the learned per-user weights
+   */
+  exportState(): RankerState {
+    return { userWeights: this.userWeights };
+  }
+
+  /**
+   * Replaces the learned per-user weights
+   */
+  importState(state: RankerState): void {
+    this.userWeights = state.userWeights;
+  }
+
+  private calculateFactors(prediction: CodePrediction, signals: RankingSignals, visibleNames: Set<string>): RankingFactors {
+    const lengthRatio = Math.min(1, (this.countLines(prediction.code) - 1) / Math.max(1, this.config.longSuggestionLines - 1));
+    const behavioral = signals.behavioral;
+
+    const fatiguePenalty = behavioral && behavioral.fatigueLevel > this.config.fatigueThreshold
+      ? this.clamp(behavioral.fatigueLevel) * lengthRatio * 0.5
+      : 0;
+
+    const decisionPenalty = behavioral && behavioral.decisionTime > 0 && behavioral.decisionTime < this.config.quickDecisionTime
+      ? (1 - behavioral.decisionTime / this.config.quickDecisionTime) * lengthRatio * 0.3
+      : 0;
+
+    return {
+      fatiguePenalty,
+      decisionPenalty,
+      symbolAvailability: this.calculateSymbolAvailability(prediction, visibleNames),
+      scopeMatch: signals.code ? this.calculateScopeMatch(prediction.type, signals.code.scope) : 0.5
+    };
+  }
+
+  private calculateSymbolAvailability(prediction: CodePrediction, visibleNames: Set<string>): number {
+    const identifiers = (prediction.code.match(/[A-Za-z_$][\w$]*/g) || [])
+      .filter(identifier => !IDENTIFIER_KEYWORDS.has(identifier));
+    if (identifiers.length === 0) return 1;
+
+    const names = Array.from(visibleNames);
+    const available = identifiers.filter((identifier, index) => {
+      if (visibleNames.has(identifier)) return true;
+      // Completions insert the remainder of an identifier that is already partly typed
+      return index === 0 &&
+        prediction.type === PredictionType.CODE_COMPLETION &&
+        names.some(name => name.endsWith(identifier));
+    });
+
+    return available.length / identifiers.length;
+  }
+
+  private calculateScopeMatch(type: PredictionType, scope?: ScopeInfo): number {
+    const scopeType = scope?.type || 'global';
+
+    switch (type) {
+      case PredictionType.CODE_COMPLETION:
+      case PredictionType.ERROR_HANDLING:
+        return scopeType === 'class' ? 0.5 : 1;
+      case PredictionType.FUNCTION_GENERATION:
+        return scopeType === 'global' || scopeType === 'class' ? 1 : 0.6;
+      case PredictionType.CLASS_GENERATION:
+      case PredictionType.ARCHITECTURAL_SUGGESTION:
+        return scopeType === 'global' || scopeType === 'class' ? 1 : 0.3;
+      default:
+        return 0.5;
+    }
+  }
+
+  private getVisibleNames(code?: CodeContext): Set<string> {
+    const names = new Set<string>();
+    if (!code) return names;
+
+    const chain: string[] = [];
+    let current: ScopeInfo | undefined = code.scope;
+    while (current && !chain.includes(current.id)) {
+      chain.push(current.id);
+      current = current.parent ? code.symbols.scopes.find(scope => scope.id === current!.parent) : undefined;
+    }
+
+    code.symbols.symbols.forEach(symbol => {
+      if (chain.includes(symbol.scope)) {
+        names.add(symbol.name);
+      }
+    });
+
+    return names;
+  }
+
+  private getSignalScore(explanation: RankingExplanation, signal: keyof RankingWeights): number {
+    switch (signal) {
+      case 'confidence':
+        return explanation.prediction.confidence;
+      case 'behavioral':
+        return explanation.behavioralScore;
+      default:
+        return explanation.contextScore;
+    }
+  }
+
+  private normalizeWeights(weights: RankingWeights): RankingWeights {
+    const total = weights.confidence + weights.behavioral + weights.context;
+    if (total <= 0) {
+      return { confidence: 1 / 3, behavioral: 1 / 3, context: 1 / 3 };
+    }
+    return {
+      confidence: weights.confidence / total,
+      behavioral: weights.behavioral / total,
+      context: weights.context / total
+    };
+  }
+
+  private countLines(code: string): number {
+    return code.split('\n').filter(line => line.trim().length > 0).length || 1;
+  }
+
+  private clamp(value: number): number {
+    return Math.max(0, Math.min(1, value));
+  }
+}
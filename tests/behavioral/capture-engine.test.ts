@@ -0,0 +1,201 @@
+import { BehavioralCaptureEngineImpl } from '../../src/behavioral/capture-engine';
+import { KeystrokeEvent } from '../../src/behavioral/keystroke-analyzer';
+import { BehavioralPattern, ActionType } from '../../src/interfaces/behavioral';
+import { InMemoryBehavioralStore } from '../../src/behavioral/storage';
+
+describe('BehavioralCaptureEngineImpl', () => {
+  let engine: BehavioralCaptureEngineImpl;
+  const userId = 'test-user-123';
+
+  const keystroke = (key: string, timestamp: number): KeystrokeEvent => ({
+    key,
+    timestamp,
+    type: 'keydown',
+    ctrlKey: false,
+    shiftKey: false,
+    altKey: false
+  });
+
+  beforeEach(() => {
+    engine = new BehavioralCaptureEngineImpl(userId, { bufferSize: 5 });
+  });
+
+  describe('capture lifecycle', () => {
+    it('should ignore events before capture starts', () => {
+      engine.captureKeystroke(keystroke('a', 1000));
+
+      expect(engine.isCapturing()).toBe(false);
+      expect(engine.getSequenceTracker().getCurrentBuffer()).toHaveLength(0);
+    });
+
+    it('should record events while capturing and stop afterwards', () => {
+      engine.startCapture();
+      engine.captureKeystroke(keystroke('a', 1000));
+      engine.stopCapture();
+      engine.captureKeystroke(keystroke('b', 1100));
+
+      const buffer = engine.getSequenceTracker().getCurrentBuffer();
+      expect(buffer).toHaveLength(1);
+      expect(buffer[0].type).toBe(ActionType.KEYSTROKE);
+    });
+
+    it('should hash keys before forwarding them', () => {
+      engine.startCapture();
+      engine.captureKeystroke(keystroke('secret', 1000));
+
+      const [action] = engine.getSequenceTracker().getCurrentBuffer();
+      expect(action.metadata.hashedKey).not.toContain('secret');
+    });
+  });
+
+  describe('getBehavioralMetrics', () => {
+    it('should return default metrics without data', () => {
+      const metrics = engine.getBehavioralMetrics();
+
+      expect(metrics.typingSpeed).toBe(0);
+      expect(metrics.pausePatterns).toEqual([0, 0, 0]);
+      expect(metrics.contextSwitches).toBe(0);
+    });
+
+    it('should calculate metrics from captured events', () => {
+      engine.startCapture();
+      engine.captureKeystroke(keystroke('a', 1000));
+      engine.captureKeystroke(keystroke('b', 1200));
+      engine.captureAction({
+        type: ActionType.CONTEXT_SWITCH,
+        timestamp: 1300,
+        duration: 100,
+        metadata: { from: 'a.ts', to: 'b.ts' }
+      });
+
+      const metrics = engine.getBehavioralMetrics();
+
+      expect(metrics.typingSpeed).toBeGreaterThan(0);
+      expect(metrics.contextSwitches).toBe(1);
+      expect(engine.getMetricsEngine().getMetricsHistory()).toHaveLength(1);
+    });
+
+    it('should return last known metrics when nothing new was captured', () => {
+      engine.startCapture();
+      engine.captureKeystroke(keystroke('a', 1000));
+      engine.captureKeystroke(keystroke('b', 1200));
+
+      const first = engine.getBehavioralMetrics();
+      const second = engine.getBehavioralMetrics();
+
+      expect(second).toEqual(first);
+      expect(engine.getMetricsEngine().getMetricsHistory()).toHaveLength(1);
+    });
+  });
+
+  describe('onPatternDetected', () => {
+    it('should emit fully populated patterns when a sequence completes', () => {
+      const patterns: BehavioralPattern[] = [];
+      engine.onPatternDetected(pattern => patterns.push(pattern));
+      engine.startCapture();
+
+      engine.captureAction({
+        type: ActionType.FILE_SWITCH,
+        timestamp: 1000,
+        duration: 0,
+        metadata: { fileName: 'main.ts' }
+      });
+      for (let i = 1; i <= 4; i++) {
+        engine.captureKeystroke(keystroke('a', 1000 + i * 100));
+      }
+
+      expect(patterns.length).toBeGreaterThan(0);
+
+      const typing = patterns.find(p => p.id === `${userId}:rapid_sequence`);
+      expect(typing).toBeDefined();
+      expect(typing!.userId).toBe(userId);
+      expect(typing!.sequence).toHaveLength(5);
+      expect(typing!.frequency).toBe(1);
+      expect(typing!.confidence).toBe(1);
+      expect(typing!.context.fileType).toBe('ts');
+      expect(typing!.context.projectContext).toBe('main.ts');
+      expect(typing!.context.sessionDuration).toBe(400);
+    });
+
+    it('should track frequency and confidence across sequences', () => {
+      const patterns: BehavioralPattern[] = [];
+      engine.onPatternDetected(pattern => patterns.push(pattern));
+      engine.startCapture();
+
+      for (let i = 0; i < 10; i++) {
+        engine.captureKeystroke(keystroke('a', 1000 + i * 100));
+      }
+
+      const typing = patterns.filter(p => p.id === `${userId}:rapid_sequence`);
+      expect(typing).toHaveLength(2);
+      expect(typing[1].frequency).toBe(2);
+      expect(typing[1].confidence).toBe(1);
+    });
+
+    it('should emit mined patterns once they recur across sequences', () => {
+      const patterns: BehavioralPattern[] = [];
+      engine.onPatternDetected(pattern => patterns.push(pattern));
+      engine.startCapture();
+
+      for (let i = 0; i < 10; i++) {
+        engine.captureAction({
+          type: i % 5 === 0 ? ActionType.FILE_SWITCH : ActionType.CODE_EDIT,
+          timestamp: 1000 + i * 100,
+          duration: 0,
+          metadata: { fileName: 'main.ts' }
+        });
+      }
+
+      const minedId = engine.getPatternAnalyzer().getPatternId([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      const mined = patterns.filter(p => p.id === minedId);
+      expect(mined).toHaveLength(1);
+      expect(mined[0].frequency).toBe(2);
+      expect(mined[0].userId).toBe(userId);
+    });
+
+    it('should keep notifying other listeners when one throws', () => {
+      const received: BehavioralPattern[] = [];
+      engine.onPatternDetected(() => {
+        throw new Error('listener failure');
+      });
+      engine.onPatternDetected(pattern => received.push(pattern));
+      engine.startCapture();
+
+      for (let i = 0; i < 5; i++) {
+        engine.captureKeystroke(keystroke('a', 1000 + i * 100));
+      }
+
+      expect(received.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe('clearData', () => {
+    it('should reset captured data and pattern statistics', () => {
+      engine.startCapture();
+      for (let i = 0; i < 5; i++) {
+        engine.captureKeystroke(keystroke('a', 1000 + i * 100));
+      }
+
+      engine.clearData();
+
+      expect(engine.getSequenceTracker().getRecentSequences()).toHaveLength(0);
+      expect(engine.getBehavioralMetrics().typingSpeed).toBe(0);
+    });
+  });
+
+  describe('persistent storage', () => {
+    it('should persist completed sequences to the store', () => {
+      const store = new InMemoryBehavioralStore();
+      const persisted = new BehavioralCaptureEngineImpl(userId, { bufferSize: 5 }, {}, { store });
+      persisted.startCapture();
+
+      for (let i = 0; i < 10; i++) {
+        persisted.captureKeystroke(keystroke('a', 1000 + i * 100));
+      }
+
+      const sequences = store.getSequences(userId);
+      expect(sequences).toHaveLength(2);
+      expect(sequences[0].actions).toHaveLength(5);
+    });
+  });
+});
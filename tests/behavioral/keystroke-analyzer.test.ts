@@ -1,4 +1,4 @@
-import { KeystrokeTimingAnalyzer, KeystrokeEvent, TimingPattern } from '../../src/behavioral/keystroke-analyzer';
+import { KeystrokeTimingAnalyzer, KeystrokeEvent, TimingPattern, classifyKey } from '../../src/behavioral/keystroke-analyzer';
 import { ActionType } from '../../src/interfaces/common';
 
 describe('KeystrokeTimingAnalyzer', () => {
@@ -397,6 +397,144 @@ describe('KeystrokeTimingAnalyzer', () => {
     });
   });
 
+  describe('dwell and flight times', () => {
+    const key = (k: string, timestamp: number, type: 'keydown' | 'keyup'): KeystrokeEvent => ({
+      key: k,
+      timestamp,
+      type,
+      ctrlKey: false,
+      shiftKey: false,
+      altKey: false
+    });
+
+    it('should measure intervals between keydowns only', () => {
+      [
+        key('a', 1000, 'keydown'), key('a', 1080, 'keyup'),
+        key('b', 1200, 'keydown'), key('b', 1290, 'keyup'),
+        key('c', 1400, 'keydown'), key('c', 1470, 'keyup')
+      ].forEach(event => analyzer.processKeystroke(event));
+
+      expect(analyzer.extractTimingPatterns().averageInterval).toBe(200);
+    });
+
+    it('should extract dwell and flight times', () => {
+      [
+        key('a', 1000, 'keydown'), key('a', 1080, 'keyup'),
+        key('b', 1200, 'keydown'), key('b', 1300, 'keyup'),
+        key('c', 1350, 'keydown'), key('c', 1410, 'keyup')
+      ].forEach(event => analyzer.processKeystroke(event));
+
+      expect(analyzer.getDwellTimes()).toEqual([80, 100, 60]);
+      expect(analyzer.getFlightTimes()).toEqual([120, 50]);
+
+      const metrics = analyzer.analyzeStatistics();
+      expect(metrics.dwellTime).toBe(80);
+      expect(metrics.flightTime).toBe(85);
+    });
+
+    it('should report negative flight times for overlapping keys', () => {
+      [
+        key('a', 1000, 'keydown'), key('b', 1050, 'keydown'),
+        key('a', 1100, 'keyup'), key('b', 1150, 'keyup')
+      ].forEach(event => analyzer.processKeystroke(event));
+
+      expect(analyzer.getDwellTimes()).toEqual([100, 100]);
+      expect(analyzer.getFlightTimes()).toEqual([-50]);
+    });
+
+    it('should set action durations to the dwell time', () => {
+      analyzer.processKeystroke(key('a', 1000, 'keydown'));
+      analyzer.processKeystroke(key('a', 1095, 'keyup'));
+      analyzer.processKeystroke(key('b', 1200, 'keydown'));
+
+      expect(analyzer.toBehavioralActions().map(action => action.duration)).toEqual([95, 95, 0]);
+    });
+
+    it('should count each auto-repeated key press once', () => {
+      [
+        key('a', 1000, 'keydown'), key('a', 1500, 'keydown'), key('a', 1530, 'keydown'), key('a', 1600, 'keyup')
+      ].forEach(event => analyzer.processKeystroke(event));
+
+      expect(analyzer.getDwellTimes()).toEqual([600]);
+    });
+
+    it('should compute digraph latency statistics', () => {
+      [
+        key('t', 1000, 'keydown'), key('h', 1100, 'keydown'), key('e', 1300, 'keydown'),
+        key('t', 2000, 'keydown'), key('h', 2140, 'keydown')
+      ].forEach(event => analyzer.processKeystroke(event));
+
+      const [top] = analyzer.getDigraphStatistics();
+
+      expect(top.count).toBe(2);
+      expect(top.meanLatency).toBe(120);
+      expect(top.stdDevLatency).toBe(20);
+      expect(top.digraph).toMatch(/^key_\d+>key_\d+$/);
+    });
+  });
+
+  describe('keyed hashing', () => {
+    const press = (key: string, timestamp: number): KeystrokeEvent => ({
+      key,
+      timestamp,
+      type: 'keydown',
+      ctrlKey: false,
+      shiftKey: false,
+      altKey: false
+    });
+
+    const hashOf = (target: KeystrokeTimingAnalyzer, key: string): string => {
+      target.processKeystroke(press(key, 1000));
+      const actions = target.toBehavioralActions();
+      return actions[actions.length - 1].metadata.hashedKey;
+    };
+
+    it('should produce different hashes under different secrets', () => {
+      const first = new KeystrokeTimingAnalyzer({ secret: 'secret-one' });
+      const second = new KeystrokeTimingAnalyzer({ secret: 'secret-two' });
+
+      expect(hashOf(first, 'a')).not.toBe(hashOf(second, 'a'));
+      expect(hashOf(first, 'a')).toBe(hashOf(new KeystrokeTimingAnalyzer({ secret: 'secret-one' }), 'a'));
+    });
+
+    it('should not be reversible with a lookup table built without the secret', () => {
+      const victim = new KeystrokeTimingAnalyzer();
+      const attacker = new KeystrokeTimingAnalyzer({ secret: 'guessed' });
+      const keyboard = 'abcdefghijklmnopqrstuvwxyz0123456789'.split('');
+      const table = new Map(keyboard.map(key => [hashOf(attacker, key), key]));
+
+      expect(table.has(hashOf(victim, 'p'))).toBe(false);
+    });
+
+    it('should unlink hashes after rotating the secret', () => {
+      const rotating = new KeystrokeTimingAnalyzer({ secret: 'before' });
+      const before = hashOf(rotating, 'a');
+
+      rotating.rotateSecret('after');
+
+      expect(hashOf(rotating, 'a')).not.toBe(before);
+    });
+
+    it('should collapse keys into coarse classes in class mode', () => {
+      const classes = new KeystrokeTimingAnalyzer({ mode: 'class' });
+      ['x', '7', ' ', ';', 'ArrowLeft', 'Shift', 'Escape'].forEach((key, i) => classes.processKeystroke(press(key, 1000 + i * 100)));
+
+      expect(classes.toBehavioralActions().map(action => action.metadata.hashedKey)).toEqual([
+        'class_letter', 'class_digit', 'class_whitespace', 'class_punctuation',
+        'class_navigation', 'class_modifier', 'class_other'
+      ]);
+      expect(classes.getHashingMode()).toBe('class');
+      expect(classes.analyzeStatistics().typingSpeed).toBeGreaterThan(0);
+    });
+
+    it('should classify non-latin letters and digits', () => {
+      expect(classifyKey('é')).toBe('letter');
+      expect(classifyKey('ж')).toBe('letter');
+      expect(classifyKey('٣')).toBe('digit');
+      expect(classifyKey('Enter')).toBe('whitespace');
+    });
+  });
+
   describe('edge cases', () => {
     it('should handle rapid keystrokes', () => {
       const baseTime = Date.now();
@@ -1,5 +1,6 @@
 import { BehavioralMetricsEngine, TemporalMetrics, FatigueIndicators } from '../../src/behavioral/metrics-engine';
 import { BehavioralAction, ActionType } from '../../src/interfaces/behavioral';
+import { InMemoryBehavioralStore } from '../../src/behavioral/storage';
 
 describe('BehavioralMetricsEngine', () => {
   let engine: BehavioralMetricsEngine;
@@ -473,4 +474,43 @@ describe('BehavioralMetricsEngine', () => {
       expect(patterns.get('pattern_2')!.length).toBe(1);
     });
   });
+
+  describe('persistent storage', () => {
+    const metrics = { typingSpeed: 50, pausePatterns: [1, 0, 0], decisionTime: 100, contextSwitches: 0, fatigueLevel: 0 };
+
+    it('should restore history from the store after a restart', () => {
+      const store = new InMemoryBehavioralStore();
+      const first = new BehavioralMetricsEngine(userId, { store });
+      first.storePattern('typing', metrics);
+      first.calculateMetrics([]);
+
+      const restarted = new BehavioralMetricsEngine(userId, { store });
+
+      expect(restarted.getMetricsHistory()).toHaveLength(1);
+      expect(restarted.getPatternsByTimeRange('typing', new Date(0), new Date())).toHaveLength(1);
+      expect(store.getSessions(userId).length).toBe(2);
+    });
+
+    it('should prune data older than the retention period', () => {
+      const store = new InMemoryBehavioralStore();
+      const old = new Date(Date.now() - 10 * 24 * 60 * 60 * 1000);
+      store.appendMetrics(userId, { timestamp: old, metrics, sessionId: 'old', duration: 0 }, 'typing');
+      store.appendMetrics(userId, { timestamp: new Date(), metrics, sessionId: 'new', duration: 0 }, 'typing');
+
+      const retained = new BehavioralMetricsEngine(userId, { store, dataRetentionPeriod: 7 });
+
+      expect(retained.getPatternsByTimeRange('typing', new Date(0), new Date())).toHaveLength(1);
+      expect(store.getMetrics(userId, { pattern: 'typing' })).toHaveLength(1);
+    });
+
+    it('should remove stored data when clearing', () => {
+      const store = new InMemoryBehavioralStore();
+      const persisted = new BehavioralMetricsEngine(userId, { store });
+      persisted.storePattern('typing', metrics);
+
+      persisted.clearAllData();
+
+      expect(store.getMetrics(userId, { pattern: 'typing' })).toEqual([]);
+    });
+  });
 });
\ No newline at end of file
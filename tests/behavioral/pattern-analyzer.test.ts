@@ -0,0 +1,213 @@
+import { BehavioralPatternAnalyzer } from '../../src/behavioral/pattern-analyzer';
+import { ActionSequence } from '../../src/behavioral/sequence-tracker';
+import { BehavioralAction, ActionType } from '../../src/interfaces/behavioral';
+
+describe('BehavioralPatternAnalyzer', () => {
+  let analyzer: BehavioralPatternAnalyzer;
+
+  const createSequence = (id: string, types: ActionType[], startTime: number = 1000): ActionSequence => {
+    const actions: BehavioralAction[] = types.map((type, index) => ({
+      type,
+      timestamp: startTime + index * 100,
+      duration: 0,
+      metadata: {}
+    }));
+
+    return {
+      id,
+      actions,
+      startTime: new Date(startTime),
+      endTime: new Date(startTime + (types.length - 1) * 100),
+      context: {
+        fileType: 'ts',
+        projectContext: 'main.ts',
+        timeOfDay: 10,
+        sessionDuration: 0
+      },
+      patterns: []
+    };
+  };
+
+  beforeEach(() => {
+    analyzer = new BehavioralPatternAnalyzer({ minSupport: 2 });
+  });
+
+  describe('configuration', () => {
+    it('should initialize with default configuration', () => {
+      const config = new BehavioralPatternAnalyzer().getConfig();
+
+      expect(config.minSupport).toBe(2);
+      expect(config.minLength).toBe(2);
+      expect(config.maxLength).toBe(5);
+      expect(config.maxPatterns).toBe(50);
+      expect(config.collapseRepeats).toBe(true);
+    });
+  });
+
+  describe('analyzeSequences', () => {
+    it('should mine n-grams occurring in multiple sequences', () => {
+      const patterns = analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.KEYSTROKE]),
+        createSequence('s2', [ActionType.MOUSE_CLICK, ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      ]);
+
+      expect(patterns).toHaveLength(1);
+      expect(patterns[0].items).toEqual([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      expect(patterns[0].support).toBe(2);
+      expect(patterns[0].frequency).toBe(2);
+    });
+
+    it('should respect minimum support', () => {
+      const patterns = analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      ]);
+
+      expect(patterns).toEqual([]);
+    });
+
+    it('should count support once per sequence but frequency per occurrence', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      ]);
+
+      const pattern = analyzer.getPattern([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      expect(pattern!.support).toBe(1);
+      expect(pattern!.frequency).toBe(2);
+    });
+
+    it('should collapse runs of the same action type', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.KEYSTROKE, ActionType.KEYSTROKE, ActionType.KEYSTROKE, ActionType.CODE_EDIT]),
+        createSequence('s2', [ActionType.KEYSTROKE, ActionType.CODE_EDIT])
+      ]);
+
+      const pattern = analyzer.getPattern([ActionType.KEYSTROKE, ActionType.CODE_EDIT]);
+      expect(pattern!.support).toBe(2);
+      expect(analyzer.getPattern([ActionType.KEYSTROKE, ActionType.KEYSTROKE])).toBeNull();
+    });
+
+    it('should keep repeats when collapsing is disabled', () => {
+      const literal = new BehavioralPatternAnalyzer({ collapseRepeats: false });
+      literal.analyzeSequences([
+        createSequence('s1', [ActionType.KEYSTROKE, ActionType.KEYSTROKE, ActionType.KEYSTROKE])
+      ]);
+
+      const pattern = literal.getPattern([ActionType.KEYSTROKE, ActionType.KEYSTROKE]);
+      expect(pattern!.frequency).toBe(2);
+    });
+
+    it('should ignore sequences that were already processed', () => {
+      const sequence = createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      analyzer.addSequence(sequence);
+      analyzer.addSequence(sequence);
+
+      expect(analyzer.getSequenceCount()).toBe(1);
+      expect(analyzer.getPattern([ActionType.FILE_SWITCH, ActionType.CODE_EDIT])!.support).toBe(1);
+    });
+
+    it('should only remember the most recent sequence ids', () => {
+      for (let i = 0; i <= 1000; i++) {
+        analyzer.addSequence(createSequence(`s${i}`, [ActionType.FILE_SWITCH]));
+      }
+      analyzer.addSequence(createSequence('s0', [ActionType.FILE_SWITCH]));
+      analyzer.addSequence(createSequence('s1000', [ActionType.FILE_SWITCH]));
+
+      expect(analyzer.getSequenceCount()).toBe(1002);
+    });
+
+    it('should calculate confidence relative to the pattern prefix', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s2', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s3', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s4', [ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK])
+      ]);
+
+      expect(analyzer.getPattern([ActionType.FILE_SWITCH, ActionType.CODE_EDIT])!.confidence).toBeCloseTo(0.75);
+      expect(analyzer.getPattern([ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK])!.confidence).toBeCloseTo(0.25);
+    });
+
+    it('should order patterns by support and limit the result size', () => {
+      const limited = new BehavioralPatternAnalyzer({ minSupport: 1, maxPatterns: 2 });
+      const patterns = limited.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.MOUSE_CLICK]),
+        createSequence('s2', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      ]);
+
+      expect(patterns).toHaveLength(2);
+      expect(patterns[0].items).toEqual([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      expect(patterns[0].support).toBeGreaterThanOrEqual(patterns[1].support);
+    });
+
+    it('should not exceed the maximum pattern length', () => {
+      const short = new BehavioralPatternAnalyzer({ minSupport: 1, maxLength: 2 });
+      const patterns = short.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.MOUSE_CLICK, ActionType.KEYSTROKE])
+      ]);
+
+      expect(patterns.every(pattern => pattern.items.length <= 2)).toBe(true);
+    });
+  });
+
+  describe('pattern ids', () => {
+    it('should assign stable ids independent of mining order', () => {
+      const other = new BehavioralPatternAnalyzer();
+      const items = [ActionType.FILE_SWITCH, ActionType.CODE_EDIT];
+
+      expect(analyzer.getPatternId(items)).toBe(other.getPatternId(items));
+      expect(analyzer.getPatternId(items)).toMatch(/^pattern_[0-9a-f]{8}$/);
+      expect(analyzer.getPatternId(items)).not.toBe(analyzer.getPatternId([...items].reverse()));
+    });
+  });
+
+  describe('getPatternsInSequence', () => {
+    it('should return only frequent patterns contained in the sequence', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s2', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s3', [ActionType.MOUSE_CLICK, ActionType.KEYSTROKE]),
+        createSequence('s4', [ActionType.MOUSE_CLICK, ActionType.KEYSTROKE])
+      ]);
+
+      const found = analyzer.getPatternsInSequence(
+        createSequence('s5', [ActionType.MOUSE_CLICK, ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      );
+
+      expect(found).toHaveLength(1);
+      expect(found[0].items).toEqual([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+    });
+  });
+
+  describe('toBehavioralPatterns', () => {
+    it('should emit fully populated behavioral patterns', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT], 1000),
+        createSequence('s2', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT], 5000)
+      ]);
+
+      const [pattern] = analyzer.toBehavioralPatterns('user-1');
+
+      expect(pattern.id).toBe(analyzer.getPatternId([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]));
+      expect(pattern.userId).toBe('user-1');
+      expect(pattern.timestamp).toEqual(new Date(5100));
+      expect(pattern.sequence.map(action => action.type)).toEqual([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+      expect(pattern.context.fileType).toBe('ts');
+      expect(pattern.frequency).toBe(2);
+      expect(pattern.confidence).toBe(1);
+    });
+  });
+
+  describe('clearData', () => {
+    it('should clear all mined statistics', () => {
+      analyzer.analyzeSequences([
+        createSequence('s1', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT]),
+        createSequence('s2', [ActionType.FILE_SWITCH, ActionType.CODE_EDIT])
+      ]);
+
+      analyzer.clearData();
+
+      expect(analyzer.getFrequentPatterns()).toEqual([]);
+      expect(analyzer.getSequenceCount()).toBe(0);
+    });
+  });
+});
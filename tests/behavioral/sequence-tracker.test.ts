@@ -7,6 +7,7 @@ import {
   PatternChangeEvent 
 } from '../../src/behavioral/sequence-tracker';
 import { BehavioralAction, ActionType } from '../../src/interfaces/behavioral';
+import { BehavioralPatternAnalyzer } from '../../src/behavioral/pattern-analyzer';
 
 describe('BehavioralSequenceTracker', () => {
   let tracker: BehavioralSequenceTracker;
@@ -314,6 +315,25 @@ describe('BehavioralSequenceTracker', () => {
       }
     });
 
+    it('should label sequences with the mined action patterns they repeat', () => {
+      const analyzer = new BehavioralPatternAnalyzer();
+      const mining = new BehavioralSequenceTracker({ bufferSize: 3 }, analyzer);
+      const navigate = (offset: number) => {
+        mining.recordAction({ type: ActionType.FILE_SWITCH, timestamp: offset, duration: 0, metadata: { fileName: 'a.ts' } });
+        mining.recordAction({ type: ActionType.CODE_EDIT, timestamp: offset + 500, duration: 0, metadata: {} });
+        mining.recordAction({ type: ActionType.CODE_EDIT, timestamp: offset + 1000, duration: 0, metadata: {} });
+      };
+      const navigationId = analyzer.getPatternId([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]);
+
+      navigate(1000);
+      navigate(5000);
+
+      const [first, second] = mining.getRecentSequences(2);
+      expect(first.patterns).not.toContain(navigationId);
+      expect(second.patterns).toContain(navigationId);
+      expect(second.patterns).not.toContain('file_navigation');
+    });
+
     it('should retrieve sequences by time range', () => {
       const baseTime = Date.now();
       const startTime = new Date(baseTime);
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { InMemoryBehavioralStore, JsonLinesBehavioralStore, getRetentionCutoff } from '../../src/behavioral/storage';
+import { TemporalMetrics } from '../../src/behavioral/metrics-engine';
+import { ActionSequence } from '../../src/behavioral/sequence-tracker';
+import { ActionType } from '../../src/interfaces/behavioral';
+
+describe('behavioral storage', () => {
+  const day = 24 * 60 * 60 * 1000;
+  const now = new Date('2024-03-10T12:00:00Z');
+
+  const metrics = (timestamp: Date, typingSpeed: number = 40): TemporalMetrics => ({
+    timestamp,
+    metrics: { typingSpeed, pausePatterns: [1, 0, 0], decisionTime: 100, contextSwitches: 0, fatigueLevel: 0 },
+    sessionId: 'session_1',
+    duration: 0
+  });
+
+  const sequence = (id: string, startTime: Date): ActionSequence => ({
+    id,
+    actions: [{ type: ActionType.KEYSTROKE, timestamp: startTime.getTime(), duration: 0, metadata: { hashedKey: 'key_1' } }],
+    startTime,
+    endTime: new Date(startTime.getTime() + 1000),
+    context: { fileType: 'ts', projectContext: 'test', timeOfDay: 12, sessionDuration: 1000 },
+    patterns: ['rapid_typing']
+  });
+
+  describe('getRetentionCutoff', () => {
+    it('should convert a retention period in days to a cutoff date', () => {
+      expect(getRetentionCutoff(7, now)).toEqual(new Date(now.getTime() - 7 * day));
+    });
+
+    it('should keep data forever without a retention period', () => {
+      expect(getRetentionCutoff(0, now)).toBeNull();
+    });
+  });
+
+  describe('InMemoryBehavioralStore', () => {
+    let store: InMemoryBehavioralStore;
+
+    beforeEach(() => {
+      store = new InMemoryBehavioralStore();
+    });
+
+    it('should keep pattern metrics separate from the general history', () => {
+      store.appendMetrics('alice', metrics(now));
+      store.appendMetrics('alice', metrics(now, 60), 'typing');
+
+      expect(store.getMetrics('alice')).toHaveLength(1);
+      expect(store.getMetrics('alice', { pattern: 'typing' })[0].metrics.typingSpeed).toBe(60);
+      expect(store.getPatternNames('alice')).toEqual(['typing']);
+    });
+
+    it('should answer time-range queries per user', () => {
+      store.appendMetrics('alice', metrics(new Date(now.getTime() - 2 * day)), 'typing');
+      store.appendMetrics('alice', metrics(now), 'typing');
+      store.appendMetrics('bob', metrics(now), 'typing');
+
+      const recent = store.getMetrics('alice', { pattern: 'typing', startTime: new Date(now.getTime() - day), endTime: now });
+
+      expect(recent).toHaveLength(1);
+      expect(recent[0].timestamp).toEqual(now);
+    });
+
+    it('should update sessions by id', () => {
+      store.saveSession('alice', { sessionId: 's1', startTime: now });
+      store.saveSession('alice', { sessionId: 's1', startTime: now, endTime: new Date(now.getTime() + 1000) });
+
+      const sessions = store.getSessions('alice');
+      expect(sessions).toHaveLength(1);
+      expect(sessions[0].endTime).toBeDefined();
+    });
+
+    it('should prune records older than the cutoff', () => {
+      const old = new Date(now.getTime() - 40 * day);
+      store.appendMetrics('alice', metrics(old));
+      store.appendMetrics('alice', metrics(now));
+      store.appendSequence('alice', sequence('seq_1', old));
+      store.saveSession('alice', { sessionId: 's1', startTime: old, endTime: old });
+
+      const removed = store.prune(getRetentionCutoff(30, now)!);
+
+      expect(removed).toBe(3);
+      expect(store.getMetrics('alice')).toHaveLength(1);
+      expect(store.getSequences('alice')).toEqual([]);
+      expect(store.getSessions('alice')).toEqual([]);
+    });
+
+    it('should prune sessions that were never closed by their start time', () => {
+      const old = new Date(now.getTime() - 40 * day);
+      store.saveSession('alice', { sessionId: 'crashed', startTime: old });
+      store.saveSession('alice', { sessionId: 'open', startTime: now });
+
+      expect(store.prune(getRetentionCutoff(30, now)!)).toBe(1);
+      expect(store.getSessions('alice').map(session => session.sessionId)).toEqual(['open']);
+    });
+  });
+
+  describe('JsonLinesBehavioralStore', () => {
+    let directory: string;
+
+    beforeEach(() => {
+      directory = fs.mkdtempSync(path.join(os.tmpdir(), 'behavioral-store-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should persist history across store instances', () => {
+      const store = new JsonLinesBehavioralStore(directory);
+      store.appendMetrics('alice', metrics(now), 'typing');
+      store.saveSession('alice', { sessionId: 's1', startTime: now });
+      store.saveSession('alice', { sessionId: 's1', startTime: now, endTime: new Date(now.getTime() + 5000) });
+      store.appendSequence('alice', sequence('seq_1', now));
+
+      const reopened = new JsonLinesBehavioralStore(directory);
+      const [stored] = reopened.getMetrics('alice', { pattern: 'typing' });
+
+      expect(stored.timestamp).toEqual(now);
+      expect(stored.metrics.pausePatterns).toEqual([1, 0, 0]);
+      expect(reopened.getSessions('alice')).toEqual([
+        { sessionId: 's1', startTime: now, endTime: new Date(now.getTime() + 5000) }
+      ]);
+      expect(reopened.getSequences('alice')[0].startTime).toEqual(now);
+      expect(reopened.getSequences('alice')[0].patterns).toEqual(['rapid_typing']);
+    });
+
+    it('should rewrite files when pruning', () => {
+      const store = new JsonLinesBehavioralStore(directory);
+      store.appendMetrics('alice', metrics(new Date(now.getTime() - 40 * day)));
+      store.appendMetrics('alice', metrics(now));
+
+      const fresh = new JsonLinesBehavioralStore(directory);
+      expect(fresh.prune(getRetentionCutoff(30, now)!)).toBe(1);
+
+      expect(new JsonLinesBehavioralStore(directory).getMetrics('alice')).toHaveLength(1);
+    });
+
+    it('should skip corrupt lines', () => {
+      const store = new JsonLinesBehavioralStore(directory);
+      store.appendMetrics('alice', metrics(now));
+      fs.appendFileSync(path.join(directory, 'alice', 'metrics.jsonl'), '{"pattern":');
+
+      expect(new JsonLinesBehavioralStore(directory).getMetrics('alice')).toHaveLength(1);
+      expect(console.warn).toHaveBeenCalled();
+    });
+
+    it('should delete user files', () => {
+      const store = new JsonLinesBehavioralStore(directory);
+      store.appendMetrics('alice', metrics(now));
+      store.deleteUser('alice');
+
+      expect(fs.existsSync(path.join(directory, 'alice'))).toBe(false);
+      expect(new JsonLinesBehavioralStore(directory).getMetrics('alice')).toEqual([]);
+    });
+
+    it('should reject user ids that would name the store or its parent', () => {
+      const store = new JsonLinesBehavioralStore(directory);
+      store.appendMetrics('alice', metrics(now));
+
+      ['', '.', '..'].forEach(userId => {
+        expect(() => store.deleteUser(userId)).toThrow('Invalid user id');
+        expect(() => store.appendMetrics(userId, metrics(now))).toThrow('Invalid user id');
+      });
+      expect(fs.existsSync(path.join(directory, 'alice', 'metrics.jsonl'))).toBe(true);
+      expect(store.getMetrics('a.b')).toEqual([]);
+    });
+  });
+});
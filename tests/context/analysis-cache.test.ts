@@ -0,0 +1,68 @@
+import * as path from 'path';
+import { AnalysisCache, hashContent } from '../../src/context/analysis-cache';
+import { CodeContext } from '../../src/interfaces/context';
+
+describe('AnalysisCache', () => {
+  const context = (name: string): CodeContext => ({
+    ast: { type: 'SourceFile', children: [], metadata: { name } },
+    symbols: { symbols: new Map(), scopes: [] },
+    scope: { id: 'global', type: 'global', variables: [], functions: [] },
+    patterns: [],
+    quality: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+  });
+  const graph = { nodes: [], edges: [] };
+
+  it('should return entries computed from the same content', () => {
+    const cache = new AnalysisCache();
+    cache.set('src/a.ts', 'const a = 1;', context('a'), graph);
+
+    expect(cache.get('src/a.ts', hashContent('const a = 1;'))!.context.ast.metadata.name).toBe('a');
+    expect(cache.get(path.resolve('src/a.ts'))!.filePath).toBe(path.resolve('src/a.ts'));
+    expect(cache.getStats()).toMatchObject({ entries: 1, hits: 2, misses: 0 });
+  });
+
+  it('should drop entries whose content changed', () => {
+    const cache = new AnalysisCache();
+    cache.set('a.ts', 'const a = 1;', context('a'), graph);
+
+    expect(cache.get('a.ts', hashContent('const a = 2;'))).toBeUndefined();
+    expect(cache.peek('a.ts')).toBeUndefined();
+    expect(cache.getStats()).toMatchObject({ entries: 0, sourceBytes: 0, misses: 1 });
+  });
+
+  it('should evict the least recently used entries beyond the entry bound', () => {
+    const cache = new AnalysisCache({ maxEntries: 2 });
+    cache.set('a.ts', 'a', context('a'), graph);
+    cache.set('b.ts', 'b', context('b'), graph);
+    cache.get('a.ts');
+    cache.set('c.ts', 'c', context('c'), graph);
+
+    expect(cache.peek('a.ts')).toBeDefined();
+    expect(cache.peek('b.ts')).toBeUndefined();
+    expect(cache.peek('c.ts')).toBeDefined();
+    expect(cache.getStats().evictions).toBe(1);
+  });
+
+  it('should bound the total size of cached sources', () => {
+    const cache = new AnalysisCache({ maxSourceBytes: 10 });
+    cache.set('a.ts', '123456', context('a'), graph);
+    cache.set('b.ts', '123456', context('b'), graph);
+    cache.set('huge.ts', '12345678901', context('huge'), graph);
+
+    expect(cache.peek('a.ts')).toBeUndefined();
+    expect(cache.peek('b.ts')).toBeDefined();
+    expect(cache.peek('huge.ts')).toBeUndefined();
+    expect(cache.getStats().sourceBytes).toBe(6);
+  });
+
+  it('should invalidate and clear entries', () => {
+    const cache = new AnalysisCache();
+    cache.set('a.ts', 'a', context('a'), graph);
+    cache.set('b.ts', 'b', context('b'), graph);
+
+    expect(cache.invalidate('a.ts')).toBe(true);
+    expect(cache.invalidate('a.ts')).toBe(false);
+    cache.clear();
+    expect(cache.getStats()).toMatchObject({ entries: 0, sourceBytes: 0 });
+  });
+});
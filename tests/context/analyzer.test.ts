@@ -2,8 +2,9 @@ import { ProjectAnalyzer } from '../../src/context/analyzer';
 import { ProjectContext } from '../../src/interfaces/context';
 import { ArchitecturalPattern } from '../../src/interfaces/common';
 
-// Mock fs module
+// Mock fs module; the rest of fs stays real so typescript can load
 jest.mock('fs', () => ({
+  ...jest.requireActual('fs'),
   existsSync: jest.fn(),
   readFileSync: jest.fn(),
   readdirSync: jest.fn(),
@@ -74,7 +75,7 @@ describe('ProjectAnalyzer', () => {
       const projectContext = await analyzer.analyzeProject('/test/project');
 
       expect(projectContext.codeStyle).toBeDefined();
-      expect(projectContext.codeStyle.indentation).toBe('spaces');
+      expect(projectContext.codeStyle.indentation).toBe('spaces_2');
       expect(projectContext.codeStyle.naming).toBe('camelCase');
       expect(projectContext.codeStyle.structure.maxLineLength).toBe(100);
 
@@ -0,0 +1,42 @@
+import { NodeMetadataFactory, resolveParserOptions } from '../../src/context/ast-metadata';
+
+describe('NodeMetadataFactory', () => {
+  const source = { text: '// lead\nconst answer = 42;', file: 'a.ts' };
+  const span = { offset: 8, endOffset: 26, fullStart: 0 };
+
+  it('should default to the full representation without trivia', () => {
+    expect(resolveParserOptions()).toEqual({ compact: false, includeTrivia: false });
+  });
+
+  it('should store text eagerly in the full representation', () => {
+    const metadata = new NodeMetadataFactory(source, resolveParserOptions()).create(span, { kind: 1 });
+
+    expect(metadata).toEqual({ kind: 1, offset: 8, endOffset: 26, text: 'const answer = 42;' });
+  });
+
+  it('should reuse text passed by the caller', () => {
+    const metadata = new NodeMetadataFactory(source, resolveParserOptions()).create(span, {}, 'cached');
+
+    expect(metadata.text).toBe('cached');
+  });
+
+  it('should materialize text lazily in compact mode', () => {
+    const factory = new NodeMetadataFactory(source, resolveParserOptions({ compact: true }));
+    const metadata = factory.create(span, { kind: 1 });
+
+    expect(factory.isCompact()).toBe(true);
+    expect(metadata.text).toBe('const answer = 42;');
+    expect(Object.keys(metadata)).toEqual(['kind', 'offset', 'endOffset']);
+    expect(JSON.stringify(metadata)).toBe('{"kind":1,"offset":8,"endOffset":26}');
+  });
+
+  it('should record leading trivia only when requested', () => {
+    const full = new NodeMetadataFactory(source, resolveParserOptions({ includeTrivia: true })).create(span, {});
+    const compact = new NodeMetadataFactory(source, resolveParserOptions({ compact: true, includeTrivia: true })).create(span, {});
+    const without = new NodeMetadataFactory(source, resolveParserOptions({ compact: true })).create(span, {});
+
+    expect(full.leadingTrivia).toBe('// lead\n');
+    expect(compact.leadingTrivia).toBe('// lead\n');
+    expect(without.leadingTrivia).toBeUndefined();
+  });
+});
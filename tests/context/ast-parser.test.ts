@@ -1,4 +1,5 @@
 import { MultiLanguageASTParser, TypeScriptASTParser, PythonASTParser } from '../../src/context/ast-parser';
+import { SymbolAnalyzer } from '../../src/context/symbol-analyzer';
 import { AbstractSyntaxTree } from '../../src/interfaces/context';
 
 describe('MultiLanguageASTParser', () => {
@@ -113,6 +114,19 @@ class Person:
       expect(ast).toBeDefined();
     });
 
+    it('should detect TSX files and parse JSX', async () => {
+      const mockFs = {
+        readFileSync: jest.fn().mockReturnValue('export const App = () => <div className="app">{title}</div>;')
+      };
+      jest.resetModules();
+      jest.doMock('fs', () => mockFs);
+
+      const ast = await parser.parseFile('App.tsx');
+      const hasJsx = JSON.stringify(ast).includes('"JsxElement"');
+      expect(ast.metadata.scriptKind).toBe('TSX');
+      expect(hasJsx).toBe(true);
+    });
+
     it('should throw error for unsupported file extension', async () => {
       await expect(parser.parseFile('test.unknown')).rejects.toThrow('Cannot detect language for file: test.unknown');
     });
@@ -179,6 +193,31 @@ describe('TypeScriptASTParser', () => {
     expect(functionNode!.metadata.end.line).toBeGreaterThan(1);
   });
 
+  it('should select the script kind from the file extension', () => {
+    const jsx = 'const el = <Button onClick={() => go(<T,>(x: T) => x)} />;';
+
+    expect(parser.parse(jsx, 'Button.tsx').metadata.scriptKind).toBe('TSX');
+    expect(parser.parse(jsx, 'Button.jsx').metadata.scriptKind).toBe('JSX');
+    expect(parser.parse('export default 1;', 'index.mjs').metadata.scriptKind).toBe('JS');
+    expect(parser.parse('export = 1;', 'index.cts').metadata.scriptKind).toBe('TS');
+    expect(parser.parse('const x = 1;', undefined, 'javascript').metadata.scriptKind).toBe('JS');
+  });
+
+  it('should not treat type assertions as JSX in .ts files', () => {
+    const ast = parser.parse('const value = <string>input;', 'cast.ts');
+    const serialized = JSON.stringify(ast);
+
+    expect(serialized).toContain('"TypeAssertionExpression"');
+    expect(serialized).not.toContain('"Jsx');
+  });
+
+  it('should flag declaration files', () => {
+    const ast = parser.parse('export declare function load(path: string): void;', 'types/index.d.ts');
+
+    expect(ast.metadata.isDeclarationFile).toBe(true);
+    expect(parser.parse('export {};', 'index.ts').metadata.isDeclarationFile).toBe(false);
+  });
+
   it('should handle complex nested structures', () => {
     const code = `
       interface User {
@@ -338,4 +377,185 @@ def second_function():
     expect(ast.children[1].metadata.line).toBe(5);
     expect(ast.metadata.filePath).toBe('test.py');
   });
-});
\ No newline at end of file
+});
+describe('TypeScriptASTParser incremental parsing', () => {
+  let parser: TypeScriptASTParser;
+
+  const strip = (node: AbstractSyntaxTree): any => ({
+    type: node.type,
+    start: node.metadata.start,
+    end: node.metadata.end,
+    text: node.metadata.text,
+    children: node.children.map(strip)
+  });
+
+  const code = [
+    'function first() {',
+    '  return 1;',
+    '}',
+    '',
+    'function second(a: number) {',
+    '  return a + 1;',
+    '}',
+    ''
+  ].join('\n');
+
+  beforeEach(() => {
+    parser = new TypeScriptASTParser();
+  });
+
+  it('should produce the same tree as a full parse', () => {
+    const previous = parser.parse(code, 'edit.ts');
+    const offset = code.indexOf('a + 1');
+    const { ast } = parser.parseIncremental(previous, [{ offset, length: 5, newText: 'a * 2 + first()' }]);
+
+    const expected = parser.parse(code.replace('a + 1', 'a * 2 + first()'), 'edit.ts');
+    expect(strip(ast)).toEqual(strip(expected));
+  });
+
+  it('should reuse subtrees before the edit and report only changed nodes', () => {
+    const previous = parser.parse(code, 'edit.ts');
+    const offset = code.indexOf('a + 1');
+    const { ast, changedNodes } = parser.parseIncremental(previous, [{ offset, length: 1, newText: 'value' }]);
+
+    expect(ast.children[0]).toBe(previous.children[0]);
+    expect(changedNodes).toContain(ast);
+    expect(changedNodes).toContain(ast.children[1]);
+    expect(changedNodes).not.toContain(ast.children[0]);
+    expect(changedNodes.some(node => node.type === 'Identifier' && node.metadata.text === 'value')).toBe(true);
+    expect(changedNodes.some(node => node.metadata.text === 'number')).toBe(false);
+  });
+
+  it('should move unchanged subtrees after the edit to their new location', () => {
+    const previous = parser.parse(code, 'edit.ts');
+    const { ast, changedNodes } = parser.parseIncremental(previous, [{ offset: 0, length: 0, newText: '// header\n' }]);
+
+    const second = ast.children.find(child => child.metadata.text.startsWith('function second'))!;
+    expect(second.metadata.start.line).toBe(6);
+    expect(changedNodes).not.toContain(second);
+  });
+
+  it('should relocate nodes moved to another line by a same-length edit', () => {
+    const lines = 'let a = 1; let b = 2;\nlet c = 3;';
+    const previous = parser.parse(lines, 'lines.ts');
+    const { ast } = parser.parseIncremental(previous, [{ offset: 10, length: 1, newText: '\n' }]);
+
+    const expected = parser.parse('let a = 1;\nlet b = 2;\nlet c = 3;', 'lines.ts');
+    expect(ast.children[2].metadata.start.line).toBe(3);
+    expect(strip(ast)).toEqual(strip(expected));
+  });
+
+  it('should apply several edits in order', () => {
+    const previous = parser.parse(code, 'edit.ts');
+    const edits = [
+      { offset: code.indexOf('first'), length: 5, newText: 'one' },
+      { offset: code.indexOf('second') - 2, length: 6, newText: 'two' }
+    ];
+    const { ast } = parser.parseIncremental(previous, edits);
+
+    expect(ast.metadata.text).toContain('function one()');
+    expect(ast.metadata.text).toContain('function two(a: number)');
+  });
+
+  it('should fall back to a full parse for trees it cannot update', () => {
+    const previous = parser.parse(code, 'edit.ts');
+    parser.parseIncremental(previous, [{ offset: 0, length: 0, newText: ' ' }]);
+
+    const offset = code.indexOf('return 1');
+    const { ast, changedNodes } = parser.parseIncremental(previous, [{ offset, length: 8, newText: 'return 3' }]);
+    expect(ast.metadata.text).toContain('return 3');
+    expect(changedNodes).toEqual([ast]);
+  });
+
+  it('should reject edits outside the text', () => {
+    const previous = parser.parse(code, 'edit.ts');
+
+    expect(() => parser.parseIncremental(previous, [{ offset: code.length, length: 1, newText: '' }]))
+      .toThrow('Text edit out of range');
+  });
+
+  it('should be available through MultiLanguageASTParser for TypeScript only', async () => {
+    const multi = new MultiLanguageASTParser();
+    const previous = await multi.parseCode('let x = 1;', 'typescript');
+
+    const { ast } = await multi.parseIncremental(previous, [{ offset: 8, length: 1, newText: '2' }], 'typescript');
+    expect(ast.metadata.text).toBe('let x = 2;');
+    await expect(multi.parseIncremental(previous, [], 'python')).rejects.toThrow('Incremental parsing is not supported for language: python');
+  });
+});
+
+describe('compact AST representation', () => {
+  const tsCode = [
+    '// Service for users',
+    'export class UserService {',
+    '  private users: string[] = [];',
+    '  add(name: string): void {',
+    '    const trimmed = name.trim();',
+    '    this.users.push(trimmed);',
+    '  }',
+    '}'
+  ].join('\n');
+
+  const pyCode = [
+    'import os',
+    'class Store:',
+    '    def __init__(self, root):',
+    '        self.root = root  # where files live',
+    '    def path(self, name):',
+    '        return os.path.join(self.root, name)'
+  ].join('\n');
+
+  const collectTexts = (node: AbstractSyntaxTree): string[] =>
+    [node.metadata.text, ...node.children.flatMap(collectTexts)];
+
+  it('should expose the same node text in both representations', () => {
+    const full = new TypeScriptASTParser().parse(tsCode, 'service.ts');
+    const compact = new TypeScriptASTParser({ compact: true }).parse(tsCode, 'service.ts');
+
+    expect(collectTexts(compact)).toEqual(collectTexts(full));
+  });
+
+  it('should not duplicate node text when serialized', () => {
+    const full = new TypeScriptASTParser().parse(tsCode, 'service.ts');
+    const compact = new TypeScriptASTParser({ compact: true }).parse(tsCode, 'service.ts');
+
+    expect(JSON.stringify(compact)).not.toContain('"text"');
+    expect(JSON.stringify(compact).length).toBeLessThan(JSON.stringify(full).length);
+  });
+
+  it('should produce identical symbol tables from either representation', async () => {
+    const analyzer = new SymbolAnalyzer();
+
+    for (const [code, language] of [[tsCode, 'typescript'], [pyCode, 'python']]) {
+      const full = await new MultiLanguageASTParser().parseCode(code, language);
+      const compact = await new MultiLanguageASTParser({ compact: true }).parseCode(code, language);
+
+      const fullTable = analyzer.analyzeSymbols(full, language);
+      const compactTable = analyzer.analyzeSymbols(compact, language);
+      expect(Array.from(compactTable.symbols)).toEqual(Array.from(fullTable.symbols));
+      expect(compactTable.scopes).toEqual(fullTable.scopes);
+    }
+  });
+
+  it('should record leading comments as trivia when requested', () => {
+    const ast = new TypeScriptASTParser({ compact: true, includeTrivia: true }).parse(tsCode, 'service.ts');
+    const classNode = ast.children.find(child => child.type === 'ClassDeclaration')!;
+
+    expect(classNode.metadata.leadingTrivia).toBe('// Service for users\n');
+
+    const python = new PythonASTParser({ includeTrivia: true }).parse(pyCode);
+    const method = python.children[1].children[1];
+    expect(method.metadata.name).toBe('path');
+    expect(method.metadata.leadingTrivia).toBe('  # where files live\n    ');
+  });
+
+  it('should support incremental parsing of compact trees', () => {
+    const parser = new TypeScriptASTParser({ compact: true });
+    const previous = parser.parse(tsCode, 'service.ts');
+    const offset = tsCode.indexOf('trimmed);');
+    const { ast } = parser.parseIncremental(previous, [{ offset, length: 7, newText: 'name' }]);
+
+    expect(ast.metadata.text).toContain('this.users.push(name);');
+    expect(collectTexts(ast)).toEqual(collectTexts(new TypeScriptASTParser().parse(tsCode.replace('trimmed);', 'name);'), 'service.ts')));
+  });
+});
@@ -0,0 +1,134 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+
+describe('CodeContextAnalyzerImpl', () => {
+  let directory: string;
+  let analyzer: CodeContextAnalyzerImpl;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'code-context-'));
+    analyzer = new CodeContextAnalyzerImpl();
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): string => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  describe('analyzeFileAt', () => {
+    const code = [
+      'import { format } from "./format";',
+      'const prefix = "> ";',
+      'export function render(lines: string[]) {',
+      '  const prefix = "- ";',
+      '  return lines.map(line => prefix + format(line));',
+      '}'
+    ].join('\n');
+
+    it('should return the scope enclosing the cursor', async () => {
+      const filePath = writeFile('render.ts', code);
+
+      const context = await analyzer.analyzeFileAt(filePath, { line: 5, column: 3 });
+
+      expect(context.scope.id).toBe('global.render');
+      expect(context.position).toEqual({ line: 5, column: 3 });
+      expect(context.scopeChain.map(scope => scope.id)).toEqual(['global.render', 'global']);
+      expect(context.visibleSymbols.find(symbol => symbol.name === 'prefix')!.scope).toBe('global.render');
+      expect(context.ast.type).toBe('SourceFile');
+    });
+
+    it('should accept a character offset as the cursor', async () => {
+      const filePath = writeFile('render.ts', code);
+      const offset = code.indexOf('return lines');
+
+      const context = await analyzer.analyzeFileAt(filePath, offset);
+
+      expect(context.position).toEqual({ line: 5, column: 3 });
+      expect(context.scope.id).toBe('global.render');
+    });
+
+    it('should use the global scope outside functions', async () => {
+      const filePath = writeFile('render.ts', code);
+
+      const context = await analyzer.analyzeFileAt(filePath, { line: 2, column: 1 });
+
+      expect(context.scope.id).toBe('global');
+      expect(context.visibleSymbols.find(symbol => symbol.name === 'prefix')!.scope).toBe('global');
+    });
+
+    it('should resolve scopes in Python files', async () => {
+      const filePath = writeFile('tool.py', 'def run(task):\n    result = task()\n    return result\n');
+
+      const context = await analyzer.analyzeFileAt(filePath, { line: 3, column: 5 });
+
+      expect(context.scope.id).toBe('global.run');
+      expect(context.visibleSymbols.map(symbol => symbol.name)).toEqual(expect.arrayContaining(['task', 'result', 'run']));
+    });
+  });
+
+  describe('cached analyses', () => {
+    it('should return the tables of the current file or a given path', async () => {
+      const first = writeFile('first.ts', 'function one() {}');
+      const second = writeFile('second.py', 'def two():\n    pass\n');
+
+      await analyzer.analyzeFile(first);
+      await analyzer.analyzeFile(second);
+
+      expect(analyzer.getSymbolTable().symbols.has('global.two')).toBe(true);
+      expect(analyzer.getSymbolTable(first).symbols.has('global.one')).toBe(true);
+      expect(analyzer.getDependencyGraph(first).nodes.some(node => node.id === 'global.one')).toBe(true);
+      expect(analyzer.getSymbolTable(path.join(directory, 'missing.ts')).symbols.size).toBe(0);
+    });
+
+    it('should reuse analyses until the file content changes', async () => {
+      const filePath = writeFile('cached.ts', 'const a = 1;');
+
+      const first = await analyzer.analyzeFile(filePath);
+      expect((await analyzer.analyzeFile(filePath)).symbols).toBe(first.symbols);
+
+      fs.writeFileSync(filePath, 'const b = 2;');
+      const changed = await analyzer.analyzeFile(filePath);
+      expect(changed.symbols).not.toBe(first.symbols);
+      expect(changed.symbols.symbols.has('global.b')).toBe(true);
+      expect(analyzer.getAnalysisCache().getStats()).toMatchObject({ entries: 1, hits: 1 });
+    });
+
+    it('should re-analyze invalidated files', async () => {
+      const filePath = writeFile('cached.ts', 'const a = 1;');
+
+      const first = await analyzer.analyzeFile(filePath);
+      analyzer.invalidateFile(filePath);
+
+      expect(analyzer.getSymbolTable().symbols.size).toBe(0);
+      expect((await analyzer.analyzeFile(filePath)).symbols).not.toBe(first.symbols);
+    });
+
+    it('should not serve tables of files that changed on disk', async () => {
+      const filePath = writeFile('cached.ts', 'function one() {}');
+
+      await analyzer.analyzeFile(filePath);
+      expect(analyzer.getSymbolTable(filePath).symbols.has('global.one')).toBe(true);
+
+      fs.writeFileSync(filePath, 'function two() {}');
+      expect(analyzer.getSymbolTable(filePath).symbols.size).toBe(0);
+      expect(analyzer.getDependencyGraph(filePath).nodes).toEqual([]);
+
+      fs.rmSync(filePath);
+      expect(analyzer.getSymbolTable().symbols.size).toBe(0);
+      expect(analyzer.getAnalysisCache().getStats().entries).toBe(0);
+    });
+
+    it('should reject files of unknown languages', async () => {
+      const filePath = writeFile('notes.txt', 'hello');
+
+      await expect(analyzer.analyzeFile(filePath)).rejects.toThrow(`Cannot detect language for file: ${filePath}`);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ComplexityAnalyzer } from '../../src/context/complexity';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+import { TypeScriptASTParser } from '../../src/context/ast-parser';
+import { PythonParser } from '../../src/context/python-parser';
+import { FileComplexity } from '../../src/interfaces/context';
+
+describe('ComplexityAnalyzer', () => {
+  const analyzer = new ComplexityAnalyzer();
+
+  const summarize = (complexity: FileComplexity) => complexity.functions.map(fn =>
+    `${fn.type} ${fn.scope}.${fn.name} cyclomatic=${fn.cyclomatic} cognitive=${fn.cognitive}`
+  );
+
+  it('should measure TypeScript functions, methods and assigned arrow functions', () => {
+    const code = [
+      'function classify(items: number[], strict: boolean) {',
+      '  let result = 0;',
+      '  for (const item of items) {',
+      '    if (item > 0 && strict) {',
+      '      result++;',
+      '    } else if (item < 0) {',
+      '      result--;',
+      '    } else {',
+      '      continue;',
+      '    }',
+      '  }',
+      '  switch (result) {',
+      "    case 0: return 'none';",
+      "    case 1: return 'one';",
+      "    default: return result > 1 ? 'many' : 'negative';",
+      '  }',
+      '}',
+      'class Loader {',
+      '  load(paths: string[]) {',
+      '    try {',
+      '      return paths.map(p => p ? read(p) : null);',
+      '    } catch (error) {',
+      '      if (error) { throw error; }',
+      '      return [];',
+      '    }',
+      '  }',
+      '  get size(): number { return this.count ?? 0; }',
+      '}',
+      'const search = (grid: number[][]) => {',
+      '  outer: for (const row of grid) {',
+      '    for (const cell of row) {',
+      '      if (cell < 0) continue outer;',
+      '    }',
+      '  }',
+      '  function helper(a: number) { return a || 1; }',
+      '  return helper(0);',
+      '};',
+      'function over(a: string): void;',
+      'function over(a: any) {}',
+      'if (ready) { start(); }'
+    ].join('\n');
+
+    const complexity = analyzer.analyze(new TypeScriptASTParser().parse(code, 'sample.ts'));
+
+    expect(summarize(complexity)).toEqual([
+      'function global.classify cyclomatic=8 cognitive=9',
+      'method global.Loader.load cyclomatic=4 cognitive=5',
+      'method global.Loader.size cyclomatic=2 cognitive=1',
+      'function global.search cyclomatic=4 cognitive=7',
+      'function global.search.helper cyclomatic=2 cognitive=1',
+      'function global.over cyclomatic=1 cognitive=0'
+    ]);
+    expect(complexity.functions[0].range.start.line).toBe(1);
+    expect(complexity.functions[0].range.end.line).toBe(17);
+    expect(complexity.cyclomatic).toBe(17);
+    expect(complexity.cognitive).toBe(24);
+  });
+
+  it('should count only the outermost operator of a logical sequence cognitively', () => {
+    const complexity = analyzer.analyze(new TypeScriptASTParser().parse(
+      'function f(a, b, c, d) { return a && b && c || d ?? false; }',
+      'logic.ts'
+    ));
+
+    expect(summarize(complexity)).toEqual(['function global.f cyclomatic=5 cognitive=3']);
+  });
+
+  it('should measure Python functions and methods', () => {
+    const code = [
+      'def grade(score, bonus=None):',
+      '    if score > 90 and bonus or score > 95:',
+      '        return "A"',
+      '    elif score > 80:',
+      '        return "B"',
+      '    else:',
+      '        if score < 0:',
+      '            raise ValueError(score)',
+      '        return "C"',
+      '',
+      '',
+      'class Report:',
+      '    def summarize(self, rows):',
+      '        try:',
+      '            totals = [r for r in rows if r]',
+      '        except KeyError:',
+      '            return None',
+      '        for total in totals:',
+      '            while total > 0:',
+      '                total -= 1',
+      '        match rows:',
+      '            case 0:',
+      '                return 0',
+      '            case _:',
+      '                return len(rows)',
+      '',
+      '',
+      'key = lambda x: x if x else 0'
+    ].join('\n');
+
+    const complexity = analyzer.analyze(new PythonParser().parse(code, 'report.py'));
+
+    expect(summarize(complexity)).toEqual([
+      'function global.grade cyclomatic=6 cognitive=7',
+      'method global.Report.summarize cyclomatic=7 cognitive=6'
+    ]);
+    expect(complexity.cyclomatic).toBe(13);
+    expect(complexity.cognitive).toBe(15);
+  });
+
+  it('should roll function complexity up into file quality', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'complexity-'));
+    const filePath = path.join(directory, 'flow.ts');
+    fs.writeFileSync(filePath, 'export function pick(a: number, b: number) {\n  return a > b || b < 0 ? a : b;\n}\n');
+
+    try {
+      const context = await new CodeContextAnalyzerImpl().analyzeFile(filePath);
+
+      expect(context.complexity!.functions.map(fn => fn.name)).toEqual(['pick']);
+      expect(context.quality.complexity).toBe(3);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
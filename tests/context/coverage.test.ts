@@ -0,0 +1,191 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CoverageIngestor, detectCoverageFormat, parseCoverageReport } from '../../src/context/coverage';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+
+describe('coverage reports', () => {
+  const base = path.resolve('/project');
+
+  it('should read line and branch counts from Istanbul reports', () => {
+    const report = JSON.stringify({
+      '/project/src/a.ts': {
+        path: '/project/src/a.ts',
+        statementMap: { 0: { start: { line: 1, column: 0 } }, 1: { start: { line: 2, column: 0 } }, 2: { start: { line: 2, column: 9 } } },
+        s: { 0: 3, 1: 0, 2: 1 },
+        branchMap: { 0: { loc: { start: { line: 2, column: 0 } }, locations: [] } },
+        b: { 0: [1, 0] }
+      }
+    });
+
+    expect(detectCoverageFormat('coverage-final.json', report)).toBe('istanbul');
+    expect(parseCoverageReport(report, 'istanbul', base)).toEqual([{
+      filePath: path.resolve('/project/src/a.ts'),
+      lineHits: { 1: 3, 2: 1 },
+      branches: { 2: { covered: 1, total: 2 } }
+    }]);
+  });
+
+  it('should read lcov records relative to the project', () => {
+    const report = [
+      'TN:',
+      'SF:src/a.ts',
+      'DA:1,2',
+      'DA:3,0',
+      'BRDA:3,0,0,1',
+      'BRDA:3,0,1,-',
+      'end_of_record'
+    ].join('\n');
+
+    expect(detectCoverageFormat('lcov.info', report)).toBe('lcov');
+    expect(parseCoverageReport(report, 'lcov', base)).toEqual([{
+      filePath: path.join(base, 'src/a.ts'),
+      lineHits: { 1: 2, 3: 0 },
+      branches: { 3: { covered: 1, total: 2 } }
+    }]);
+  });
+
+  it('should read Cobertura classes relative to their source', () => {
+    const report = [
+      '<?xml version="1.0" ?>',
+      '<coverage line-rate="0.5">',
+      '  <sources><source>/project/lib</source></sources>',
+      '  <packages><package name="pkg"><classes>',
+      '    <class name="models" filename="pkg/models.py">',
+      '      <methods><method name="save"><lines><line number="4" hits="0"/></lines></method></methods>',
+      '      <lines>',
+      '        <line number="1" hits="1"/>',
+      '        <line number="4" hits="0" branch="true" condition-coverage="50% (1/2)"/>',
+      '      </lines>',
+      '    </class>',
+      '  </classes></package></packages>',
+      '</coverage>'
+    ].join('\n');
+
+    expect(detectCoverageFormat('coverage.xml', report)).toBe('cobertura');
+    expect(parseCoverageReport(report, 'cobertura', base)).toEqual([{
+      filePath: path.resolve('/project/lib/pkg/models.py'),
+      lineHits: { 1: 1, 4: 0 },
+      branches: { 4: { covered: 1, total: 2 } }
+    }]);
+  });
+
+  it('should read coverage.py JSON reports', () => {
+    const report = JSON.stringify({
+      meta: { version: '7.4.0', branch_coverage: true },
+      files: {
+        'pkg/models.py': {
+          executed_lines: [1, 2],
+          missing_lines: [5],
+          executed_branches: [[2, 3]],
+          missing_branches: [[2, 5], [5, -1]]
+        }
+      }
+    });
+
+    expect(detectCoverageFormat('coverage.json', report)).toBe('coverage.py');
+    expect(parseCoverageReport(report, 'coverage.py', base)).toEqual([{
+      filePath: path.join(base, 'pkg/models.py'),
+      lineHits: { 1: 1, 2: 1, 5: 0 },
+      branches: { 2: { covered: 1, total: 2 }, 5: { covered: 0, total: 1 } }
+    }]);
+  });
+});
+
+describe('CoverageIngestor', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'coverage-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): void => {
+    const filePath = path.join(directory, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  it('should discover reports above a file and merge them', () => {
+    writeFile('package.json', '{}');
+    writeFile('coverage/lcov.info', 'SF:src/a.ts\nDA:1,0\nDA:2,1\nend_of_record\n');
+    writeFile('coverage.json', JSON.stringify({ meta: {}, files: { 'src/a.ts': { executed_lines: [1], missing_lines: [3] } } }));
+
+    const coverage = new CoverageIngestor().getFileCoverage(path.join(directory, 'src/a.ts'));
+
+    expect(coverage!.lineHits).toEqual({ 1: 1, 2: 1, 3: 0 });
+  });
+
+  it('should re-read reports that changed and stop at the project root', () => {
+    writeFile('coverage.json', JSON.stringify({ meta: {}, files: { 'lib/util.ts': { executed_lines: [1] } } }));
+    writeFile('lib/package.json', '{}');
+    writeFile('app/package.json', '{}');
+    writeFile('app/lcov.info', 'SF:main.ts\nDA:1,0\nend_of_record\n');
+
+    const ingestor = new CoverageIngestor();
+    const file = path.join(directory, 'app', 'main.ts');
+    expect(ingestor.getFileCoverage(file)!.lineHits).toEqual({ 1: 0 });
+    expect(ingestor.getFileCoverage(path.join(directory, 'lib', 'util.ts'))).toBeUndefined();
+
+    writeFile('app/lcov.info', 'SF:main.ts\nDA:1,4\nend_of_record\n');
+    const later = new Date(Date.now() + 5000);
+    fs.utimesSync(path.join(directory, 'app/lcov.info'), later, later);
+
+    expect(ingestor.getFileCoverage(file)!.lineHits).toEqual({ 1: 4 });
+  });
+
+  it('should warn about unreadable reports', () => {
+    writeFile('coverage.xml', '<report/>');
+
+    expect(new CoverageIngestor().load(directory)).toEqual([]);
+    expect(console.warn).toHaveBeenCalledWith('Error reading coverage report:', expect.any(Error));
+  });
+
+  it('should map coverage onto the analysis of files and symbols', async () => {
+    writeFile('package.json', '{}');
+    writeFile('src/cart.ts', [
+      'export class Cart {',
+      '  total(items: number[]) {',
+      '    if (items.length === 0) {',
+      '      return 0;',
+      '    }',
+      '    return items.reduce((a, b) => a + b, 0);',
+      '  }',
+      '}',
+      'export function empty() {',
+      '  return new Cart();',
+      '}'
+    ].join('\n'));
+    writeFile('coverage/lcov.info', [
+      'SF:src/cart.ts',
+      'DA:3,2',
+      'DA:4,0',
+      'DA:6,2',
+      'DA:10,0',
+      'BRDA:3,0,0,0',
+      'BRDA:3,0,1,2',
+      'end_of_record'
+    ].join('\n'));
+
+    const analyzer = new CodeContextAnalyzerImpl();
+    const context = await analyzer.analyzeFile(path.join(directory, 'src/cart.ts'));
+
+    expect(context.quality.testCoverage).toBe(50);
+    expect(context.coverage!.branches).toEqual({ covered: 1, total: 2 });
+    expect(context.coverage!.symbols.map(symbol => [symbol.scope, symbol.name, symbol.lines.covered, symbol.lines.total])).toEqual([
+      ['global', 'Cart', 2, 3],
+      ['global.Cart', 'total', 2, 3],
+      ['global', 'empty', 0, 1]
+    ]);
+
+    fs.rmSync(path.join(directory, 'coverage'), { recursive: true });
+    const cached = await analyzer.analyzeFile(path.join(directory, 'src/cart.ts'));
+    expect(cached.coverage).toBeUndefined();
+    expect(cached.quality.testCoverage).toBe(0);
+    expect(context.coverage).toBeDefined();
+    expect(context.quality.testCoverage).toBe(50);
+  });
+});
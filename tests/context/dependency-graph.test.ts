@@ -0,0 +1,98 @@
+import { SymbolAnalyzer } from '../../src/context/symbol-analyzer';
+import { TypeScriptASTParser } from '../../src/context/ast-parser';
+import { PythonParser } from '../../src/context/python-parser';
+import { DependencyGraph } from '../../src/interfaces/context';
+
+function edgesOf(graph: DependencyGraph, type: string): string[] {
+  return graph.edges.filter(edge => edge.type === type).map(edge => `${edge.from} -> ${edge.to}`);
+}
+
+describe('FileDependencyExtractor', () => {
+  const analyzer = new SymbolAnalyzer();
+
+  const buildGraph = (code: string, language: string, filePath: string): DependencyGraph => {
+    const ast = language === 'python'
+      ? new PythonParser().parse(code, filePath)
+      : new TypeScriptASTParser().parse(code, filePath);
+    return analyzer.buildDependencyGraph(analyzer.analyzeSymbols(ast, language), ast);
+  };
+
+  it('should record TypeScript imports, calls, inheritance and type references', () => {
+    const code = [
+      'import Base, { Shape as S } from "./shapes";',
+      'import * as util from "./util";',
+      'const fs = require("fs");',
+      'export interface Named { name: string; }',
+      'export class Square extends Base implements S, Named {',
+      '  area(): number { return this.side() * util.square(2); }',
+      '  side(): number { return helper(); }',
+      '}',
+      'function helper(): number { return new Square().area(); }',
+      'let shape: S<Named> = make();'
+    ].join('\n');
+    const graph = buildGraph(code, 'typescript', 'square.ts');
+
+    expect(edgesOf(graph, 'imports')).toEqual([
+      'square.ts -> ./shapes',
+      'square.ts -> ./util',
+      'square.ts -> fs'
+    ]);
+    expect(edgesOf(graph, 'extends')).toEqual(['global.Square -> ./shapes#default']);
+    expect(edgesOf(graph, 'implements')).toEqual(['global.Square -> ./shapes#Shape', 'global.Square -> global.Named']);
+    expect(edgesOf(graph, 'calls')).toEqual([
+      'global.Square.area -> global.Square.side',
+      'global.Square.area -> ./util#square',
+      'global.Square.side -> global.helper',
+      'global.helper -> global.Square'
+    ]);
+    expect(edgesOf(graph, 'references')).toEqual(['square.ts -> ./shapes#Shape']);
+    expect(graph.nodes.find(node => node.id === './util#square')).toEqual({ id: './util#square', name: 'square', type: 'import' });
+  });
+
+  it('should record Python imports, calls, bases and annotations', () => {
+    const code = [
+      'import os.path',
+      'from .models import Model as M, Field',
+      'class User(M):',
+      '    def save(self, field: Field) -> "Result":',
+      '        self.validate()',
+      '        os.path.join("a", "b")',
+      '        os.getcwd()',
+      '    def validate(self):',
+      '        pass'
+    ].join('\n');
+    const graph = buildGraph(code, 'python', 'user.py');
+
+    expect(edgesOf(graph, 'imports')).toEqual(['user.py -> os.path', 'user.py -> .models']);
+    expect(edgesOf(graph, 'extends')).toEqual(['global.User -> .models#Model']);
+    expect(edgesOf(graph, 'calls')).toEqual([
+      'global.User.save -> global.User.validate',
+      'global.User.save -> os.path#join',
+      'global.User.save -> os#getcwd'
+    ]);
+    expect(edgesOf(graph, 'references')).toEqual(['global.User.save -> .models#Field']);
+  });
+
+  it('should not make a file depend on its own declarations', () => {
+    const code = [
+      'import { draw } from "./canvas";',
+      'class Circle { render() { draw(); } }',
+      'const circle = new Circle();',
+      'circle.render();',
+      'draw();'
+    ].join('\n');
+    const graph = buildGraph(code, 'typescript', 'main.tsx');
+
+    expect(edgesOf(graph, 'calls')).toEqual([
+      'global.Circle.render -> ./canvas#draw',
+      'main.tsx -> ./canvas#draw'
+    ]);
+  });
+
+  it('should not link names shadowed by local variables', () => {
+    const code = 'import { parse } from "./parse";\nfunction run() { const parse = () => 1; return parse(); }';
+    const graph = buildGraph(code, 'typescript', 'run.ts');
+
+    expect(edgesOf(graph, 'calls')).toEqual([]);
+  });
+});
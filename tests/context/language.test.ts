@@ -0,0 +1,49 @@
+import * as ts from 'typescript';
+import { detectLanguage, getScriptKind, isCodeFile, isDeclarationFile, CODE_FILE_EXTENSIONS } from '../../src/context/language';
+
+describe('language detection', () => {
+  it('should map every supported extension to a language', () => {
+    expect(detectLanguage('src/app.ts')).toBe('typescript');
+    expect(detectLanguage('src/App.TSX')).toBe('typescript');
+    expect(detectLanguage('src/module.mts')).toBe('typescript');
+    expect(detectLanguage('src/module.cts')).toBe('typescript');
+    expect(detectLanguage('types/index.d.ts')).toBe('typescript');
+    expect(detectLanguage('src/app.js')).toBe('javascript');
+    expect(detectLanguage('src/App.jsx')).toBe('javascript');
+    expect(detectLanguage('src/module.mjs')).toBe('javascript');
+    expect(detectLanguage('src/module.cjs')).toBe('javascript');
+    expect(detectLanguage('pkg/main.py')).toBe('python');
+    expect(detectLanguage('pkg/stubs.pyi')).toBe('python');
+  });
+
+  it('should return null for unsupported files', () => {
+    expect(detectLanguage('README.md')).toBeNull();
+    expect(detectLanguage('Makefile')).toBeNull();
+    expect(isCodeFile('package.json')).toBe(false);
+  });
+
+  it('should treat every detectable extension as a code file', () => {
+    CODE_FILE_EXTENSIONS.forEach(extension => {
+      expect(isCodeFile(`file${extension}`)).toBe(true);
+    });
+  });
+
+  it('should recognize declaration files', () => {
+    expect(isDeclarationFile('index.d.ts')).toBe(true);
+    expect(isDeclarationFile('index.d.mts')).toBe(true);
+    expect(isDeclarationFile('index.d.cts')).toBe(true);
+    expect(isDeclarationFile('index.ts')).toBe(false);
+    expect(isDeclarationFile('build.d.js')).toBe(false);
+  });
+
+  it('should select script kinds that match the compiler', () => {
+    expect(getScriptKind('a.ts')).toBe(ts.ScriptKind.TS);
+    expect(getScriptKind('a.d.ts')).toBe(ts.ScriptKind.TS);
+    expect(getScriptKind('a.tsx')).toBe(ts.ScriptKind.TSX);
+    expect(getScriptKind('a.jsx')).toBe(ts.ScriptKind.JSX);
+    expect(getScriptKind('a.mjs')).toBe(ts.ScriptKind.JS);
+    expect(getScriptKind('a.cjs')).toBe(ts.ScriptKind.JS);
+    expect(getScriptKind('temp', 'javascript')).toBe(ts.ScriptKind.JS);
+    expect(getScriptKind('temp')).toBe(ts.ScriptKind.TS);
+  });
+});
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MaintainabilityAnalyzer, maintainabilityIndex } from '../../src/context/maintainability';
+import { ComplexityAnalyzer } from '../../src/context/complexity';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+import { TypeScriptASTParser } from '../../src/context/ast-parser';
+import { PythonParser } from '../../src/context/python-parser';
+import { AbstractSyntaxTree } from '../../src/interfaces/context';
+
+describe('MaintainabilityAnalyzer', () => {
+  const analyzer = new MaintainabilityAnalyzer();
+
+  const analyze = (ast: AbstractSyntaxTree, code: string) =>
+    analyzer.analyze(ast, code, new ComplexityAnalyzer().analyze(ast));
+
+  it('should count TypeScript operators, operands and lines', () => {
+    const code = [
+      '// Adds two numbers',
+      'function add(a: number, b: number) {',
+      '  /* sum */',
+      '  return a + b;',
+      '}',
+      ''
+    ].join('\n');
+
+    const result = analyze(new TypeScriptASTParser().parse(code, 'add.ts'), code);
+
+    expect(result.lines).toEqual({ total: 5, source: 3, comment: 2, blank: 0 });
+    expect(result.halstead).toEqual({
+      distinctOperators: 5,
+      distinctOperands: 3,
+      totalOperators: 7,
+      totalOperands: 5,
+      vocabulary: 8,
+      length: 12,
+      volume: 36,
+      difficulty: 4.17,
+      effort: 150
+    });
+    expect(result.index).toBe(78.56);
+    expect(result.functions.map(fn => [fn.name, fn.lines, fn.index])).toEqual([
+      ['add', { total: 4, source: 3, comment: 1, blank: 0 }, 78.56]
+    ]);
+  });
+
+  it('should count Python operators by their operator', () => {
+    const code = [
+      'def clamp(x, low=0):',
+      '    # keep it small',
+      '    return x if x > low and x < 10 else low'
+    ].join('\n');
+
+    const [clamp] = analyze(new PythonParser().parse(code, 'clamp.py'), code).functions;
+
+    expect(clamp.lines).toEqual({ total: 3, source: 2, comment: 1, blank: 0 });
+    expect(clamp.halstead).toMatchObject({
+      distinctOperators: 7,
+      distinctOperands: 5,
+      totalOperators: 8,
+      totalOperands: 10,
+      volume: 64.53,
+      difficulty: 7,
+      effort: 451.71
+    });
+  });
+
+  it('should keep the index finite and in range for empty and large inputs', () => {
+    expect(analyze(new TypeScriptASTParser().parse('', 'empty.ts'), '').index).toBe(99.87);
+    expect(maintainabilityIndex(0, 1, 0)).toBe(99.87);
+    expect(maintainabilityIndex(1e9, 500, 1e6)).toBe(0);
+  });
+
+  it('should report maintainability through the file quality', async () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'maintainability-'));
+    const filePath = path.join(directory, 'add.ts');
+    fs.writeFileSync(filePath, 'export function add(a: number, b: number) {\n  return a + b;\n}\n');
+
+    try {
+      const context = await new CodeContextAnalyzerImpl().analyzeFile(filePath);
+
+      expect(context.maintainability!.lines.source).toBe(3);
+      expect(context.quality.maintainability).toBe(context.maintainability!.index);
+      expect(context.quality.maintainability).toBeGreaterThan(0);
+      expect(context.quality.maintainability).toBeLessThan(100);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
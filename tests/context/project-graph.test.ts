@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ProjectDependencyGraph, ProjectDependencyGraphBuilder, collectCodeFiles } from '../../src/context/project-graph';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+
+describe('ProjectDependencyGraphBuilder', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'project-graph-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): void => {
+    const filePath = path.join(directory, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const ids = (nodes: Array<{ id: string }>): string[] => nodes.map(node => node.id).sort();
+
+  describe('TypeScript projects', () => {
+    beforeEach(() => {
+      writeFile('tsconfig.json', JSON.stringify({
+        compilerOptions: { baseUrl: '.', paths: { '@core/*': ['src/core/*'] } }
+      }));
+      writeFile('src/core/store.ts', [
+        'export interface Entry { key: string; }',
+        'export class Store {',
+        '  get(key: string): Entry | undefined { return undefined; }',
+        '}'
+      ].join('\n'));
+      writeFile('src/cache.ts', [
+        'import { Store, Entry } from "@core/store";',
+        'import { EventEmitter } from "events";',
+        'export class Cache extends Store {',
+        '  lookup(key: string): Entry | undefined { return this.get(key); }',
+        '}'
+      ].join('\n'));
+      writeFile('src/app.ts', [
+        'import { Cache } from "./cache";',
+        'export function start() { return new Cache().lookup("a"); }'
+      ].join('\n'));
+      writeFile('node_modules/events/index.js', 'module.exports = {};');
+    });
+
+    it('should resolve specifiers through tsconfig paths and node resolution', async () => {
+      const graph = await new ProjectDependencyGraphBuilder().build(directory);
+
+      expect(collectCodeFiles(directory)).toEqual([
+        path.join('src', 'app.ts'),
+        path.join('src', 'cache.ts'),
+        path.join('src', 'core', 'store.ts')
+      ]);
+      expect(graph.getEdges('src/cache.ts', 'outgoing').map(edge => edge.to)).toEqual(['src/core/store.ts', 'module:events']);
+      expect(graph.getNode('module:events')).toEqual({ id: 'module:events', name: 'events', type: 'module' });
+    });
+
+    it('should link declarations across files', async () => {
+      const graph = await new ProjectDependencyGraphBuilder().build(directory);
+
+      expect(graph.getEdges('src/cache.ts#global.Cache', 'outgoing')).toEqual([
+        { from: 'src/cache.ts#global.Cache', to: 'src/core/store.ts#global.Store', type: 'extends' }
+      ]);
+      expect(graph.getEdges('src/cache.ts#global.Cache.lookup', 'outgoing').map(edge => edge.to)).toEqual([
+        'src/core/store.ts#global.Entry'
+      ]);
+      expect(graph.getEdges('src/app.ts#global.start', 'outgoing').map(edge => `${edge.type} ${edge.to}`)).toEqual([
+        'calls src/cache.ts#global.Cache'
+      ]);
+    });
+
+    it('should answer what depends on a file or declaration', async () => {
+      const graph = await new ProjectDependencyGraphBuilder().build(directory);
+
+      expect(ids(graph.getDependents('src/core/store.ts#global.Store'))).toEqual(['src/cache.ts#global.Cache']);
+      expect(ids(graph.getDependents('src/core/store.ts'))).toEqual([
+        'src/cache.ts',
+        'src/cache.ts#global.Cache',
+        'src/cache.ts#global.Cache.lookup'
+      ]);
+      expect(ids(graph.getDependents('src/core/store.ts#global.Store', true))).toEqual([
+        'src/app.ts#global.start',
+        'src/cache.ts#global.Cache'
+      ]);
+      expect(ids(graph.getDependencies('src/app.ts'))).toEqual(['src/cache.ts', 'src/cache.ts#global.Cache']);
+    });
+
+    it('should expose the project graph through CodeContextAnalyzerImpl', async () => {
+      const analyzer = new CodeContextAnalyzerImpl();
+      await analyzer.analyzeProject(directory);
+
+      expect(analyzer.getDependencyGraph().edges.length).toBeGreaterThan(0);
+      expect(ids(analyzer.getDependents('src/cache.ts'))).toEqual(['src/app.ts', 'src/app.ts#global.start']);
+    });
+  });
+
+  it('should resolve relative, absolute and submodule Python imports', async () => {
+    writeFile('pkg/__init__.py', '');
+    writeFile('pkg/models.py', 'class Model:\n    pass\n');
+    writeFile('pkg/helpers.py', 'def slug(text):\n    return text\n');
+    writeFile('pkg/views.py', [
+      'from .models import Model',
+      'from . import helpers',
+      'import pkg.helpers as h',
+      'import json',
+      'class View(Model):',
+      '    def render(self):',
+      '        return helpers.slug(json.dumps(h.slug("x")))'
+    ].join('\n'));
+
+    const graph = await new ProjectDependencyGraphBuilder().build(directory);
+
+    expect(graph.getEdges('pkg/views.py', 'outgoing').map(edge => edge.to)).toEqual([
+      'pkg/models.py',
+      'pkg/__init__.py',
+      'pkg/helpers.py',
+      'module:json'
+    ]);
+    expect(graph.getEdges('pkg/views.py#global.View', 'outgoing')).toEqual([
+      { from: 'pkg/views.py#global.View', to: 'pkg/models.py#global.Model', type: 'extends' }
+    ]);
+    expect(graph.getEdges('pkg/views.py#global.View.render', 'outgoing').map(edge => edge.to)).toEqual([
+      'pkg/helpers.py#global.slug',
+      'module:json'
+    ]);
+  });
+
+  it('should return nothing for unknown nodes', () => {
+    const graph = new ProjectDependencyGraph([], []);
+
+    expect(graph.getDependents('missing')).toEqual([]);
+    expect(graph.getNode('missing')).toBeUndefined();
+  });
+});
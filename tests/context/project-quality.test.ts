@@ -0,0 +1,182 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FileAnalysisPool, ProjectQualityAnalyzer, aggregateQuality, mapWithConcurrency, measureFileQuality } from '../../src/context/project-quality';
+import { CodeContextAnalyzerImpl, ProjectAnalyzer } from '../../src/context/analyzer';
+import { CodeContext } from '../../src/interfaces/context';
+import { QualityMetrics } from '../../src/interfaces/common';
+
+describe('ProjectQualityAnalyzer', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'project-quality-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): void => {
+    const filePath = path.join(directory, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  const stubAnalyzer = (metrics: Record<string, QualityMetrics>) => ({
+    analyzeFile: async (filePath: string): Promise<CodeContext> => {
+      const quality = metrics[path.relative(directory, filePath).split(path.sep).join('/')];
+      if (!quality) throw new Error(`Unexpected file: ${filePath}`);
+      return { quality } as CodeContext;
+    }
+  });
+
+  it('should run tasks with bounded concurrency in item order', async () => {
+    let running = 0;
+    let peak = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 0, 5], 2, async delay => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      running--;
+      return delay * 2;
+    });
+
+    expect(results).toEqual([60, 20, 40, 0, 10]);
+    expect(peak).toBe(2);
+  });
+
+  it('should aggregate overall, per-directory and per-file quality', async () => {
+    writeFile('src/a.ts', 'a\nb\nc\n');
+    writeFile('src/core/b.ts', 'a\n\nb\n');
+    writeFile('main.py', 'a\n');
+    writeFile('src/types.d.ts', 'declare const a: number;\n');
+
+    const analyzer = new ProjectQualityAnalyzer(stubAnalyzer({
+      'main.py': { complexity: 2, maintainability: 90, testCoverage: 0, codeSmells: 0 },
+      'src/a.ts': { complexity: 4, maintainability: 70, testCoverage: 60, codeSmells: 1 },
+      'src/core/b.ts': { complexity: 6, maintainability: 80, testCoverage: 30, codeSmells: 2 }
+    }));
+    const report = await analyzer.analyze(directory);
+
+    expect(report.files.map(file => `${file.path}:${file.linesOfCode}`)).toEqual(['main.py:1', 'src/a.ts:3', 'src/core/b.ts:2']);
+    expect(report.overall).toEqual({ complexity: 4, maintainability: 76.67, testCoverage: 40, codeSmells: 3 });
+    expect(report.directories).toEqual([
+      { path: 'src', files: 2, linesOfCode: 5, metrics: { complexity: 5, maintainability: 74, testCoverage: 48, codeSmells: 3 } },
+      { path: 'src/core', files: 1, linesOfCode: 2, metrics: { complexity: 6, maintainability: 80, testCoverage: 30, codeSmells: 2 } }
+    ]);
+  });
+
+  it('should rank hotspots by how far they are past the thresholds', async () => {
+    writeFile('calm.ts', 'a\n');
+    writeFile('tangled.ts', 'a\n');
+    writeFile('smelly.ts', 'a\n');
+
+    const analyzer = new ProjectQualityAnalyzer(stubAnalyzer({
+      'calm.ts': { complexity: 3, maintainability: 95, testCoverage: 0, codeSmells: 0 },
+      'smelly.ts': { complexity: 5, maintainability: 90, testCoverage: 0, codeSmells: 1 },
+      'tangled.ts': { complexity: 30, maintainability: 15, testCoverage: 0, codeSmells: 0 }
+    }), { hotspotLimit: 5 });
+    const { hotspots } = await analyzer.analyze(directory);
+
+    expect(hotspots.map(hotspot => [hotspot.path, hotspot.score, hotspot.reasons])).toEqual([
+      ['tangled.ts', 4.06, ['high complexity', 'low maintainability']],
+      ['smelly.ts', 1.63, ['code smells']]
+    ]);
+  });
+
+  it('should flag maintainability on the 0-100 index scale', async () => {
+    writeFile('fair.ts', 'a\n');
+    writeFile('poor.ts', 'a\n');
+    const metrics = {
+      'fair.ts': { complexity: 1, maintainability: 45, testCoverage: 0, codeSmells: 0 },
+      'poor.ts': { complexity: 1, maintainability: 12, testCoverage: 0, codeSmells: 0 }
+    };
+
+    const byDefault = await new ProjectQualityAnalyzer(stubAnalyzer(metrics)).analyze(directory);
+    const strict = await new ProjectQualityAnalyzer(stubAnalyzer(metrics), { maintainabilityThreshold: 50 }).analyze(directory);
+
+    expect(byDefault.hotspots.map(hotspot => hotspot.path)).toEqual(['poor.ts']);
+    expect(strict.hotspots.map(hotspot => hotspot.path)).toEqual(['poor.ts', 'fair.ts']);
+  });
+
+  it('should skip files that fail to analyze', async () => {
+    writeFile('good.ts', 'a\n');
+    writeFile('bad.ts', 'a\n');
+
+    const report = await new ProjectQualityAnalyzer(stubAnalyzer({
+      'good.ts': { complexity: 2, maintainability: 80, testCoverage: 0, codeSmells: 0 }
+    })).analyze(directory);
+
+    expect(report.files.map(file => file.path)).toEqual(['good.ts']);
+    expect(console.warn).toHaveBeenCalledWith('Error analyzing file quality:', expect.any(Error));
+  });
+
+  it('should report neutral metrics for projects without code', async () => {
+    expect(aggregateQuality([])).toEqual({ complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 });
+    expect((await new ProjectAnalyzer().analyzeProject(directory)).qualityMetrics.complexity).toBe(1);
+  });
+
+  it('should count repeated code, not repeated node types, as code smells', async () => {
+    const loop = (name: string) => [
+      `export function ${name}(items: number[]) {`,
+      '  let total = 0;',
+      '  for (const item of items) {',
+      '    if (item > 0) { total += item * 2; } else { total -= item; }',
+      '  }',
+      '  return total;',
+      '}'
+    ].join('\n');
+    writeFile('copied.ts', `${loop('sumA')}\n${loop('sumB')}\n`);
+    writeFile('varied.ts', 'const a = 1;\nconst b = 2;\nconst c = 3;\nconst d = 4;\nconst e = a + b + c + d;\n');
+
+    const analyzer = new CodeContextAnalyzerImpl();
+    const copied = await analyzer.analyzeFile(path.join(directory, 'copied.ts'));
+    const varied = await analyzer.analyzeFile(path.join(directory, 'varied.ts'));
+
+    expect(copied.quality.codeSmells).toBe(1);
+    expect(varied.quality.codeSmells).toBe(0);
+  });
+
+  it('should aggregate real analyses through CodeContextAnalyzerImpl', async () => {
+    writeFile('src/flow.ts', [
+      'export function pick(a: number, b: number) {',
+      '  if (a > b) { return a; }',
+      '  for (let i = 0; i < b; i++) { a += i; }',
+      '  return a > 0 ? a : b;',
+      '}'
+    ].join('\n'));
+    writeFile('src/plain.ts', 'export const value = 1;\n');
+
+    const analyzer = new CodeContextAnalyzerImpl();
+    await analyzer.analyzeFile(path.join(directory, 'src/plain.ts'));
+    const context = await analyzer.analyzeProject(directory);
+
+    expect(context.qualityReport!.files.map(file => [file.path, file.metrics.complexity])).toEqual([
+      ['src/flow.ts', 4],
+      ['src/plain.ts', 1]
+    ]);
+    expect(context.qualityMetrics.complexity).toBe(2.5);
+    expect(analyzer.getAnalysisCache().getStats().entries).toBe(1);
+    expect(Array.from(analyzer.getSymbolTable().symbols.keys())).toEqual(['global.value']);
+  });
+
+  it('should measure files in worker threads like on the calling thread', async () => {
+    writeFile('flow.ts', 'export function pick(a: number, b: number) {\n  return a > b ? a : b;\n}\n');
+    writeFile('tool.py', 'def run(task):\n    if task:\n        return task()\n');
+    writeFile('broken.txt', 'not code');
+    const files = ['flow.ts', 'tool.py'].map(file => path.join(directory, file));
+
+    const pool = new FileAnalysisPool(2);
+    try {
+      const measured = await Promise.all(files.map(file => pool.analyze(file)));
+      const local = await Promise.all(files.map(file => measureFileQuality(new CodeContextAnalyzerImpl(), file)));
+
+      expect(measured).toEqual(local);
+      await expect(pool.analyze(path.join(directory, 'broken.txt'))).rejects.toThrow('Cannot detect language for file');
+    } finally {
+      await pool.close();
+    }
+  });
+});
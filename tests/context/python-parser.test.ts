@@ -0,0 +1,235 @@
+import { PythonParser, tokenizePython } from '../../src/context/python-parser';
+import { SymbolAnalyzer } from '../../src/context/symbol-analyzer';
+import { AbstractSyntaxTree } from '../../src/interfaces/context';
+
+function findAll(node: AbstractSyntaxTree, type: string): AbstractSyntaxTree[] {
+  const found = node.type === type ? [node] : [];
+  return found.concat(...node.children.map(child => findAll(child, type)));
+}
+
+describe('tokenizePython', () => {
+  it('should produce indentation tokens for nested blocks', () => {
+    const { tokens } = tokenizePython('if x:\n    y = 1\nz = 2\n');
+    const types = tokens.map(token => token.type);
+
+    expect(types).toEqual([
+      'NAME', 'NAME', 'OP', 'NEWLINE',
+      'INDENT', 'NAME', 'OP', 'NUMBER', 'NEWLINE',
+      'DEDENT', 'NAME', 'OP', 'NUMBER', 'NEWLINE',
+      'ENDMARKER'
+    ]);
+  });
+
+  it('should join lines inside brackets and after backslashes', () => {
+    const { tokens } = tokenizePython('total = (1 +\n    2) + \\\n    3\n');
+
+    expect(tokens.filter(token => token.type === 'NEWLINE')).toHaveLength(1);
+    expect(tokens.some(token => token.type === 'INDENT')).toBe(false);
+  });
+
+  it('should read prefixed and triple-quoted strings as single tokens', () => {
+    const { tokens } = tokenizePython('a = f"{x!r}"\nb = rb\'\\d\'\nc = """one\n"two"\nthree"""\n');
+    const strings = tokens.filter(token => token.type === 'STRING');
+
+    expect(strings.map(token => token.value)).toEqual(['f"{x!r}"', "rb'\\d'", '"""one\n"two"\nthree"""']);
+    expect(strings[2].start.line).toBe(3);
+    expect(strings[2].end.line).toBe(5);
+  });
+
+  it('should collect comments and ignore comment-only lines for indentation', () => {
+    const { tokens, comments } = tokenizePython('def f():\n# note\n    return 1  # trailing\n');
+
+    expect(comments.map(comment => comment.text)).toEqual(['# note', '# trailing']);
+    expect(tokens.filter(token => token.type === 'INDENT')).toHaveLength(1);
+  });
+
+  it('should report unterminated strings without throwing', () => {
+    const { tokens, errors } = tokenizePython('x = "open\ny = 1\n');
+
+    expect(errors[0].message).toContain('unterminated string');
+    expect(errors[0].location.line).toBe(1);
+    expect(tokens.some(token => token.type === 'ERRORTOKEN')).toBe(true);
+  });
+});
+
+describe('PythonParser', () => {
+  let parser: PythonParser;
+
+  beforeEach(() => {
+    parser = new PythonParser();
+  });
+
+  it('should emit start and end locations for definitions', () => {
+    const ast = parser.parse('\nclass Greeter(Base, metaclass=Meta):\n    def greet(self, name: str = "x") -> str:\n        return name\n', 'greeter.py');
+    const classDef = ast.children[0];
+    const method = classDef.children.find(child => child.type === 'FunctionDef')!;
+
+    expect(classDef.metadata.start).toEqual({ line: 2, column: 1, file: 'greeter.py' });
+    expect(classDef.metadata.end).toEqual({ line: 4, column: 20, file: 'greeter.py' });
+    expect(classDef.metadata.bases).toEqual(['Base']);
+    expect(method.metadata.start).toEqual({ line: 3, column: 5, file: 'greeter.py' });
+    expect(method.metadata.parameters).toEqual(['self', 'name']);
+    expect(method.metadata.returns).toBe('str');
+  });
+
+  it('should parse decorators and async definitions', () => {
+    const ast = parser.parse('@app.route("/")\n@cached\nasync def handler(*args, **kwargs):\n    await run()\n');
+    const handler = ast.children[0];
+
+    expect(handler.type).toBe('AsyncFunctionDef');
+    expect(handler.metadata.name).toBe('handler');
+    expect(handler.metadata.line).toBe(3);
+    expect(handler.metadata.decorators).toEqual(['app.route("/")', 'cached']);
+    expect(handler.metadata.parameters).toEqual(['args', 'kwargs']);
+    expect(findAll(handler, 'Await')).toHaveLength(1);
+  });
+
+  it('should distinguish import forms through metadata', () => {
+    const ast = parser.parse('import os.path as osp, sys\nfrom ..pkg import (a as b,\n    c)\n');
+    const [plain, from] = ast.children;
+
+    expect(plain.type).toBe('Import');
+    expect(plain.metadata.importKind).toBe('import');
+    expect(plain.metadata.modules).toEqual(['os.path', 'sys']);
+    expect(plain.metadata.names).toEqual([{ name: 'os.path', asname: 'osp' }, { name: 'sys', asname: undefined }]);
+
+    expect(from.type).toBe('Import');
+    expect(from.metadata.importKind).toBe('from');
+    expect(from.metadata.fromModule).toBe('..pkg');
+    expect(from.metadata.level).toBe(2);
+    expect(from.metadata.names).toEqual([{ name: 'a', asname: 'b' }, { name: 'c', asname: undefined }]);
+    expect(from.metadata.module).toBe('from ..pkg import (a as b,\n    c)');
+  });
+
+  it('should nest elif branches as If nodes', () => {
+    const ast = parser.parse('if a:\n    pass\nelif b:\n    pass\nelse:\n    pass\n');
+
+    expect(findAll(ast, 'If')).toHaveLength(2);
+    expect(ast.children).toHaveLength(1);
+  });
+
+  it('should parse compound statements and expressions', () => {
+    const code = [
+      'for i, (k, v) in enumerate(items.items()):',
+      '    while k and not v or i > 2:',
+      '        break',
+      '    else:',
+      '        continue',
+      'try:',
+      '    result = {k: v for k, v in pairs if v}',
+      'except (ValueError, KeyError) as error:',
+      '    raise RuntimeError("bad") from error',
+      'finally:',
+      '    cleanup()',
+      'with open(a) as f, lock:',
+      '    data = [x ** 2 for x in range(10) if x % 2 == 0]',
+      'value = a if b else lambda x, *rest: x[1:-1:2]',
+      'if (n := len(data)) > 10: print(n)',
+      'total += sum(x for x in data)',
+      'count: int = 0',
+      'del data[0], cache'
+    ].join('\n');
+    const ast = parser.parse(code);
+
+    expect(ast.metadata.errors).toEqual([]);
+    expect(ast.children.map(child => child.type)).toEqual([
+      'For', 'Try', 'With', 'Assign', 'If', 'AugAssign', 'AnnAssign', 'Delete'
+    ]);
+    expect(findAll(ast, 'BoolOp').map(node => node.metadata.op)).toEqual(['Or', 'And']);
+    expect(findAll(ast, 'ExceptHandler')[0].metadata.name).toBe('error');
+    expect(findAll(ast, 'DictComp')).toHaveLength(1);
+    expect(findAll(ast, 'ListComp')).toHaveLength(1);
+    expect(findAll(ast, 'GeneratorExp')).toHaveLength(1);
+    expect(findAll(ast, 'IfExp')).toHaveLength(1);
+    expect(findAll(ast, 'Lambda')).toHaveLength(1);
+    expect(findAll(ast, 'Slice')).toHaveLength(1);
+    expect(findAll(ast, 'NamedExpr')).toHaveLength(1);
+    expect(findAll(ast, 'withitem')).toHaveLength(2);
+  });
+
+  it('should parse yield statements in generators', () => {
+    const ast = parser.parse('def numbers():\n    yield 1\n    yield from range(3)\n    received = yield\n');
+
+    expect(ast.metadata.errors).toEqual([]);
+    expect(findAll(ast, 'Yield')).toHaveLength(2);
+    expect(findAll(ast, 'YieldFrom')).toHaveLength(1);
+  });
+
+  it('should treat match as a soft keyword', () => {
+    const code = [
+      'match command:',
+      '    case ["go", direction]:',
+      '        move(direction)',
+      '    case _:',
+      '        pass',
+      'match = re.match(pattern, text)'
+    ].join('\n');
+    const ast = parser.parse(code);
+
+    expect(ast.children.map(child => child.type)).toEqual(['Match', 'Assign']);
+    expect(findAll(ast, 'match_case')).toHaveLength(2);
+  });
+
+  it('should recover from syntax errors and keep parsing', () => {
+    const code = [
+      'def broken(:',
+      '    def inner():',
+      '        pass',
+      '',
+      'x = = 1',
+      'def ok():',
+      '    return 1'
+    ].join('\n');
+    const ast = parser.parse(code, 'broken.py');
+
+    expect(ast.children.map(child => child.type)).toEqual(['Error', 'Error', 'FunctionDef']);
+    expect(ast.metadata.errors.map((error: any) => error.message)).toEqual([
+      "'(' was never closed",
+      "invalid syntax: expected a name, found ':'",
+      "invalid syntax: unexpected '='"
+    ]);
+    expect(ast.metadata.errors[1].location).toEqual({ line: 1, column: 12, file: 'broken.py' });
+    expect(findAll(ast.children[0], 'FunctionDef')[0].metadata.name).toBe('inner');
+    expect(ast.children[2].metadata.name).toBe('ok');
+  });
+
+  it('should report unexpected indentation', () => {
+    const ast = parser.parse('x = 1\n    y = 2\nz = 3\n');
+
+    expect(ast.metadata.errors[0].message).toBe('unexpected indent');
+    expect(findAll(ast, 'Assign')).toHaveLength(3);
+  });
+});
+
+describe('PythonSymbolAnalyzer with parsed Python', () => {
+  it('should record methods, parameters, variables and self attributes', () => {
+    const code = [
+      'from typing import List as L',
+      'class Counter:',
+      '    def __init__(self, start):',
+      '        self.value = start',
+      '        total, *rest = start, 1, 2',
+      'def helper(items):',
+      '    for item in items:',
+      '        pass'
+    ].join('\n');
+    const ast = new PythonParser().parse(code, 'counter.py');
+    const { symbols, scopes } = new SymbolAnalyzer().analyzeSymbols(ast, 'python');
+
+    expect(symbols.get('global.typing')!.type).toBe('import');
+    expect(symbols.get('global.L')!.type).toBe('import');
+
+    const init = symbols.get('global.Counter.__init__')!;
+    expect(init.type).toBe('method');
+    expect(init.location).toEqual({ line: 3, column: 5, file: 'counter.py' });
+
+    expect(symbols.get('global.Counter.value')!.type).toBe('property');
+    expect(symbols.get('global.Counter.__init__.start')!.type).toBe('variable');
+    expect(symbols.get('global.Counter.__init__.total')!.type).toBe('variable');
+    expect(symbols.get('global.Counter.__init__.rest')!.type).toBe('variable');
+    expect(symbols.get('global.helper.item')!.type).toBe('variable');
+    expect(symbols.get('global.helper')!.type).toBe('function');
+
+    expect(scopes.find(scope => scope.id === 'global.Counter.__init__')!.type).toBe('method');
+  });
+});
@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { TypeScriptSemanticAnalyzer } from '../../src/context/semantic-analyzer';
+import { TypeScriptASTParser } from '../../src/context/ast-parser';
+import { SymbolAnalyzer } from '../../src/context/symbol-analyzer';
+import { CodeContextAnalyzerImpl } from '../../src/context/analyzer';
+import { SymbolTable } from '../../src/interfaces/context';
+
+describe('TypeScriptSemanticAnalyzer', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'semantic-'));
+    fs.writeFileSync(path.join(directory, 'tsconfig.json'), JSON.stringify({
+      compilerOptions: { target: 'ES2020', module: 'commonjs', strict: true, lib: ['ES2020'] },
+      include: ['*.ts']
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): string => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, content);
+    return filePath;
+  };
+
+  const analyze = (filePath: string): SymbolTable => {
+    const ast = new TypeScriptASTParser().parse(fs.readFileSync(filePath, 'utf-8'), filePath);
+    return new SymbolAnalyzer().analyzeSymbols(ast, 'typescript');
+  };
+
+  it('should read the project compiler options', () => {
+    const analyzer = new TypeScriptSemanticAnalyzer({ projectPath: directory });
+
+    expect(analyzer.getCompilerOptions().strict).toBe(true);
+    expect(analyzer.getCompilerOptions().noEmit).toBe(true);
+  });
+
+  it('should record signatures, generics and JSDoc of functions', () => {
+    const filePath = writeFile('util.ts', [
+      '/**',
+      ' * Picks the first item.',
+      ' * @param items candidates',
+      ' */',
+      'export function first<T>(items: T[], fallback?: T): T | undefined {',
+      '  return items[0] ?? fallback;',
+      '}'
+    ].join('\n'));
+    const table = analyze(filePath);
+
+    new TypeScriptSemanticAnalyzer({ projectPath: directory }).annotate(table, filePath);
+    const semantic = table.symbols.get('global.first')!.semantic!;
+
+    expect(semantic.typeParameters).toEqual(['T']);
+    expect(semantic.documentation).toBe('Picks the first item.');
+    expect(semantic.jsDocTags).toEqual([{ name: 'param', text: 'items candidates' }]);
+    expect(semantic.signatures).toHaveLength(1);
+    expect(semantic.signatures[0].returnType).toBe('T | undefined');
+    expect(semantic.signatures[0].parameters).toEqual([
+      { name: 'items', type: 'T[]', optional: false },
+      { name: 'fallback', type: 'T | undefined', optional: true }
+    ]);
+    expect(semantic.members).toEqual([]);
+  });
+
+  it('should infer variable types and list their members', () => {
+    const filePath = writeFile('store.ts', [
+      'class Store<V> {',
+      '  /** Number of entries */',
+      '  size = 0;',
+      '  get(key: string): V | undefined { return undefined; }',
+      '}',
+      'const store = new Store<number>();',
+      'const label = "items";'
+    ].join('\n'));
+    const table = analyze(filePath);
+
+    new TypeScriptSemanticAnalyzer({ projectPath: directory }).annotate(table, filePath);
+    const store = table.symbols.get('global.store')!.semantic!;
+    const storeClass = table.symbols.get('global.Store')!.semantic!;
+
+    expect(store.typeString).toBe('Store<number>');
+    expect(store.members).toEqual([
+      { name: 'size', kind: 'property', typeString: 'number', documentation: 'Number of entries' },
+      { name: 'get', kind: 'method', typeString: '(key: string) => number | undefined', documentation: '' }
+    ]);
+    expect(storeClass.typeString).toBe('Store<V>');
+    expect(storeClass.signatures[0].text).toBe('<V>(): Store<V>');
+    expect(table.symbols.get('global.label')!.semantic!.members.some(member => member.name === 'toUpperCase')).toBe(true);
+  });
+
+  it('should type symbols with declarations from other files and use unsaved content', () => {
+    writeFile('shape.ts', 'export interface Shape { area(): number; }');
+    const filePath = writeFile('main.ts', 'import { Shape } from "./shape";\nlet current: Shape;');
+    const analyzer = new TypeScriptSemanticAnalyzer({ projectPath: directory });
+
+    let table = analyze(filePath);
+    analyzer.annotate(table, filePath);
+    expect(table.symbols.get('global.current')!.semantic!.typeString).toBe('Shape');
+    expect(table.symbols.get('global.current')!.semantic!.members.map(member => member.name)).toEqual(['area']);
+
+    const edited = 'import { Shape } from "./shape";\nlet current: Shape | null;';
+    table = new SymbolAnalyzer().analyzeSymbols(new TypeScriptASTParser().parse(edited, filePath), 'typescript');
+    analyzer.annotate(table, filePath, edited);
+    expect(table.symbols.get('global.current')!.semantic!.typeString).toBe('Shape | null');
+  });
+
+  it('should annotate through CodeContextAnalyzerImpl when enabled', async () => {
+    const filePath = writeFile('count.ts', 'export const count = [1, 2].length;');
+
+    const plain = await new CodeContextAnalyzerImpl().analyzeFile(filePath);
+    const semantic = await new CodeContextAnalyzerImpl({}, { projectPath: directory }).analyzeFile(filePath);
+
+    expect(plain.symbols.symbols.get('global.count')!.semantic).toBeUndefined();
+    expect(semantic.symbols.symbols.get('global.count')!.semantic!.typeString).toBe('number');
+  });
+});
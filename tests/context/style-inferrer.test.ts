@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { StyleInferrer, classifyNamingConvention } from '../../src/context/style-inferrer';
+import { ProjectAnalyzer } from '../../src/context/analyzer';
+import { IndentationStyle, NamingConvention } from '../../src/interfaces/common';
+
+describe('StyleInferrer', () => {
+  let directory: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'style-inferrer-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const writeFile = (name: string, content: string): void => {
+    const filePath = path.join(directory, name);
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, content);
+  };
+
+  it('should classify naming conventions', () => {
+    expect(classifyNamingConvention('parseFile')).toBe(NamingConvention.CAMEL_CASE);
+    expect(classifyNamingConvention('_parse_file')).toBe(NamingConvention.SNAKE_CASE);
+    expect(classifyNamingConvention('URLParser')).toBe(NamingConvention.PASCAL_CASE);
+    expect(classifyNamingConvention('parse')).toBeNull();
+    expect(classifyNamingConvention('MAX_SIZE')).toBeNull();
+  });
+
+  it('should infer a TypeScript project style', async () => {
+    writeFile('src/store.ts', [
+      "import * as fs from 'fs';",
+      "import { parse } from 'yaml';",
+      '',
+      "import { Entry } from './entry';",
+      '',
+      'export class EntryStore {',
+      '  private entryCount = 0;',
+      '',
+      '  loadEntries(filePath: string): Entry[] {',
+      "    const rawText = fs.readFileSync(filePath, 'utf-8');",
+      '    if (rawText) {',
+      '      this.entryCount++;',
+      '    }',
+      '    return parse(rawText);',
+      '  }',
+      '}'
+    ].join('\n'));
+    writeFile('src/entry.ts', [
+      'export interface Entry {',
+      '  entryKey: string;',
+      '}',
+      '',
+      'export function makeEntry(entryKey: string): Entry {',
+      '  return { entryKey };',
+      '}',
+      '',
+      'export const defaultKey = "fallback";'
+    ].join('\n'));
+    writeFile('src/types.d.ts', 'declare const SHOUTING_NAME: string\n');
+
+    const profile = await new StyleInferrer().infer(directory);
+
+    expect(profile.indentation).toBe(IndentationStyle.SPACES_2);
+    expect(profile.naming).toBe(NamingConvention.CAMEL_CASE);
+    expect(profile.namingByKind).toMatchObject({
+      class: NamingConvention.PASCAL_CASE,
+      interface: NamingConvention.PASCAL_CASE,
+      method: NamingConvention.CAMEL_CASE
+    });
+    expect(profile.structure).toMatchObject({
+      bracketStyle: 'same-line',
+      importStyle: 'grouped',
+      quoteStyle: 'single',
+      semicolons: true,
+      maxLineLength: 80
+    });
+    expect(profile.structure.lineLengths!.max).toBe(55);
+    expect(profile.patterns).toContainEqual({ pattern: 'single', frequency: 0.8, context: 'quotes' });
+    expect(profile.patterns).toContainEqual({ pattern: 'double', frequency: 0.2, context: 'quotes' });
+    expect(profile.patterns).toContainEqual({ pattern: 'always', frequency: 1, context: 'semicolons' });
+    expect(profile.patterns).toContainEqual({ pattern: 'max-line-length:80', frequency: 1, context: 'line-length' });
+  });
+
+  it('should detect tabs, next-line braces, ASI and mixed imports', async () => {
+    const code = [
+      "import { join } from './paths'",
+      "import * as path from 'path'",
+      'function resolveAll(items)',
+      '{',
+      '\tfor (const item of items)',
+      '\t{',
+      '\t\tpath.resolve(join(item))',
+      '\t}',
+      '}'
+    ].join('\n');
+
+    const measurements = await new StyleInferrer().measure(code, 'resolve.js');
+    const profile = new StyleInferrer().toProfile(measurements);
+
+    expect(profile.indentation).toBe(IndentationStyle.TABS);
+    expect(profile.structure).toMatchObject({
+      bracketStyle: 'next-line',
+      importStyle: 'ungrouped',
+      semicolons: false
+    });
+  });
+
+  it('should infer a Python project style', async () => {
+    writeFile('pkg/models.py', [
+      'import os',
+      'import sys',
+      '',
+      'from .base import BaseModel',
+      '',
+      '',
+      'class UserModel(BaseModel):',
+      '    """A user."""',
+      '',
+      '    def load_user(self, user_id):',
+      '        file_name = os.path.join("users", user_id)',
+      '        if file_name:',
+      '            return open(file_name)',
+      '        return "missing"'
+    ].join('\n'));
+
+    const profile = await new StyleInferrer().infer(directory);
+
+    expect(profile.indentation).toBe(IndentationStyle.SPACES_4);
+    expect(profile.naming).toBe(NamingConvention.SNAKE_CASE);
+    expect(profile.namingByKind!.class).toBe(NamingConvention.PASCAL_CASE);
+    expect(profile.structure).toMatchObject({ quoteStyle: 'double', importStyle: 'grouped' });
+    expect(profile.structure.semicolons).toBeUndefined();
+  });
+
+  it('should sample at most the configured number of files', async () => {
+    for (let i = 0; i < 6; i++) {
+      writeFile(`file${i}.ts`, i % 2 === 0 ? "export const a = 'x';" : 'export const a = "x";');
+    }
+
+    const profile = await new StyleInferrer({ maxFiles: 3 }).infer(directory);
+
+    expect(profile.patterns.filter(pattern => pattern.context === 'quotes')).toEqual([
+      { pattern: 'single', frequency: 1, context: 'quotes' }
+    ]);
+  });
+
+  it('should back ProjectAnalyzer code style with the inferred profile', async () => {
+    writeFile('main.py', 'def run_main():\n\tprint(\'hi\')\n');
+
+    const projectContext = await new ProjectAnalyzer().analyzeProject(directory);
+
+    expect(projectContext.codeStyle.indentation).toBe(IndentationStyle.TABS);
+    expect(projectContext.codeStyle.naming).toBe(NamingConvention.SNAKE_CASE);
+  });
+
+  it('should fall back to the default profile for projects without code', async () => {
+    const profile = await new StyleInferrer().infer(directory);
+
+    expect(profile).toEqual({
+      indentation: IndentationStyle.SPACES_2,
+      naming: NamingConvention.CAMEL_CASE,
+      structure: { maxLineLength: 100, bracketStyle: 'same-line', importStyle: 'grouped' },
+      namingByKind: {},
+      patterns: []
+    });
+  });
+});
@@ -39,17 +39,17 @@ describe('SymbolAnalyzer', () => {
       expect(symbolTable.scopes.length).toBeGreaterThan(0);
 
       // Check for interface
-      const userInterface = symbolTable.symbols.get('User');
+      const userInterface = symbolTable.symbols.get('global.User');
       expect(userInterface).toBeDefined();
       expect(userInterface!.type).toBe('interface');
 
       // Check for class
-      const userServiceClass = symbolTable.symbols.get('UserService');
+      const userServiceClass = symbolTable.symbols.get('global.UserService');
       expect(userServiceClass).toBeDefined();
       expect(userServiceClass!.type).toBe('class');
 
       // Check for function
-      const createUserFunction = symbolTable.symbols.get('createUser');
+      const createUserFunction = symbolTable.symbols.get('global.createUser');
       expect(createUserFunction).toBeDefined();
       expect(createUserFunction!.type).toBe('function');
 
@@ -83,17 +83,17 @@ def main():
       expect(symbolTable.scopes.length).toBeGreaterThan(0);
 
       // Check for imports
-      const osImport = symbolTable.symbols.get('os');
+      const osImport = symbolTable.symbols.get('global.os');
       expect(osImport).toBeDefined();
       expect(osImport!.type).toBe('import');
 
       // Check for class
-      const dataProcessorClass = symbolTable.symbols.get('DataProcessor');
+      const dataProcessorClass = symbolTable.symbols.get('global.DataProcessor');
       expect(dataProcessorClass).toBeDefined();
       expect(dataProcessorClass!.type).toBe('class');
 
       // Check for function
-      const mainFunction = symbolTable.symbols.get('main');
+      const mainFunction = symbolTable.symbols.get('global.main');
       expect(mainFunction).toBeDefined();
       expect(mainFunction!.type).toBe('function');
     });
@@ -157,7 +157,7 @@ describe('TypeScriptSymbolAnalyzer', () => {
     const ast = await astParser.parseCode(code, 'typescript');
     const symbolTable = analyzer.analyze(ast);
 
-    const functionSymbol = symbolTable.symbols.get('calculateSum');
+    const functionSymbol = symbolTable.symbols.get('global.calculateSum');
     expect(functionSymbol).toBeDefined();
     expect(functionSymbol!.type).toBe('function');
     expect(functionSymbol!.scope).toBe('global');
@@ -190,7 +190,7 @@ describe('TypeScriptSymbolAnalyzer', () => {
     const symbolTable = analyzer.analyze(ast);
 
     // Check class symbol
-    const classSymbol = symbolTable.symbols.get('Calculator');
+    const classSymbol = symbolTable.symbols.get('global.Calculator');
     expect(classSymbol).toBeDefined();
     expect(classSymbol!.type).toBe('class');
 
@@ -225,11 +225,11 @@ describe('TypeScriptSymbolAnalyzer', () => {
     const ast = await astParser.parseCode(code, 'typescript');
     const symbolTable = analyzer.analyze(ast);
 
-    const apiResponseInterface = symbolTable.symbols.get('ApiResponse');
+    const apiResponseInterface = symbolTable.symbols.get('global.ApiResponse');
     expect(apiResponseInterface).toBeDefined();
     expect(apiResponseInterface!.type).toBe('interface');
 
-    const userDataInterface = symbolTable.symbols.get('UserData');
+    const userDataInterface = symbolTable.symbols.get('global.UserData');
     expect(userDataInterface).toBeDefined();
     expect(userDataInterface!.type).toBe('interface');
   });
@@ -287,6 +287,27 @@ describe('TypeScriptSymbolAnalyzer', () => {
       expect(functionScope.variables.length).toBeGreaterThan(0);
     }
   });
+
+  it('should analyze declarations inside variable initializers', async () => {
+    const code = [
+      'const g = (x: number) => {',
+      '  const w = x;',
+      '  return { run: function () { const inner = w; return inner; } };',
+      '};',
+      'function over(a: string): void;',
+      'function over(a: any) {}'
+    ].join('\n');
+
+    const ast = await astParser.parseCode(code, 'typescript');
+    const symbolTable = analyzer.analyze(ast);
+
+    expect(symbolTable.scopes.find(scope => scope.id === 'global.g')!.variables).toEqual(['x', 'w']);
+    expect(symbolTable.getDeclarations('inner', 'global.g.function@3:17')).toHaveLength(1);
+    expect(Array.from(symbolTable.symbols.keys())).toEqual([
+      'global.g', 'global.g.x', 'global.g.w', 'global.g.function@3:17.inner', 'global.over', 'global.over.a'
+    ]);
+    expect(symbolTable.getOverloads('over', 'global')).toHaveLength(2);
+  });
 });
 
 describe('PythonSymbolAnalyzer', () => {
@@ -312,11 +333,11 @@ def greet(name):
     const ast = await astParser.parseCode(code, 'python');
     const symbolTable = analyzer.analyze(ast);
 
-    const calculateSumFunction = symbolTable.symbols.get('calculate_sum');
+    const calculateSumFunction = symbolTable.symbols.get('global.calculate_sum');
     expect(calculateSumFunction).toBeDefined();
     expect(calculateSumFunction!.type).toBe('function');
 
-    const greetFunction = symbolTable.symbols.get('greet');
+    const greetFunction = symbolTable.symbols.get('global.greet');
     expect(greetFunction).toBeDefined();
     expect(greetFunction!.type).toBe('function');
 
@@ -344,11 +365,11 @@ class Dog(Animal):
     const ast = await astParser.parseCode(code, 'python');
     const symbolTable = analyzer.analyze(ast);
 
-    const animalClass = symbolTable.symbols.get('Animal');
+    const animalClass = symbolTable.symbols.get('global.Animal');
     expect(animalClass).toBeDefined();
     expect(animalClass!.type).toBe('class');
 
-    const dogClass = symbolTable.symbols.get('Dog');
+    const dogClass = symbolTable.symbols.get('global.Dog');
     expect(dogClass).toBeDefined();
     expect(dogClass!.type).toBe('class');
 
@@ -373,19 +394,19 @@ from collections import defaultdict
     const ast = await astParser.parseCode(code, 'python');
     const symbolTable = analyzer.analyze(ast);
 
-    const osImport = symbolTable.symbols.get('os');
+    const osImport = symbolTable.symbols.get('global.os');
     expect(osImport).toBeDefined();
     expect(osImport!.type).toBe('import');
 
-    const sysImport = symbolTable.symbols.get('sys');
+    const sysImport = symbolTable.symbols.get('global.sys');
     expect(sysImport).toBeDefined();
     expect(sysImport!.type).toBe('import');
 
-    const typingImport = symbolTable.symbols.get('typing');
+    const typingImport = symbolTable.symbols.get('global.typing');
     expect(typingImport).toBeDefined();
     expect(typingImport!.type).toBe('import');
 
-    const collectionsImport = symbolTable.symbols.get('collections');
+    const collectionsImport = symbolTable.symbols.get('global.collections');
     expect(collectionsImport).toBeDefined();
     expect(collectionsImport!.type).toBe('import');
   });
@@ -410,11 +431,11 @@ def main():
     // Should have multiple scopes
     expect(symbolTable.scopes.length).toBeGreaterThan(2);
 
-    const outerClass = symbolTable.symbols.get('OuterClass');
+    const outerClass = symbolTable.symbols.get('global.OuterClass');
     expect(outerClass).toBeDefined();
     expect(outerClass!.type).toBe('class');
 
-    const mainFunction = symbolTable.symbols.get('main');
+    const mainFunction = symbolTable.symbols.get('global.main');
     expect(mainFunction).toBeDefined();
     expect(mainFunction!.type).toBe('function');
 
@@ -438,12 +459,132 @@ def second_function():
     const ast = await astParser.parseCode(code, 'python');
     const symbolTable = analyzer.analyze(ast);
 
-    const firstFunction = symbolTable.symbols.get('first_function');
+    const firstFunction = symbolTable.symbols.get('global.first_function');
     expect(firstFunction).toBeDefined();
     expect(firstFunction!.location.line).toBe(2);
 
-    const secondFunction = symbolTable.symbols.get('second_function');
+    const secondFunction = symbolTable.symbols.get('global.second_function');
     expect(secondFunction).toBeDefined();
     expect(secondFunction!.location.line).toBe(5);
   });
-});
\ No newline at end of file
+});
+describe('SymbolAnalyzer.resolveScopeAt', () => {
+  let analyzer: SymbolAnalyzer;
+  let astParser: MultiLanguageASTParser;
+
+  beforeEach(() => {
+    analyzer = new SymbolAnalyzer();
+    astParser = new MultiLanguageASTParser();
+  });
+
+  const pythonCode = [
+    'import os',
+    'count = 0',
+    '',
+    'class Cache:',
+    '    size = 10',
+    '',
+    '    def get(self, key):',
+    '        count = 1',
+    '        return key',
+    '',
+    'def helper(value):',
+    '    return value'
+  ].join('\n');
+
+  it('should resolve the innermost Python scope and its chain', async () => {
+    const ast = await astParser.parseCode(pythonCode, 'python');
+    const table = analyzer.analyzeSymbols(ast, 'python');
+
+    const resolution = analyzer.resolveScopeAt(table, { line: 9, column: 12 });
+
+    expect(resolution.scope.id).toBe('global.Cache.get');
+    expect(resolution.scopeChain.map(scope => scope.id)).toEqual(['global.Cache.get', 'global.Cache', 'global']);
+  });
+
+  it('should resolve shadowing and hide class members from methods', async () => {
+    const ast = await astParser.parseCode(pythonCode, 'python');
+    const table = analyzer.analyzeSymbols(ast, 'python');
+
+    const inMethod = analyzer.resolveScopeAt(table, { line: 9, column: 12 });
+    const names = inMethod.visibleSymbols.map(symbol => symbol.name);
+    const count = inMethod.visibleSymbols.find(symbol => symbol.name === 'count')!;
+
+    expect(names).toEqual(expect.arrayContaining(['self', 'key', 'count', 'os', 'Cache', 'helper']));
+    expect(names).not.toContain('size');
+    expect(names).not.toContain('value');
+    expect(names.filter(name => name === 'count')).toHaveLength(1);
+    expect(count.scope).toBe('global.Cache.get');
+
+    const inClass = analyzer.resolveScopeAt(table, { line: 5, column: 5 });
+    expect(inClass.scope.id).toBe('global.Cache');
+    expect(inClass.visibleSymbols.map(symbol => symbol.name)).toContain('size');
+  });
+
+  it('should fall back to the global scope outside any definition', async () => {
+    const ast = await astParser.parseCode(pythonCode, 'python');
+    const table = analyzer.analyzeSymbols(ast, 'python');
+
+    const resolution = analyzer.resolveScopeAt(table, { line: 2, column: 1 });
+    expect(resolution.scope.id).toBe('global');
+    expect(resolution.scopeChain).toHaveLength(1);
+    expect(resolution.visibleSymbols.find(symbol => symbol.name === 'count')!.scope).toBe('global');
+  });
+
+  it('should resolve TypeScript method scopes', async () => {
+    const code = [
+      'const limit = 5;',
+      'class Queue {',
+      '  private items: number[] = [];',
+      '  push(item: number) {',
+      '    const limit = 10;',
+      '    return limit;',
+      '  }',
+      '}'
+    ].join('\n');
+    const ast = await astParser.parseCode(code, 'typescript');
+    const table = analyzer.analyzeSymbols(ast, 'typescript');
+
+    const resolution = analyzer.resolveScopeAt(table, { line: 6, column: 5 });
+
+    expect(resolution.scope.id).toBe('global.Queue.push');
+    expect(resolution.scope.range!.start.line).toBe(4);
+    expect(resolution.scopeChain.map(scope => scope.id)).toEqual(['global.Queue.push', 'global.Queue', 'global']);
+    expect(resolution.visibleSymbols.find(symbol => symbol.name === 'limit')!.scope).toBe('global.Queue.push');
+    expect(resolution.visibleSymbols.map(symbol => symbol.name)).not.toContain('items');
+  });
+
+  it('should declare TypeScript parameters and scope blocks, loops and catch clauses', async () => {
+    const code = [
+      'function f(a, { b }) {',
+      '  if (a) {',
+      '    let y = 1;',
+      '    var hoisted = y;',
+      '  }',
+      '  for (const item of [a]) {',
+      '    items.forEach(each => each + item);',
+      '  }',
+      '  try {} catch (error) { return error; }',
+      '}'
+    ].join('\n');
+    const ast = await astParser.parseCode(code, 'typescript');
+    const table = analyzer.analyzeSymbols(ast, 'typescript');
+
+    const inBlock = analyzer.resolveScopeAt(table, { line: 3, column: 15 });
+    expect(inBlock.scopeChain.map(scope => scope.id)).toEqual(['global.f.block@2:10', 'global.f', 'global']);
+    expect(inBlock.visibleSymbols.map(symbol => symbol.name)).toEqual(expect.arrayContaining(['y', 'hoisted', 'a', 'b', 'f']));
+
+    const afterBlock = analyzer.resolveScopeAt(table, { line: 9, column: 3 });
+    expect(afterBlock.scope.id).toBe('global.f');
+    expect(afterBlock.visibleSymbols.map(symbol => symbol.name).sort()).toEqual(['a', 'b', 'f', 'hoisted']);
+
+    const inCallback = analyzer.resolveScopeAt(table, { line: 7, column: 30 });
+    expect(inCallback.scopeChain.map(scope => scope.id)).toEqual([
+      'global.f.block@6:3.function@7:19', 'global.f.block@6:3', 'global.f', 'global'
+    ]);
+    expect(inCallback.visibleSymbols.map(symbol => symbol.name)).toEqual(expect.arrayContaining(['each', 'item']));
+
+    const inCatch = analyzer.resolveScopeAt(table, { line: 9, column: 30 });
+    expect(inCatch.visibleSymbols.find(symbol => symbol.name === 'error')!.scope).toBe('global.f.block@9:10');
+  });
+});
@@ -0,0 +1,130 @@
+import { ScopedSymbolTable, qualifyName } from '../../src/context/symbol-table';
+import { SymbolAnalyzer } from '../../src/context/symbol-analyzer';
+import { MultiLanguageASTParser } from '../../src/context/ast-parser';
+import { Symbol } from '../../src/interfaces/context';
+
+function symbol(name: string, type: Symbol['type'], scope: string, line: number, column = 1): Symbol {
+  return { name, type, scope, location: { line, column, file: 'test.ts' } };
+}
+
+describe('ScopedSymbolTable', () => {
+  let table: ScopedSymbolTable;
+
+  beforeEach(() => {
+    table = new ScopedSymbolTable();
+    table.scopes.push(
+      { id: 'global', type: 'global', variables: [], functions: [] },
+      { id: 'global.Box', type: 'class', parent: 'global', variables: [], functions: [] },
+      { id: 'global.Box.open', type: 'method', parent: 'global.Box', variables: [], functions: [] }
+    );
+  });
+
+  it('should keep every declaration while the legacy map holds the latest', () => {
+    table.declare(symbol('f', 'function', 'global', 1));
+    table.declare(symbol('f', 'function', 'global', 2));
+
+    expect(table.getDeclarations('f', 'global').map(s => s.location.line)).toEqual([1, 2]);
+    expect(table.symbols.get('global.f')!.location.line).toBe(2);
+    expect(table.getQualifiedNames()).toEqual([qualifyName('global', 'f')]);
+  });
+
+  it('should only include callables in overload sets', () => {
+    table.declare(symbol('f', 'function', 'global', 1));
+    table.declare(symbol('f', 'variable', 'global', 2));
+
+    expect(table.getOverloads('f', 'global')).toHaveLength(1);
+    expect(table.getDeclarations('f', 'global')).toHaveLength(2);
+  });
+
+  it('should resolve names through enclosing scopes, skipping class bodies', () => {
+    table.declare(symbol('size', 'variable', 'global', 1));
+    table.declare(symbol('size', 'property', 'global.Box', 3));
+
+    expect(table.lookup('size', 'global.Box')[0].scope).toBe('global.Box');
+    expect(table.lookup('size', 'global.Box.open')[0].scope).toBe('global');
+    expect(table.lookup('missing', 'global.Box.open')).toEqual([]);
+  });
+
+  it('should find declarations by source location', () => {
+    table.declare(symbol('a', 'variable', 'global', 4, 7));
+    table.declare(symbol('b', 'variable', 'global', 4, 14));
+
+    expect(table.findAt({ line: 4, column: 7 })!.name).toBe('a');
+    expect(table.findAt({ line: 4, column: 15 })!.name).toBe('b');
+    expect(table.findAt({ line: 4, column: 3 })).toBeUndefined();
+    expect(table.findAt({ line: 4, column: 7, file: 'other.ts' })).toBeUndefined();
+  });
+});
+
+describe('ScopedSymbolTable populated by the analyzers', () => {
+  const parser = new MultiLanguageASTParser();
+  const analyzer = new SymbolAnalyzer();
+
+  it('should group TypeScript function and method overloads', async () => {
+    const code = [
+      'function format(value: string): string;',
+      'function format(value: number): string;',
+      'function format(value: any): string { return String(value); }',
+      'class Store {',
+      '  get(key: string): string;',
+      '  get(key: number): string;',
+      '  get(key: any): string { return key; }',
+      '}'
+    ].join('\n');
+    const ast = await parser.parseCode(code, 'typescript');
+    const table = analyzer.analyzeSymbols(ast, 'typescript');
+
+    expect(table.getOverloads('format', 'global').map(s => s.location.line)).toEqual([1, 2, 3]);
+    expect(table.getOverloads('get', 'global.Store')).toHaveLength(3);
+    expect(table.scopes.filter(scope => scope.id === 'global.format')).toHaveLength(1);
+    expect(table.scopes.filter(scope => scope.id === 'global.Store.get')).toHaveLength(1);
+  });
+
+  it('should keep same-named locals of different functions apart and resolve shadowing', async () => {
+    const code = [
+      'const x = 0;',
+      'function first() {',
+      '  const x = 1;',
+      '}',
+      'function second() {',
+      '  let y = x;',
+      '}'
+    ].join('\n');
+    const ast = await parser.parseCode(code, 'typescript');
+    const table = analyzer.analyzeSymbols(ast, 'typescript');
+
+    expect(table.getDeclarations('x', 'global.first')[0].location.line).toBe(3);
+    expect(table.lookup('x', 'global.first')[0].scope).toBe('global.first');
+    expect(table.lookup('x', 'global.second')[0].scope).toBe('global');
+  });
+
+  it('should declare destructured names but not the names they refer to', async () => {
+    const code = 'const { a, b: c, [key]: d = fallback, ...rest } = source;\nconst [e, [f]]: Pair = list;';
+    const ast = await parser.parseCode(code, 'typescript');
+    const table = analyzer.analyzeSymbols(ast, 'typescript');
+
+    expect(table.scopes[0].variables).toEqual(['a', 'c', 'd', 'rest', 'e', 'f']);
+  });
+
+  it('should keep every Python redefinition, including nested functions', async () => {
+    const code = [
+      'def handler():',
+      '    def run():',
+      '        pass',
+      'def worker():',
+      '    def run():',
+      '        pass',
+      'if fast:',
+      '    def handler(): pass',
+      'else:',
+      '    def handler(): pass'
+    ].join('\n');
+    const ast = await parser.parseCode(code, 'python');
+    const table = analyzer.analyzeSymbols(ast, 'python');
+
+    expect(table.getDeclarations('handler', 'global')).toHaveLength(3);
+    expect(table.getDeclarations('run', 'global.handler')).toHaveLength(1);
+    expect(table.getDeclarations('run', 'global.worker')).toHaveLength(1);
+    expect(table.findAt({ line: 5, column: 5 })!.scope).toBe('global.worker');
+  });
+});
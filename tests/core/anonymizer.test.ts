@@ -0,0 +1,149 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DataAnonymizer, loadInstallSalt } from '../../src/core/anonymizer';
+import { BehavioralAction, ActionType, ContextSnapshot } from '../../src/interfaces/behavioral';
+import { ContextSwitch } from '../../src/behavioral/sequence-tracker';
+
+describe('DataAnonymizer', () => {
+  const salt = 'test-install-salt';
+  const timestamp = Date.UTC(2024, 2, 10, 14, 37, 12);
+
+  const action: BehavioralAction = {
+    type: ActionType.FILE_SWITCH,
+    timestamp,
+    duration: 120,
+    metadata: { fileName: '/home/alice/project/src/auth.ts', eventType: 'focus', text: 'secret', hashedKey: 'key_1' }
+  };
+
+  const contextSwitch: ContextSwitch = {
+    timestamp: new Date(timestamp),
+    fromContext: '/home/alice/project/src/auth.ts',
+    toContext: '/home/alice/project/README.md',
+    duration: 3000,
+    reason: 'file_switch'
+  };
+
+  const snapshot = (fileType: string, timeOfDay: number, projectContext: string = 'src/main.ts'): ContextSnapshot => ({
+    fileType,
+    projectContext,
+    timeOfDay,
+    sessionDuration: 17 * 60 * 1000
+  });
+
+  describe('basic level', () => {
+    const anonymizer = new DataAnonymizer({ level: 'basic', salt });
+
+    it('should pseudonymize user ids stably per salt', () => {
+      const [first] = anonymizer.anonymize([{ userId: 'alice' }]);
+      const [second] = anonymizer.anonymize([{ userId: 'alice' }]);
+      const [other] = new DataAnonymizer({ level: 'basic', salt: 'other-install' }).anonymize([{ userId: 'alice' }]);
+
+      expect(first.userId).toMatch(/^user_[0-9a-f]{16}$/);
+      expect(second.userId).toBe(first.userId);
+      expect(other.userId).not.toBe(first.userId);
+    });
+
+    it('should hash paths keeping the extension and drop raw content', () => {
+      const [anonymized] = anonymizer.anonymize([action]);
+
+      expect(anonymized.metadata.fileName).toMatch(/^file_[0-9a-f]{12}\.ts$/);
+      expect(anonymized.metadata.text).toBeUndefined();
+      expect(anonymized.metadata.hashedKey).toBe('key_1');
+      expect(anonymized.timestamp).toBe(timestamp);
+      expect(action.metadata.text).toBe('secret');
+    });
+
+    it('should hash context switch file names', () => {
+      const [anonymized] = anonymizer.anonymize([contextSwitch]);
+
+      expect(anonymized.fromContext).toMatch(/^file_[0-9a-f]{12}\.ts$/);
+      expect(anonymized.toContext).toMatch(/^file_[0-9a-f]{12}\.md$/);
+      expect(anonymized.timestamp).toEqual(contextSwitch.timestamp);
+    });
+  });
+
+  describe('advanced level', () => {
+    const anonymizer = new DataAnonymizer({ level: 'advanced', salt });
+
+    it('should bucket timestamps to five minutes', () => {
+      const [anonymizedAction, anonymizedSwitch] = anonymizer.anonymize([action, contextSwitch]);
+
+      expect(anonymizedAction.timestamp).toBe(Date.UTC(2024, 2, 10, 14, 35));
+      expect(anonymizedSwitch.timestamp).toEqual(new Date(Date.UTC(2024, 2, 10, 14, 35)));
+    });
+
+    it('should reduce paths to extensions and keep allowlisted metadata only', () => {
+      const [anonymized] = anonymizer.anonymize([action]);
+
+      expect(anonymized.metadata).toEqual({ eventType: 'focus' });
+    });
+
+    it('should generalize project context and session duration in snapshots', () => {
+      const [anonymized] = anonymizer.anonymize([snapshot('ts', 14)]);
+
+      expect(anonymized.projectContext).toBe('*.ts');
+      expect(anonymized.sessionDuration).toBe(15 * 60 * 1000);
+    });
+  });
+
+  describe('strict level', () => {
+    const anonymizer = new DataAnonymizer({ level: 'strict', salt, kAnonymity: 3 });
+
+    it('should remove identifiers and metadata and bucket to the hour', () => {
+      const [anonymized] = anonymizer.anonymize([{ userId: 'alice', sessionId: 's1', ...action }]);
+
+      expect(anonymized.userId).toBeUndefined();
+      expect(anonymized.sessionId).toBeUndefined();
+      expect(anonymized.metadata).toEqual({});
+      expect(anonymized.timestamp).toBe(Date.UTC(2024, 2, 10, 14));
+    });
+
+    it('should generalize snapshots until every context occurs at least k times', () => {
+      const snapshots = [
+        snapshot('ts', 9), snapshot('ts', 10), snapshot('tsx', 11),
+        snapshot('py', 14), snapshot('js', 15), snapshot('ts', 16)
+      ];
+
+      const anonymized = anonymizer.anonymize(snapshots) as ContextSnapshot[];
+      const classes = new Map<string, number>();
+      anonymized.forEach(s => {
+        const key = `${s.fileType}|${s.projectContext}|${s.timeOfDay}|${s.sessionDuration}`;
+        classes.set(key, (classes.get(key) || 0) + 1);
+      });
+
+      expect(Math.min(...Array.from(classes.values()))).toBeGreaterThanOrEqual(3);
+      expect(anonymized.some(s => s.fileType === 'code')).toBe(true);
+    });
+
+    it('should generalize snapshots nested in patterns', () => {
+      const patterns = [1, 2, 3].map(i => ({ id: `p${i}`, userId: 'alice', context: snapshot('ts', i) }));
+
+      const anonymized = anonymizer.anonymize(patterns);
+
+      expect(new Set(anonymized.map(p => p.context.timeOfDay)).size).toBe(1);
+    });
+
+    it('should drop records whose snapshots stay below k after full generalization', () => {
+      const patterns = [1, 2].map(i => ({ id: `p${i}`, context: snapshot('ts', i) }));
+
+      const anonymized = anonymizer.anonymize([...patterns, { typingSpeed: 40 }]);
+
+      expect(anonymized).toEqual([{ typingSpeed: 40 }]);
+    });
+  });
+
+  describe('loadInstallSalt', () => {
+    it('should create the salt once and reuse it', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'anonymizer-'));
+      const saltFile = path.join(directory, 'nested', 'salt');
+
+      const first = loadInstallSalt(saltFile);
+      const second = loadInstallSalt(saltFile);
+
+      expect(first).toMatch(/^[0-9a-f]{64}$/);
+      expect(second).toBe(first);
+      fs.rmSync(directory, { recursive: true, force: true });
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { DifferentialPrivacyManager } from '../../src/core/privacy-manager';
+import { BehavioralMetrics } from '../../src/interfaces/behavioral';
+
+describe('DifferentialPrivacyManager', () => {
+  const metrics: BehavioralMetrics = {
+    typingSpeed: 60,
+    pausePatterns: [3, 1, 0],
+    decisionTime: 800,
+    contextSwitches: 2,
+    fatigueLevel: 0.4
+  };
+
+  // Deterministic pseudo-random source for reproducible noise
+  const seededRandom = (seed: number) => () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+
+  const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+  const variance = (values: number[]) => {
+    const average = mean(values);
+    return mean(values.map(value => (value - average) ** 2));
+  };
+
+  describe('noise mechanisms', () => {
+    it('should produce unbiased Laplace noise with variance 2b^2', () => {
+      const manager = new DifferentialPrivacyManager({}, { random: seededRandom(1) });
+      const samples = Array.from({ length: 20000 }, () => manager.sampleNoise(1, 0.5));
+
+      expect(Math.abs(mean(samples))).toBeLessThan(0.1);
+      expect(variance(samples)).toBeCloseTo(2 * 2 * 2, 0);
+    });
+
+    it('should calibrate Gaussian noise to epsilon and delta', () => {
+      const manager = new DifferentialPrivacyManager({}, { mechanism: 'gaussian', delta: 1e-5, random: seededRandom(2) });
+      const samples = Array.from({ length: 20000 }, () => manager.sampleNoise(1, 1));
+      const sigma = Math.sqrt(2 * Math.log(1.25 / 1e-5));
+
+      expect(Math.sqrt(variance(samples)) / sigma).toBeCloseTo(1, 1);
+    });
+
+    it('should cap the Gaussian calibration at epsilon 1', () => {
+      const manager = new DifferentialPrivacyManager({}, { mechanism: 'gaussian', delta: 1e-5, random: seededRandom(2) });
+      const samples = Array.from({ length: 20000 }, () => manager.sampleNoise(1, 4));
+      const sigma = Math.sqrt(2 * Math.log(1.25 / 1e-5));
+
+      expect(Math.sqrt(variance(samples)) / sigma).toBeCloseTo(1, 1);
+    });
+
+    it('should split the charged epsilon across the elements of an array field', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1e6 }, {
+        bounds: { pausePatterns: [-Infinity, Infinity] },
+        random: seededRandom(5)
+      });
+      const records = Array.from({ length: 2000 }, () => ({ pausePatterns: [0, 0, 0] }));
+
+      const released = manager.applyDifferentialPrivacy(records, 1.5);
+      const chargedPerRecord = manager.getBudgetLedger()[0].epsilon / records.length;
+      // Sensitivity 1 per element, with the record's epsilon shared by 3 elements
+      const scale = 1 / (chargedPerRecord / 3);
+
+      expect(variance(released.flatMap(record => record.pausePatterns)) / (2 * scale ** 2)).toBeCloseTo(1, 1);
+    });
+
+    it('should split epsilon across a top-level numeric array', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1e6 }, { random: seededRandom(7) });
+      const released = manager.applyDifferentialPrivacy(Array.from({ length: 3000 }, () => [0, 0]), 1);
+
+      // Each element gets epsilon 0.5, so b = 2 and the variance is 2b^2 = 8
+      expect(variance(released.flat()) / 8).toBeCloseTo(1, 1);
+    });
+
+    it('should perturb every numeric metric and respect field bounds', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 10 }, { random: seededRandom(3) });
+      const [noisy] = manager.applyDifferentialPrivacy([metrics], 0.1);
+
+      expect(noisy).not.toEqual(metrics);
+      expect(noisy.pausePatterns).toHaveLength(3);
+      expect(noisy.fatigueLevel).toBeGreaterThanOrEqual(0);
+      expect(noisy.fatigueLevel).toBeLessThanOrEqual(1);
+      expect(noisy.typingSpeed).toBeGreaterThanOrEqual(0);
+      expect(metrics.typingSpeed).toBe(60);
+    });
+
+    it('should return copies unchanged when differential privacy is disabled', () => {
+      const manager = new DifferentialPrivacyManager({ enableDifferentialPrivacy: false });
+      const [copy] = manager.applyDifferentialPrivacy([metrics], 0.5);
+
+      expect(copy).toEqual(metrics);
+      expect(copy).not.toBe(metrics);
+      expect(manager.getPrivacyBudget()).toBe(1);
+    });
+  });
+
+  describe('randomized response', () => {
+    it('should keep the true value with probability e^eps / (e^eps + k - 1) over the domain and other', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1e6 }, { random: seededRandom(4) });
+      const domain = ['keystroke', 'file_switch', 'code_edit', 'mouse_click'];
+      const epsilon = Math.log(3);
+
+      const responses = Array.from({ length: 10000 }, () => manager.applyRandomizedResponse('keystroke', domain, epsilon));
+      const kept = responses.filter(response => response === 'keystroke').length / responses.length;
+
+      expect(kept).toBeCloseTo(3 / (3 + 4), 1);
+      expect(responses.every(response => [...domain, 'other'].includes(response))).toBe(true);
+    });
+
+    it('should never report a value outside the domain', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1e6 }, { random: seededRandom(6) });
+      const domain = ['keystroke', 'file_switch'];
+
+      const responses = Array.from({ length: 1000 }, () => manager.applyRandomizedResponse('secret_action', domain, 5));
+
+      expect(new Set(responses)).toEqual(new Set([...domain, 'other']));
+      expect(responses.filter(response => response === 'other').length).toBeGreaterThan(900);
+    });
+
+    it('should apply to categorical fields with a configured domain', () => {
+      const manager = new DifferentialPrivacyManager({}, {
+        categoricalDomains: { type: ['keystroke', 'file_switch'] },
+        random: () => 0.99
+      });
+
+      const [noisy] = manager.applyDifferentialPrivacy([{ type: 'keystroke', label: 'kept' }], 0.1);
+
+      expect(noisy.type).toBe('other');
+      expect(noisy.label).toBe('kept');
+    });
+  });
+
+  describe('budget accounting', () => {
+    it('should compose spent epsilon per user', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1 });
+
+      manager.applyDifferentialPrivacy([metrics], 0.4, 'alice');
+      manager.applyDifferentialPrivacy([metrics], 0.4, 'alice');
+
+      expect(manager.getPrivacyBudget('alice')).toBeCloseTo(0.2);
+      expect(manager.getPrivacyBudget('bob')).toBe(1);
+      expect(manager.getBudgetLedger('alice')).toHaveLength(2);
+    });
+
+    it('should charge epsilon for every record of a release', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1 });
+
+      manager.applyDifferentialPrivacy([metrics, metrics, metrics], 0.2, 'alice');
+
+      expect(manager.getPrivacyBudget('alice')).toBeCloseTo(0.4);
+      expect(() => manager.applyDifferentialPrivacy([metrics, metrics, metrics], 0.2, 'alice')).toThrow('Privacy budget exhausted');
+    });
+
+    it('should refuse releases once the budget is exhausted', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 0.5 });
+      manager.applyDifferentialPrivacy([metrics], 0.5, 'alice');
+
+      expect(manager.checkPrivacyCompliance('share_metrics', 'alice')).toBe(false);
+      expect(() => manager.applyDifferentialPrivacy([metrics], 0.1, 'alice')).toThrow('Privacy budget exhausted for user alice');
+      expect(manager.checkPrivacyCompliance('share_metrics', 'bob')).toBe(true);
+    });
+
+    it('should check operation costs against the remaining budget', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1 }, { operationCosts: { export: 0.8 } });
+      manager.applyDifferentialPrivacy([1], 0.3);
+
+      expect(manager.checkPrivacyCompliance('export')).toBe(false);
+      expect(manager.checkPrivacyCompliance('train')).toBe(true);
+    });
+
+    it('should renew the budget in each time window', () => {
+      let now = 0;
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1 }, { budgetWindow: 1000, now: () => now });
+
+      manager.applyDifferentialPrivacy([1], 1, 'alice');
+      expect(manager.getPrivacyBudget('alice')).toBe(0);
+
+      now = 1000;
+      expect(manager.getPrivacyBudget('alice')).toBe(1);
+    });
+
+    it('should reset budgets per user', () => {
+      const manager = new DifferentialPrivacyManager({ privacyBudget: 1 });
+      manager.applyDifferentialPrivacy([1], 1, 'alice');
+      manager.applyDifferentialPrivacy([1], 1, 'bob');
+
+      manager.resetPrivacyBudget('alice');
+
+      expect(manager.getPrivacyBudget('alice')).toBe(1);
+      expect(manager.getPrivacyBudget('bob')).toBe(0);
+    });
+
+    it('should reject non-positive epsilon', () => {
+      const manager = new DifferentialPrivacyManager();
+      expect(() => manager.applyDifferentialPrivacy([1], 0)).toThrow('Epsilon must be a positive number');
+    });
+  });
+
+  describe('anonymizeData', () => {
+    it('should anonymize at the configured level', () => {
+      const basic = new DifferentialPrivacyManager({ anonymizationLevel: 'basic' }, { salt: 'install' });
+      const strict = new DifferentialPrivacyManager({ anonymizationLevel: 'strict' }, { salt: 'install' });
+      const record = { userId: 'alice', sessionId: 's1', typingSpeed: 40 };
+
+      expect(basic.anonymizeData([record])[0].userId).toMatch(/^user_[0-9a-f]{16}$/);
+      expect(strict.anonymizeData([record])[0]).toEqual({ typingSpeed: 40 });
+    });
+
+    it('should pseudonymize with the install salt across managers', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'privacy-'));
+      const saltFile = path.join(directory, 'salt');
+
+      try {
+        const first = new DifferentialPrivacyManager({}, { saltFile }).anonymizeData([{ userId: 'alice' }]);
+        const second = new DifferentialPrivacyManager({}, { saltFile }).anonymizeData([{ userId: 'alice' }]);
+
+        expect(fs.existsSync(saltFile)).toBe(true);
+        expect(second[0].userId).toBe(first[0].userId);
+      } finally {
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
+    });
+  });
+});
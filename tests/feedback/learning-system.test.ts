@@ -0,0 +1,216 @@
+import { FeedbackLearningSystemImpl } from '../../src/feedback/learning-system';
+import { LearnableModel } from '../../src/interfaces/feedback';
+import { PredictionFeedback, PredictionContext } from '../../src/interfaces/prediction';
+import { MarkovPatternRecognitionEngine } from '../../src/prediction/pattern-recognition';
+import { ActionType, PredictionType, ArchitecturalPattern, IndentationStyle, NamingConvention } from '../../src/interfaces/common';
+
+class CounterModel implements LearnableModel<{ accepted: number; seen: string[] }> {
+  accepted = 0;
+  seen: string[] = [];
+  failOn: string | null = null;
+
+  applyFeedback(feedback: PredictionFeedback): void {
+    if (feedback.feedback.predictionId === this.failOn) {
+      throw new Error('Corrupt feedback');
+    }
+    this.seen.push(feedback.feedback.predictionId);
+    if (feedback.feedback.accepted) this.accepted++;
+  }
+
+  exportState() {
+    return { accepted: this.accepted, seen: this.seen };
+  }
+
+  importState(state: { accepted: number; seen: string[] }): void {
+    this.accepted = state.accepted;
+    this.seen = state.seen;
+  }
+}
+
+describe('FeedbackLearningSystemImpl', () => {
+  let model: CounterModel;
+  let system: FeedbackLearningSystemImpl;
+
+  const context = {
+    currentCode: '',
+    cursorPosition: 0,
+    fileContext: {} as PredictionContext['fileContext'],
+    projectContext: {
+      projectId: 'test',
+      language: 'typescript',
+      framework: 'none',
+      architecture: ArchitecturalPattern.MVC,
+      dependencies: [],
+      codeStyle: {
+        indentation: IndentationStyle.SPACES_2,
+        naming: NamingConvention.CAMEL_CASE,
+        structure: { maxLineLength: 100, bracketStyle: 'same-line', importStyle: 'grouped' },
+        patterns: []
+      },
+      qualityMetrics: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+    },
+    behavioralState: { typingSpeed: 40, pausePatterns: [], decisionTime: 0, contextSwitches: 0, fatigueLevel: 0 },
+    recentActions: []
+  } as PredictionContext;
+
+  const feedback = (id: string, accepted: boolean, confidence: number = 0.8, rating?: number): PredictionFeedback => ({
+    prediction: { code: 'x', confidence, reasoning: '', type: PredictionType.CODE_COMPLETION },
+    feedback: { predictionId: id, accepted, rating, timestamp: new Date() },
+    context
+  });
+
+  beforeEach(() => {
+    model = new CounterModel();
+    system = new FeedbackLearningSystemImpl({ counter: model }, { batchSize: 3, updateFrequency: 60000 });
+  });
+
+  describe('batching', () => {
+    it('should wait for a full batch before updating', async () => {
+      await system.processFeedback(feedback('a', true));
+      await system.processFeedback(feedback('b', true));
+
+      expect(model.seen).toEqual([]);
+      expect(system.getPendingFeedbackCount()).toBe(2);
+
+      await system.processFeedback(feedback('c', false));
+
+      expect(model.seen).toEqual(['a', 'b', 'c']);
+      expect(system.getPendingFeedbackCount()).toBe(0);
+      expect(system.getCurrentVersion().version).toBe('v1');
+    });
+
+    it('should update once the update interval has elapsed', async () => {
+      const now = Date.now();
+      const spy = jest.spyOn(Date, 'now').mockReturnValue(now);
+      const timed = new FeedbackLearningSystemImpl({ counter: model }, { batchSize: 10, updateFrequency: 1000 });
+
+      await timed.processFeedback(feedback('a', true));
+      expect(model.seen).toEqual([]);
+
+      spy.mockReturnValue(now + 1000);
+      await timed.processFeedback(feedback('b', true));
+      expect(model.seen).toEqual(['a', 'b']);
+
+      spy.mockRestore();
+    });
+
+    it('should apply pending feedback on flush', async () => {
+      await system.processFeedback(feedback('a', true));
+      await system.flush();
+
+      expect(model.seen).toEqual(['a']);
+    });
+  });
+
+  describe('versions and performance', () => {
+    it('should start from a baseline version', () => {
+      expect(system.getVersionHistory().map(v => v.version)).toEqual(['v0']);
+      expect(system.getModelPerformance().accuracy).toBe(0);
+    });
+
+    it('should record performance metrics with every version', async () => {
+      await system.updateModels([
+        feedback('a', true, 0.9, 5),
+        feedback('b', false, 0.8, 1),
+        feedback('c', true, 0.2, 4),
+        feedback('d', false, 0.1)
+      ]);
+
+      const performance = system.getModelPerformance();
+      expect(performance.accuracy).toBe(0.5);
+      expect(performance.precision).toBe(0.5);
+      expect(performance.recall).toBe(0.5);
+      expect(performance.f1Score).toBe(0.5);
+      expect(performance.userSatisfaction).toBeCloseTo(10 / 15);
+      expect(performance.responseTime).toBe(performance.updateTime);
+      expect(system.getCurrentVersion().metadata).toMatchObject({ batchSize: 4, parent: 'v0' });
+    });
+
+    it('should retain a bounded version history', async () => {
+      const bounded = new FeedbackLearningSystemImpl({ counter: model }, {}, 3);
+      for (let i = 0; i < 5; i++) {
+        await bounded.updateModels([feedback(`p${i}`, true)]);
+      }
+
+      expect(bounded.getVersionHistory().map(v => v.version)).toEqual(['v3', 'v4', 'v5']);
+    });
+  });
+
+  describe('rollbackModel', () => {
+    it('should restore model state from a prior version', async () => {
+      await system.updateModels([feedback('a', true)]);
+      await system.updateModels([feedback('b', true), feedback('c', true)]);
+      expect(model.accepted).toBe(3);
+
+      await system.rollbackModel('v1');
+
+      expect(model.accepted).toBe(1);
+      expect(model.seen).toEqual(['a']);
+      expect(system.getCurrentVersion().version).toBe('v1');
+      expect(system.getModelPerformance()).toEqual(system.getVersionHistory()[1].performance);
+    });
+
+    it('should keep snapshots isolated from later updates', async () => {
+      await system.updateModels([feedback('a', true)]);
+      await system.rollbackModel('v0');
+      await system.updateModels([feedback('b', true)]);
+      await system.rollbackModel('v0');
+
+      expect(model.seen).toEqual([]);
+    });
+
+    it('should reject unknown versions', async () => {
+      await expect(system.rollbackModel('v42')).rejects.toThrow('Unknown model version: v42');
+    });
+
+    it('should leave models untouched when a batch fails', async () => {
+      const other = new CounterModel();
+      const pair = new FeedbackLearningSystemImpl({ counter: model, other });
+      other.failOn = 'bad';
+
+      await expect(pair.updateModels([feedback('good', true), feedback('bad', true)])).rejects.toThrow('Corrupt feedback');
+
+      expect(model.seen).toEqual([]);
+      expect(other.seen).toEqual([]);
+      expect(pair.getVersionHistory()).toHaveLength(1);
+    });
+
+    it('should keep a failed batch queued for the next flush', async () => {
+      model.failOn = 'bad';
+      await system.processFeedback(feedback('good', true));
+      await system.processFeedback(feedback('bad', true));
+
+      await expect(system.flush()).rejects.toThrow('Corrupt feedback');
+      expect(system.getPendingFeedbackCount()).toBe(2);
+
+      model.failOn = null;
+      await system.flush();
+
+      expect(model.seen).toEqual(['good', 'bad']);
+      expect(system.getPendingFeedbackCount()).toBe(0);
+    });
+  });
+
+  describe('with prediction models', () => {
+    it('should roll back a Markov engine to its earlier transition counts', async () => {
+      const engine = new MarkovPatternRecognitionEngine();
+      const markov = new FeedbackLearningSystemImpl({ markov: engine });
+      const withActions = (types: ActionType[]): PredictionFeedback => ({
+        ...feedback('m', true),
+        context: {
+          ...context,
+          recentActions: types.map((type, i) => ({ type, timestamp: i * 1000, duration: 0, metadata: {} }))
+        }
+      });
+
+      await markov.updateModels([withActions([ActionType.KEYSTROKE, ActionType.CODE_EDIT])]);
+      const before = engine.getTransitionProbability(ActionType.CODE_EDIT, [ActionType.KEYSTROKE]);
+
+      await markov.updateModels([withActions([ActionType.KEYSTROKE, ActionType.FILE_SWITCH, ActionType.KEYSTROKE, ActionType.FILE_SWITCH])]);
+      expect(engine.getTransitionProbability(ActionType.CODE_EDIT, [ActionType.KEYSTROKE])).not.toBeCloseTo(before);
+
+      await markov.rollbackModel('v1');
+      expect(engine.getTransitionProbability(ActionType.CODE_EDIT, [ActionType.KEYSTROKE])).toBeCloseTo(before);
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import { ModelUpdater } from '../../src/feedback/model-updater';
+import { LearnableModel } from '../../src/interfaces/feedback';
+import { PredictionFeedback } from '../../src/interfaces/prediction';
+
+class ListModel implements LearnableModel<{ items: Map<string, number> }> {
+  items: Map<string, number> = new Map();
+  failOn: string | null = null;
+
+  applyFeedback(feedback: PredictionFeedback): void {
+    const id = feedback.feedback.predictionId;
+    if (id === this.failOn) throw new Error(`Cannot apply ${id}`);
+    this.items.set(id, (this.items.get(id) || 0) + 1);
+  }
+
+  exportState() {
+    return { items: this.items };
+  }
+
+  importState(state: { items: Map<string, number> }): void {
+    this.items = state.items;
+  }
+}
+
+describe('ModelUpdater', () => {
+  let updater: ModelUpdater;
+  let first: ListModel;
+  let second: ListModel;
+
+  const feedback = (id: string): PredictionFeedback => ({
+    feedback: { predictionId: id, accepted: true, timestamp: new Date() }
+  } as PredictionFeedback);
+
+  beforeEach(() => {
+    updater = new ModelUpdater();
+    first = new ListModel();
+    second = new ListModel();
+    updater.register('first', first);
+    updater.register('second', second);
+  });
+
+  it('should reject duplicate model names', () => {
+    expect(() => updater.register('first', new ListModel())).toThrow('Model already registered: first');
+    expect(updater.getModelNames()).toEqual(['first', 'second']);
+  });
+
+  it('should apply every feedback item to every model', () => {
+    updater.applyBatch([feedback('a'), feedback('b'), feedback('a')]);
+
+    expect(first.items.get('a')).toBe(2);
+    expect(second.items.get('b')).toBe(1);
+  });
+
+  it('should restore all models when one fails mid-batch', () => {
+    updater.applyBatch([feedback('a')]);
+    second.failOn = 'b';
+
+    expect(() => updater.applyBatch([feedback('a'), feedback('b')])).toThrow('Cannot apply b');
+    expect(Array.from(first.items)).toEqual([['a', 1]]);
+    expect(Array.from(second.items)).toEqual([['a', 1]]);
+  });
+
+  it('should take snapshots that later updates cannot mutate', () => {
+    const snapshot = updater.createSnapshot();
+    updater.applyBatch([feedback('a')]);
+
+    updater.restoreSnapshot(snapshot);
+    expect(first.items.size).toBe(0);
+
+    updater.applyBatch([feedback('b')]);
+    updater.restoreSnapshot(snapshot);
+    expect(first.items.size).toBe(0);
+  });
+
+  it('should reject snapshots missing a registered model', () => {
+    const snapshot = updater.createSnapshot();
+    snapshot.delete('second');
+
+    expect(() => updater.restoreSnapshot(snapshot)).toThrow('missing state for models: second');
+  });
+});
@@ -0,0 +1,420 @@
+import * as path from 'path';
+import { ContextualPredictionEngine } from '../../src/prediction/engine';
+import { PredictionContext } from '../../src/interfaces/prediction';
+import { Symbol, ScopeInfo } from '../../src/interfaces/context';
+import { PredictionType, ArchitecturalPattern, IndentationStyle, NamingConvention } from '../../src/interfaces/common';
+
+describe('ContextualPredictionEngine', () => {
+  let engine: ContextualPredictionEngine;
+
+  const location = { line: 1, column: 1, file: 'test.ts' };
+
+  const createContext = (
+    currentCode: string,
+    options: {
+      symbols?: Symbol[];
+      scopes?: ScopeInfo[];
+      scopeId?: string;
+      language?: string;
+      architecture?: ArchitecturalPattern;
+      indentation?: IndentationStyle;
+    } = {}
+  ): PredictionContext => {
+    const scopes = options.scopes || [{ id: 'global', type: 'global', variables: [], functions: [] }];
+    const symbols = new Map<string, Symbol>();
+    (options.symbols || []).forEach(symbol => symbols.set(`${symbol.scope}.${symbol.name}`, symbol));
+
+    return {
+      currentCode,
+      cursorPosition: currentCode.length,
+      fileContext: {
+        ast: { type: options.language === 'python' ? 'Module' : 'SourceFile', children: [], metadata: {} },
+        symbols: { symbols, scopes },
+        scope: scopes.find(scope => scope.id === (options.scopeId || 'global'))!,
+        patterns: [],
+        quality: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+      },
+      projectContext: {
+        projectId: 'test',
+        language: options.language || 'typescript',
+        framework: 'none',
+        architecture: options.architecture || ('monolithic' as ArchitecturalPattern),
+        dependencies: [],
+        codeStyle: {
+          indentation: options.indentation || IndentationStyle.SPACES_2,
+          naming: NamingConvention.CAMEL_CASE,
+          structure: { maxLineLength: 100, bracketStyle: 'same-line', importStyle: 'grouped' },
+          patterns: []
+        },
+        qualityMetrics: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+      },
+      behavioralState: {
+        typingSpeed: 40,
+        pausePatterns: [0, 0, 0],
+        decisionTime: 0,
+        contextSwitches: 0,
+        fatigueLevel: 0
+      },
+      recentActions: []
+    };
+  };
+
+  beforeEach(() => {
+    engine = new ContextualPredictionEngine();
+  });
+
+  describe('code completion', () => {
+    it('should complete identifiers from visible symbols', async () => {
+      const context = createContext('const total = calc', {
+        symbols: [
+          { name: 'calculateTotal', type: 'function', scope: 'global', location },
+          { name: 'unrelated', type: 'variable', scope: 'global', location }
+        ]
+      });
+
+      const predictions = await engine.generatePredictions(context);
+      const completion = predictions.find(p => p.type === PredictionType.CODE_COMPLETION);
+
+      expect(completion).toBeDefined();
+      expect(completion!.code).toBe('ulateTotal()');
+      expect(completion!.reasoning).toContain("'calculateTotal'");
+      expect(predictions.some(p => p.code.includes('unrelated'))).toBe(false);
+    });
+
+    it('should only offer symbols from the enclosing scope chain', async () => {
+      const scopes: ScopeInfo[] = [
+        { id: 'global', type: 'global', variables: [], functions: [] },
+        { id: 'global.a', type: 'function', parent: 'global', variables: [], functions: [] },
+        { id: 'global.b', type: 'function', parent: 'global', variables: [], functions: [] }
+      ];
+      const context = createContext('val', {
+        scopes,
+        scopeId: 'global.a',
+        symbols: [
+          { name: 'valueInA', type: 'variable', scope: 'global.a', location },
+          { name: 'valueInB', type: 'variable', scope: 'global.b', location },
+          { name: 'valueGlobal', type: 'variable', scope: 'global', location }
+        ]
+      });
+
+      const codes = (await engine.generatePredictions(context)).map(p => p.code);
+
+      expect(codes).toContain('ueInA');
+      expect(codes).toContain('ueGlobal');
+      expect(codes).not.toContain('ueInB');
+    });
+
+    it('should rank inner scope symbols above outer ones', async () => {
+      const scopes: ScopeInfo[] = [
+        { id: 'global', type: 'global', variables: [], functions: [] },
+        { id: 'global.fn', type: 'function', parent: 'global', variables: [], functions: [] }
+      ];
+      const context = createContext('item', {
+        scopes,
+        scopeId: 'global.fn',
+        symbols: [
+          { name: 'itemsOuter', type: 'variable', scope: 'global', location },
+          { name: 'itemsInner', type: 'variable', scope: 'global.fn', location }
+        ]
+      });
+
+      const predictions = await engine.generatePredictions(context);
+      expect(predictions[0].code).toBe('sInner');
+    });
+
+    it('should return no completions without an identifier prefix', async () => {
+      const context = createContext('const x = ', {
+        symbols: [{ name: 'value', type: 'variable', scope: 'global', location }]
+      });
+
+      const predictions = await engine.generatePredictions(context);
+      expect(predictions.filter(p => p.type === PredictionType.CODE_COMPLETION)).toEqual([]);
+    });
+
+    it('should complete members of semantically typed receivers', async () => {
+      const store: Symbol = {
+        name: 'store',
+        type: 'variable',
+        scope: 'global',
+        location,
+        semantic: {
+          typeString: 'Store<number>',
+          signatures: [],
+          typeParameters: [],
+          documentation: '',
+          jsDocTags: [],
+          declarations: [location],
+          members: [
+            { name: 'size', kind: 'property', typeString: 'number', documentation: '' },
+            { name: 'get', kind: 'method', typeString: '(key: string) => number', documentation: '' },
+            { name: 'getAll', kind: 'method', typeString: '() => number[]', documentation: '' }
+          ]
+        }
+      };
+      const context = createContext('const value = store.ge', {
+        symbols: [store, { name: 'general', type: 'variable', scope: 'global', location }]
+      });
+
+      const completions = (await engine.generatePredictions(context))
+        .filter(p => p.type === PredictionType.CODE_COMPLETION);
+
+      expect(completions.map(p => p.code)).toEqual(['t()', 'tAll()']);
+      expect(completions[0].reasoning).toContain('Store<number>');
+    });
+
+    it('should not complete members of receivers without type information', async () => {
+      const context = createContext('items.', {
+        symbols: [{ name: 'items', type: 'variable', scope: 'global', location }]
+      });
+
+      const predictions = await engine.generatePredictions(context);
+      expect(predictions.filter(p => p.type === PredictionType.CODE_COMPLETION)).toEqual([]);
+    });
+  });
+
+  describe('function generation', () => {
+    it('should generate a TypeScript function body for an open signature', async () => {
+      const predictions = await engine.generatePredictions(createContext('function parse(input: string) {'));
+      const generated = predictions.find(p => p.type === PredictionType.FUNCTION_GENERATION);
+
+      expect(generated).toBeDefined();
+      expect(generated!.code).toContain("if (input === undefined) {");
+      expect(generated!.code).toContain("throw new Error('parse is not implemented');");
+      expect(generated!.code.endsWith('\n}')).toBe(true);
+    });
+
+    it('should generate a Python function body honoring indentation style', async () => {
+      const predictions = await engine.generatePredictions(
+        createContext('def load_config(path):', { language: 'python', indentation: IndentationStyle.SPACES_4 })
+      );
+      const generated = predictions.find(p => p.type === PredictionType.FUNCTION_GENERATION);
+
+      expect(generated!.code).toBe('\n    """Load config."""\n    raise NotImplementedError');
+    });
+  });
+
+  describe('class generation', () => {
+    it('should generate a constructor calling super for derived classes', async () => {
+      const predictions = await engine.generatePredictions(createContext('class Dog extends Animal {'));
+      const generated = predictions.find(p => p.type === PredictionType.CLASS_GENERATION);
+
+      expect(generated!.code).toContain('constructor() {');
+      expect(generated!.code).toContain('super();');
+      expect(generated!.reasoning).toContain("extends 'Animal'");
+    });
+
+    it('should generate a Python initializer', async () => {
+      const predictions = await engine.generatePredictions(createContext('class Dog:', { language: 'python' }));
+      const generated = predictions.find(p => p.type === PredictionType.CLASS_GENERATION);
+
+      expect(generated!.code).toBe('\n  def __init__(self):\n    pass');
+    });
+  });
+
+  describe('error handling', () => {
+    it('should replace an awaited declaration with a wrapped one that stays in scope', async () => {
+      const code = 'async function run() {\n  const data: Response = await fetch(url);';
+      const predictions = await engine.generatePredictions(createContext(code));
+      const handling = predictions.find(p => p.type === PredictionType.ERROR_HANDLING)!;
+
+      expect(handling.code).toBe(
+        'let data: Response;\n' +
+        '  try {\n' +
+        '    data = await fetch(url);\n' +
+        '  } catch (error) {\n' +
+        "    console.warn('Error fetching data:', error);\n" +
+        '  }'
+      );
+      expect(handling.replaceRange).toEqual({ start: code.indexOf('const'), end: code.length });
+    });
+
+    it('should replace the finished statement on the previous line', async () => {
+      const code = 'async function run() {\n  await save(user);\n  ';
+      const predictions = await engine.generatePredictions(createContext(code));
+      const handling = predictions.find(p => p.type === PredictionType.ERROR_HANDLING)!;
+
+      expect(handling.code).toBe(
+        "try {\n    await save(user);\n  } catch (error) {\n    console.warn('Error in save:', error);\n  }\n  "
+      );
+      expect(code.slice(handling.replaceRange!.start, handling.replaceRange!.end)).toBe('await save(user);\n  ');
+    });
+
+    it('should catch the specific Python exception and bind the target on failure', async () => {
+      const code = 'import logging\n\ndef load(text):\n    value = json.loads(text)';
+      const predictions = await engine.generatePredictions(createContext(code, { language: 'python', indentation: IndentationStyle.SPACES_4 }));
+      const handling = predictions.find(p => p.type === PredictionType.ERROR_HANDLING)!;
+
+      expect(handling.code).toBe(
+        'try:\n' +
+        '        value = json.loads(text)\n' +
+        '    except ValueError as error:\n' +
+        "        logging.warning('Error parsing JSON: %s', error)\n" +
+        '        value = None'
+      );
+      expect(handling.replaceRange).toEqual({ start: code.indexOf('value'), end: code.length });
+    });
+
+    it('should not suggest error handling inside an existing try block', async () => {
+      const predictions = await engine.generatePredictions(
+        createContext('try {\n  const data = await fetch(url);')
+      );
+
+      expect(predictions.some(p => p.type === PredictionType.ERROR_HANDLING)).toBe(false);
+    });
+
+    it('should suggest error handling after a try with both catch and finally', async () => {
+      const predictions = await engine.generatePredictions(createContext(
+        'async function run() {\n  try {\n    a();\n  } catch (e) {\n    b();\n  } finally {\n    c();\n  }\n  const data = await fetch(url);'
+      ));
+
+      expect(predictions.some(p => p.type === PredictionType.ERROR_HANDLING)).toBe(true);
+    });
+  });
+
+  describe('architectural suggestions', () => {
+    it('should suggest repository injection for services', async () => {
+      const predictions = await engine.generatePredictions(
+        createContext('class UserService {', { architecture: ArchitecturalPattern.REPOSITORY })
+      );
+      const suggestion = predictions.find(p => p.type === PredictionType.ARCHITECTURAL_SUGGESTION);
+
+      expect(suggestion!.code).toContain('private readonly userRepository: UserRepository');
+      expect(suggestion!.reasoning).toContain('repository');
+    });
+
+    it('should suggest a shared instance for singleton projects', async () => {
+      const predictions = await engine.generatePredictions(
+        createContext('class Config {', { architecture: ArchitecturalPattern.SINGLETON })
+      );
+      const suggestion = predictions.find(p => p.type === PredictionType.ARCHITECTURAL_SUGGESTION);
+
+      expect(suggestion!.code).toContain('static getInstance(): Config');
+    });
+  });
+
+  describe('test suggestions', () => {
+    const range = (start: number, end: number, file = 'test.ts') => ({
+      start: { line: start, column: 1, file },
+      end: { line: end, column: 2, file }
+    });
+
+    it('should suggest a test file for an uncovered method around the cursor', async () => {
+      const file = path.join('app', 'src', 'cart.py');
+      const context = createContext('class Cart:\n  def total(self, items: list, tax: float = 0.0) -> int:\n    \n', { language: 'python' });
+      context.fileContext.coverage = {
+        lines: { covered: 1, total: 4 },
+        branches: { covered: 0, total: 0 },
+        symbols: [
+          { name: 'Cart', type: 'class', scope: 'global', range: range(1, 6, file), lines: { covered: 1, total: 4 }, branches: { covered: 0, total: 0 } },
+          { name: 'total', type: 'method', scope: 'global.Cart', range: range(2, 5, file), lines: { covered: 0, total: 3 }, branches: { covered: 0, total: 0 } }
+        ]
+      };
+
+      const predictions = await engine.generatePredictions(context);
+      const suggestion = predictions.find(p => p.type === PredictionType.TEST_GENERATION);
+
+      expect(suggestion!.targetFile).toBe(path.join('app', 'tests', 'test_cart.py'));
+      expect(suggestion!.code).toBe(
+        'from cart import Cart\n\n\n' +
+        'def test_cart_total():\n' +
+        '  items = []\n' +
+        '  expected = 0\n' +
+        '  assert Cart().total(items) == expected\n'
+      );
+      expect(suggestion!.confidence).toBeCloseTo(0.5);
+      expect(suggestion!.reasoning).toContain('0/3 lines');
+    });
+
+    it('should build TypeScript test arguments from the signature', async () => {
+      const file = path.join('src', 'pricing', 'discount.ts');
+      const code = 'export async function discount(price: number, rule: Rule, round?: boolean): Promise<number> {\n  \n';
+      const context = createContext(code);
+      context.fileContext.coverage = {
+        lines: { covered: 0, total: 2 },
+        branches: { covered: 0, total: 0 },
+        symbols: [
+          { name: 'discount', type: 'function', scope: 'global', range: range(1, 3, file), lines: { covered: 0, total: 2 }, branches: { covered: 0, total: 0 } }
+        ]
+      };
+
+      const suggestion = (await engine.generatePredictions(context)).find(p => p.type === PredictionType.TEST_GENERATION)!;
+
+      expect(suggestion.targetFile).toBe(path.join('tests', 'pricing', 'discount.test.ts'));
+      expect(suggestion.code).toBe(
+        "import { discount } from '../../src/pricing/discount';\n\n" +
+        "describe('discount', () => {\n" +
+        "  it('should cover the untested paths', async () => {\n" +
+        '    const price: number = 0;\n' +
+        '    const rule = {} as Parameters<typeof discount>[1];\n' +
+        '    const expected: number = 0;\n' +
+        '    expect(await discount(price, rule)).toEqual(expected);\n' +
+        '  });\n' +
+        '});\n'
+      );
+    });
+
+    it('should not suggest tests for covered functions or while typing', async () => {
+      const symbols = [
+        { name: 'run', type: 'function', scope: 'global', range: range(1, 3), lines: { covered: 2, total: 2 }, branches: { covered: 2, total: 2 } }
+      ];
+      const covered = createContext('function run() {\n  \n');
+      covered.fileContext.coverage = { lines: { covered: 2, total: 2 }, branches: { covered: 2, total: 2 }, symbols };
+      const typing = createContext('function run() {\n  ret');
+      typing.fileContext.coverage = { lines: { covered: 0, total: 2 }, branches: { covered: 0, total: 0 }, symbols: [
+        { ...symbols[0], lines: { covered: 0, total: 2 } }
+      ] };
+
+      expect((await engine.generatePredictions(covered)).some(p => p.type === PredictionType.TEST_GENERATION)).toBe(false);
+      expect((await engine.generatePredictions(typing)).some(p => p.type === PredictionType.TEST_GENERATION)).toBe(false);
+    });
+  });
+
+  describe('rankPredictions', () => {
+    it('should rank predictions by confidence', () => {
+      const ranked = engine.rankPredictions([
+        { code: 'a', confidence: 0.2, reasoning: '', type: PredictionType.CODE_COMPLETION },
+        { code: 'b', confidence: 0.8, reasoning: '', type: PredictionType.CODE_COMPLETION }
+      ]);
+
+      expect(ranked.map(r => r.prediction.code)).toEqual(['b', 'a']);
+      expect(ranked.map(r => r.rank)).toEqual([1, 2]);
+    });
+
+    it('should rank against the behavioral state of the last generation', async () => {
+      const context = createContext('function parse(input: string) {');
+      context.behavioralState.fatigueLevel = 0.9;
+
+      const predictions = await engine.generatePredictions(context);
+      const [ranked] = engine.rankPredictions(predictions);
+
+      expect(ranked.behavioralScore).toBeLessThan(1);
+      expect(engine.getRanker().explain(ranked.prediction)).not.toBeNull();
+    });
+  });
+
+  describe('refineWithFeedback', () => {
+    it('should lower confidence for frequently rejected prediction types', async () => {
+      const context = createContext('function parse(input: string) {');
+      const [before] = await engine.generatePredictions(context);
+
+      for (let i = 0; i < 5; i++) {
+        engine.refineWithFeedback(before, { predictionId: `p${i}`, accepted: false, timestamp: new Date() });
+      }
+
+      const [after] = await engine.generatePredictions(context);
+      expect(engine.getAcceptanceRate(PredictionType.FUNCTION_GENERATION)).toBe(0);
+      expect(after.confidence).toBeLessThan(before.confidence);
+    });
+
+    it('should update ranking weights for ranked predictions', async () => {
+      const userEngine = new ContextualPredictionEngine({ userId: 'alice' });
+      const predictions = await userEngine.generatePredictions(createContext('function parse(input: string) {'));
+      const [ranked] = userEngine.rankPredictions(predictions);
+      const before = userEngine.getRanker().getWeights('alice');
+
+      userEngine.refineWithFeedback(ranked.prediction, { predictionId: 'p1', accepted: true, timestamp: new Date() });
+
+      expect(userEngine.getRanker().getWeights('alice')).not.toEqual(before);
+    });
+  });
+});
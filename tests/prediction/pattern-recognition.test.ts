@@ -0,0 +1,226 @@
+import { MarkovPatternRecognitionEngine } from '../../src/prediction/pattern-recognition';
+import { BehavioralSequence, CombinedContext, PredictionFeedback, PredictionContext } from '../../src/interfaces/prediction';
+import { BehavioralAction, ActionType } from '../../src/interfaces/behavioral';
+import { PredictionType, IndentationStyle, NamingConvention, ArchitecturalPattern } from '../../src/interfaces/common';
+
+describe('MarkovPatternRecognitionEngine', () => {
+  let engine: MarkovPatternRecognitionEngine;
+
+  const createActions = (types: ActionType[], metadata: Record<string, any> = {}): BehavioralAction[] =>
+    types.map((type, index) => ({
+      type,
+      timestamp: 1000 + index * 100,
+      duration: 0,
+      metadata: { ...metadata }
+    }));
+
+  const createSequence = (types: ActionType[], hour: number = 10, metadata: Record<string, any> = {}): BehavioralSequence => {
+    const timestamp = new Date(2024, 0, 1, hour);
+    return {
+      userId: 'user-1',
+      actions: createActions(types, metadata),
+      outcome: 'completed',
+      timestamp
+    };
+  };
+
+  const createContext = (recentPatterns: string[], timeOfDay: number = 10, file: string = 'main.ts'): CombinedContext => ({
+    behavioral: {
+      typingSpeed: 40,
+      pausePatterns: [0, 0, 0],
+      decisionTime: 0,
+      contextSwitches: 0,
+      fatigueLevel: 0
+    },
+    code: {
+      ast: { type: 'SourceFile', children: [], metadata: { start: { line: 1, column: 1, file } } },
+      symbols: { symbols: new Map(), scopes: [] },
+      scope: { id: 'global', type: 'global', variables: [], functions: [] },
+      patterns: [],
+      quality: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+    },
+    project: {
+      projectId: 'test',
+      language: 'typescript',
+      framework: 'none',
+      architecture: ArchitecturalPattern.MVC,
+      dependencies: [],
+      codeStyle: {
+        indentation: IndentationStyle.SPACES_2,
+        naming: NamingConvention.CAMEL_CASE,
+        structure: { maxLineLength: 100, bracketStyle: 'same-line', importStyle: 'grouped' },
+        patterns: []
+      },
+      qualityMetrics: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+    },
+    temporal: {
+      timeOfDay,
+      sessionDuration: 0,
+      recentPatterns
+    }
+  });
+
+  const createFeedback = (types: ActionType[]): PredictionFeedback => {
+    const combined = createContext([]);
+    const context: PredictionContext = {
+      currentCode: '',
+      cursorPosition: 0,
+      fileContext: combined.code,
+      projectContext: combined.project,
+      behavioralState: combined.behavioral,
+      recentActions: createActions(types)
+    };
+
+    return {
+      prediction: {
+        code: 'x',
+        confidence: 0.5,
+        reasoning: 'test',
+        type: PredictionType.CODE_COMPLETION
+      },
+      feedback: {
+        predictionId: 'p1',
+        accepted: true,
+        timestamp: new Date(2024, 0, 1, 10)
+      },
+      context
+    };
+  };
+
+  beforeEach(() => {
+    engine = new MarkovPatternRecognitionEngine();
+  });
+
+  describe('predictNextActions', () => {
+    it('should return no predictions before training', async () => {
+      const predictions = await engine.predictNextActions(createContext([ActionType.KEYSTROKE]));
+      expect(predictions).toEqual([]);
+    });
+
+    it('should predict the most frequent follower of the recent history', async () => {
+      await engine.trainBehavioralModel([
+        createSequence([ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.KEYSTROKE]),
+        createSequence([ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.KEYSTROKE]),
+        createSequence([ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK])
+      ]);
+
+      const predictions = await engine.predictNextActions(createContext([ActionType.FILE_SWITCH]));
+
+      expect(predictions[0].action).toBe(ActionType.CODE_EDIT);
+      expect(predictions[0].confidence).toBeGreaterThan(predictions[1].confidence);
+      expect(predictions[0].context).toContain('order-1 history file_switch');
+    });
+
+    it('should use longer histories to disambiguate', async () => {
+      await engine.trainBehavioralModel([
+        createSequence([ActionType.MOUSE_CLICK, ActionType.CODE_EDIT, ActionType.KEYSTROKE]),
+        createSequence([ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.FILE_SWITCH]),
+        createSequence([ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.FILE_SWITCH])
+      ]);
+
+      const afterClick = await engine.predictNextActions(createContext([ActionType.MOUSE_CLICK, ActionType.CODE_EDIT]));
+      const afterSwitch = await engine.predictNextActions(createContext([ActionType.FILE_SWITCH, ActionType.CODE_EDIT]));
+
+      expect(afterClick[0].action).toBe(ActionType.KEYSTROKE);
+      expect(afterSwitch[0].action).toBe(ActionType.FILE_SWITCH);
+    });
+
+    it('should produce confidences forming a probability distribution', async () => {
+      const fullEngine = new MarkovPatternRecognitionEngine({ maxPredictions: 10 });
+      await fullEngine.trainBehavioralModel([
+        createSequence([ActionType.FILE_SWITCH, ActionType.CODE_EDIT, ActionType.KEYSTROKE, ActionType.MOUSE_CLICK]),
+        createSequence([ActionType.KEYSTROKE, ActionType.KEYSTROKE, ActionType.CODE_EDIT], 20, { fileName: 'app.py' })
+      ]);
+
+      const predictions = await fullEngine.predictNextActions(createContext([ActionType.KEYSTROKE], 21, 'app.py'));
+      const total = predictions.reduce((sum, p) => sum + p.confidence, 0);
+
+      expect(predictions).toHaveLength(4);
+      expect(total).toBeCloseTo(1, 10);
+      predictions.forEach(p => {
+        expect(p.confidence).toBeGreaterThan(0);
+        expect(p.confidence).toBeLessThan(1);
+      });
+    });
+
+    it('should condition predictions on time of day and file type', async () => {
+      await engine.trainBehavioralModel([
+        createSequence([ActionType.KEYSTROKE, ActionType.CODE_EDIT], 9, { fileName: 'app.ts' }),
+        createSequence([ActionType.KEYSTROKE, ActionType.CODE_EDIT], 9, { fileName: 'app.ts' }),
+        createSequence([ActionType.KEYSTROKE, ActionType.FILE_SWITCH], 22, { fileName: 'app.py' }),
+        createSequence([ActionType.KEYSTROKE, ActionType.FILE_SWITCH], 22, { fileName: 'app.py' })
+      ]);
+
+      const morning = await engine.predictNextActions(createContext([ActionType.KEYSTROKE], 9, 'main.ts'));
+      const evening = await engine.predictNextActions(createContext([ActionType.KEYSTROKE], 22, 'main.py'));
+
+      expect(morning[0].action).toBe(ActionType.CODE_EDIT);
+      expect(evening[0].action).toBe(ActionType.FILE_SWITCH);
+      expect(morning[0].context).toContain('time:morning');
+      expect(evening[0].context).toContain('file:py');
+    });
+
+    it('should limit the number of predictions', async () => {
+      const limited = new MarkovPatternRecognitionEngine({ maxPredictions: 2 });
+      await limited.trainBehavioralModel([
+        createSequence([ActionType.KEYSTROKE, ActionType.CODE_EDIT, ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK])
+      ]);
+
+      const predictions = await limited.predictNextActions(createContext([]));
+      expect(predictions).toHaveLength(2);
+    });
+  });
+
+  describe('updateModel', () => {
+    it('should learn incrementally from feedback', () => {
+      engine.updateModel(createFeedback([ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK]));
+      const before = engine.getTransitionProbability(ActionType.MOUSE_CLICK, [ActionType.FILE_SWITCH]);
+
+      engine.updateModel(createFeedback([ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK]));
+      const after = engine.getTransitionProbability(ActionType.MOUSE_CLICK, [ActionType.FILE_SWITCH]);
+
+      expect(engine.getVocabulary()).toEqual([ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK]);
+      expect(after).toBeGreaterThan(before);
+    });
+
+    it('should ignore feedback without recent actions', () => {
+      engine.updateModel(createFeedback([]));
+      expect(engine.getVocabulary()).toEqual([]);
+    });
+  });
+
+  describe('detectPatternChange', () => {
+    it('should not report a change with insufficient data', () => {
+      expect(engine.detectPatternChange()).toBe(false);
+    });
+
+    it('should detect when behavior stops matching the learned model', async () => {
+      const sensitive = new MarkovPatternRecognitionEngine({ changeWindowSize: 10 });
+      const routine = [ActionType.FILE_SWITCH, ActionType.CODE_EDIT];
+      const shifted = [ActionType.FILE_SWITCH, ActionType.MOUSE_CLICK];
+
+      await sensitive.trainBehavioralModel(Array.from({ length: 20 }, () => createSequence(routine)));
+      await sensitive.trainBehavioralModel([createSequence([ActionType.MOUSE_CLICK])]);
+
+      for (let i = 0; i < 10; i++) {
+        sensitive.updateModel(createFeedback(routine));
+      }
+      expect(sensitive.detectPatternChange()).toBe(false);
+
+      for (let i = 0; i < 10; i++) {
+        sensitive.updateModel(createFeedback(shifted));
+      }
+      expect(sensitive.detectPatternChange()).toBe(true);
+    });
+  });
+
+  describe('reset', () => {
+    it('should clear all learned statistics', async () => {
+      await engine.trainBehavioralModel([createSequence([ActionType.KEYSTROKE, ActionType.CODE_EDIT])]);
+      engine.reset();
+
+      expect(engine.getVocabulary()).toEqual([]);
+      expect(await engine.predictNextActions(createContext([ActionType.KEYSTROKE]))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import { PredictionRanker } from '../../src/prediction/ranking';
+import { CodePrediction } from '../../src/interfaces/prediction';
+import { BehavioralMetrics } from '../../src/interfaces/behavioral';
+import { CodeContext, Symbol } from '../../src/interfaces/context';
+import { PredictionType } from '../../src/interfaces/common';
+
+describe('PredictionRanker', () => {
+  let ranker: PredictionRanker;
+
+  const prediction = (code: string, confidence: number, type: PredictionType = PredictionType.CODE_COMPLETION): CodePrediction => ({
+    code,
+    confidence,
+    reasoning: 'test',
+    type
+  });
+
+  const metrics = (overrides: Partial<BehavioralMetrics> = {}): BehavioralMetrics => ({
+    typingSpeed: 40,
+    pausePatterns: [0, 0, 0],
+    decisionTime: 0,
+    contextSwitches: 0,
+    fatigueLevel: 0,
+    ...overrides
+  });
+
+  const codeContext = (names: string[], scopeType: string = 'function'): CodeContext => {
+    const symbols = new Map<string, Symbol>();
+    names.forEach(name => symbols.set(name, {
+      name,
+      type: 'variable',
+      scope: 'global',
+      location: { line: 1, column: 1, file: 'test.ts' }
+    }));
+
+    const scopes = [
+      { id: 'global', type: 'global', variables: names, functions: [] },
+      { id: 'global.fn', type: scopeType, parent: 'global', variables: [], functions: [] }
+    ];
+
+    return {
+      ast: { type: 'SourceFile', children: [], metadata: {} },
+      symbols: { symbols, scopes },
+      scope: scopes[1],
+      patterns: [],
+      quality: { complexity: 1, maintainability: 100, testCoverage: 0, codeSmells: 0 }
+    };
+  };
+
+  const longCode = Array.from({ length: 12 }, (_, i) => `line${i}();`).join('\n');
+
+  beforeEach(() => {
+    ranker = new PredictionRanker();
+  });
+
+  describe('rank', () => {
+    it('should compute all scores and sequential ranks', () => {
+      const ranked = ranker.rank([prediction('a', 0.3), prediction('b', 0.9)]);
+
+      expect(ranked.map(r => r.prediction.code)).toEqual(['b', 'a']);
+      expect(ranked.map(r => r.rank)).toEqual([1, 2]);
+      ranked.forEach(r => {
+        expect(r.combinedScore).toBeGreaterThan(0);
+        expect(r.behavioralScore).toBe(1);
+        expect(r.contextScore).toBe(0.5);
+      });
+    });
+
+    it('should suppress long suggestions when fatigue is high', () => {
+      const short = prediction('x', 0.6);
+      const long = prediction(longCode, 0.7);
+
+      const rested = ranker.rank([short, long], { behavioral: metrics({ fatigueLevel: 0 }) });
+      const tired = ranker.rank([short, long], { behavioral: metrics({ fatigueLevel: 0.9 }) });
+
+      expect(rested[0].prediction).toBe(long);
+      expect(tired[0].prediction).toBe(short);
+      expect(ranker.explain(long)!.factors.fatiguePenalty).toBeGreaterThan(0);
+    });
+
+    it('should suppress long suggestions for quick decision makers', () => {
+      const short = prediction('x', 0.6);
+      const long = prediction(longCode, 0.65);
+
+      const ranked = ranker.rank([short, long], { behavioral: metrics({ decisionTime: 50 }) });
+
+      expect(ranked[0].prediction).toBe(short);
+      expect(ranker.explain(long)!.factors.decisionPenalty).toBeGreaterThan(0);
+    });
+
+    it('should favour predictions using symbols available in scope', () => {
+      const known = prediction('total + count', 0.5);
+      const unknown = prediction('foo + bar', 0.5);
+
+      const ranked = ranker.rank([unknown, known], { code: codeContext(['total', 'count']) });
+
+      expect(ranked[0].prediction).toBe(known);
+      expect(ranked[0].contextScore).toBeGreaterThan(ranked[1].contextScore);
+      expect(ranker.explain(known)!.factors.symbolAvailability).toBe(1);
+      expect(ranker.explain(unknown)!.factors.symbolAvailability).toBe(0);
+    });
+
+    it('should treat completion remainders of visible symbols as available', () => {
+      const completion = prediction('alCount', 0.5);
+      ranker.rank([completion], { code: codeContext(['totalCount']) });
+
+      expect(ranker.explain(completion)!.factors.symbolAvailability).toBe(1);
+    });
+
+    it('should penalize class generation inside function scopes', () => {
+      const generated = prediction('class A {}', 0.5, PredictionType.CLASS_GENERATION);
+
+      ranker.rank([generated], { code: codeContext([], 'function') });
+      const inFunction = ranker.explain(generated)!.factors.scopeMatch;
+      ranker.rank([generated], { code: codeContext([], 'global') });
+      const inGlobal = ranker.explain(generated)!.factors.scopeMatch;
+
+      expect(inFunction).toBeLessThan(inGlobal);
+    });
+
+    it('should break ties deterministically', () => {
+      const a = prediction('bbb', 0.5);
+      const b = prediction('aaa', 0.5);
+      const c = prediction('cc', 0.5);
+
+      const first = ranker.rank([a, b, c]).map(r => r.prediction.code);
+      const second = ranker.rank([c, b, a]).map(r => r.prediction.code);
+
+      expect(first).toEqual(['cc', 'aaa', 'bbb']);
+      expect(second).toEqual(first);
+    });
+  });
+
+  describe('explanations', () => {
+    it('should explain why one prediction outranked another', () => {
+      const a = prediction('a', 0.9);
+      const b = prediction('b', 0.2);
+      ranker.rank([b, a]);
+
+      const explanation = ranker.compare(b, a);
+
+      expect(explanation).toContain('Rank 1 outranked rank 2');
+      expect(explanation).toContain('confidence +0.350');
+      expect(ranker.explain(a)!.weights.confidence).toBeCloseTo(0.5);
+    });
+
+    it('should report ties', () => {
+      const a = prediction('a', 0.5);
+      const b = prediction('b', 0.5);
+      ranker.rank([a, b]);
+
+      expect(ranker.compare(a, b)).toContain('tie broken');
+    });
+
+    it('should return null for predictions outside the last ranking', () => {
+      expect(ranker.explain(prediction('a', 0.5))).toBeNull();
+      expect(ranker.compare(prediction('a', 0.5), prediction('b', 0.5))).toContain('most recent ranking');
+    });
+  });
+
+  describe('weight learning', () => {
+    it('should keep weights normalized and per user', () => {
+      const [ranked] = ranker.rank([prediction('a', 0.9)], { behavioral: metrics({ fatigueLevel: 0.9 }) });
+
+      ranker.updateWeights('alice', ranked, true);
+      const alice = ranker.getWeights('alice');
+
+      expect(alice.confidence + alice.behavioral + alice.context).toBeCloseTo(1);
+      expect(ranker.getWeights('bob')).toEqual(ranker.getWeights());
+    });
+
+    it('should shift weight toward signals that predict acceptance', () => {
+      const contextual = prediction('total', 0.1);
+      const context = { code: codeContext(['total']) };
+
+      for (let i = 0; i < 20; i++) {
+        const [ranked] = ranker.rank([contextual], context, 'alice');
+        ranker.updateWeights('alice', ranked, true);
+      }
+
+      const weights = ranker.getWeights('alice');
+      expect(weights.context).toBeGreaterThan(0.25);
+      expect(weights.confidence).toBeLessThan(0.5);
+    });
+
+    it('should use custom weights when set', () => {
+      ranker.setWeights('carol', { confidence: 0, behavioral: 0, context: 2 });
+      expect(ranker.getWeights('carol')).toEqual({ confidence: 0, behavioral: 0, context: 1 });
+    });
+  });
+});
@@ -4,7 +4,11 @@ module.exports = (env, argv) => {
   const isProduction = argv.mode === 'production';
 
   return {
-    entry: './src/index.ts',
+    entry: {
+      index: './src/index.ts',
+      // Loaded by FileAnalysisPool from the output directory
+      'analysis-worker': './src/context/analysis-worker.ts',
+    },
     target: 'node',
     module: {
       rules: [
@@ -19,7 +23,7 @@ module.exports = (env, argv) => {
       extensions: ['.ts', '.js'],
     },
     output: {
-      filename: 'index.js',
+      filename: '[name].js',
       path: path.resolve(__dirname, 'dist'),
       library: 'predictive-development-assistant',
       libraryTarget: 'commonjs2',